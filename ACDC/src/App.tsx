@@ -3,7 +3,12 @@ import { Toaster as Sonner } from "@/components/ui/sonner";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
+import LabNav from "@/components/LabNav";
 import Index from "./pages/Index";
+import Ofdm from "./pages/Ofdm";
+import Cdma from "./pages/Cdma";
+import Pcm from "./pages/Pcm";
+import Sampling from "./pages/Sampling";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -14,8 +19,13 @@ const App = () => (
       <Toaster />
       <Sonner />
       <BrowserRouter>
+        <LabNav />
         <Routes>
           <Route path="/" element={<Index />} />
+          <Route path="/ofdm" element={<Ofdm />} />
+          <Route path="/cdma" element={<Cdma />} />
+          <Route path="/pcm" element={<Pcm />} />
+          <Route path="/sampling" element={<Sampling />} />
           {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
           <Route path="*" element={<NotFound />} />
         </Routes>
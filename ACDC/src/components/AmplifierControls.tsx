@@ -0,0 +1,75 @@
+import React from 'react';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Slider } from '@/components/ui/slider';
+import type { ModulationParams, UpdateParam } from '@/components/modulationParams';
+
+interface AmplifierControlsProps {
+  params: ModulationParams;
+  updateParam: UpdateParam;
+}
+
+const AMPLIFIER_MODEL_NAMES: Record<ModulationParams['amplifierModel'], string> = {
+  none: 'None (linear)',
+  saleh: 'Saleh (TWTA)',
+  rapp: 'Rapp (SSPA)',
+  polynomial: 'Third-Order Polynomial'
+};
+
+const MAX_INPUT_BACKOFF_DB = 20;
+const MAX_RAPP_SMOOTHNESS = 10;
+
+/** The transmitter's power amplifier model and how hard it is driven. */
+const AmplifierControls: React.FC<AmplifierControlsProps> = ({ params, updateParam }) => (
+  <>
+    <div>
+      <Label>Power Amplifier</Label>
+      <Select
+        value={params.amplifierModel}
+        onValueChange={(value) =>
+          updateParam('amplifierModel', value as ModulationParams['amplifierModel'])
+        }
+      >
+        <SelectTrigger className="mt-2">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {Object.entries(AMPLIFIER_MODEL_NAMES).map(([value, name]) => (
+            <SelectItem key={value} value={value}>{name}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+
+    {params.amplifierModel !== 'none' && (
+      <div className="grid grid-cols-2 gap-4">
+        <div className={params.amplifierModel === 'rapp' ? '' : 'col-span-2'}>
+          <Label>Input Back-off: {params.inputBackoffDb} dB</Label>
+          <Slider
+            value={[params.inputBackoffDb]}
+            onValueChange={(value) => updateParam('inputBackoffDb', value[0])}
+            min={0}
+            max={MAX_INPUT_BACKOFF_DB}
+            step={0.5}
+            className="mt-2"
+          />
+        </div>
+        {params.amplifierModel === 'rapp' && (
+          <div>
+            <Label>Knee Smoothness p: {params.rappSmoothness}</Label>
+            <Slider
+              value={[params.rappSmoothness]}
+              onValueChange={(value) => updateParam('rappSmoothness', value[0])}
+              min={0.5}
+              max={MAX_RAPP_SMOOTHNESS}
+              step={0.5}
+              className="mt-2"
+            />
+          </div>
+        )}
+      </div>
+    )}
+  </>
+);
+
+export default AmplifierControls;
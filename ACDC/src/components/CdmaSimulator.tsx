@@ -0,0 +1,453 @@
+import React, { useMemo, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Slider } from '@/components/ui/slider';
+import { Users, Sliders, Shuffle, Waves, Crosshair, Grid3x3, Info } from 'lucide-react';
+import { cdmaSimulate, codeConflicts } from '@/lib/cdma';
+import { parseBits } from '@/lib/modulation';
+import type { CdmaUser, ChannelizationCode, Complex } from '@/lib/types';
+import ConstellationPlot from '@/components/ConstellationPlot';
+import CorrelationMatrix from '@/components/CorrelationMatrix';
+import SignalPlot, { type SignalSeries } from '@/components/SignalPlot';
+
+/** One user's stream as entered in the controls. */
+interface CdmaUserParams {
+  binaryData: string;
+  code: number;
+  /** Chips per bit; only used by OVSF users, Walsh users share `CdmaParams.spreadingFactor`. */
+  spreadingFactor: number;
+  /** Arrival delay in chips. */
+  delay: number;
+}
+
+interface CdmaParams {
+  family: ChannelizationCode;
+  /** Walsh code length. */
+  spreadingFactor: number;
+  /** Chip rate in kchip/s. */
+  chipRate: number;
+  users: CdmaUserParams[];
+}
+
+const FAMILY_NAMES: Record<ChannelizationCode, string> = {
+  walsh: 'Walsh-Hadamard',
+  ovsf: 'OVSF (variable spreading factor)'
+};
+
+const SPREADING_FACTORS = [4, 8, 16, 32];
+const MAX_USERS = 8;
+const USER_COLORS = ['#4fc3f7', '#76ff03', '#ff9800', '#bb86fc', '#f06292', '#ffd54f', '#4db6ac', '#e57373'];
+const BPSK_POINTS: Complex[] = [
+  { re: -1, im: 0 },
+  { re: 1, im: 0 }
+];
+
+const generateRandomBinary = (length: number) =>
+  Array.from({ length }, () => (Math.random() > 0.5 ? '1' : '0')).join('');
+
+const createUser = (code: number, spreadingFactor: number): CdmaUserParams => ({
+  binaryData: generateRandomBinary(8),
+  code,
+  spreadingFactor,
+  delay: 0
+});
+
+const CdmaSimulator: React.FC = () => {
+  const [params, setParams] = useState<CdmaParams>({
+    family: 'walsh',
+    spreadingFactor: 8,
+    chipRate: 64,
+    users: [1, 2, 3].map((code) => createUser(code, 8))
+  });
+
+  const updateParam = <K extends keyof CdmaParams>(key: K, value: CdmaParams[K]) => {
+    setParams((prev) => ({ ...prev, [key]: value }));
+  };
+
+  const updateUser = (index: number, changes: Partial<CdmaUserParams>) => {
+    setParams((prev) => ({
+      ...prev,
+      users: prev.users.map((user, i) => (i === index ? { ...user, ...changes } : user))
+    }));
+  };
+
+  const setUserCount = (count: number) => {
+    setParams((prev) => {
+      if (count <= prev.users.length) {
+        return { ...prev, users: prev.users.slice(0, count) };
+      }
+      // New users take the lowest codes nobody is using yet
+      const users = [...prev.users];
+      while (users.length < count) {
+        const spreadingFactor = prev.family === 'walsh' ? prev.spreadingFactor : users[users.length - 1].spreadingFactor;
+        const used = new Set(users.map((user) => user.code));
+        const code = Array.from({ length: spreadingFactor }, (_, k) => k).find((k) => !used.has(k)) ?? 0;
+        users.push(createUser(code, spreadingFactor));
+      }
+      return { ...prev, users };
+    });
+  };
+
+  const engineUsers = useMemo(
+    (): CdmaUser[] | null => {
+      try {
+        return params.users.map((user) => ({
+          bits: parseBits(user.binaryData),
+          code: user.code,
+          spreadingFactor: params.family === 'walsh' ? params.spreadingFactor : user.spreadingFactor,
+          delay: user.delay
+        }));
+      } catch {
+        return null;
+      }
+    },
+    [params]
+  );
+
+  const simulation = useMemo(() => {
+    if (!engineUsers) {
+      return { result: null, error: 'Every user needs binary data (only 0s and 1s)' };
+    }
+    try {
+      return {
+        result: cdmaSimulate({ family: params.family, users: engineUsers, chipRate: params.chipRate * 1000 }),
+        error: null
+      };
+    } catch (error) {
+      return { result: null, error: (error as Error).message };
+    }
+  }, [engineUsers, params.family, params.chipRate]);
+
+  const conflicts = useMemo(
+    () => (engineUsers ? codeConflicts(params.family, engineUsers) : []),
+    [engineUsers, params.family]
+  );
+
+  const { result } = simulation;
+  const labels = params.users.map((_, index) => `User ${index + 1}`);
+
+  const signalRows = useMemo((): SignalSeries[][] => {
+    if (!result) return [];
+    return [
+      ...result.users.map((user, index) => [
+        { data: user.spread.samples, color: USER_COLORS[index], label: `User ${index + 1} (spread)` }
+      ]),
+      [{ data: result.channel.samples, color: '#FFFFFF', label: 'Channel (sum of all users)' }]
+    ];
+  }, [result]);
+
+  const constellations = useMemo(
+    () => result?.users.map((user) => user.soft.map((value) => ({ re: value, im: 0 }))) ?? [],
+    [result]
+  );
+
+  const hasOffsets = params.users.some((user) => user.delay !== params.users[0].delay);
+  const codeName = (user: CdmaUserParams) =>
+    params.family === 'walsh' ? `W${params.spreadingFactor},${user.code}` : `C${user.spreadingFactor},${user.code}`;
+
+  return (
+    <div className="min-h-screen p-4 space-y-6 animate-fade-in">
+      {/* Header */}
+      <div className="text-center space-y-4 p-8 card-enhanced rounded-xl animate-scale-in">
+        <div className="flex items-center justify-center gap-3 mb-4">
+          <Users className="w-12 h-12 text-primary animate-signal-pulse" />
+          <h1 className="text-5xl font-bold bg-gradient-to-r from-primary to-accent bg-clip-text text-transparent">
+            CDMA Simulator
+          </h1>
+        </div>
+        <p className="text-xl text-muted-foreground max-w-4xl mx-auto leading-relaxed">
+          Share one channel between several users with orthogonal spreading codes, and see what timing offsets do
+          to that orthogonality
+        </p>
+      </div>
+
+      {/* Controls */}
+      <Card className="card-enhanced animate-fade-in" style={{ animationDelay: '0.1s' }}>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-3 text-2xl">
+            <Sliders className="w-8 h-8 text-primary" />
+            CDMA Parameters
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
+            <div>
+              <Label>Code Family</Label>
+              <Select
+                value={params.family}
+                onValueChange={(value) =>
+                  // OVSF users start out on the Walsh code length so their codes stay valid
+                  setParams((prev) => ({
+                    ...prev,
+                    family: value as ChannelizationCode,
+                    users: prev.users.map((user) => ({ ...user, spreadingFactor: prev.spreadingFactor }))
+                  }))
+                }
+              >
+                <SelectTrigger className="mt-2">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(FAMILY_NAMES).map(([value, name]) => (
+                    <SelectItem key={value} value={value}>{name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {params.family === 'walsh' && (
+              <div>
+                <Label>Spreading Factor (code length)</Label>
+                <Select
+                  value={String(params.spreadingFactor)}
+                  onValueChange={(value) => {
+                    const sf = parseInt(value, 10);
+                    setParams((prev) => ({
+                      ...prev,
+                      spreadingFactor: sf,
+                      users: prev.users.map((user) => ({ ...user, code: Math.min(user.code, sf - 1) }))
+                    }));
+                  }}
+                >
+                  <SelectTrigger className="mt-2">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {SPREADING_FACTORS.map((sf) => (
+                      <SelectItem key={sf} value={String(sf)}>{sf} chips/bit</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            <div>
+              <Label>Chip Rate: {params.chipRate} kchip/s</Label>
+              <Slider
+                value={[params.chipRate]}
+                onValueChange={(value) => updateParam('chipRate', value[0])}
+                min={8}
+                max={256}
+                step={8}
+                className="mt-2"
+              />
+            </div>
+            <div>
+              <Label>Users: {params.users.length}</Label>
+              <Slider
+                value={[params.users.length]}
+                onValueChange={(value) => setUserCount(value[0])}
+                min={2}
+                max={MAX_USERS}
+                step={1}
+                className="mt-2"
+              />
+            </div>
+          </div>
+
+          <div className="space-y-3">
+            {params.users.map((user, index) => {
+              const spreadingFactor = params.family === 'walsh' ? params.spreadingFactor : user.spreadingFactor;
+              return (
+                <div
+                  key={index}
+                  className="grid grid-cols-1 lg:grid-cols-[6rem_1fr_9rem_9rem_12rem_auto] gap-3 items-center p-3 rounded-lg bg-muted/50 border border-border"
+                  style={{ borderLeft: `4px solid ${USER_COLORS[index]}` }}
+                >
+                  <div className="font-semibold" style={{ color: USER_COLORS[index] }}>
+                    User {index + 1}
+                    <div className="text-xs text-muted-foreground font-normal">
+                      {+(params.chipRate / spreadingFactor).toFixed(2)} kbps
+                    </div>
+                  </div>
+                  <Input
+                    value={user.binaryData}
+                    onChange={(e) => updateUser(index, { binaryData: e.target.value })}
+                    placeholder="Binary data"
+                    className="font-mono"
+                  />
+                  {params.family === 'ovsf' ? (
+                    <Select
+                      value={String(user.spreadingFactor)}
+                      onValueChange={(value) => {
+                        const sf = parseInt(value, 10);
+                        updateUser(index, { spreadingFactor: sf, code: Math.min(user.code, sf - 1) });
+                      }}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {SPREADING_FACTORS.map((sf) => (
+                          <SelectItem key={sf} value={String(sf)}>SF {sf}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  ) : (
+                    <div className="text-sm text-muted-foreground">SF {spreadingFactor}</div>
+                  )}
+                  <Select
+                    value={String(user.code)}
+                    onValueChange={(value) => updateUser(index, { code: parseInt(value, 10) })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Array.from({ length: spreadingFactor }, (_, k) => (
+                        <SelectItem key={k} value={String(k)}>
+                          Code {params.family === 'walsh' ? `W${spreadingFactor},${k}` : `C${spreadingFactor},${k}`}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <div>
+                    <Label className="text-xs">Timing Offset: {user.delay} chips</Label>
+                    <Slider
+                      value={[user.delay]}
+                      onValueChange={(value) => updateUser(index, { delay: value[0] })}
+                      min={0}
+                      max={4}
+                      step={0.25}
+                      className="mt-2"
+                    />
+                  </div>
+                  <Button
+                    variant="secondary"
+                    size="icon"
+                    onClick={() => updateUser(index, { binaryData: generateRandomBinary(8) })}
+                  >
+                    <Shuffle className="w-4 h-4" />
+                  </Button>
+                </div>
+              );
+            })}
+          </div>
+
+          {simulation.error && <p className="text-sm text-destructive">{simulation.error}</p>}
+          {conflicts.map(([a, b]) => (
+            <p key={`${a}-${b}`} className="text-sm text-warning">
+              Users {a + 1} and {b + 1} use codes {codeName(params.users[a])} and {codeName(params.users[b])}, which
+              are not orthogonal{params.family === 'ovsf' ? ' (one lies below the other in the code tree)' : ''}.
+            </p>
+          ))}
+        </CardContent>
+      </Card>
+
+      {result && (
+        <>
+          {/* Spread Signals */}
+          <Card className="card-enhanced animate-fade-in" style={{ animationDelay: '0.2s' }}>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-3 text-2xl">
+                <Waves className="w-8 h-8 text-primary" />
+                Spread Signals and Channel
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="rounded-lg overflow-hidden border border-border bg-muted/20">
+                {signalRows.map((row, index) => (
+                  <div
+                    key={index}
+                    className={`h-28 relative ${index < signalRows.length - 1 ? 'border-b border-border' : ''}`}
+                  >
+                    <SignalPlot series={row} />
+                  </div>
+                ))}
+              </div>
+              <p className="mt-3 text-sm text-muted-foreground">
+                Every bit is multiplied by the user's code and the results are simply added on the channel. The sum
+                looks like noise, yet each receiver recovers its own bits by correlating with its own code.
+              </p>
+            </CardContent>
+          </Card>
+
+          {/* Per-user Constellations */}
+          <Card className="card-enhanced animate-fade-in" style={{ animationDelay: '0.3s' }}>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-3 text-2xl">
+                <Crosshair className="w-8 h-8 text-primary" />
+                Despread Constellations
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-4 gap-4">
+                {result.users.map((user, index) => (
+                  <div key={index} className="space-y-2">
+                    <div className="h-56 rounded-lg overflow-hidden border border-border bg-muted/20">
+                      <ConstellationPlot
+                        reference={BPSK_POINTS}
+                        symbols={constellations[index]}
+                        color={USER_COLORS[index]}
+                        label={labels[index]}
+                      />
+                    </div>
+                    <div className="text-sm text-center text-muted-foreground">
+                      Bit errors:{' '}
+                      <span className={user.bitErrors > 0 ? 'text-destructive font-semibold' : 'font-semibold'}>
+                        {user.bitErrors} / {user.bits.length}
+                      </span>
+                    </div>
+                  </div>
+                ))}
+              </div>
+              <p className="mt-3 text-sm text-muted-foreground">
+                Correlator output per bit. With aligned orthogonal codes every bit lands exactly on ±1; other users
+                that arrive out of step leak into the correlator and scatter the points, until some cross zero.
+              </p>
+            </CardContent>
+          </Card>
+
+          {/* Cross-correlation */}
+          <Card className="card-enhanced animate-fade-in" style={{ animationDelay: '0.4s' }}>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-3 text-2xl">
+                <Grid3x3 className="w-8 h-8 text-primary" />
+                Code Cross-correlation
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="grid grid-cols-1 xl:grid-cols-2 gap-6">
+                <div className="space-y-3">
+                  <h3 className="text-lg font-semibold text-accent">Aligned</h3>
+                  <CorrelationMatrix matrix={result.correlation} labels={labels} />
+                </div>
+                <div className="space-y-3">
+                  <h3 className="text-lg font-semibold text-accent">
+                    At the Timing Offsets{!hasOffsets && ' (none set)'}
+                  </h3>
+                  <CorrelationMatrix matrix={result.offsetCorrelation} labels={labels} />
+                </div>
+              </div>
+              <p className="mt-3 text-sm text-muted-foreground">
+                Correlation over one bit of the shorter code. Orthogonal codes give an identity matrix only while
+                the users stay chip-synchronous, which is why downlinks use Walsh/OVSF codes and uplinks rely on PN
+                scrambling and tight timing control.
+              </p>
+            </CardContent>
+          </Card>
+        </>
+      )}
+
+      {/* Educational Content */}
+      <Card className="card-enhanced animate-fade-in" style={{ animationDelay: '0.5s' }}>
+        <CardContent className="pt-6">
+          <div className="p-6 rounded-xl bg-muted/50 border-l-4 border-l-primary">
+            <h3 className="text-lg font-semibold mb-3 flex items-center gap-2 text-accent">
+              <Info className="w-5 h-5" />
+              Walsh and OVSF Codes
+            </h3>
+            <p className="text-sm text-muted-foreground leading-relaxed">
+              Walsh codes are the rows of a Hadamard matrix, all of one length. OVSF codes arrange the same codes in
+              a tree where every code C spawns [C, C] and [C, −C], so users can have different spreading factors and
+              bit rates. Two OVSF codes stay orthogonal as long as neither lies below the other in the tree.
+            </p>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default CdmaSimulator;
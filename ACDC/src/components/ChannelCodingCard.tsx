@@ -0,0 +1,328 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { ShieldCheck } from 'lucide-react';
+import { Line } from 'react-chartjs-2';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import {
+  CONVOLUTIONAL_CODES,
+  DEFAULT_REED_SOLOMON,
+  codeRate,
+  interleaverUnit,
+  isParityBit
+} from '@/lib/channelCoding';
+import { interleaverPermutation } from '@/lib/interleaving';
+import { correctableErrors } from '@/lib/reedSolomon';
+import { bpskBer } from '@/lib/ber';
+import type { ChannelCode, ChannelCodingConfig, ReedSolomonCode } from '@/lib/types';
+import TrellisPlot from '@/components/TrellisPlot';
+import SymbolErrorMap, { type SymbolState } from '@/components/SymbolErrorMap';
+import { CHANNEL_CODE_NAMES } from '@/components/modulationParams';
+import type { CodingRun } from '@/components/modulationRun';
+import type { CodedBerRequest, CodedBerUpdate } from '@/workers/codedBer.worker';
+
+interface ChannelCodingCardProps {
+  coding: CodingRun;
+  /** Message bits sent, before the CRC and the code. */
+  dataBits: number;
+  /** Data bits still wrong after decoding. */
+  residualErrors: number;
+  /** Code selected in the controls, which the BER curves are drawn for. */
+  code: ChannelCode;
+  reedSolomon: ReedSolomonCode;
+}
+
+// Coded bits shown together: a byte, a Hamming block, or the outputs of one
+// convolutional encoder step. Reed-Solomon streams are grouped by symbol.
+const CODE_GROUP_SIZES: Record<Exclude<ChannelCode, 'reed-solomon'>, number> = {
+  none: 8,
+  hamming74: 7,
+  hamming1511: 15,
+  conv12: 2,
+  conv13: 3
+};
+
+const codeGroupSize = (config: ChannelCodingConfig) =>
+  config.code === 'reed-solomon' ? interleaverUnit(config) : CODE_GROUP_SIZES[config.code];
+
+const TRELLIS_STEPS = 24;
+const MAX_SHOWN_CODED_BITS = 512;
+const BER_EB_N0_DB = [0, 1, 2, 3, 4, 5, 6, 7, 8];
+const BER_SIMULATION_BITS = 5000;
+
+/**
+ * The coded bitstream of the last run with the errors the decoder fixed,
+ * the Viterbi survivor path or the symbol error maps, and the coded BER
+ * curves of the selected code.
+ */
+const ChannelCodingCard: React.FC<ChannelCodingCardProps> = ({
+  coding,
+  dataBits,
+  residualErrors,
+  code,
+  reedSolomon
+}) => {
+  // Coded and uncoded BER over BPSK and AWGN. The CRC only detects errors,
+  // and interleaving makes no difference to independent errors, so both
+  // are left out of the curves. The coded curves are simulated in a worker
+  // and fill in when it answers.
+  const [codedBer, setCodedBer] = useState<{ hard: number[] | null; soft: number[] | null; error: string | null }>({
+    hard: null,
+    soft: null,
+    error: null
+  });
+  useEffect(() => {
+    const worker = new Worker(new URL('../workers/codedBer.worker.ts', import.meta.url), { type: 'module' });
+    setCodedBer({ hard: null, soft: null, error: null });
+    worker.onmessage = (event: MessageEvent<CodedBerUpdate>) => {
+      const update = event.data;
+      switch (update.type) {
+        case 'curve':
+          setCodedBer((prev) => ({ ...prev, [update.decisions]: update.ber }));
+          break;
+        case 'error':
+          setCodedBer((prev) => ({ ...prev, error: update.message }));
+          worker.terminate();
+          break;
+        case 'done':
+          worker.terminate();
+          break;
+      }
+    };
+    const request: CodedBerRequest = {
+      config: { code, reedSolomon },
+      ebN0Db: BER_EB_N0_DB,
+      soft: CONVOLUTIONAL_CODES[code] !== undefined,
+      bits: BER_SIMULATION_BITS
+    };
+    worker.postMessage(request);
+    return () => worker.terminate();
+  }, [code, reedSolomon]);
+
+  const berChartData = useMemo(() => {
+    let codeName = code === 'none' ? 'Uncoded' : CHANNEL_CODE_NAMES[code];
+    if (code === 'reed-solomon') codeName = `RS(${reedSolomon.n}, ${reedSolomon.k})`;
+    // A log axis cannot show a rate of zero, so error-free points are left out
+    const plotted = (ber: number[]) => ber.map((value) => (value > 0 ? value : null));
+    const curve = (label: string, data: number[], color: string, dashed = false) => ({
+      label,
+      data: plotted(data),
+      borderColor: color,
+      backgroundColor: color,
+      borderWidth: 2,
+      borderDash: dashed ? [6, 4] : undefined,
+      pointRadius: 3,
+      tension: 0.2
+    });
+    return {
+      labels: BER_EB_N0_DB,
+      datasets: [
+        curve('Uncoded BPSK (theory)', BER_EB_N0_DB.map(bpskBer), '#bb86fc', true),
+        ...(codedBer.hard ? [curve(`${codeName}, hard decisions (simulated)`, codedBer.hard, '#4fc3f7')] : []),
+        ...(codedBer.soft ? [curve(`${codeName}, soft decisions (simulated)`, codedBer.soft, '#76ff03')] : [])
+      ]
+    };
+  }, [code, reedSolomon, codedBer]);
+
+  // Channel errors, the start of the survivor path with the steps the
+  // Viterbi decoder corrected, and for block codes the fate of every symbol
+  // in decoder order and in the order it crossed the channel
+  const codingView = useMemo(() => {
+    const { config, coded, transmitted, received, decoding } = coding;
+    const channelErrors = transmitted.reduce((count, bit, i) => count + (bit !== received[i] ? 1 : 0), 0);
+    const conv = CONVOLUTIONAL_CODES[config.code];
+    const correctedSteps = conv
+      ? [...new Set(decoding.corrected.map((i) => Math.floor(i / conv.generators.length)))]
+      : [];
+
+    const unit = interleaverUnit(config);
+    const changed = new Set(decoding.corrected);
+    const decoderStates = Array.from({ length: coded.length / unit }, (_, symbol): SymbolState => {
+      let hit = false;
+      let wrong = false;
+      for (let i = symbol * unit; i < (symbol + 1) * unit; i++) {
+        if (decoding.received[i] !== coded[i]) hit = true;
+        if ((decoding.received[i] ^ (changed.has(i) ? 1 : 0)) !== coded[i]) wrong = true;
+      }
+      return wrong ? 'residual' : hit ? 'corrected' : 'clean';
+    });
+    const channelStates = config.interleaver
+      ? interleaverPermutation(decoderStates.length, config.interleaver).map(
+          (symbol): SymbolState => (symbol < 0 ? 'padding' : decoderStates[symbol])
+        )
+      : decoderStates;
+
+    const rs = config.code === 'reed-solomon' ? config.reedSolomon ?? DEFAULT_REED_SOLOMON : null;
+
+    return {
+      channelErrors,
+      conv,
+      path: decoding.path.slice(0, TRELLIS_STEPS + 1),
+      correctedSteps: correctedSteps.filter((t) => t < TRELLIS_STEPS),
+      rs,
+      decoderStates,
+      channelStates,
+      mapColumns: rs ? rs.n : CODE_GROUP_SIZES[config.code as keyof typeof CODE_GROUP_SIZES]
+    };
+  }, [coding]);
+
+  return (
+    <Card className="card-enhanced animate-fade-in" style={{ animationDelay: '0.27s' }}>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-3 text-2xl">
+          <ShieldCheck className="w-8 h-8 text-primary" />
+          Channel Coding
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-2 md:grid-cols-5 gap-4 text-center">
+          <div className="p-3 rounded-lg bg-muted/50 border border-border">
+            <div className="text-xs text-muted-foreground">Code Rate</div>
+            <div className="text-lg font-semibold">{codeRate(coding.config).toFixed(3)}</div>
+          </div>
+          <div className="p-3 rounded-lg bg-muted/50 border border-border">
+            <div className="text-xs text-muted-foreground">Data → Transmitted Bits</div>
+            <div className="text-lg font-semibold">
+              {dataBits} → {coding.transmitted.length}
+            </div>
+          </div>
+          <div className="p-3 rounded-lg bg-muted/50 border border-border">
+            <div className="text-xs text-muted-foreground">Channel Bit Errors</div>
+            <div className="text-lg font-semibold">{codingView.channelErrors}</div>
+          </div>
+          <div className="p-3 rounded-lg bg-muted/50 border border-border">
+            <div className="text-xs text-muted-foreground">Corrected / Residual</div>
+            <div className="text-lg font-semibold">
+              {coding.decoding.corrected.length} / {residualErrors}
+            </div>
+          </div>
+          <div className="p-3 rounded-lg bg-muted/50 border border-border">
+            <div className="text-xs text-muted-foreground">CRC Check</div>
+            <div
+              className={`text-lg font-semibold ${coding.decoding.crcValid === false ? 'text-destructive' : ''}`}
+            >
+              {coding.decoding.crcValid === null ? '—' : coding.decoding.crcValid ? 'Pass' : 'Fail'}
+            </div>
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Label>Encoded Bitstream</Label>
+          <div className="p-3 rounded-lg bg-muted/50 border border-border font-mono text-sm break-all">
+            {Array.from(coding.decoding.received.slice(0, MAX_SHOWN_CODED_BITS), (bit, i) => {
+              const corrected = coding.decoding.corrected.includes(i);
+              const color =
+                bit !== coding.coded[i]
+                  ? 'text-destructive font-bold'
+                  : isParityBit(coding.config, i)
+                    ? 'text-warning'
+                    : 'text-accent';
+              const groupEnd = (i + 1) % codeGroupSize(coding.config) === 0;
+              return (
+                <span key={i} className={`${color} ${corrected ? 'underline' : ''} ${groupEnd ? 'mr-2' : ''}`}>
+                  {bit}
+                </span>
+              );
+            })}
+            {coding.decoding.received.length > MAX_SHOWN_CODED_BITS && (
+              <span className="text-muted-foreground">
+                … {coding.decoding.received.length - MAX_SHOWN_CODED_BITS} more
+              </span>
+            )}
+          </div>
+          <p className="text-sm text-muted-foreground">
+            The coded bits as the decoder received them{coding.config.interleaver && ', after deinterleaving'}.
+            Bits hit by the channel are red, parity bits amber, and every bit the decoder changed is underlined.
+            {coding.config.crc && ` The last ${Math.max(...coding.config.crc)} data bits before coding are the CRC.`}
+          </p>
+        </div>
+
+        {!codingView.conv && (
+          <div className="space-y-2">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              <div className="space-y-2">
+                <Label>Symbols on the Channel</Label>
+                <SymbolErrorMap states={codingView.channelStates} columns={codingView.mapColumns} />
+              </div>
+              <div className="space-y-2">
+                <Label>Symbols at the Decoder</Label>
+                <SymbolErrorMap states={codingView.decoderStates} columns={codingView.mapColumns} />
+              </div>
+            </div>
+            <p className="text-sm text-muted-foreground">
+              One row per {coding.config.code === 'none' ? 'byte' : 'codeword'}, one cell per{' '}
+              {interleaverUnit(coding.config) > 1 ? `${interleaverUnit(coding.config)}-bit symbol` : 'bit'}.
+              {codingView.rs && (
+                <>
+                  {' '}RS({codingView.rs.n}, {codingView.rs.k}) corrects up to {correctableErrors(codingView.rs)}{' '}
+                  symbol errors per codeword, however many bits of each symbol are wrong.
+                </>
+              )}
+              {coding.config.interleaver
+                ? ' The interleaver sends symbols of different codewords next to each other, so a burst on the channel is spread thinly over many codewords at the decoder.'
+                : ' Without an interleaver a burst on the channel piles up in one or two codewords.'}
+            </p>
+          </div>
+        )}
+
+        {codingView.conv && codingView.path.length > 1 && (
+          <div className="space-y-2">
+            <Label>Viterbi Survivor Path</Label>
+            <div className="h-72 rounded-lg overflow-hidden border border-border">
+              <TrellisPlot
+                code={codingView.conv}
+                path={codingView.path}
+                correctedSteps={codingView.correctedSteps}
+              />
+            </div>
+            <p className="text-sm text-muted-foreground">
+              Encoder states down the side, one column per data bit
+              {codingView.path.length <= TRELLIS_STEPS ? '' : ` (first ${TRELLIS_STEPS} steps)`}. The decoded
+              path is blue where the input bit is 0 and orange where it is 1; corrected steps are ringed in red.
+            </p>
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <Label>Bit Error Rate vs Eb/N0 (BPSK, AWGN)</Label>
+          <div className="h-80 rounded-lg overflow-hidden border border-border bg-muted/20 p-2">
+            <Line
+              data={berChartData}
+              options={{
+                responsive: true,
+                maintainAspectRatio: false,
+                animation: false,
+                plugins: {
+                  legend: { labels: { color: '#FFFFFF' } },
+                  tooltip: { enabled: false }
+                },
+                scales: {
+                  x: {
+                    title: { display: true, text: 'Eb/N0 (dB)', color: '#FFFFFF' },
+                    grid: { color: 'rgba(255, 255, 255, 0.1)' },
+                    ticks: { color: '#FFFFFF' }
+                  },
+                  y: {
+                    type: 'logarithmic',
+                    min: 1e-5,
+                    max: 1,
+                    title: { display: true, text: 'Bit Error Rate', color: '#FFFFFF' },
+                    grid: { color: 'rgba(255, 255, 255, 0.1)' },
+                    ticks: { color: '#FFFFFF' }
+                  }
+                }
+              }}
+            />
+          </div>
+          <p className="text-sm text-muted-foreground">
+            Eb counts the code's overhead, so a code only helps where its curve drops below the uncoded one.
+            Soft decisions give the Viterbi decoder the received amplitudes rather than sliced bits, worth about
+            2 dB. Points with no errors in {BER_SIMULATION_BITS} bits are left off.
+          </p>
+          {codedBer.error && <p className="text-sm text-destructive">{codedBer.error}</p>}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ChannelCodingCard;
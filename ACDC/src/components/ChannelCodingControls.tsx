@@ -0,0 +1,237 @@
+import React from 'react';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Slider } from '@/components/ui/slider';
+import { MAX_SYMBOL_BITS, MIN_SYMBOL_BITS, correctableErrors } from '@/lib/reedSolomon';
+import type { ChannelCode, ReedSolomonCode } from '@/lib/types';
+import {
+  type ChannelErrorModel,
+  type CrcType,
+  type InterleaverType,
+  type ModulationParams,
+  type UpdateParam,
+  CHANNEL_CODE_NAMES
+} from '@/components/modulationParams';
+
+interface ChannelCodingControlsProps {
+  params: ModulationParams;
+  updateParam: UpdateParam;
+  /** Why the custom CRC generator does not parse, if it does not. */
+  crcError: string | null;
+}
+
+const INTERLEAVER_NAMES: Record<InterleaverType, string> = {
+  none: 'None',
+  block: 'Block',
+  convolutional: 'Convolutional'
+};
+
+const ERROR_MODEL_NAMES: Record<ChannelErrorModel, string> = {
+  random: 'Random Bit Errors',
+  burst: 'Single Burst'
+};
+
+const CRC_NAMES: Record<CrcType, string> = {
+  none: 'None',
+  'crc-4': 'CRC-4',
+  'crc-8': 'CRC-8',
+  'crc-16': 'CRC-16 (CCITT)',
+  'crc-32': 'CRC-32',
+  custom: 'Custom'
+};
+
+const MAX_CHANNEL_ERRORS = 8;
+const MAX_BURST_LENGTH = 48;
+const MAX_INTERLEAVER_DEPTH = 16;
+const MAX_INTERLEAVER_SPAN = 64;
+
+/** Channel code, CRC and interleaver, and the bit errors injected ahead of the decoder. */
+const ChannelCodingControls: React.FC<ChannelCodingControlsProps> = ({ params, updateParam, crcError }) => {
+  const reedSolomon: ReedSolomonCode = { n: params.rsN, k: params.rsK, symbolBits: params.rsSymbolBits };
+
+  // Keeps n within the field and k below n
+  const updateReedSolomon = ({ n, k, symbolBits }: ReedSolomonCode) => {
+    const length = Math.min(n, 2 ** symbolBits - 1);
+    updateParam('rsSymbolBits', symbolBits);
+    updateParam('rsN', length);
+    updateParam('rsK', Math.min(k, length - 1));
+  };
+
+  const handleErrorModel = (errorModel: ChannelErrorModel) => {
+    const max = errorModel === 'burst' ? MAX_BURST_LENGTH : MAX_CHANNEL_ERRORS;
+    updateParam('errorModel', errorModel);
+    updateParam('channelErrors', Math.min(params.channelErrors, max));
+  };
+
+  return (
+    <>
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <Label>Channel Code</Label>
+          <Select
+            value={params.channelCode}
+            onValueChange={(value) => updateParam('channelCode', value as ChannelCode)}
+          >
+            <SelectTrigger className="mt-2">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(CHANNEL_CODE_NAMES).map(([value, name]) => (
+                <SelectItem key={value} value={value}>{name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div>
+          <Label>CRC</Label>
+          <Select value={params.crcType} onValueChange={(value) => updateParam('crcType', value as CrcType)}>
+            <SelectTrigger className="mt-2">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(CRC_NAMES).map(([value, name]) => (
+                <SelectItem key={value} value={value}>{name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      {params.crcType === 'custom' && (
+        <div>
+          <Label>CRC Generator</Label>
+          <Input
+            value={params.crcPolynomial}
+            onChange={(e) => updateParam('crcPolynomial', e.target.value)}
+            placeholder="e.g. x^8 + x^2 + x + 1"
+            className="mt-2 font-mono"
+          />
+          {crcError && <p className="mt-2 text-sm text-destructive">{crcError}</p>}
+        </div>
+      )}
+
+      {params.channelCode === 'reed-solomon' && (
+        <>
+          <div>
+            <Label>Symbol Size: {params.rsSymbolBits} bits (GF({2 ** params.rsSymbolBits}))</Label>
+            <Slider
+              value={[params.rsSymbolBits]}
+              onValueChange={(value) => updateReedSolomon({ ...reedSolomon, symbolBits: value[0] })}
+              min={MIN_SYMBOL_BITS}
+              max={MAX_SYMBOL_BITS}
+              step={1}
+              className="mt-2"
+            />
+          </div>
+          <div>
+            <Label>Codeword Length n: {params.rsN} symbols</Label>
+            <Slider
+              value={[params.rsN]}
+              onValueChange={(value) => updateReedSolomon({ ...reedSolomon, n: value[0] })}
+              min={2}
+              max={2 ** params.rsSymbolBits - 1}
+              step={1}
+              className="mt-2"
+            />
+          </div>
+          <div>
+            <Label>
+              Message Length k: {params.rsK} symbols (corrects {correctableErrors(reedSolomon)})
+            </Label>
+            <Slider
+              value={[params.rsK]}
+              onValueChange={(value) => updateReedSolomon({ ...reedSolomon, k: value[0] })}
+              min={1}
+              max={params.rsN - 1}
+              step={1}
+              className="mt-2"
+            />
+          </div>
+        </>
+      )}
+
+      <div>
+        <Label>Interleaver</Label>
+        <Select
+          value={params.interleaverType}
+          onValueChange={(value) => updateParam('interleaverType', value as InterleaverType)}
+        >
+          <SelectTrigger className="mt-2">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {Object.entries(INTERLEAVER_NAMES).map(([value, name]) => (
+              <SelectItem key={value} value={value}>{name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {params.interleaverType !== 'none' && (
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <Label>
+              {params.interleaverType === 'block' ? 'Rows' : 'Branches'}: {params.interleaverDepth}
+            </Label>
+            <Slider
+              value={[params.interleaverDepth]}
+              onValueChange={(value) => updateParam('interleaverDepth', value[0])}
+              min={1}
+              max={MAX_INTERLEAVER_DEPTH}
+              step={1}
+              className="mt-2"
+            />
+          </div>
+          <div>
+            <Label>
+              {params.interleaverType === 'block' ? 'Columns' : 'Branch Delay'}: {params.interleaverSpan}
+            </Label>
+            <Slider
+              value={[params.interleaverSpan]}
+              onValueChange={(value) => updateParam('interleaverSpan', value[0])}
+              min={params.interleaverType === 'block' ? 1 : 0}
+              max={MAX_INTERLEAVER_SPAN}
+              step={1}
+              className="mt-2"
+            />
+          </div>
+        </div>
+      )}
+
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <Label>Channel Errors</Label>
+          <Select
+            value={params.errorModel}
+            onValueChange={(value) => handleErrorModel(value as ChannelErrorModel)}
+          >
+            <SelectTrigger className="mt-2">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(ERROR_MODEL_NAMES).map(([value, name]) => (
+                <SelectItem key={value} value={value}>{name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div>
+          <Label>
+            {params.errorModel === 'burst' ? 'Burst Length' : 'Flipped Bits'}: {params.channelErrors}
+          </Label>
+          <Slider
+            value={[params.channelErrors]}
+            onValueChange={(value) => updateParam('channelErrors', value[0])}
+            min={0}
+            max={params.errorModel === 'burst' ? MAX_BURST_LENGTH : MAX_CHANNEL_ERRORS}
+            step={1}
+            className="mt-2"
+          />
+        </div>
+      </div>
+    </>
+  );
+};
+
+export default ChannelCodingControls;
@@ -0,0 +1,471 @@
+import React from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Slider } from '@/components/ui/slider';
+import { Switch } from '@/components/ui/switch';
+import { isAnalogModulation } from '@/lib/analog';
+import type { MultipathTap } from '@/lib/types';
+import AmplifierControls from '@/components/AmplifierControls';
+import {
+  type ModulationParams,
+  type NoiseMeasure,
+  type UpdateParam,
+  getEditorTaps
+} from '@/components/modulationParams';
+
+interface ChannelControlsProps {
+  params: ModulationParams;
+  updateParam: UpdateParam;
+}
+
+const NOISE_MEASURE_NAMES: Record<NoiseMeasure, string> = {
+  snr: 'SNR',
+  ebn0: 'Eb/N0'
+};
+
+const MULTIPATH_PROFILE_NAMES: Record<ModulationParams['multipathProfile'], string> = {
+  none: 'None',
+  'itu-ped-a': 'ITU Pedestrian A',
+  'itu-veh-a': 'ITU Vehicular A',
+  epa: '3GPP EPA',
+  eva: '3GPP EVA',
+  etu: '3GPP ETU',
+  custom: 'Custom'
+};
+
+const FADING_MODEL_NAMES: Record<ModulationParams['fadingModel'], string> = {
+  none: 'None',
+  rayleigh: 'Rayleigh',
+  rician: 'Rician (K-factor)',
+  nakagami: 'Nakagami-m'
+};
+
+// Range of the SNR and Eb/N0 sliders, in dB
+const MIN_NOISE_DB = -10;
+const MAX_NOISE_DB = 30;
+const MAX_DOPPLER_FREQUENCY = 500;
+const MAX_NAKAGAMI_M = 8;
+const MAX_CFO = 100;
+const MAX_IQ_GAIN_DB = 3;
+const MAX_IQ_PHASE = 30;
+const MAX_DC_OFFSET = 0.5;
+
+/**
+ * Everything between the transmitter and the demodulator: noise, the power
+ * amplifier, multipath, fading, the receiver's front-end impairments and
+ * the seed of their random processes.
+ */
+const ChannelControls: React.FC<ChannelControlsProps> = ({ params, updateParam }) => {
+  const editorTaps = getEditorTaps(params);
+  // Editing any tap of a standard profile turns it into a custom one
+  const updateTap = (index: number, tap: Partial<MultipathTap>) => {
+    updateParam('multipathTaps', editorTaps.map((t, i) => (i === index ? { ...t, ...tap } : t)));
+    updateParam('multipathProfile', 'custom');
+  };
+
+  return (
+    <>
+      <div className="flex items-center justify-between">
+        <Label htmlFor="awgn">AWGN Channel</Label>
+        <Switch
+          id="awgn"
+          checked={params.awgn}
+          onCheckedChange={(checked) => updateParam('awgn', checked)}
+        />
+      </div>
+
+      {params.awgn && (
+        <div className="grid grid-cols-2 gap-4">
+          {isAnalogModulation(params.modType) ? (
+            <div className="col-span-2">
+              <Label>SNR: {params.snrDb} dB</Label>
+              <Slider
+                value={[params.snrDb]}
+                onValueChange={(value) => updateParam('snrDb', value[0])}
+                min={MIN_NOISE_DB}
+                max={MAX_NOISE_DB}
+                step={0.5}
+                className="mt-2"
+              />
+            </div>
+          ) : (
+            <>
+              <div>
+                <Label>Noise Level As</Label>
+                <Select
+                  value={params.noiseMeasure}
+                  onValueChange={(value) => updateParam('noiseMeasure', value as NoiseMeasure)}
+                >
+                  <SelectTrigger className="mt-2">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(NOISE_MEASURE_NAMES).map(([value, name]) => (
+                      <SelectItem key={value} value={value}>{name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label>
+                  {NOISE_MEASURE_NAMES[params.noiseMeasure]}:{' '}
+                  {params.noiseMeasure === 'snr' ? params.snrDb : params.ebN0Db} dB
+                </Label>
+                <Slider
+                  value={[params.noiseMeasure === 'snr' ? params.snrDb : params.ebN0Db]}
+                  onValueChange={(value) =>
+                    updateParam(params.noiseMeasure === 'snr' ? 'snrDb' : 'ebN0Db', value[0])
+                  }
+                  min={MIN_NOISE_DB}
+                  max={MAX_NOISE_DB}
+                  step={0.5}
+                  className="mt-2"
+                />
+              </div>
+            </>
+          )}
+        </div>
+      )}
+
+      <AmplifierControls params={params} updateParam={updateParam} />
+
+      <div>
+        <Label>
+          Multipath{params.multipathProfile !== 'none' && ` (delays in ${params.stretchDelays ? 'ms' : 'µs'})`}
+        </Label>
+        <Select
+          value={params.multipathProfile}
+          onValueChange={(value) =>
+            updateParam('multipathProfile', value as ModulationParams['multipathProfile'])
+          }
+        >
+          <SelectTrigger className="mt-2">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {Object.entries(MULTIPATH_PROFILE_NAMES).map(([value, name]) => (
+              <SelectItem key={value} value={value}>{name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {params.multipathProfile !== 'none' && (
+        <>
+          <div className="flex items-center justify-between">
+            <Label htmlFor="stretch-delays">Stretch Delays ×1000 (µs → ms)</Label>
+            <Switch
+              id="stretch-delays"
+              checked={params.stretchDelays}
+              onCheckedChange={(checked) => updateParam('stretchDelays', checked)}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>
+              Taps (delay in {params.stretchDelays ? 'ms' : 'µs'}, gain in dB, phase in degrees)
+            </Label>
+            {editorTaps.map((tap, index) => (
+              <div key={index} className="flex gap-2">
+                <Input
+                  type="number"
+                  min={0}
+                  step={0.01}
+                  value={tap.delay}
+                  onChange={(e) => updateTap(index, { delay: Math.max(0, +e.target.value) })}
+                  className="font-mono"
+                />
+                <Input
+                  type="number"
+                  step={0.5}
+                  value={tap.gainDb}
+                  onChange={(e) => updateTap(index, { gainDb: +e.target.value })}
+                  className="font-mono"
+                />
+                <Input
+                  type="number"
+                  step={15}
+                  value={tap.phase}
+                  onChange={(e) => updateTap(index, { phase: +e.target.value })}
+                  className="font-mono"
+                />
+                <Button
+                  variant="secondary"
+                  size="icon"
+                  disabled={editorTaps.length === 1}
+                  onClick={() => {
+                    updateParam('multipathTaps', editorTaps.filter((_, i) => i !== index));
+                    updateParam('multipathProfile', 'custom');
+                  }}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+            ))}
+            <Button
+              variant="secondary"
+              size="sm"
+              onClick={() => {
+                updateParam('multipathTaps', [...editorTaps, { delay: 0.5, gainDb: -6, phase: 0 }]);
+                updateParam('multipathProfile', 'custom');
+              }}
+            >
+              <Plus className="w-4 h-4 mr-2" />
+              Add Tap
+            </Button>
+          </div>
+        </>
+      )}
+
+      <div>
+        <Label>Fading</Label>
+        <Select
+          value={params.fadingModel}
+          onValueChange={(value) => updateParam('fadingModel', value as ModulationParams['fadingModel'])}
+        >
+          <SelectTrigger className="mt-2">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {Object.entries(FADING_MODEL_NAMES).map(([value, name]) => (
+              <SelectItem key={value} value={value}>{name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {params.fadingModel !== 'none' && (
+        <>
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label>Max Doppler Shift: {params.dopplerFrequency} Hz</Label>
+              <Slider
+                value={[params.dopplerFrequency]}
+                onValueChange={(value) => updateParam('dopplerFrequency', value[0])}
+                min={0}
+                max={MAX_DOPPLER_FREQUENCY}
+                step={5}
+                className="mt-2"
+              />
+            </div>
+            {params.fadingModel === 'rician' && (
+              <div>
+                <Label>K-Factor: {params.kFactorDb} dB</Label>
+                <Slider
+                  value={[params.kFactorDb]}
+                  onValueChange={(value) => updateParam('kFactorDb', value[0])}
+                  min={-10}
+                  max={20}
+                  step={1}
+                  className="mt-2"
+                />
+              </div>
+            )}
+            {params.fadingModel === 'nakagami' && (
+              <div>
+                <Label>Shape m: {params.nakagamiM}</Label>
+                <Slider
+                  value={[params.nakagamiM]}
+                  onValueChange={(value) => updateParam('nakagamiM', value[0])}
+                  min={0.5}
+                  max={MAX_NAKAGAMI_M}
+                  step={0.5}
+                  className="mt-2"
+                />
+              </div>
+            )}
+          </div>
+
+          <div className="flex items-center justify-between">
+            <Label htmlFor="equalize">Receiver Knows the Channel</Label>
+            <Switch
+              id="equalize"
+              checked={params.equalize}
+              onCheckedChange={(checked) => updateParam('equalize', checked)}
+            />
+          </div>
+        </>
+      )}
+
+      <div className="flex items-center justify-between">
+        <Label htmlFor="cfo">Carrier Frequency Offset</Label>
+        <Switch
+          id="cfo"
+          checked={params.cfoEnabled}
+          onCheckedChange={(checked) => updateParam('cfoEnabled', checked)}
+        />
+      </div>
+      {params.cfoEnabled && (
+        <div>
+          <Label>Offset: {params.cfo} Hz</Label>
+          <Slider
+            value={[params.cfo]}
+            onValueChange={(value) => updateParam('cfo', value[0])}
+            min={-MAX_CFO}
+            max={MAX_CFO}
+            step={1}
+            className="mt-2"
+          />
+        </div>
+      )}
+
+      <div className="flex items-center justify-between">
+        <Label htmlFor="phase-noise">Phase Noise</Label>
+        <Switch
+          id="phase-noise"
+          checked={params.phaseNoiseEnabled}
+          onCheckedChange={(checked) => updateParam('phaseNoiseEnabled', checked)}
+        />
+      </div>
+      {params.phaseNoiseEnabled && (
+        <div className="space-y-2">
+          <Label>Mask (offset in kHz, level in dBc/Hz)</Label>
+          {params.phaseNoiseMask.map((point, index) => (
+            <div key={index} className="flex gap-2">
+              <Input
+                type="number"
+                min={0.001}
+                step={0.1}
+                value={point.offset}
+                onChange={(e) =>
+                  updateParam(
+                    'phaseNoiseMask',
+                    params.phaseNoiseMask.map((p, i) => (i === index ? { ...p, offset: +e.target.value } : p))
+                  )
+                }
+                className="font-mono"
+              />
+              <Input
+                type="number"
+                step={5}
+                value={point.level}
+                onChange={(e) =>
+                  updateParam(
+                    'phaseNoiseMask',
+                    params.phaseNoiseMask.map((p, i) => (i === index ? { ...p, level: +e.target.value } : p))
+                  )
+                }
+                className="font-mono"
+              />
+              <Button
+                variant="secondary"
+                size="icon"
+                disabled={params.phaseNoiseMask.length === 1}
+                onClick={() =>
+                  updateParam('phaseNoiseMask', params.phaseNoiseMask.filter((_, i) => i !== index))
+                }
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </div>
+          ))}
+          <Button
+            variant="secondary"
+            size="sm"
+            onClick={() => {
+              const last = params.phaseNoiseMask[params.phaseNoiseMask.length - 1];
+              updateParam('phaseNoiseMask', [
+                ...params.phaseNoiseMask,
+                { offset: last.offset * 10, level: last.level - 20 }
+              ]);
+            }}
+          >
+            <Plus className="w-4 h-4 mr-2" />
+            Add Point
+          </Button>
+        </div>
+      )}
+
+      <div className="flex items-center justify-between">
+        <Label htmlFor="iq-imbalance">I/Q Imbalance</Label>
+        <Switch
+          id="iq-imbalance"
+          checked={params.iqImbalanceEnabled}
+          onCheckedChange={(checked) => updateParam('iqImbalanceEnabled', checked)}
+        />
+      </div>
+      {params.iqImbalanceEnabled && (
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <Label>Gain Error: {params.iqGainDb} dB</Label>
+            <Slider
+              value={[params.iqGainDb]}
+              onValueChange={(value) => updateParam('iqGainDb', value[0])}
+              min={-MAX_IQ_GAIN_DB}
+              max={MAX_IQ_GAIN_DB}
+              step={0.1}
+              className="mt-2"
+            />
+          </div>
+          <div>
+            <Label>Phase Error: {params.iqPhase}°</Label>
+            <Slider
+              value={[params.iqPhase]}
+              onValueChange={(value) => updateParam('iqPhase', value[0])}
+              min={-MAX_IQ_PHASE}
+              max={MAX_IQ_PHASE}
+              step={1}
+              className="mt-2"
+            />
+          </div>
+        </div>
+      )}
+
+      <div className="flex items-center justify-between">
+        <Label htmlFor="dc-offset">DC Offset</Label>
+        <Switch
+          id="dc-offset"
+          checked={params.dcOffsetEnabled}
+          onCheckedChange={(checked) => updateParam('dcOffsetEnabled', checked)}
+        />
+      </div>
+      {params.dcOffsetEnabled && (
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <Label>I Offset: {params.dcOffsetI}</Label>
+            <Slider
+              value={[params.dcOffsetI]}
+              onValueChange={(value) => updateParam('dcOffsetI', value[0])}
+              min={-MAX_DC_OFFSET}
+              max={MAX_DC_OFFSET}
+              step={0.01}
+              className="mt-2"
+            />
+          </div>
+          <div>
+            <Label>Q Offset: {params.dcOffsetQ}</Label>
+            <Slider
+              value={[params.dcOffsetQ]}
+              onValueChange={(value) => updateParam('dcOffsetQ', value[0])}
+              min={-MAX_DC_OFFSET}
+              max={MAX_DC_OFFSET}
+              step={0.01}
+              className="mt-2"
+            />
+          </div>
+        </div>
+      )}
+
+      {(params.awgn ||
+        params.multipathProfile !== 'none' ||
+        params.fadingModel !== 'none' ||
+        params.phaseNoiseEnabled) && (
+        <div>
+          <Label>Channel Seed</Label>
+          <Input
+            type="number"
+            step={1}
+            value={params.channelSeed}
+            onChange={(e) => updateParam('channelSeed', Math.round(+e.target.value))}
+            className="mt-2 font-mono"
+          />
+        </div>
+      )}
+    </>
+  );
+};
+
+export default ChannelControls;
@@ -0,0 +1,164 @@
+import React, { useEffect, useRef } from 'react';
+import type { Complex } from '@/lib/types';
+
+interface ConstellationPlotProps {
+  /** Ideal constellation points, drawn as hollow markers. */
+  reference: Complex[];
+  /** Transmitted or received symbols, drawn on top of the reference. */
+  symbols: Complex[];
+  /** Text drawn beside each reference point, e.g. its bit pattern. */
+  labels?: string[];
+  /** Successive envelope states, joined by arrows to show the transitions. */
+  trajectory?: Complex[];
+  color?: string;
+  label?: string;
+}
+
+const ConstellationPlot: React.FC<ConstellationPlotProps> = ({
+  reference,
+  symbols,
+  labels,
+  trajectory,
+  color = '#4fc3f7',
+  label = 'Constellation'
+}) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+
+    const rect = canvas.getBoundingClientRect();
+    const width = rect.width;
+    const height = rect.height;
+    const dpr = window.devicePixelRatio || 1;
+    canvas.width = width * dpr;
+    canvas.height = height * dpr;
+    ctx.scale(dpr, dpr);
+    ctx.clearRect(0, 0, width, height);
+
+    // Square plot area centred in the canvas
+    const size = Math.min(width, height);
+    const centerX = width / 2;
+    const centerY = height / 2;
+    const extent = Math.max(
+      1,
+      ...reference.map((p) => Math.max(Math.abs(p.re), Math.abs(p.im))),
+      ...symbols.map((p) => Math.max(Math.abs(p.re), Math.abs(p.im)))
+    ) * 1.2;
+    const scale = (size / 2) / extent;
+    const toX = (re: number) => centerX + re * scale;
+    const toY = (im: number) => centerY - im * scale;
+
+    // Grid
+    ctx.strokeStyle = 'rgba(255, 255, 255, 0.08)';
+    ctx.lineWidth = 0.5;
+    ctx.beginPath();
+    for (let i = -4; i <= 4; i++) {
+      const offset = (i / 4) * (size / 2);
+      ctx.moveTo(centerX + offset, centerY - size / 2);
+      ctx.lineTo(centerX + offset, centerY + size / 2);
+      ctx.moveTo(centerX - size / 2, centerY + offset);
+      ctx.lineTo(centerX + size / 2, centerY + offset);
+    }
+    ctx.stroke();
+
+    // I and Q axes
+    ctx.strokeStyle = 'rgba(255, 255, 255, 0.25)';
+    ctx.lineWidth = 1;
+    ctx.beginPath();
+    ctx.moveTo(centerX - size / 2, centerY);
+    ctx.lineTo(centerX + size / 2, centerY);
+    ctx.moveTo(centerX, centerY - size / 2);
+    ctx.lineTo(centerX, centerY + size / 2);
+    ctx.stroke();
+
+    ctx.fillStyle = 'rgba(255, 255, 255, 0.6)';
+    ctx.font = '11px system-ui';
+    ctx.fillText('I', centerX + size / 2 - 12, centerY - 6);
+    ctx.fillText('Q', centerX + 6, centerY - size / 2 + 12);
+
+    // Reference points
+    ctx.strokeStyle = 'rgba(255, 255, 255, 0.45)';
+    ctx.lineWidth = 1;
+    reference.forEach((p) => {
+      ctx.beginPath();
+      ctx.arc(toX(p.re), toY(p.im), 6, 0, 2 * Math.PI);
+      ctx.stroke();
+    });
+
+    // Point labels get unreadable on dense constellations
+    if (labels && reference.length <= 32) {
+      ctx.fillStyle = 'rgba(255, 255, 255, 0.75)';
+      ctx.font = '10px monospace';
+      reference.forEach((p, index) => {
+        if (labels[index]) {
+          ctx.fillText(labels[index], toX(p.re) + 8, toY(p.im) - 8);
+        }
+      });
+    }
+
+    // Transitions between successive states, arrowhead at the midpoint
+    if (trajectory && trajectory.length > 1) {
+      ctx.strokeStyle = 'rgba(255, 152, 0, 0.55)';
+      ctx.fillStyle = 'rgba(255, 152, 0, 0.8)';
+      ctx.lineWidth = 1.2;
+      for (let k = 1; k < trajectory.length; k++) {
+        const x0 = toX(trajectory[k - 1].re);
+        const y0 = toY(trajectory[k - 1].im);
+        const x1 = toX(trajectory[k].re);
+        const y1 = toY(trajectory[k].im);
+        if (Math.hypot(x1 - x0, y1 - y0) < 1) continue;
+        ctx.beginPath();
+        ctx.moveTo(x0, y0);
+        ctx.lineTo(x1, y1);
+        ctx.stroke();
+
+        const angle = Math.atan2(y1 - y0, x1 - x0);
+        const midX = (x0 + x1) / 2;
+        const midY = (y0 + y1) / 2;
+        ctx.beginPath();
+        ctx.moveTo(midX + 6 * Math.cos(angle), midY + 6 * Math.sin(angle));
+        ctx.lineTo(midX + 6 * Math.cos(angle + 2.5), midY + 6 * Math.sin(angle + 2.5));
+        ctx.lineTo(midX + 6 * Math.cos(angle - 2.5), midY + 6 * Math.sin(angle - 2.5));
+        ctx.closePath();
+        ctx.fill();
+      }
+    }
+
+    // Symbols
+    ctx.shadowColor = color;
+    ctx.shadowBlur = 6;
+    ctx.fillStyle = color;
+    symbols.forEach((p) => {
+      ctx.beginPath();
+      ctx.arc(toX(p.re), toY(p.im), 3.5, 0, 2 * Math.PI);
+      ctx.fill();
+    });
+    ctx.shadowBlur = 0;
+
+    // Label
+    ctx.font = 'bold 13px system-ui';
+    const textWidth = ctx.measureText(label).width;
+    ctx.fillStyle = 'rgba(0, 0, 0, 0.8)';
+    ctx.fillRect(8, 8, textWidth + 24, 28);
+    ctx.strokeStyle = color;
+    ctx.strokeRect(8, 8, textWidth + 24, 28);
+    ctx.fillStyle = color;
+    ctx.fillText(label, 20, 28);
+  }, [reference, symbols, labels, trajectory, color, label]);
+
+  return (
+    <canvas
+      ref={canvasRef}
+      className="w-full h-full block"
+      style={{
+        background: 'rgba(10, 20, 40, 0.8)',
+        borderRadius: '8px'
+      }}
+    />
+  );
+};
+
+export default ConstellationPlot;
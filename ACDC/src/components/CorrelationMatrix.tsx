@@ -0,0 +1,46 @@
+import React from 'react';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+
+interface CorrelationMatrixProps {
+  /** Square matrix of normalized correlations in [-1, 1]. */
+  matrix: number[][];
+  /** Row and column headings. */
+  labels: string[];
+}
+
+/** Correlation matrix as a table, with off-diagonal cells shaded by magnitude. */
+const CorrelationMatrix: React.FC<CorrelationMatrixProps> = ({ matrix, labels }) => (
+  <div className="overflow-auto rounded-lg border border-border">
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead />
+          {labels.map((label) => (
+            <TableHead key={label} className="text-center">{label}</TableHead>
+          ))}
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {matrix.map((row, j) => (
+          <TableRow key={labels[j]}>
+            <TableCell className="font-medium text-accent">{labels[j]}</TableCell>
+            {row.map((value, k) => (
+              <TableCell
+                key={labels[k]}
+                className="text-center font-mono"
+                style={{
+                  background:
+                    j === k ? 'rgba(255, 255, 255, 0.05)' : `rgba(255, 82, 82, ${(Math.min(1, Math.abs(value)) * 0.6).toFixed(2)})`
+                }}
+              >
+                {Math.abs(value) < 5e-4 ? '0' : value.toFixed(2)}
+              </TableCell>
+            ))}
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  </div>
+);
+
+export default CorrelationMatrix;
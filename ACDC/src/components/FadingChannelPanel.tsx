@@ -0,0 +1,334 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Line } from 'react-chartjs-2';
+import { Play, Square, Wind } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { coherenceTime, fadingGain, fadingPdf } from '@/lib/fading';
+import type { ChannelGain, FadingConfig, FadingModel, ModulationConfig, ModulationType } from '@/lib/types';
+import type { FadingComparisonRequest, FadingComparisonUpdate } from '@/workers/fadingComparison.worker';
+
+interface FadingChannelPanelProps {
+  config: FadingConfig;
+  /** Fading gain applied to the last run, with that run's sample rate. */
+  run: { gain: ChannelGain; sampleRate: number } | null;
+  /** Modulation settings shared by every modulation in the comparison, in Hz. */
+  link: Omit<ModulationConfig, 'modType' | 'samplesPerBit'>;
+  equalize: boolean;
+  /** Channel seed the comparison draws its fading, noise and data from. */
+  channelSeed: number;
+}
+
+const FADING_MODEL_NAMES: Record<FadingModel, string> = {
+  rayleigh: 'Rayleigh',
+  rician: 'Rician',
+  nakagami: 'Nakagami-m'
+};
+
+const COMPARED_MODULATIONS: [ModulationType, string][] = [
+  ['bask', 'BASK'],
+  ['bfsk', 'BFSK'],
+  ['bpsk', 'BPSK'],
+  ['dbpsk', 'DBPSK'],
+  ['qpsk', 'QPSK'],
+  ['oqpsk', 'OQPSK'],
+  ['pi4dqpsk', 'π/4-DQPSK'],
+  ['8psk', '8-PSK'],
+  ['16qam', '16-QAM'],
+  ['64qam', '64-QAM'],
+  ['16apsk', '16-APSK'],
+  ['cpfsk', 'CPFSK'],
+  ['msk', 'MSK'],
+  ['gmsk', 'GMSK']
+];
+
+// The histogram comes from a long realization at a Doppler of 1 Hz, since
+// the envelope statistics do not depend on how fast it varies
+const HISTOGRAM_SAMPLES = 20000;
+const HISTOGRAM_SAMPLE_RATE = 20;
+const HISTOGRAM_BIN_WIDTH = 0.1;
+const HISTOGRAM_MAX = 3;
+const ENVELOPE_POINTS = 400;
+const COMPARISON_BITS = 2400;
+// Enough samples per carrier cycle for the demodulator, with a floor per bit
+const COMPARISON_SAMPLES_PER_CYCLE = 16;
+const COMPARISON_MIN_SAMPLES_PER_BIT = 32;
+// Power 10 dB below the mean
+const DEEP_FADE = 0.1;
+
+const axisStyle = {
+  grid: { color: 'rgba(255, 255, 255, 0.1)' },
+  ticks: { color: '#FFFFFF' }
+};
+
+const chartOptions = (xTitle: string, yTitle: string) => ({
+  responsive: true,
+  maintainAspectRatio: false,
+  animation: false as const,
+  plugins: {
+    legend: { labels: { color: '#FFFFFF' } },
+    tooltip: { enabled: false }
+  },
+  scales: {
+    x: { ...axisStyle, type: 'linear' as const, title: { display: true, text: xTitle, color: '#FFFFFF' } },
+    y: { ...axisStyle, title: { display: true, text: yTitle, color: '#FFFFFF' } }
+  }
+});
+
+const formatBer = (ber: number | undefined) => (ber === undefined ? '…' : ber === 0 ? '0' : ber.toExponential(1));
+
+/**
+ * Flat fading: the envelope of the last run over time, the envelope
+ * histogram of a long realization against the theoretical density, and the
+ * bit error rate of each modulation with and without the fading.
+ */
+const FadingChannelPanel: React.FC<FadingChannelPanelProps> = ({ config, run, link, equalize, channelSeed }) => {
+  const { model, kFactor, m, dopplerFrequency, seed } = config;
+  const [ebN0Db, setEbN0Db] = useState(10);
+  const [comparison, setComparison] = useState<Partial<Record<ModulationType, { awgnBer: number; fadingBer: number }>>>({});
+  const [running, setRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const workerRef = useRef<Worker | null>(null);
+
+  const histogram = useMemo(() => {
+    const statistics: FadingConfig = { model, kFactor, m, dopplerFrequency: 1, seed };
+    const gain = fadingGain(HISTOGRAM_SAMPLES, HISTOGRAM_SAMPLE_RATE, statistics);
+    const bins = new Array<number>(Math.round(HISTOGRAM_MAX / HISTOGRAM_BIN_WIDTH)).fill(0);
+    let deepFades = 0;
+    gain.re.forEach((re, n) => {
+      const power = re * re + gain.im[n] * gain.im[n];
+      const bin = Math.floor(Math.sqrt(power) / HISTOGRAM_BIN_WIDTH);
+      if (bin < bins.length) bins[bin]++;
+      if (power < DEEP_FADE) deepFades++;
+    });
+    const density = bins.flatMap((count, bin) => {
+      const height = count / (HISTOGRAM_SAMPLES * HISTOGRAM_BIN_WIDTH);
+      return [
+        { x: bin * HISTOGRAM_BIN_WIDTH, y: height },
+        { x: (bin + 1) * HISTOGRAM_BIN_WIDTH, y: height }
+      ];
+    });
+    const theory = Array.from({ length: 151 }, (_, i) => {
+      const r = (i * HISTOGRAM_MAX) / 150;
+      return { x: r, y: fadingPdf(r, statistics) };
+    });
+    return { density, theory, deepFadeShare: deepFades / HISTOGRAM_SAMPLES };
+  }, [model, kFactor, m, seed]);
+
+  const envelope = useMemo(() => {
+    if (!run) return null;
+    const { gain, sampleRate } = run;
+    const length = gain.re.length;
+    const step = Math.max(1, Math.floor(length / ENVELOPE_POINTS));
+    const points: { x: number; y: number }[] = [];
+    let deepest = Infinity;
+    for (let n = 0; n < length; n++) {
+      const db = 10 * Math.log10(gain.re[n] ** 2 + gain.im[n] ** 2);
+      deepest = Math.min(deepest, db);
+      if (n % step === 0) points.push({ x: (n / sampleRate) * 1000, y: db });
+    }
+    return { points, deepest };
+  }, [run]);
+
+  // Stop any comparison still running when the page goes away
+  useEffect(() => () => workerRef.current?.terminate(), []);
+
+  const stop = () => {
+    workerRef.current?.terminate();
+    workerRef.current = null;
+    setRunning(false);
+  };
+
+  const compare = () => {
+    stop();
+    const worker = new Worker(new URL('../workers/fadingComparison.worker.ts', import.meta.url), { type: 'module' });
+    workerRef.current = worker;
+    setComparison({});
+    setError(null);
+    setRunning(true);
+
+    worker.onmessage = (event: MessageEvent<FadingComparisonUpdate>) => {
+      const update = event.data;
+      switch (update.type) {
+        case 'result':
+          setComparison((prev) => ({
+            ...prev,
+            [update.modType]: { awgnBer: update.awgnBer, fadingBer: update.fadingBer }
+          }));
+          break;
+        case 'error':
+          setError(update.message);
+          stop();
+          break;
+        case 'done':
+          stop();
+          break;
+      }
+    };
+    const samplesPerBit = Math.max(
+      COMPARISON_MIN_SAMPLES_PER_BIT,
+      Math.ceil((COMPARISON_SAMPLES_PER_CYCLE * (link.frequency + link.freqDev)) / link.bitrate)
+    );
+    const request: FadingComparisonRequest = {
+      modTypes: COMPARED_MODULATIONS.map(([modType]) => modType),
+      config: { ...link, samplesPerBit },
+      fading: config,
+      seed: channelSeed,
+      equalize,
+      ebN0Db,
+      bits: COMPARISON_BITS
+    };
+    worker.postMessage(request);
+  };
+
+  const histogramData = {
+    datasets: [
+      {
+        label: 'Simulated |h|',
+        data: histogram.density,
+        borderColor: '#4fc3f7',
+        backgroundColor: 'rgba(79, 195, 247, 0.2)',
+        borderWidth: 1,
+        pointRadius: 0,
+        fill: true
+      },
+      {
+        label: `${FADING_MODEL_NAMES[model]} PDF`,
+        data: histogram.theory,
+        borderColor: '#ff9800',
+        backgroundColor: '#ff9800',
+        borderWidth: 2,
+        pointRadius: 0
+      }
+    ]
+  };
+
+  const envelopeData = {
+    datasets: [
+      {
+        label: '|h|² (dB)',
+        data: envelope?.points ?? [],
+        borderColor: '#76ff03',
+        backgroundColor: '#76ff03',
+        borderWidth: 2,
+        pointRadius: 0
+      }
+    ]
+  };
+
+  return (
+    <Card className="card-enhanced animate-fade-in" style={{ animationDelay: '0.28s' }}>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-3 text-2xl">
+          <Wind className="w-8 h-8 text-primary" />
+          Fading Channel
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-center">
+          <div className="p-3 rounded-lg bg-muted/50 border border-border">
+            <div className="text-xs text-muted-foreground">Model</div>
+            <div className="text-lg font-semibold">
+              {FADING_MODEL_NAMES[model]}
+              {model === 'rician' && `, K = ${(10 * Math.log10(kFactor ?? 1)).toFixed(1)} dB`}
+              {model === 'nakagami' && `, m = ${m ?? 1}`}
+            </div>
+          </div>
+          <div className="p-3 rounded-lg bg-muted/50 border border-border">
+            <div className="text-xs text-muted-foreground">Coherence Time</div>
+            <div className="text-lg font-semibold">
+              {dopplerFrequency > 0 ? `${(coherenceTime(dopplerFrequency) * 1000).toFixed(1)} ms` : '∞ (static)'}
+            </div>
+          </div>
+          <div className="p-3 rounded-lg bg-muted/50 border border-border">
+            <div className="text-xs text-muted-foreground">Time More Than 10 dB Down</div>
+            <div className="text-lg font-semibold">{(histogram.deepFadeShare * 100).toFixed(1)} %</div>
+          </div>
+          <div className="p-3 rounded-lg bg-muted/50 border border-border">
+            <div className="text-xs text-muted-foreground">Deepest Fade (Last Run)</div>
+            <div className="text-lg font-semibold">{envelope ? `${envelope.deepest.toFixed(1)} dB` : '—'}</div>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <div className="space-y-2">
+            <Label>Fading Power over the Last Run</Label>
+            <div className="h-80 rounded-lg overflow-hidden border border-border bg-muted/20 p-2">
+              <Line data={envelopeData} options={chartOptions('Time (ms)', 'Power Gain (dB)')} />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label>Envelope Histogram against Theory</Label>
+            <div className="h-80 rounded-lg overflow-hidden border border-border bg-muted/20 p-2">
+              <Line data={histogramData} options={chartOptions('Envelope |h|', 'Probability Density')} />
+            </div>
+          </div>
+        </div>
+
+        <div className="space-y-4">
+          <div className="flex flex-wrap items-end gap-4">
+            <div className="flex-1">
+              <Label>Comparison Eb/N0: {ebN0Db} dB</Label>
+              <Slider
+                value={[ebN0Db]}
+                onValueChange={(value) => setEbN0Db(value[0])}
+                min={0}
+                max={30}
+                step={1}
+                className="mt-2"
+              />
+            </div>
+            {running ? (
+              <Button onClick={stop} variant="secondary">
+                <Square className="w-5 h-5 mr-2" />
+                Stop
+              </Button>
+            ) : (
+              <Button onClick={compare} className="glow-effect">
+                <Play className="w-5 h-5 mr-2" />
+                Compare Modulations
+              </Button>
+            )}
+          </div>
+          {error && <p className="text-sm text-destructive">{error}</p>}
+
+          {(running || Object.keys(comparison).length > 0) && (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Modulation</TableHead>
+                  <TableHead>BER, AWGN Only</TableHead>
+                  <TableHead>BER with Fading</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {COMPARED_MODULATIONS.map(([modType, name]) => (
+                  <TableRow key={modType}>
+                    <TableCell>{name}</TableCell>
+                    <TableCell className="font-mono">{formatBer(comparison[modType]?.awgnBer)}</TableCell>
+                    <TableCell className="font-mono">{formatBer(comparison[modType]?.fadingBer)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </div>
+
+        <p className="text-sm text-muted-foreground">
+          Fading multiplies the whole signal by one complex gain that wanders as the receiver moves. With no line
+          of sight the gain is Rayleigh; a line-of-sight path (Rician, K above 0 dB) or a larger Nakagami m makes
+          deep fades rarer. In a fade the signal sinks into the noise, so errors bunch together and the BER falls
+          only about tenfold per 10 dB instead of exponentially.{' '}
+          {equalize
+            ? 'The receiver knows the gain and divides it out, which also amplifies the noise in deep fades.'
+            : 'The receiver does not know the gain, so the phase rotation alone ruins every coherent decision and only the differential schemes survive.'}{' '}
+          Each modulation sends {COMPARISON_BITS.toLocaleString()} bits per channel.
+        </p>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default FadingChannelPanel;
@@ -0,0 +1,36 @@
+import React from 'react';
+import { NavLink } from 'react-router-dom';
+import { Binary, Grid3x3, Radio, ScanLine, Users } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+const LABS = [
+  { to: '/', label: 'Modulation', icon: Radio },
+  { to: '/ofdm', label: 'OFDM', icon: Grid3x3 },
+  { to: '/cdma', label: 'CDMA', icon: Users },
+  { to: '/pcm', label: 'Pulse & PCM', icon: Binary },
+  { to: '/sampling', label: 'Sampling', icon: ScanLine }
+];
+
+/** Top bar linking the simulator's labs. */
+const LabNav: React.FC = () => (
+  <nav className="flex flex-wrap items-center justify-center gap-2 p-4">
+    {LABS.map(({ to, label, icon: Icon }) => (
+      <NavLink
+        key={to}
+        to={to}
+        end
+        className={({ isActive }) =>
+          cn(
+            'flex items-center gap-2 rounded-lg border border-border px-4 py-2 text-sm font-medium transition-colors',
+            isActive ? 'bg-primary text-primary-foreground' : 'bg-muted/50 text-muted-foreground hover:text-foreground'
+          )
+        }
+      >
+        <Icon className="w-4 h-4" />
+        {label}
+      </NavLink>
+    ))}
+  </nav>
+);
+
+export default LabNav;
@@ -0,0 +1,117 @@
+import React, { useMemo } from 'react';
+import { Line } from 'react-chartjs-2';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  LINE_CODES,
+  lineCodeFirstNull,
+  lineCodeLevels,
+  lineCodePsd,
+  lineCodeSpectralLines
+} from '@/lib/lineCoding';
+import type { LineCode } from '@/lib/types';
+
+interface LineCodeSpectrumProps {
+  /** Code to highlight. */
+  selected: LineCode;
+  names: Record<LineCode, string>;
+}
+
+const COLORS = ['#76ff03', '#4fc3f7', '#ff9800', '#bb86fc', '#ff5252', '#ffeb3b', '#00e5ff', '#f06292', '#a1887f'];
+
+/** Frequency axis in multiples of the bit rate. */
+const MAX_FREQUENCY = 3;
+const FREQUENCY_STEP = 0.02;
+
+/**
+ * Power spectral densities of every line code for random data, plotted
+ * against frequency in multiples of the bit rate, with a table of DC
+ * content and first-null bandwidth.
+ */
+const LineCodeSpectrum: React.FC<LineCodeSpectrumProps> = ({ selected, names }) => {
+  const frequencies = useMemo(
+    () => Array.from({ length: Math.round(MAX_FREQUENCY / FREQUENCY_STEP) + 1 }, (_, k) => k * FREQUENCY_STEP),
+    []
+  );
+
+  const data = {
+    labels: frequencies.map((f) => f.toFixed(2)),
+    datasets: LINE_CODES.map((code, index) => ({
+      label: names[code],
+      data: frequencies.map((f) => lineCodePsd(code, f)),
+      borderColor: COLORS[index % COLORS.length],
+      borderWidth: code === selected ? 4 : 1.5,
+      borderDash: code === selected ? [] : [4, 3],
+      pointRadius: 0,
+      fill: false,
+      tension: 0.2
+    }))
+  };
+
+  const options = {
+    responsive: true,
+    maintainAspectRatio: false,
+    plugins: {
+      legend: { labels: { color: '#FFFFFF', boxWidth: 16 } },
+      tooltip: { enabled: false }
+    },
+    scales: {
+      x: {
+        title: { display: true, text: 'Frequency (× bit rate)', color: '#FFFFFF' },
+        grid: { color: 'rgba(255, 255, 255, 0.1)' },
+        ticks: { color: '#FFFFFF', maxTicksLimit: 13 }
+      },
+      y: {
+        title: { display: true, text: 'PSD (per unit bit period)', color: '#FFFFFF' },
+        grid: { color: 'rgba(255, 255, 255, 0.1)' },
+        ticks: { color: '#FFFFFF' },
+        min: 0
+      }
+    },
+    animation: false as const
+  };
+
+  const describeDc = (code: LineCode) => {
+    const dcLine = lineCodeSpectralLines(code, 0)[0];
+    if (dcLine) return `Spectral line (${(dcLine.power * 100).toFixed(1)}% of unit power)`;
+    return lineCodePsd(code, 0) > 1e-12 ? 'Continuous, peak at DC' : 'None';
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="h-80 rounded-lg overflow-hidden border border-border bg-muted/20 p-2">
+        <Line data={data} options={options} />
+      </div>
+      <div className="rounded-lg border border-border overflow-auto">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Code</TableHead>
+              <TableHead>Levels</TableHead>
+              <TableHead>DC Content</TableHead>
+              <TableHead>First Null</TableHead>
+              <TableHead>Lines Above DC</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {LINE_CODES.map((code) => (
+              <TableRow key={code} className={code === selected ? 'bg-primary/10 font-semibold' : undefined}>
+                <TableCell>{names[code]}</TableCell>
+                <TableCell className="font-mono">{lineCodeLevels(code).join(', ')}</TableCell>
+                <TableCell>{describeDc(code)}</TableCell>
+                <TableCell>{lineCodeFirstNull(code)} × R<sub>b</sub></TableCell>
+                <TableCell>
+                  {lineCodeSpectralLines(code, MAX_FREQUENCY)
+                    .filter((line) => line.frequency > 0)
+                    .map((line) => `${line.frequency}·Rb`)
+                    .join(', ') || '—'}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+};
+
+export default LineCodeSpectrum;
@@ -0,0 +1,78 @@
+import React from 'react';
+import { Input } from '@/components/ui/input';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { symbolToBits } from '@/lib/constellation';
+import type { Complex } from '@/lib/types';
+
+interface MappingTableProps {
+  bitsPerSymbol: number;
+  /** Constellation points in the layout's natural order. */
+  layoutPoints: Complex[];
+  /** Natural-order point index for every symbol value. */
+  pointIndex: number[];
+  /** Makes the point column editable; called with the updated table. */
+  onChange?: (pointIndex: number[]) => void;
+}
+
+const MappingTable: React.FC<MappingTableProps> = ({ bitsPerSymbol, layoutPoints, pointIndex, onChange }) => {
+  const usage = new Map<number, number>();
+  pointIndex.forEach((index) => usage.set(index, (usage.get(index) ?? 0) + 1));
+  const isValid = usage.size === layoutPoints.length && pointIndex.every((index) => index in layoutPoints);
+
+  const handleChange = (value: number, text: string) => {
+    const next = [...pointIndex];
+    next[value] = parseInt(text, 10);
+    onChange?.(next);
+  };
+
+  return (
+    <div className="space-y-2">
+      {onChange && !isValid && (
+        <p className="text-sm text-destructive">
+          Every point #0–{layoutPoints.length - 1} must be used exactly once.
+        </p>
+      )}
+      <div className="max-h-80 overflow-auto rounded-lg border border-border">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Bits</TableHead>
+              <TableHead>Point #</TableHead>
+              <TableHead className="text-right">I</TableHead>
+              <TableHead className="text-right">Q</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {pointIndex.map((index, value) => {
+              const point = layoutPoints[index];
+              const isDuplicate = (usage.get(index) ?? 0) > 1;
+              return (
+                <TableRow key={value}>
+                  <TableCell className="font-mono text-accent">{symbolToBits(value, bitsPerSymbol)}</TableCell>
+                  <TableCell>
+                    {onChange ? (
+                      <Input
+                        type="number"
+                        min={0}
+                        max={layoutPoints.length - 1}
+                        value={Number.isNaN(index) ? '' : index}
+                        onChange={(e) => handleChange(value, e.target.value)}
+                        className={`h-8 w-20 font-mono ${isDuplicate || !point ? 'border-destructive' : ''}`}
+                      />
+                    ) : (
+                      <span className="font-mono">{index}</span>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right font-mono">{point ? point.re.toFixed(3) : '—'}</TableCell>
+                  <TableCell className="text-right font-mono">{point ? point.im.toFixed(3) : '—'}</TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+};
+
+export default MappingTable;
@@ -1,10 +1,14 @@
-import React, { useEffect, useRef, useState, useCallback } from 'react';
+import React, { useEffect, useMemo, useRef, useState, useCallback } from 'react';
+import { useLocation } from 'react-router-dom';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Slider } from '@/components/ui/slider';
+import { Switch } from '@/components/ui/switch';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Textarea } from '@/components/ui/textarea';
 import { 
   Satellite, 
   Sliders, 
@@ -19,12 +23,20 @@ import {
   ArrowRightLeft,
   Info,
   Lightbulb,
-  BookOpen
+  BookOpen,
+  Crosshair,
+  TrendingUp,
+  Plus,
+  Trash2,
+  Activity,
+  AudioWaveform,
+  MessageSquare
 } from 'lucide-react';
 import {
   Chart as ChartJS,
   CategoryScale,
   LinearScale,
+  LogarithmicScale,
   PointElement,
   LineElement,
   Title,
@@ -33,10 +45,86 @@ import {
   Filler
 } from 'chart.js';
 import { Line } from 'react-chartjs-2';
+import {
+  DEFAULT_BT,
+  DEFAULT_MODULATION_INDEX,
+  formatBits,
+  isDifferential,
+  isFrequencyKeyed,
+  supportsLineCoding
+} from '@/lib/modulation';
+import { CRC_POLYNOMIALS, DEFAULT_REED_SOLOMON } from '@/lib/channelCoding';
+import { DEFAULT_RAPP_SMOOTHNESS } from '@/lib/amplifier';
+import { PRBS_POLYNOMIALS, formatPolynomial, generatePattern, isPrbs, lfsrPeriod, parsePolynomial } from '@/lib/patterns';
+import {
+  NO_FRAMING,
+  bitsToBytes,
+  bytesToBits,
+  bytesToText,
+  characterBytes,
+  formatBase64,
+  formatHex,
+  parseBase64,
+  parseHex,
+  textToBytes
+} from '@/lib/byteEncoding';
+import { DEFAULT_PULSE_BT, DEFAULT_PULSE_SPAN, DEFAULT_ROLLOFF } from '@/lib/filters';
+import { DEFAULT_APSK_RING_RATIOS, getBitsPerSymbol, getConstellation } from '@/lib/constellation';
+import { DEFAULT_AM_INDEX, DEFAULT_PHASE_DEVIATION, isAnalogModulation } from '@/lib/analog';
+import { DEFAULT_CHIPS_PER_BIT, DEFAULT_HOP_CHANNELS, isSpreadSpectrum } from '@/lib/spreadSpectrum';
+import type {
+  BitMapping,
+  ByteFraming,
+  ChannelCodingConfig,
+  ChannelGain,
+  InputFormat,
+  InterleaverConfig,
+  LineCode,
+  MessageConfig,
+  PatternType,
+  PulseShape,
+  PulseShaping,
+  ReedSolomonCode,
+  SpreadSpectrumResult
+} from '@/lib/types';
+import ConstellationPlot from '@/components/ConstellationPlot';
+import MappingTable from '@/components/MappingTable';
+import PhaseTrajectoryPlot, { type PhaseSeries } from '@/components/PhaseTrajectoryPlot';
+import WaveformDrawer from '@/components/WaveformDrawer';
+import LineCodeSpectrum from '@/components/LineCodeSpectrum';
+import PulseResponsePlot from '@/components/PulseResponsePlot';
+import IterativeCodingPanel from '@/components/IterativeCodingPanel';
+import FadingChannelPanel from '@/components/FadingChannelPanel';
+import MultipathChannelPanel from '@/components/MultipathChannelPanel';
+import RfImpairmentsPanel from '@/components/RfImpairmentsPanel';
+import PowerAmplifierPanel from '@/components/PowerAmplifierPanel';
+import SpreadSpectrumControls from '@/components/SpreadSpectrumControls';
+import SpreadSpectrumCard from '@/components/SpreadSpectrumCard';
+import ChannelCodingControls from '@/components/ChannelCodingControls';
+import ChannelCodingCard from '@/components/ChannelCodingCard';
+import ChannelControls from '@/components/ChannelControls';
+import {
+  type ModulationParams,
+  getAmplifierConfig,
+  getFadingConfig,
+  getImpairmentConfig,
+  getLayoutOptions,
+  getMultipathTaps,
+  isDigitalModulation,
+  isLineKeyed
+} from '@/components/modulationParams';
+import {
+  type CodingRun,
+  type ModulationRun,
+  type Reception,
+  type SymbolData,
+  runModulation
+} from '@/components/modulationRun';
 
 ChartJS.register(
   CategoryScale,
   LinearScale,
+  LogarithmicScale,
   PointElement,
   LineElement,
   Title,
@@ -45,23 +133,209 @@ ChartJS.register(
   Filler
 );
 
-interface ModulationParams {
-  frequency: number;
-  amplitude: number;
-  bitrate: number;
-  freqDev: number;
-  modType: string;
-  binaryData: string;
-}
+const MAPPING_NAMES: Record<BitMapping, string> = {
+  gray: 'Gray',
+  natural: 'Natural Binary',
+  custom: 'Custom'
+};
+
+const INPUT_FORMAT_NAMES: Record<InputFormat, string> = {
+  binary: 'Binary (0/1)',
+  text: 'Text (UTF-8)',
+  hex: 'Hex Bytes',
+  base64: 'Base64',
+  file: 'File Upload'
+};
+
+const PATTERN_NAMES: Record<PatternType, string> = {
+  prbs7: 'PRBS7',
+  prbs9: 'PRBS9',
+  prbs15: 'PRBS15',
+  prbs23: 'PRBS23',
+  prbs31: 'PRBS31',
+  alternating: 'Alternating 1010…',
+  zeros: 'All Zeros',
+  ones: 'All Ones',
+  random: 'Seeded Random',
+  lfsr: 'Custom LFSR'
+};
+
+const MAX_PATTERN_BITS = 256;
+/** Custom LFSRs up to this degree have their period worked out. */
+const MAX_PERIOD_SEARCH_DEGREE = 20;
+
+// Longer messages make the waveform plots too dense to read
+const MAX_INPUT_BYTES = 32;
+const RANDOM_BYTES = 4;
+
+/** Most points a plotted trace keeps, about two per pixel of a wide canvas. */
+const MAX_TRACE_POINTS = 4000;
+
+/**
+ * Indices of the samples a trace is plotted with. Long traces keep the
+ * lowest and the highest sample of every stretch, in order, so a carrier
+ * squeezed into a few pixels still reaches its peaks.
+ */
+const traceIndices = (data: ArrayLike<number>, maxPoints = MAX_TRACE_POINTS): number[] => {
+  if (data.length <= maxPoints) return Array.from({ length: data.length }, (_, i) => i);
+  const stretches = Math.floor(maxPoints / 2);
+  const indices: number[] = [];
+  for (let k = 0; k < stretches; k++) {
+    const from = Math.floor((k * data.length) / stretches);
+    const to = Math.floor(((k + 1) * data.length) / stretches);
+    let low = from;
+    let high = from;
+    for (let n = from + 1; n < to; n++) {
+      if (data[n] < data[low]) low = n;
+      if (data[n] > data[high]) high = n;
+    }
+    indices.push(Math.min(low, high));
+    if (low !== high) indices.push(Math.max(low, high));
+  }
+  return indices;
+};
+
+/** Shows bytes in one of the byte-oriented input formats. */
+const formatBytes = (bytes: Uint8Array, format: 'text' | 'hex' | 'base64') => {
+  switch (format) {
+    case 'text':
+      return bytesToText(bytes);
+    case 'hex':
+      return formatHex(bytes);
+    case 'base64':
+      return formatBase64(bytes);
+  }
+};
+
+/** Printable ASCII character of a byte, or a middle dot. */
+const printable = (byte: number) => (byte >= 0x20 && byte < 0x7f ? String.fromCharCode(byte) : '·');
+
+const LINE_CODE_NAMES: Record<LineCode, string> = {
+  'unipolar-nrz': 'Unipolar NRZ',
+  'nrz-l': 'NRZ-L',
+  'nrz-i': 'NRZ-I',
+  'unipolar-rz': 'Unipolar RZ',
+  'polar-rz': 'Polar RZ',
+  manchester: 'Manchester',
+  'diff-manchester': 'Differential Manchester',
+  ami: 'AMI',
+  pseudoternary: 'Pseudoternary'
+};
+
+const PULSE_SHAPE_NAMES: Record<PulseShape, string> = {
+  rect: 'Rectangular',
+  rc: 'Raised Cosine',
+  rrc: 'Root Raised Cosine',
+  gaussian: 'Gaussian'
+};
+
+const MESSAGE_KIND_NAMES: Record<MessageConfig['kind'], string> = {
+  sine: 'Sinusoid',
+  tones: 'Sum of Tones',
+  drawn: 'Hand-drawn'
+};
+
+const DRAWN_WAVEFORM_POINTS = 128;
 
 const ModulationSimulator: React.FC = () => {
+  // Other labs can hand over a bitstream, e.g. a delta modulator's output
+  const location = useLocation();
+  const handedOver = (location.state as { binaryData?: string } | null)?.binaryData;
+
   const [params, setParams] = useState<ModulationParams>({
     frequency: 1,
     amplitude: 1,
     bitrate: 1,
     freqDev: 0.3,
     modType: 'ask',
-    binaryData: '10110010'
+    qamLayout: 'square',
+    apskRatio1: DEFAULT_APSK_RING_RATIOS['32apsk'][0],
+    apskRatio2: DEFAULT_APSK_RING_RATIOS['32apsk'][1],
+    mapping: 'gray',
+    customMapping: [],
+    modulationIndex: DEFAULT_MODULATION_INDEX,
+    bt: DEFAULT_BT,
+    binaryData: handedOver ?? '10110010',
+    patternType: 'prbs7',
+    patternLength: 32,
+    patternSeed: 1,
+    patternPolynomial: 'x^5 + x^3 + 1',
+    inputFormat: 'binary',
+    messageText: 'Hi!',
+    startStopBits: false,
+    stopBits: 1,
+    channelCode: 'none',
+    crcType: 'none',
+    crcPolynomial: 'x^8 + x^2 + x + 1',
+    rsSymbolBits: DEFAULT_REED_SOLOMON.symbolBits,
+    rsN: DEFAULT_REED_SOLOMON.n,
+    rsK: DEFAULT_REED_SOLOMON.k,
+    interleaverType: 'none',
+    interleaverDepth: 4,
+    interleaverSpan: DEFAULT_REED_SOLOMON.n,
+    errorModel: 'random',
+    channelErrors: 0,
+    lineCode: 'unipolar-nrz',
+    pulseShape: 'rect',
+    rolloff: DEFAULT_ROLLOFF,
+    pulseBt: DEFAULT_PULSE_BT,
+    pulseSpan: DEFAULT_PULSE_SPAN,
+    messageKind: 'sine',
+    messageFrequency: 0.1,
+    tones: [
+      { frequency: 0.1, amplitude: 1 },
+      { frequency: 0.3, amplitude: 0.5 }
+    ],
+    drawnWaveform: Array.from({ length: DRAWN_WAVEFORM_POINTS }, (_, i) =>
+      Math.sin((2 * Math.PI * i) / DRAWN_WAVEFORM_POINTS)
+    ),
+    amIndex: DEFAULT_AM_INDEX,
+    fmDeviation: 0.5,
+    pmDeviation: +DEFAULT_PHASE_DEVIATION.toFixed(2),
+    vestigeWidth: 0.05,
+    spreadingCode: 'pn',
+    chipsPerBit: DEFAULT_CHIPS_PER_BIT,
+    hopChannels: DEFAULT_HOP_CHANNELS,
+    hopSpacing: 4,
+    hopPattern: 'pn',
+    customHops: '0, 3, 5, 1, 6, 2, 7, 4',
+    bitsPerHop: 1,
+    jammer: false,
+    jammerOffset: 0,
+    jammerPower: 6,
+    awgn: false,
+    noiseMeasure: 'ebn0',
+    snrDb: 10,
+    ebN0Db: 8,
+    amplifierModel: 'none',
+    inputBackoffDb: 6,
+    rappSmoothness: DEFAULT_RAPP_SMOOTHNESS,
+    multipathProfile: 'none',
+    multipathTaps: [
+      { delay: 0, gainDb: 0, phase: 0 },
+      { delay: 0.3, gainDb: -3, phase: 90 }
+    ],
+    stretchDelays: false,
+    fadingModel: 'none',
+    kFactorDb: 6,
+    nakagamiM: 2,
+    dopplerFrequency: 100,
+    equalize: true,
+    cfoEnabled: false,
+    cfo: 10,
+    phaseNoiseEnabled: false,
+    phaseNoiseMask: [
+      { offset: 0.1, level: -50 },
+      { offset: 1, level: -70 },
+      { offset: 10, level: -90 }
+    ],
+    iqImbalanceEnabled: false,
+    iqGainDb: 1,
+    iqPhase: 5,
+    dcOffsetEnabled: false,
+    dcOffsetI: 0.1,
+    dcOffsetQ: -0.05,
+    channelSeed: 1
   });
 
   const canvasRefs = {
@@ -72,21 +346,150 @@ const ModulationSimulator: React.FC = () => {
     carrier2: useRef<HTMLCanvasElement>(null),
     modulated2: useRef<HTMLCanvasElement>(null),
     modulated3: useRef<HTMLCanvasElement>(null),
-    unmodulated: useRef<HTMLCanvasElement>(null)
+    modulated4: useRef<HTMLCanvasElement>(null),
+    received: useRef<HTMLCanvasElement>(null),
+    unmodulated: useRef<HTMLCanvasElement>(null),
+    inPhase: useRef<HTMLCanvasElement>(null),
+    quadrature: useRef<HTMLCanvasElement>(null)
   };
 
+  const [symbolData, setSymbolData] = useState<SymbolData>({
+    reference: [],
+    symbols: [],
+    labels: [],
+    trajectory: []
+  });
+
+  const [phaseData, setPhaseData] = useState<{ series: PhaseSeries[]; bitCount: number }>({
+    series: [],
+    bitCount: 0
+  });
+
+  const [spreadData, setSpreadData] = useState<SpreadSpectrumResult | null>(null);
+
+  const [fileData, setFileData] = useState<{ name: string; bytes: Uint8Array } | null>(null);
+
+  // Bits sent and recovered by the last digital run
+  const [reception, setReception] = useState<Reception | null>(null);
+
+  // Channel coding of the last digital run
+  const [coding, setCoding] = useState<CodingRun | null>(null);
+
+  // Noise level of the last run as SNR and, for digital modulations, Eb/N0
+  const [noise, setNoise] = useState<{ snrDb: number; ebN0Db: number | null } | null>(null);
+
+  // Fading gain of the last run, for the fading envelope plot
+  const [fadingRun, setFadingRun] = useState<{ gain: ChannelGain; sampleRate: number } | null>(null);
+  // Transmitted envelope and taps of the last run, for the intersymbol interference view
+  const [multipathRun, setMultipathRun] = useState<ModulationRun['multipath']>(null);
+  // Transmitted envelope of the last run, for the amplifier and impairment views
+  const [envelopeRun, setEnvelopeRun] = useState<ModulationRun['envelope']>(null);
+
+  // Bitstream to transmit, from whichever input format is selected
+  const { inputFormat, binaryData, messageText, startStopBits, stopBits } = params;
+  const framing = useMemo<ByteFraming>(
+    () => (startStopBits ? { startBit: true, stopBits } : NO_FRAMING),
+    [startStopBits, stopBits]
+  );
+  const source = useMemo((): { bits: string; bytes: Uint8Array | null; truncated: boolean; error: string | null } => {
+    if (inputFormat === 'binary') {
+      return { bits: binaryData, bytes: null, truncated: false, error: null };
+    }
+    try {
+      let bytes: Uint8Array;
+      if (inputFormat === 'file') {
+        if (!fileData) throw new Error('Choose a file to send');
+        bytes = fileData.bytes;
+      } else {
+        const parse = { text: textToBytes, hex: parseHex, base64: parseBase64 }[inputFormat];
+        bytes = parse(messageText);
+      }
+      if (bytes.length === 0) {
+        throw new Error('There is nothing to send');
+      }
+      const truncated = bytes.length > MAX_INPUT_BYTES;
+      bytes = bytes.slice(0, MAX_INPUT_BYTES);
+      return { bits: formatBits(bytesToBits(bytes, framing)), bytes, truncated, error: null };
+    } catch (error) {
+      return { bits: '', bytes: null, truncated: false, error: (error as Error).message };
+    }
+  }, [inputFormat, binaryData, messageText, fileData, framing]);
+
+  // Characters (or bytes) next to the bit groups they are sent as
+  const byteGroups = useMemo(() => {
+    if (!source.bytes) return [];
+    if (inputFormat !== 'text') {
+      return Array.from(source.bytes, (byte) => ({ label: printable(byte), bytes: Uint8Array.of(byte) }));
+    }
+    const groups: { label: string; bytes: Uint8Array }[] = [];
+    let used = 0;
+    for (const { character, bytes } of characterBytes(messageText)) {
+      used += bytes.length;
+      if (used > source.bytes.length) break;
+      groups.push({ label: character === ' ' ? '␠' : character, bytes });
+    }
+    return groups;
+  }, [source, inputFormat, messageText]);
+
+  const receivedView = useMemo(() => {
+    if (!reception) return null;
+    const { sent, received, format } = reception;
+    const bitErrors = sent.reduce((count, bit, i) => count + (bit !== received[i] ? 1 : 0), 0);
+    if (format === 'binary') {
+      return { bitErrors, framingErrors: 0, message: formatBits(received) };
+    }
+    const { bytes, framingErrors } = bitsToBytes(received, reception.framing);
+    return { bitErrors, framingErrors, message: formatBytes(bytes, format === 'file' ? 'hex' : format) };
+  }, [reception]);
+
+  // Live view of the bit-to-point assignment for the mapping table. A custom
+  // table starts out as a copy of the Gray mapping.
+  const mappingPreview = useMemo(() => {
+    if (!isDigitalModulation(params.modType) || isLineKeyed(params)) return null;
+    try {
+      const layoutOptions = getLayoutOptions(params);
+      const natural = getConstellation(params.modType, { ...layoutOptions, mapping: 'natural' });
+      if (!natural) return null;
+      let pointIndex = natural.pointIndex;
+      if (params.mapping === 'custom' && params.customMapping.length === natural.points.length) {
+        pointIndex = params.customMapping;
+      } else if (params.mapping !== 'natural') {
+        pointIndex = getConstellation(params.modType, { ...layoutOptions, mapping: 'gray' })!.pointIndex;
+      }
+      return { bitsPerSymbol: natural.bitsPerSymbol, layoutPoints: natural.points, pointIndex };
+    } catch {
+      return null;
+    }
+  }, [params]);
+
+  // Kept stable across unrelated parameter changes so the response plots
+  // are only recomputed when the pulse changes
+  const { pulseShape, rolloff, pulseBt, pulseSpan } = params;
+  const pulseShaping = useMemo<PulseShaping>(
+    () => ({ shape: pulseShape, rolloff, bt: pulseBt, span: pulseSpan }),
+    [pulseShape, rolloff, pulseBt, pulseSpan]
+  );
+
   const [chartData, setChartData] = useState<any>({
     labels: [],
     datasets: []
   });
 
-  const generateRandomBinary = useCallback((length = 8) => {
-    let binary = '';
-    for (let i = 0; i < length; i++) {
-      binary += Math.random() > 0.5 ? '1' : '0';
+  // Feedback taps and period of the selected LFSR pattern
+  const { patternType, patternPolynomial } = params;
+  const patternInfo = useMemo(() => {
+    try {
+      if (isPrbs(patternType)) {
+        const taps = PRBS_POLYNOMIALS[patternType];
+        return { taps, period: 2 ** taps[0] - 1, error: null };
+      }
+      if (patternType !== 'lfsr') return null;
+      const taps = parsePolynomial(patternPolynomial);
+      return { taps, period: taps[0] <= MAX_PERIOD_SEARCH_DEGREE ? lfsrPeriod(taps) : null, error: null };
+    } catch (error) {
+      return { taps: [], period: null, error: (error as Error).message };
     }
-    return binary;
-  }, []);
+  }, [patternType, patternPolynomial]);
 
   const drawSignal = useCallback((canvas: HTMLCanvasElement, data: number[], color: string, label: string) => {
     const ctx = canvas.getContext('2d');
@@ -137,8 +540,13 @@ const ModulationSimulator: React.FC = () => {
     ctx.stroke();
 
     // Enhanced signal drawing with better scaling
-    const minVal = Math.min(...data);
-    const maxVal = Math.max(...data);
+    // A loop, since spreading a long signal into Math.min overflows the stack
+    let minVal = Infinity;
+    let maxVal = -Infinity;
+    for (const value of data) {
+      if (value < minVal) minVal = value;
+      if (value > maxVal) maxVal = value;
+    }
     const range = maxVal - minVal;
     const margin = height * 0.05; // 5% margin
     
@@ -152,7 +560,9 @@ const ModulationSimulator: React.FC = () => {
     ctx.lineJoin = 'round';
     ctx.beginPath();
 
-    for (let i = 0; i < data.length; i++) {
+    const indices = traceIndices(data);
+    for (let k = 0; k < indices.length; k++) {
+      const i = indices[k];
       const x = (i / (data.length - 1)) * width;
       let y;
       
@@ -163,7 +573,7 @@ const ModulationSimulator: React.FC = () => {
         y = centerY;
       }
       
-      if (i === 0) {
+      if (k === 0) {
         ctx.moveTo(x, y);
       } else {
         ctx.lineTo(x, y);
@@ -197,95 +607,84 @@ const ModulationSimulator: React.FC = () => {
     ctx.fillText(label, 8 + labelPadding, 8 + labelHeight - 8);
   }, []);
 
+  // Channel code, CRC generator and interleaver from the controls
+  const { channelCode, crcType, crcPolynomial, rsSymbolBits, rsN, rsK } = params;
+  const { interleaverType, interleaverDepth, interleaverSpan } = params;
+  const reedSolomon = useMemo<ReedSolomonCode>(
+    () => ({ n: rsN, k: rsK, symbolBits: rsSymbolBits }),
+    [rsN, rsK, rsSymbolBits]
+  );
+  const codingInfo = useMemo((): { config: ChannelCodingConfig; error: string | null } => {
+    let interleaver: InterleaverConfig | undefined;
+    if (interleaverType === 'block') {
+      interleaver = { type: 'block', rows: interleaverDepth, columns: interleaverSpan };
+    } else if (interleaverType === 'convolutional') {
+      interleaver = { type: 'convolutional', branches: interleaverDepth, delay: interleaverSpan };
+    }
+    const config: ChannelCodingConfig = { code: channelCode, reedSolomon, interleaver };
+    try {
+      const crc =
+        crcType === 'none' ? undefined : crcType === 'custom' ? parsePolynomial(crcPolynomial) : CRC_POLYNOMIALS[crcType];
+      return { config: { ...config, crc }, error: null };
+    } catch (error) {
+      return { config, error: (error as Error).message };
+    }
+  }, [channelCode, crcType, crcPolynomial, reedSolomon, interleaverType, interleaverDepth, interleaverSpan]);
+
   const generateWaveform = useCallback(() => {
-    const { frequency, amplitude, bitrate, freqDev, modType, binaryData } = params;
-    
-    if (!/^[01]+$/.test(binaryData)) {
-      alert('Please enter valid binary data (only 0s and 1s)');
+    let run: ModulationRun;
+    try {
+      run = runModulation(params, {
+        source,
+        coding: codingInfo,
+        format: inputFormat,
+        framing,
+        customMapping: mappingPreview?.pointIndex,
+        pulseShaping
+      });
+    } catch (error) {
+      alert((error as Error).message);
       return;
     }
+    const { t, traces, basebandLabel, receivedLabel, analog } = run;
 
-    const samplesPerBit = 300; // Higher resolution for smoother curves
-    const bitDuration = 1000 / bitrate; // ms per bit
-    
-    const timeLabels: string[] = [];
-    const digitalData: number[] = [];
-    const carrierData: number[] = [];
-    const waveformData: number[] = [];
-    const unmodulatedData: number[] = [];
-
-    for (let bitIndex = 0; bitIndex < binaryData.length; bitIndex++) {
-      const bit = binaryData[bitIndex];
-      
-      for (let sample = 0; sample < samplesPerBit; sample++) {
-        const t = bitIndex * bitDuration + (sample / samplesPerBit) * bitDuration;
-        const bitProgress = sample / samplesPerBit; // 0 to 1 within the bit
-        timeLabels.push(t.toFixed(1));
-        
-        // Digital signal with smooth transitions
-        const digitalValue = bit === '1' ? 1 : 0;
-        digitalData.push(digitalValue);
-        
-        // Perfect carrier signal
-        const carrierValue = amplitude * Math.sin(2 * Math.PI * frequency * (t / 1000));
-        carrierData.push(carrierValue);
-        unmodulatedData.push(carrierValue);
-        
-        let modulatedValue = 0;
-        
-        switch(modType) {
-          case 'ask':
-          case 'bask':
-            // Perfect ASK: Complete amplitude switching
-            if (bit === '1') {
-              modulatedValue = carrierValue;
-            } else {
-              modulatedValue = 0; // Complete silence for '0'
-            }
-            break;
-            
-          case 'fsk':
-          case 'bfsk':
-            // Perfect FSK: Smooth frequency transitions
-            let effectiveFreq;
-            if (bit === '1') {
-              effectiveFreq = frequency;
-            } else {
-              effectiveFreq = frequency + freqDev;
-            }
-            modulatedValue = amplitude * Math.sin(2 * Math.PI * effectiveFreq * (t / 1000));
-            break;
-            
-          case 'psk':
-          case 'bpsk':
-            // Perfect PSK: Instant phase transitions at bit boundaries
-            const phaseShift = (bit === '1') ? 0 : Math.PI;
-            modulatedValue = amplitude * Math.sin(2 * Math.PI * frequency * (t / 1000) + phaseShift);
-            break;
-        }
-        
-        waveformData.push(modulatedValue);
-      }
-    }
+    setNoise(run.noise);
+    setFadingRun(run.fading);
+    setMultipathRun(run.multipath);
+    setEnvelopeRun(run.envelope);
+    setCoding(run.coding);
+    setSpreadData(run.spread);
+    setReception(run.reception);
+    setSymbolData(run.symbols);
+    setPhaseData(run.phase);
+
+    const digitalData = Array.from(traces.baseband);
+    const carrierData = Array.from(traces.carrier);
+    const waveformData = Array.from(traces.modulated);
+    const unmodulatedData = carrierData;
+    const inPhaseData = Array.from(traces.inPhase);
+    const quadratureData = Array.from(traces.quadrature);
+    const receivedData = Array.from(traces.received);
 
-    // Update main chart with enhanced styling
+    // Update main chart with enhanced styling, thinned out like the canvases
+    const chartIndices = traceIndices(waveformData);
     setChartData({
-      labels: timeLabels,
+      labels: chartIndices.map((n) => (t[n] * 1000).toFixed(1)),
       datasets: [
         {
-          label: 'Digital Signal',
-          data: digitalData,
+          label: basebandLabel,
+          data: chartIndices.map((n) => digitalData[n]),
           borderColor: '#76ff03',
           backgroundColor: 'rgba(118, 255, 3, 0.1)',
           borderWidth: 4,
           pointRadius: 0,
           fill: false,
           yAxisID: 'y1',
-          tension: 0, // Sharp edges for digital signal
+          tension: analog ? 0.1 : 0, // Sharp edges for digital signal
         },
         {
           label: 'Modulated Signal',
-          data: waveformData,
+          data: chartIndices.map((n) => waveformData[n]),
           borderColor: '#4fc3f7',
           backgroundColor: 'rgba(79, 195, 247, 0.15)',
           borderWidth: 3,
@@ -306,13 +705,17 @@ const ModulationSimulator: React.FC = () => {
           switch(key) {
             case 'digital1':
             case 'digital2':
-              drawSignal(canvas, digitalData, '#76ff03', 'Digital Signal');
+              drawSignal(canvas, digitalData, '#76ff03', basebandLabel);
               break;
             case 'modulated1':
             case 'modulated2':
             case 'modulated3':
+            case 'modulated4':
               drawSignal(canvas, waveformData, '#4fc3f7', 'Modulated Signal');
               break;
+            case 'received':
+              drawSignal(canvas, receivedData, '#bb86fc', receivedLabel);
+              break;
             case 'carrier1':
             case 'carrier2':
               drawSignal(canvas, carrierData, '#ff9800', 'Carrier Signal');
@@ -320,11 +723,17 @@ const ModulationSimulator: React.FC = () => {
             case 'unmodulated':
               drawSignal(canvas, unmodulatedData, '#bb86fc', 'Unmodulated Carrier');
               break;
+            case 'inPhase':
+              drawSignal(canvas, inPhaseData, '#76ff03', 'In-phase (I)');
+              break;
+            case 'quadrature':
+              drawSignal(canvas, quadratureData, '#ff9800', 'Quadrature (Q)');
+              break;
           }
         }
       });
     }, 150);
-  }, [params, drawSignal]);
+  }, [params, source, inputFormat, framing, codingInfo, mappingPreview, pulseShaping, drawSignal]);
 
   useEffect(() => {
     // Initialize canvases on mount
@@ -347,8 +756,45 @@ const ModulationSimulator: React.FC = () => {
     setParams(prev => ({ ...prev, [key]: value }));
   };
 
-  const handleRandomBinary = () => {
-    updateParam('binaryData', generateRandomBinary(8));
+  const handleRandomBinary = (format: Exclude<InputFormat, 'file'>) => {
+    if (format === 'binary') {
+      if (patternInfo?.error) {
+        alert(patternInfo.error);
+        return;
+      }
+      const bits = generatePattern({
+        type: patternType,
+        length: params.patternLength,
+        seed: params.patternSeed,
+        polynomial: patternInfo?.taps
+      });
+      updateParam('binaryData', formatBits(bits));
+      return;
+    }
+    // Printable ASCII for text, any byte value otherwise
+    const bytes = Uint8Array.from({ length: RANDOM_BYTES }, () =>
+      format === 'text' ? 0x20 + Math.floor(Math.random() * 95) : Math.floor(Math.random() * 256)
+    );
+    updateParam('messageText', formatBytes(bytes, format));
+  };
+
+  // Carries the current message over into the new format where it can
+  const handleInputFormat = (format: InputFormat) => {
+    if (format === 'binary' && source.bits) {
+      updateParam('binaryData', source.bits);
+    } else if (source.bytes && format !== 'binary' && format !== 'file') {
+      updateParam('messageText', formatBytes(source.bytes, format));
+    }
+    updateParam('inputFormat', format);
+  };
+
+  const handleFile = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = () => setFileData({ name: file.name, bytes: new Uint8Array(reader.result as ArrayBuffer) });
+    reader.onerror = () => alert(`Could not read ${file.name}`);
+    reader.readAsArrayBuffer(file);
   };
 
   const getModulationTitle = () => {
@@ -358,7 +804,29 @@ const ModulationSimulator: React.FC = () => {
       psk: 'PSK Modulation',
       bask: 'BASK Modulation',
       bfsk: 'BFSK Modulation',
-      bpsk: 'BPSK Modulation'
+      bpsk: 'BPSK Modulation',
+      qpsk: 'QPSK Modulation',
+      '8psk': '8-PSK Modulation',
+      '16qam': '16-QAM Modulation',
+      '64qam': '64-QAM Modulation',
+      '256qam': '256-QAM Modulation',
+      '16apsk': '16-APSK Modulation',
+      '32apsk': '32-APSK Modulation',
+      cpfsk: 'CPFSK Modulation',
+      msk: 'MSK Modulation',
+      gmsk: 'GMSK Modulation',
+      oqpsk: 'OQPSK Modulation',
+      pi4dqpsk: 'π/4-DQPSK Modulation',
+      dbpsk: 'DBPSK Modulation',
+      dsss: 'DSSS Modulation',
+      fhss: 'FHSS Modulation',
+      am: 'AM (DSB-FC) Modulation',
+      dsbsc: 'DSB-SC Modulation',
+      'ssb-usb': 'SSB (Upper Sideband) Modulation',
+      'ssb-lsb': 'SSB (Lower Sideband) Modulation',
+      vsb: 'VSB Modulation',
+      fm: 'FM Modulation',
+      pm: 'PM Modulation'
     };
     return titles[params.modType as keyof typeof titles] || 'Modulation';
   };
@@ -415,6 +883,24 @@ const ModulationSimulator: React.FC = () => {
     }
   };
 
+  const basebandName = isAnalogModulation(params.modType) ? 'Message' : 'Digital';
+
+  // Fading from the controls, and the carrier, rate and constellation every
+  // modulation shares in the fading comparison
+  const fadingConfig = getFadingConfig(params);
+  const multipathTaps = getMultipathTaps(params);
+  const impairmentConfig = useMemo(() => getImpairmentConfig(params), [params]);
+  const amplifierConfig = useMemo(() => getAmplifierConfig(params), [params]);
+  const fadingLink = {
+    frequency: params.frequency * 1000,
+    amplitude: params.amplitude,
+    bitrate: params.bitrate * 1000,
+    freqDev: params.freqDev * 1000,
+    ...getLayoutOptions(params),
+    modulationIndex: params.modulationIndex,
+    bt: params.bt
+  };
+
   const SignalCanvas: React.FC<{ canvasRef: React.RefObject<HTMLCanvasElement> }> = ({ canvasRef }) => (
     <canvas 
       ref={canvasRef} 
@@ -437,7 +923,7 @@ const ModulationSimulator: React.FC = () => {
           </h1>
         </div>
         <p className="text-xl text-muted-foreground max-w-4xl mx-auto leading-relaxed">
-          Visualize ASK, FSK, PSK, BASK, BFSK, and BPSK modulation with perfect signal clarity
+          Visualize ASK, FSK, PSK, BASK, BFSK, BPSK, QPSK, 8-PSK and 16-QAM modulation with perfect signal clarity
         </p>
       </div>
 
@@ -483,29 +969,101 @@ const ModulationSimulator: React.FC = () => {
                   />
                 </div>
                 
-                <div>
-                  <Label>Bit Rate: {params.bitrate} kbps</Label>
-                  <Slider
-                    value={[params.bitrate]}
-                    onValueChange={(value) => updateParam('bitrate', value[0])}
-                    min={0.5}
-                    max={5}
-                    step={0.1}
-                    className="mt-2"
-                  />
-                </div>
-                
-                <div>
-                  <Label>Frequency Deviation (FSK/BFSK): {params.freqDev} kHz</Label>
-                  <Slider
-                    value={[params.freqDev]}
-                    onValueChange={(value) => updateParam('freqDev', value[0])}
-                    min={0.1}
-                    max={1}
-                    step={0.1}
-                    className="mt-2"
-                  />
-                </div>
+                {!isAnalogModulation(params.modType) && (
+                  <div>
+                    <Label>
+                      Bit Rate: {params.bitrate} kbps
+                      {isDigitalModulation(params.modType) && (
+                        <> · Symbol Rate: {+(params.bitrate / getBitsPerSymbol(params.modType)).toFixed(3)} kBd</>
+                      )}
+                    </Label>
+                    <Slider
+                      value={[params.bitrate]}
+                      onValueChange={(value) => updateParam('bitrate', value[0])}
+                      min={0.5}
+                      max={5}
+                      step={0.1}
+                      className="mt-2"
+                    />
+                  </div>
+                )}
+
+                {isDigitalModulation(params.modType) && (
+                  <>
+                    <div>
+                      <Label>Frequency Deviation (FSK/BFSK): {params.freqDev} kHz</Label>
+                      <Slider
+                        value={[params.freqDev]}
+                        onValueChange={(value) => updateParam('freqDev', value[0])}
+                        min={0.1}
+                        max={1}
+                        step={0.1}
+                        className="mt-2"
+                      />
+                    </div>
+                  </>
+                )}
+
+                {params.modType === 'am' && (
+                  <div>
+                    <Label>AM Modulation Index μ: {params.amIndex}</Label>
+                    <Slider
+                      value={[params.amIndex]}
+                      onValueChange={(value) => updateParam('amIndex', value[0])}
+                      min={0}
+                      max={1.5}
+                      step={0.05}
+                      className="mt-2"
+                    />
+                  </div>
+                )}
+
+                {params.modType === 'fm' && (
+                  <div>
+                    <Label>
+                      Peak Frequency Deviation: {params.fmDeviation} kHz
+                      {params.messageKind !== 'tones' && (
+                        <> · β = {+(params.fmDeviation / params.messageFrequency).toFixed(2)}</>
+                      )}
+                    </Label>
+                    <Slider
+                      value={[params.fmDeviation]}
+                      onValueChange={(value) => updateParam('fmDeviation', value[0])}
+                      min={0.05}
+                      max={1}
+                      step={0.05}
+                      className="mt-2"
+                    />
+                  </div>
+                )}
+
+                {params.modType === 'pm' && (
+                  <div>
+                    <Label>Peak Phase Deviation: {params.pmDeviation} rad</Label>
+                    <Slider
+                      value={[params.pmDeviation]}
+                      onValueChange={(value) => updateParam('pmDeviation', value[0])}
+                      min={0.1}
+                      max={6.28}
+                      step={0.01}
+                      className="mt-2"
+                    />
+                  </div>
+                )}
+
+                {params.modType === 'vsb' && (
+                  <div>
+                    <Label>Vestige Width: {params.vestigeWidth} kHz</Label>
+                    <Slider
+                      value={[params.vestigeWidth]}
+                      onValueChange={(value) => updateParam('vestigeWidth', value[0])}
+                      min={0.01}
+                      max={0.5}
+                      step={0.01}
+                      className="mt-2"
+                    />
+                  </div>
+                )}
               </div>
             </div>
 
@@ -530,19 +1088,511 @@ const ModulationSimulator: React.FC = () => {
                       <SelectItem value="bask">Binary ASK (BASK)</SelectItem>
                       <SelectItem value="bfsk">Binary FSK (BFSK)</SelectItem>
                       <SelectItem value="bpsk">Binary PSK (BPSK)</SelectItem>
+                      <SelectItem value="qpsk">Quadrature PSK (QPSK)</SelectItem>
+                      <SelectItem value="8psk">8-ary PSK (8-PSK)</SelectItem>
+                      <SelectItem value="16qam">16-ary QAM (16-QAM)</SelectItem>
+                      <SelectItem value="64qam">64-ary QAM (64-QAM)</SelectItem>
+                      <SelectItem value="256qam">256-ary QAM (256-QAM)</SelectItem>
+                      <SelectItem value="16apsk">16-ary APSK (16-APSK)</SelectItem>
+                      <SelectItem value="32apsk">32-ary APSK (32-APSK)</SelectItem>
+                      <SelectItem value="cpfsk">Continuous-Phase FSK (CPFSK)</SelectItem>
+                      <SelectItem value="msk">Minimum Shift Keying (MSK)</SelectItem>
+                      <SelectItem value="gmsk">Gaussian MSK (GMSK)</SelectItem>
+                      <SelectItem value="oqpsk">Offset QPSK (OQPSK)</SelectItem>
+                      <SelectItem value="pi4dqpsk">π/4 Differential QPSK (π/4-DQPSK)</SelectItem>
+                      <SelectItem value="dbpsk">Differential BPSK (DBPSK)</SelectItem>
+                      <SelectItem value="dsss">Direct-Sequence Spread Spectrum (DSSS)</SelectItem>
+                      <SelectItem value="fhss">Frequency-Hopping Spread Spectrum (FHSS)</SelectItem>
+                      <SelectItem value="am">Amplitude Modulation (AM, DSB-FC)</SelectItem>
+                      <SelectItem value="dsbsc">Double Sideband Suppressed Carrier (DSB-SC)</SelectItem>
+                      <SelectItem value="ssb-usb">Single Sideband, Upper (SSB-USB)</SelectItem>
+                      <SelectItem value="ssb-lsb">Single Sideband, Lower (SSB-LSB)</SelectItem>
+                      <SelectItem value="vsb">Vestigial Sideband (VSB)</SelectItem>
+                      <SelectItem value="fm">Frequency Modulation (FM)</SelectItem>
+                      <SelectItem value="pm">Phase Modulation (PM)</SelectItem>
                     </SelectContent>
                   </Select>
                 </div>
+
+                {(params.modType === '64qam' || params.modType === '256qam') && (
+                  <div>
+                    <Label>QAM Layout</Label>
+                    <Select value={params.qamLayout} onValueChange={(value) => updateParam('qamLayout', value)}>
+                      <SelectTrigger className="mt-2">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="square">Square</SelectItem>
+                        <SelectItem value="cross">Cross</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+
+                {(params.modType === '16apsk' || params.modType === '32apsk') && (
+                  <div>
+                    <Label>Ring Ratio R2/R1: {params.apskRatio1}</Label>
+                    <Slider
+                      value={[params.apskRatio1]}
+                      onValueChange={(value) => updateParam('apskRatio1', value[0])}
+                      min={1.5}
+                      max={4}
+                      step={0.01}
+                      className="mt-2"
+                    />
+                  </div>
+                )}
+
+                {params.modType === '32apsk' && (
+                  <div>
+                    <Label>Ring Ratio R3/R1: {params.apskRatio2}</Label>
+                    <Slider
+                      value={[params.apskRatio2]}
+                      onValueChange={(value) => updateParam('apskRatio2', value[0])}
+                      min={3}
+                      max={7}
+                      step={0.01}
+                      className="mt-2"
+                    />
+                  </div>
+                )}
+
+                {params.modType === 'cpfsk' && (
+                  <div>
+                    <Label>Modulation Index h: {params.modulationIndex}</Label>
+                    <Slider
+                      value={[params.modulationIndex]}
+                      onValueChange={(value) => updateParam('modulationIndex', value[0])}
+                      min={0.1}
+                      max={2}
+                      step={0.05}
+                      className="mt-2"
+                    />
+                  </div>
+                )}
+
+                {params.modType === 'gmsk' && (
+                  <div>
+                    <Label>Gaussian Filter BT: {params.bt}</Label>
+                    <Slider
+                      value={[params.bt]}
+                      onValueChange={(value) => updateParam('bt', value[0])}
+                      min={0.1}
+                      max={1}
+                      step={0.05}
+                      className="mt-2"
+                    />
+                  </div>
+                )}
+
+                <SpreadSpectrumControls params={params} updateParam={updateParam} />
+
+                {isDigitalModulation(params.modType) && supportsLineCoding(params.modType) && (
+                  <div>
+                    <Label>Line Coding</Label>
+                    <Select value={params.lineCode} onValueChange={(value) => updateParam('lineCode', value)}>
+                      <SelectTrigger className="mt-2">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {Object.entries(LINE_CODE_NAMES).map(([value, name]) => (
+                          <SelectItem key={value} value={value}>{name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+
+                {isDigitalModulation(params.modType) && (
+                  <div>
+                    <Label>Pulse Shape</Label>
+                    <Select value={params.pulseShape} onValueChange={(value) => updateParam('pulseShape', value)}>
+                      <SelectTrigger className="mt-2">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {Object.entries(PULSE_SHAPE_NAMES).map(([value, name]) => (
+                          <SelectItem key={value} value={value}>{name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+
+                {isDigitalModulation(params.modType) && (params.pulseShape === 'rc' || params.pulseShape === 'rrc') && (
+                  <div>
+                    <Label>Roll-off Factor β: {params.rolloff}</Label>
+                    <Slider
+                      value={[params.rolloff]}
+                      onValueChange={(value) => updateParam('rolloff', value[0])}
+                      min={0}
+                      max={1}
+                      step={0.05}
+                      className="mt-2"
+                    />
+                  </div>
+                )}
+
+                {isDigitalModulation(params.modType) && params.pulseShape === 'gaussian' && (
+                  <div>
+                    <Label>Gaussian Pulse BT: {params.pulseBt}</Label>
+                    <Slider
+                      value={[params.pulseBt]}
+                      onValueChange={(value) => updateParam('pulseBt', value[0])}
+                      min={0.1}
+                      max={1}
+                      step={0.05}
+                      className="mt-2"
+                    />
+                  </div>
+                )}
+
+                {isDigitalModulation(params.modType) && params.pulseShape !== 'rect' && (
+                  <div>
+                    <Label>Pulse Span: {params.pulseSpan} symbols</Label>
+                    <Slider
+                      value={[params.pulseSpan]}
+                      onValueChange={(value) => updateParam('pulseSpan', value[0])}
+                      min={2}
+                      max={12}
+                      step={1}
+                      className="mt-2"
+                    />
+                  </div>
+                )}
+
+                {isDigitalModulation(params.modType) &&
+                  !isFrequencyKeyed(params.modType) &&
+                  !isDifferential(params.modType) &&
+                  !isLineKeyed(params) && (
+                  <div>
+                    <Label>Bit Mapping</Label>
+                    <Select value={params.mapping} onValueChange={(value) => updateParam('mapping', value)}>
+                      <SelectTrigger className="mt-2">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {Object.entries(MAPPING_NAMES).map(([value, name]) => (
+                          <SelectItem key={value} value={value}>{name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
                 
-                <div>
-                  <Label>Binary Input</Label>
-                  <Input
-                    value={params.binaryData}
-                    onChange={(e) => updateParam('binaryData', e.target.value)}
-                    placeholder="Enter binary data (e.g. 1010)"
-                    className="mt-2 font-mono"
-                  />
-                </div>
+                {isAnalogModulation(params.modType) ? (
+                  <>
+                    <div>
+                      <Label>Message Signal</Label>
+                      <Select value={params.messageKind} onValueChange={(value) => updateParam('messageKind', value)}>
+                        <SelectTrigger className="mt-2">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {Object.entries(MESSAGE_KIND_NAMES).map(([value, name]) => (
+                            <SelectItem key={value} value={value}>{name}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+
+                    {params.messageKind !== 'tones' && (
+                      <div>
+                        <Label>Message Frequency: {params.messageFrequency} kHz</Label>
+                        <Slider
+                          value={[params.messageFrequency]}
+                          onValueChange={(value) => updateParam('messageFrequency', value[0])}
+                          min={0.05}
+                          max={0.5}
+                          step={0.01}
+                          className="mt-2"
+                        />
+                      </div>
+                    )}
+
+                    {params.messageKind === 'tones' && (
+                      <div className="space-y-2">
+                        <Label>Tones (frequency in kHz, amplitude)</Label>
+                        {params.tones.map((tone, index) => (
+                          <div key={index} className="flex gap-2">
+                            <Input
+                              type="number"
+                              min={0.01}
+                              step={0.01}
+                              value={tone.frequency}
+                              onChange={(e) =>
+                                updateParam(
+                                  'tones',
+                                  params.tones.map((t, i) => (i === index ? { ...t, frequency: +e.target.value } : t))
+                                )
+                              }
+                              className="font-mono"
+                            />
+                            <Input
+                              type="number"
+                              step={0.1}
+                              value={tone.amplitude}
+                              onChange={(e) =>
+                                updateParam(
+                                  'tones',
+                                  params.tones.map((t, i) => (i === index ? { ...t, amplitude: +e.target.value } : t))
+                                )
+                              }
+                              className="font-mono"
+                            />
+                            <Button
+                              variant="secondary"
+                              size="icon"
+                              disabled={params.tones.length === 1}
+                              onClick={() => updateParam('tones', params.tones.filter((_, i) => i !== index))}
+                            >
+                              <Trash2 className="w-4 h-4" />
+                            </Button>
+                          </div>
+                        ))}
+                        <Button
+                          variant="secondary"
+                          size="sm"
+                          onClick={() => updateParam('tones', [...params.tones, { frequency: 0.2, amplitude: 0.5 }])}
+                        >
+                          <Plus className="w-4 h-4 mr-2" />
+                          Add Tone
+                        </Button>
+                      </div>
+                    )}
+
+                    {params.messageKind === 'drawn' && (
+                      <div className="h-40 rounded-lg overflow-hidden border border-border">
+                        <WaveformDrawer
+                          value={params.drawnWaveform}
+                          onChange={(waveform) => updateParam('drawnWaveform', waveform)}
+                        />
+                      </div>
+                    )}
+                  </>
+                ) : (
+                  <>
+                    <div>
+                      <Label>Input Format</Label>
+                      <Select value={params.inputFormat} onValueChange={(value) => handleInputFormat(value as InputFormat)}>
+                        <SelectTrigger className="mt-2">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {Object.entries(INPUT_FORMAT_NAMES).map(([value, name]) => (
+                            <SelectItem key={value} value={value}>{name}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+
+                    {params.inputFormat === 'binary' && (
+                      <div>
+                        <Label>Binary Input</Label>
+                        <Input
+                          value={params.binaryData}
+                          onChange={(e) => updateParam('binaryData', e.target.value)}
+                          placeholder="Enter binary data (e.g. 1010)"
+                          className="mt-2 font-mono"
+                        />
+                      </div>
+                    )}
+
+                    {params.inputFormat === 'binary' && (
+                      <>
+                        <div className="grid grid-cols-2 gap-4">
+                          <div>
+                            <Label>Test Pattern</Label>
+                            <Select
+                              value={params.patternType}
+                              onValueChange={(value) => updateParam('patternType', value as PatternType)}
+                            >
+                              <SelectTrigger className="mt-2">
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                {Object.entries(PATTERN_NAMES).map(([value, name]) => (
+                                  <SelectItem key={value} value={value}>{name}</SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          </div>
+                          <div>
+                            <Label>Length (bits)</Label>
+                            <Input
+                              type="number"
+                              min={1}
+                              max={MAX_PATTERN_BITS}
+                              value={params.patternLength}
+                              onChange={(e) =>
+                                updateParam('patternLength', Math.min(MAX_PATTERN_BITS, Math.max(1, Math.round(+e.target.value))))
+                              }
+                              className="mt-2 font-mono"
+                            />
+                          </div>
+                        </div>
+
+                        {params.patternType === 'random' && (
+                          <div>
+                            <Label>Seed</Label>
+                            <Input
+                              type="number"
+                              step={1}
+                              value={params.patternSeed}
+                              onChange={(e) => updateParam('patternSeed', Math.round(+e.target.value))}
+                              className="mt-2 font-mono"
+                            />
+                          </div>
+                        )}
+
+                        {params.patternType === 'lfsr' && (
+                          <div>
+                            <Label>Feedback Polynomial</Label>
+                            <Input
+                              value={params.patternPolynomial}
+                              onChange={(e) => updateParam('patternPolynomial', e.target.value)}
+                              placeholder="e.g. x^5 + x^3 + 1"
+                              className="mt-2 font-mono"
+                            />
+                          </div>
+                        )}
+
+                        {patternInfo &&
+                          (patternInfo.error ? (
+                            <p className="text-sm text-destructive">{patternInfo.error}</p>
+                          ) : (
+                            <p className="text-sm text-muted-foreground">
+                              {formatPolynomial(patternInfo.taps)}, started from all ones.{' '}
+                              {patternInfo.period === null
+                                ? 'Period not worked out for this degree.'
+                                : patternInfo.period === 2 ** patternInfo.taps[0] - 1
+                                  ? `Maximal length: repeats every ${patternInfo.period} bits.`
+                                  : `Not primitive: repeats every ${patternInfo.period} bits instead of ${2 ** patternInfo.taps[0] - 1}.`}
+                            </p>
+                          ))}
+                      </>
+                    )}
+
+                    {params.inputFormat === 'text' && (
+                      <div>
+                        <Label>Message</Label>
+                        <Textarea
+                          value={params.messageText}
+                          onChange={(e) => updateParam('messageText', e.target.value)}
+                          placeholder="Type a message to send"
+                          className="mt-2"
+                        />
+                      </div>
+                    )}
+
+                    {(params.inputFormat === 'hex' || params.inputFormat === 'base64') && (
+                      <div>
+                        <Label>{INPUT_FORMAT_NAMES[params.inputFormat]}</Label>
+                        <Input
+                          value={params.messageText}
+                          onChange={(e) => updateParam('messageText', e.target.value)}
+                          placeholder={params.inputFormat === 'hex' ? 'e.g. 48 69 21' : 'e.g. SGkh'}
+                          className="mt-2 font-mono"
+                        />
+                      </div>
+                    )}
+
+                    {params.inputFormat === 'file' && (
+                      <div>
+                        <Label htmlFor="input-file">File</Label>
+                        <Input id="input-file" type="file" onChange={handleFile} className="mt-2" />
+                        {fileData && (
+                          <p className="mt-2 text-sm text-muted-foreground">
+                            {fileData.name} ({fileData.bytes.length} bytes)
+                          </p>
+                        )}
+                      </div>
+                    )}
+
+                    {params.inputFormat !== 'binary' && (
+                      <>
+                        <div className="flex items-center justify-between">
+                          <Label htmlFor="start-stop-bits">Start/Stop Bits</Label>
+                          <Switch
+                            id="start-stop-bits"
+                            checked={params.startStopBits}
+                            onCheckedChange={(checked) => updateParam('startStopBits', checked)}
+                          />
+                        </div>
+
+                        {params.startStopBits && (
+                          <div>
+                            <Label>Stop Bits</Label>
+                            <Select
+                              value={String(params.stopBits)}
+                              onValueChange={(value) => updateParam('stopBits', Number(value))}
+                            >
+                              <SelectTrigger className="mt-2">
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                <SelectItem value="1">1</SelectItem>
+                                <SelectItem value="2">2</SelectItem>
+                              </SelectContent>
+                            </Select>
+                          </div>
+                        )}
+
+                        {source.error ? (
+                          <p className="text-sm text-destructive">{source.error}</p>
+                        ) : (
+                          <div className="space-y-2">
+                            <div className="max-h-56 overflow-auto rounded-lg border border-border">
+                              <Table>
+                                <TableHeader>
+                                  <TableRow>
+                                    <TableHead>{params.inputFormat === 'text' ? 'Char' : 'Byte'}</TableHead>
+                                    <TableHead>Hex</TableHead>
+                                    <TableHead>Bits</TableHead>
+                                  </TableRow>
+                                </TableHeader>
+                                <TableBody>
+                                  {byteGroups.map((group, index) => (
+                                    <TableRow key={index}>
+                                      <TableCell className="font-mono">{group.label}</TableCell>
+                                      <TableCell className="font-mono">{formatHex(group.bytes)}</TableCell>
+                                      <TableCell className="font-mono">
+                                        {Array.from(group.bytes, (byte, b) => {
+                                          const bits = formatBits(bytesToBits([byte], framing));
+                                          const start = framing.startBit ? 1 : 0;
+                                          return (
+                                            <span key={b} className="mr-2">
+                                              <span className="text-warning">{bits.slice(0, start)}</span>
+                                              <span className="text-accent">{bits.slice(start, start + 8)}</span>
+                                              <span className="text-warning">{bits.slice(start + 8)}</span>
+                                            </span>
+                                          );
+                                        })}
+                                      </TableCell>
+                                    </TableRow>
+                                  ))}
+                                </TableBody>
+                              </Table>
+                            </div>
+                            <p className="text-sm text-muted-foreground">
+                              {source.bits.length} bits to send
+                              {params.startStopBits && ', with start and stop bits in amber'}.
+                            </p>
+                            {source.truncated && (
+                              <p className="text-sm text-warning">
+                                Only the first {MAX_INPUT_BYTES} bytes are sent.
+                              </p>
+                            )}
+                          </div>
+                        )}
+                      </>
+                    )}
+
+                    <ChannelCodingControls params={params} updateParam={updateParam} crcError={codingInfo.error} />
+                  </>
+                )}
+
+                {!isSpreadSpectrum(params.modType) && <ChannelControls params={params} updateParam={updateParam} />}
                 
                 <div className="flex gap-4">
                   <Button 
@@ -552,14 +1602,16 @@ const ModulationSimulator: React.FC = () => {
                     <Play className="w-5 h-5 mr-2" />
                     Run Simulation
                   </Button>
-                  <Button 
-                    onClick={handleRandomBinary} 
-                    variant="secondary" 
-                    className="flex-1 hover:scale-105 transition-all duration-300"
-                  >
-                    <Shuffle className="w-5 h-5 mr-2" />
-                    Random
-                  </Button>
+                  {!isAnalogModulation(params.modType) && inputFormat !== 'file' && (
+                    <Button 
+                      onClick={() => handleRandomBinary(inputFormat)} 
+                      variant="secondary" 
+                      className="flex-1 hover:scale-105 transition-all duration-300"
+                    >
+                      <Shuffle className="w-5 h-5 mr-2" />
+                      {params.inputFormat === 'binary' ? 'Generate' : 'Random'}
+                    </Button>
+                  )}
                 </div>
               </div>
             </div>
@@ -582,9 +1634,14 @@ const ModulationSimulator: React.FC = () => {
               <div className="flex items-center justify-center gap-10">
                 <div className="flex items-center gap-2">
                   <svg width="40" height="30" viewBox="0 0 40 30" className="text-[#76ff03]">
-                    <path d="M5 15h8v-10h14v20h8" stroke="currentColor" strokeWidth="3" fill="none"/>
+                    <path
+                      d={basebandName === 'Message' ? 'M2 15 C 10 0, 12 0, 20 15 S 30 30, 38 15' : 'M5 15h8v-10h14v20h8'}
+                      stroke="currentColor"
+                      strokeWidth="3"
+                      fill="none"
+                    />
                   </svg>
-                  <span className="text-white text-base font-medium whitespace-nowrap">Digital Signal</span>
+                  <span className="text-white text-base font-medium whitespace-nowrap">{basebandName} Signal</span>
                 </div>
                 <div className="flex items-center gap-2">
                   <svg width="40" height="30" viewBox="0 0 40 30" className="text-[#4fc3f7]">
@@ -636,6 +1693,222 @@ const ModulationSimulator: React.FC = () => {
         </CardContent>
       </Card>
 
+      {/* Received Message */}
+      {reception && receivedView && (
+        <Card className="card-enhanced animate-fade-in" style={{ animationDelay: '0.25s' }}>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-3 text-2xl">
+              <MessageSquare className="w-8 h-8 text-primary" />
+              Received Message
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4 text-center">
+              <div className="p-3 rounded-lg bg-muted/50 border border-border">
+                <div className="text-xs text-muted-foreground">Bit Errors</div>
+                <div className="text-lg font-semibold">
+                  {receivedView.bitErrors} / {reception.sent.length}
+                </div>
+              </div>
+              <div className="p-3 rounded-lg bg-muted/50 border border-border">
+                <div className="text-xs text-muted-foreground">Framing Errors</div>
+                <div className="text-lg font-semibold">
+                  {reception.framing.startBit ? receivedView.framingErrors : '—'}
+                </div>
+              </div>
+              <div className="p-3 rounded-lg bg-muted/50 border border-border">
+                <div className="text-xs text-muted-foreground">Decoded As</div>
+                <div className="text-lg font-semibold">
+                  {reception.format === 'file' ? INPUT_FORMAT_NAMES.hex : INPUT_FORMAT_NAMES[reception.format]}
+                </div>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Recovered Bits</Label>
+              <div className="p-3 rounded-lg bg-muted/50 border border-border font-mono text-sm break-all">
+                {Array.from(reception.received, (bit, i) => (
+                  <span key={i} className={bit !== reception.sent[i] ? 'text-destructive font-bold' : 'text-accent'}>
+                    {bit}
+                  </span>
+                ))}
+              </div>
+            </div>
+
+            {reception.format !== 'binary' && (
+              <div className="space-y-2">
+                <Label>Decoded Message</Label>
+                <div className="p-3 rounded-lg bg-muted/50 border border-border text-lg whitespace-pre-wrap break-all">
+                  {receivedView.message}
+                </div>
+              </div>
+            )}
+
+            <p className="text-sm text-muted-foreground">
+              The receiver mixes the modulated signal back down with the carrier, decides every symbol and
+              reassembles the bytes. Bits that differ from the ones sent are shown in red.
+            </p>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Channel Coding */}
+      {coding && reception && receivedView && (
+        <ChannelCodingCard
+          coding={coding}
+          dataBits={reception.sent.length}
+          residualErrors={receivedView.bitErrors}
+          code={params.channelCode}
+          reedSolomon={reedSolomon}
+        />
+      )}
+
+      {/* Power Amplifier */}
+      {amplifierConfig && !isSpreadSpectrum(params.modType) && (
+        <PowerAmplifierPanel config={amplifierConfig} run={envelopeRun} />
+      )}
+
+      {/* Multipath Channel */}
+      {multipathTaps && !isAnalogModulation(params.modType) && !isSpreadSpectrum(params.modType) && (
+        <MultipathChannelPanel
+          taps={multipathTaps}
+          bitrate={params.bitrate * 1000}
+          symbolRate={(params.bitrate * 1000) / getBitsPerSymbol(params.modType)}
+          run={multipathRun}
+        />
+      )}
+
+      {/* Fading Channel */}
+      {fadingConfig && !isSpreadSpectrum(params.modType) && (
+        <FadingChannelPanel
+          config={fadingConfig}
+          run={fadingRun}
+          link={fadingLink}
+          equalize={params.equalize}
+          channelSeed={params.channelSeed}
+        />
+      )}
+
+      {/* RF Impairments */}
+      {impairmentConfig && !isSpreadSpectrum(params.modType) && (
+        <RfImpairmentsPanel config={impairmentConfig} run={envelopeRun} />
+      )}
+
+      {/* Iterative Codes */}
+      {!isAnalogModulation(params.modType) && <IterativeCodingPanel />}
+
+      {/* Symbol Mapping */}
+      <Card className="card-enhanced animate-fade-in" style={{ animationDelay: '0.3s' }}>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-3 text-2xl">
+            <Crosshair className="w-8 h-8 text-primary" />
+            Symbol Mapping
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <div className="h-80 rounded-lg overflow-hidden border border-border bg-muted/20 hover:border-primary transition-colors duration-300">
+              <ConstellationPlot
+                reference={symbolData.reference}
+                symbols={symbolData.symbols}
+                labels={symbolData.labels}
+                trajectory={symbolData.trajectory}
+              />
+            </div>
+            <div className="h-80 rounded-lg overflow-hidden border border-border bg-muted/20 hover:border-primary transition-colors duration-300">
+              <div className="h-1/2 relative border-b border-border">
+                <SignalCanvas canvasRef={canvasRefs.inPhase} />
+              </div>
+              <div className="h-1/2 relative">
+                <SignalCanvas canvasRef={canvasRefs.quadrature} />
+              </div>
+            </div>
+          </div>
+
+          <p className="mt-3 text-sm text-muted-foreground">
+            Arrows trace the envelope from one bit period to the next: BPSK and QPSK swing through the origin,
+            OQPSK moves one axis at a time and π/4-DQPSK rotates by odd multiples of π/4 without crossing zero.
+          </p>
+
+          {mappingPreview && (
+            <div className="mt-6 space-y-3">
+              <h3 className="text-lg font-semibold text-accent">
+                Bit-to-Symbol Table ({MAPPING_NAMES[params.mapping]})
+              </h3>
+              <MappingTable
+                bitsPerSymbol={mappingPreview.bitsPerSymbol}
+                layoutPoints={mappingPreview.layoutPoints}
+                pointIndex={mappingPreview.pointIndex}
+                onChange={params.mapping === 'custom' ? (table) => updateParam('customMapping', table) : undefined}
+              />
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Phase Trajectory */}
+      <Card className="card-enhanced animate-fade-in" style={{ animationDelay: '0.35s' }}>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-3 text-2xl">
+            <TrendingUp className="w-8 h-8 text-primary" />
+            Phase Trajectory
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="h-80 rounded-lg overflow-hidden border border-border bg-muted/20 hover:border-primary transition-colors duration-300">
+            <PhaseTrajectoryPlot series={phaseData.series} bitCount={phaseData.bitCount} />
+          </div>
+          <p className="mt-3 text-sm text-muted-foreground">
+            Carrier phase relative to the unmodulated carrier. Continuous-phase modes ramp by ±πh per bit,
+            while plain FSK and PSK jump at bit boundaries.
+          </p>
+        </CardContent>
+      </Card>
+
+      {/* Spread Spectrum */}
+      {isSpreadSpectrum(params.modType) && spreadData && <SpreadSpectrumCard spreadData={spreadData} />}
+
+      {/* Line Code Spectra */}
+      {isDigitalModulation(params.modType) && supportsLineCoding(params.modType) && (
+        <Card className="card-enhanced animate-fade-in" style={{ animationDelay: '0.38s' }}>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-3 text-2xl">
+              <Activity className="w-8 h-8 text-primary" />
+              Line Code Spectra
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <LineCodeSpectrum selected={params.lineCode} names={LINE_CODE_NAMES} />
+            <p className="mt-3 text-sm text-muted-foreground">
+              Power spectral density for random data, normalized to unit level. Unipolar codes waste power in DC
+              and spectral lines, Manchester and AMI have no DC content, and return-to-zero and Manchester codes
+              need twice the NRZ bandwidth to their first null in exchange for guaranteed transitions.
+            </p>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Pulse Shaping */}
+      {isDigitalModulation(params.modType) && (
+        <Card className="card-enhanced animate-fade-in" style={{ animationDelay: '0.39s' }}>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-3 text-2xl">
+              <AudioWaveform className="w-8 h-8 text-primary" />
+              Pulse Shaping ({PULSE_SHAPE_NAMES[params.pulseShape]})
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <PulseResponsePlot shaping={pulseShaping} />
+            <p className="mt-3 text-sm text-muted-foreground">
+              The rectangular pulse has sinc-shaped sidelobes that never die out. A raised cosine confines the
+              spectrum to (1 + β)/2 times the symbol rate and still crosses zero at every other symbol instant;
+              the root raised cosine splits that response between transmitter and receiver, so on its own it
+              leaves some intersymbol interference, which shows up in the I/Q traces and constellation arrows.
+            </p>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Comparative Analysis */}
       <Card className="card-enhanced animate-fade-in" style={{ animationDelay: '0.4s' }}>
         <CardHeader>
@@ -650,12 +1923,12 @@ const ModulationSimulator: React.FC = () => {
             <div className="space-y-4 animate-scale-in" style={{ animationDelay: '0.5s' }}>
               <h3 className="text-lg font-semibold flex items-center gap-2 text-signal-blue">
                 <Signal className="w-5 h-5" />
-                Digital vs Modulated
+                {basebandName} vs Modulated
               </h3>
               <div className="h-80 rounded-lg overflow-hidden border border-border bg-muted/20 hover:border-primary transition-colors duration-300">
                 <div className="h-1/2 relative border-b border-border">
                   <div className="absolute top-2 left-2 text-xs font-medium bg-black/80 text-signal-green px-2 py-1 rounded z-10">
-                    Digital Signal
+                    {basebandName} Signal
                   </div>
                   <SignalCanvas canvasRef={canvasRefs.digital1} />
                 </div>
@@ -672,12 +1945,12 @@ const ModulationSimulator: React.FC = () => {
             <div className="space-y-4 animate-scale-in" style={{ animationDelay: '0.6s' }}>
               <h3 className="text-lg font-semibold flex items-center gap-2 text-signal-orange">
                 <Waves className="w-5 h-5" />
-                Digital vs Carrier
+                {basebandName} vs Carrier
               </h3>
               <div className="h-80 rounded-lg overflow-hidden border border-border bg-muted/20 hover:border-primary transition-colors duration-300">
                 <div className="h-1/2 relative border-b border-border">
                   <div className="absolute top-2 left-2 text-xs font-medium bg-black/80 text-signal-green px-2 py-1 rounded z-10">
-                    Digital Signal
+                    {basebandName} Signal
                   </div>
                   <SignalCanvas canvasRef={canvasRefs.digital2} />
                 </div>
@@ -733,6 +2006,36 @@ const ModulationSimulator: React.FC = () => {
                 </div>
               </div>
             </div>
+
+            {/* Modulated vs Received */}
+            {!isSpreadSpectrum(params.modType) && (
+              <div className="space-y-4 animate-scale-in" style={{ animationDelay: '0.85s' }}>
+                <h3 className="text-lg font-semibold flex items-center gap-2 text-signal-purple">
+                  <Radio className="w-5 h-5" />
+                  Modulated vs Received
+                  {noise && (
+                    <span className="text-sm font-normal text-muted-foreground">
+                      SNR {noise.snrDb.toFixed(1)} dB
+                      {noise.ebN0Db !== null && `, Eb/N0 ${noise.ebN0Db.toFixed(1)} dB`}
+                    </span>
+                  )}
+                </h3>
+                <div className="h-80 rounded-lg overflow-hidden border border-border bg-muted/20 hover:border-primary transition-colors duration-300">
+                  <div className="h-1/2 relative border-b border-border">
+                    <div className="absolute top-2 left-2 text-xs font-medium bg-black/80 text-signal-blue px-2 py-1 rounded z-10">
+                      Modulated Signal
+                    </div>
+                    <SignalCanvas canvasRef={canvasRefs.modulated4} />
+                  </div>
+                  <div className="h-1/2 relative">
+                    <div className="absolute top-2 left-2 text-xs font-medium bg-black/80 text-signal-purple px-2 py-1 rounded z-10">
+                      Received Signal
+                    </div>
+                    <SignalCanvas canvasRef={canvasRefs.received} />
+                  </div>
+                </div>
+              </div>
+            )}
           </div>
         </CardContent>
       </Card>
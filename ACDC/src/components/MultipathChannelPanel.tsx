@@ -0,0 +1,213 @@
+import React, { useMemo } from 'react';
+import { Line } from 'react-chartjs-2';
+import { Waypoints } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import SignalPlot from '@/components/SignalPlot';
+import { applyMultipath, coherenceBandwidth, delaySpread, multipathResponse } from '@/lib/multipath';
+import type { MultipathTap, Signal } from '@/lib/types';
+
+interface MultipathChannelPanelProps {
+  /** Taps from the controls, delays in seconds. */
+  taps: MultipathTap[];
+  /** Bit and symbol rates of the current modulation, in Hz. */
+  bitrate: number;
+  symbolRate: number;
+  /** Transmitted envelope of the last run and the taps it went through. */
+  run: { inPhase: Signal; quadrature: Signal; taps: MultipathTap[]; samplesPerSymbol: number } | null;
+}
+
+const RESPONSE_POINTS = 401;
+// The response is drawn over two symbol rates either side of the carrier
+const RESPONSE_SPAN = 2;
+const ISI_SYMBOLS = 8;
+// Below a tenth of a symbol the echoes barely smear the symbols together
+const FLAT_DELAY_SPREAD = 0.1;
+
+const axisStyle = {
+  grid: { color: 'rgba(255, 255, 255, 0.1)' },
+  ticks: { color: '#FFFFFF' }
+};
+
+const chartOptions = (xTitle: string, yTitle: string) => ({
+  responsive: true,
+  maintainAspectRatio: false,
+  animation: false as const,
+  plugins: {
+    legend: { labels: { color: '#FFFFFF' } },
+    tooltip: { enabled: false }
+  },
+  scales: {
+    x: { ...axisStyle, type: 'linear' as const, title: { display: true, text: xTitle, color: '#FFFFFF' } },
+    y: { ...axisStyle, title: { display: true, text: yTitle, color: '#FFFFFF' } }
+  }
+});
+
+/** Delays under a millisecond in µs, longer ones (stretched profiles) in ms. */
+const delayUnit = (seconds: number) => (seconds < 1e-3 ? { scale: 1e6, name: 'µs' } : { scale: 1e3, name: 'ms' });
+
+const formatFrequency = (hertz: number) =>
+  !Number.isFinite(hertz) ? '∞' : hertz >= 1e6 ? `${(hertz / 1e6).toFixed(2)} MHz` : `${(hertz / 1e3).toFixed(2)} kHz`;
+
+/**
+ * Frequency-selective multipath: the tapped delay line as an impulse
+ * response and as a frequency response around the carrier, its delay spread
+ * against the symbol length, and the smearing it causes in the last run.
+ */
+const MultipathChannelPanel: React.FC<MultipathChannelPanelProps> = ({ taps, bitrate, symbolRate, run }) => {
+  const { rmsDelay } = delaySpread(taps);
+  const bandwidth = coherenceBandwidth(rmsDelay);
+  const spreadPerSymbol = rmsDelay * symbolRate;
+  const longest = Math.max(...taps.map((tap) => tap.delay));
+  const unit = delayUnit(Math.max(longest, rmsDelay));
+
+  const impulse = useMemo(() => {
+    const total = taps.reduce((sum, tap) => sum + 10 ** (tap.gainDb / 10), 0);
+    // One stem per tap; the NaN point breaks the line between stems
+    return taps.flatMap((tap) => {
+      const x = tap.delay * unit.scale;
+      return [
+        { x, y: 0 },
+        { x, y: Math.sqrt(10 ** (tap.gainDb / 10) / total) },
+        { x, y: NaN }
+      ];
+    });
+  }, [taps, unit.scale]);
+
+  const response = useMemo(() => {
+    const frequencies = Array.from(
+      { length: RESPONSE_POINTS },
+      (_, i) => RESPONSE_SPAN * symbolRate * ((2 * i) / (RESPONSE_POINTS - 1) - 1)
+    );
+    return multipathResponse(taps, frequencies).map((h, i) => ({
+      x: frequencies[i] / 1000,
+      y: 10 * Math.log10(Math.max(h.re ** 2 + h.im ** 2, 1e-6))
+    }));
+  }, [taps, symbolRate]);
+
+  const isi = useMemo(() => {
+    if (!run) return null;
+    const length = Math.min(run.inPhase.samples.length, Math.round(ISI_SYMBOLS * run.samplesPerSymbol));
+    const output = applyMultipath(run, run.taps);
+    // Undo the phase of the strongest path so its echo lines up with what was sent
+    const strongest = run.taps.reduce((best, tap) => (tap.gainDb > best.gainDb ? tap : best), run.taps[0]);
+    const c = Math.cos(strongest.phase);
+    const s = Math.sin(strongest.phase);
+    const received = Float64Array.from(
+      { length },
+      (_, n) => c * output.inPhase.samples[n] + s * output.quadrature.samples[n]
+    );
+    const shaded: [number, number][] = [];
+    for (let k = 1; k * run.samplesPerSymbol < length; k += 2) {
+      shaded.push([Math.round(k * run.samplesPerSymbol), Math.min(length, Math.round((k + 1) * run.samplesPerSymbol))]);
+    }
+    return {
+      series: [
+        { data: run.inPhase.samples.subarray(0, length), color: '#FFFFFF', label: 'Transmitted I' },
+        { data: received, color: '#ff9800', label: 'After Multipath I' }
+      ],
+      shaded
+    };
+  }, [run]);
+
+  const impulseData = {
+    datasets: [
+      {
+        label: 'Path amplitude',
+        data: impulse,
+        borderColor: '#4fc3f7',
+        backgroundColor: '#4fc3f7',
+        borderWidth: 3,
+        pointRadius: 0
+      }
+    ]
+  };
+
+  const responseData = {
+    datasets: [
+      {
+        label: '|H(f)|² (dB)',
+        data: response,
+        borderColor: '#76ff03',
+        backgroundColor: '#76ff03',
+        borderWidth: 2,
+        pointRadius: 0
+      }
+    ]
+  };
+
+  return (
+    <Card className="card-enhanced animate-fade-in" style={{ animationDelay: '0.26s' }}>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-3 text-2xl">
+          <Waypoints className="w-8 h-8 text-primary" />
+          Multipath Channel
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-center">
+          <div className="p-3 rounded-lg bg-muted/50 border border-border">
+            <div className="text-xs text-muted-foreground">RMS Delay Spread</div>
+            <div className="text-lg font-semibold">
+              {(rmsDelay * unit.scale).toFixed(2)} {unit.name}
+            </div>
+          </div>
+          <div className="p-3 rounded-lg bg-muted/50 border border-border">
+            <div className="text-xs text-muted-foreground">Coherence Bandwidth</div>
+            <div className="text-lg font-semibold">
+              {formatFrequency(bandwidth)}
+              {Number.isFinite(bandwidth) && ` (${(bandwidth / bitrate).toFixed(2)} × bit rate)`}
+            </div>
+          </div>
+          <div className="p-3 rounded-lg bg-muted/50 border border-border">
+            <div className="text-xs text-muted-foreground">Delay Spread per Symbol</div>
+            <div className="text-lg font-semibold">{spreadPerSymbol.toFixed(3)}</div>
+          </div>
+          <div className="p-3 rounded-lg bg-muted/50 border border-border">
+            <div className="text-xs text-muted-foreground">At This Symbol Rate</div>
+            <div className="text-lg font-semibold">
+              {spreadPerSymbol < FLAT_DELAY_SPREAD ? 'Flat' : 'Frequency-Selective'}
+            </div>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <div className="space-y-2">
+            <Label>Impulse Response</Label>
+            <div className="h-80 rounded-lg overflow-hidden border border-border bg-muted/20 p-2">
+              <Line data={impulseData} options={chartOptions(`Excess Delay (${unit.name})`, 'Amplitude')} />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label>Frequency Response around the Carrier</Label>
+            <div className="h-80 rounded-lg overflow-hidden border border-border bg-muted/20 p-2">
+              <Line data={responseData} options={chartOptions('Offset from Carrier (kHz)', 'Power Gain (dB)')} />
+            </div>
+          </div>
+        </div>
+
+        {isi && (
+          <div className="space-y-2">
+            <Label>In-Phase Component over the First {ISI_SYMBOLS} Symbols of the Last Run (noiseless)</Label>
+            <div className="h-56 rounded-lg overflow-hidden border border-border bg-muted/20">
+              <SignalPlot series={isi.series} shaded={isi.shaded} shadeColor="rgba(255, 255, 255, 0.05)" />
+            </div>
+          </div>
+        )}
+
+        <p className="text-sm text-muted-foreground">
+          Each path arrives with its own delay, gain and phase, so the receiver sees the symbols smeared into one
+          another. Seen in frequency, the echoes interfere to cut notches spaced about one over the delay
+          difference apart. While the delay spread is a small part of a symbol the notches lie far outside the
+          signal band and the channel is flat; once it is a sizeable part, or the coherence bandwidth drops
+          below the symbol rate, the tails of earlier symbols land on the decision point and no amount of
+          signal power removes the errors. An equalizer undoes the response before deciding, while OFDM
+          splits the data over many slow subcarriers, each narrow enough to see a flat channel, with a cyclic
+          prefix longer than the delay spread to absorb the echoes.
+        </p>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default MultipathChannelPanel;
@@ -0,0 +1,446 @@
+import React, { useCallback, useMemo, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Slider } from '@/components/ui/slider';
+import { Grid3x3, Radio, Shuffle, Sliders, Waves, BarChart3, Crosshair, Info } from 'lucide-react';
+import { paprDb } from '@/lib/amplifier';
+import { getBitsPerSymbol, getConstellation } from '@/lib/constellation';
+import { DEFAULT_PILOT_SPACING, ofdmDemodulate, ofdmModulate } from '@/lib/ofdm';
+import type { OfdmConfig, OfdmSubcarrierModulation, PilotPattern } from '@/lib/types';
+import ConstellationPlot from '@/components/ConstellationPlot';
+import ResourceGridPlot from '@/components/ResourceGridPlot';
+import SignalPlot from '@/components/SignalPlot';
+import SpectrumAnalyzer from '@/components/SpectrumAnalyzer';
+import SubcarrierSpectrumPlot from '@/components/SubcarrierSpectrumPlot';
+
+interface OfdmParams {
+  subcarriers: number;
+  modulation: OfdmSubcarrierModulation;
+  /** Cyclic prefix as a fraction of the useful symbol length. */
+  cyclicPrefixRatio: number;
+  pilotPattern: PilotPattern;
+  pilotSpacing: number;
+  /** Subcarrier spacing in kHz. */
+  subcarrierSpacing: number;
+  /** Payload size in OFDM symbols' worth of subcarriers. */
+  payloadSymbols: number;
+}
+
+const MODULATION_NAMES: Record<OfdmSubcarrierModulation, string> = {
+  bpsk: 'BPSK',
+  qpsk: 'QPSK',
+  '16qam': '16-QAM',
+  '64qam': '64-QAM'
+};
+
+const PILOT_PATTERN_NAMES: Record<PilotPattern, string> = {
+  none: 'None',
+  comb: 'Comb (every k-th subcarrier)',
+  block: 'Block (every k-th symbol)'
+};
+
+const CYCLIC_PREFIX_RATIOS = [0, 1 / 16, 1 / 8, 1 / 4];
+
+const randomBits = (length: number) => Uint8Array.from({ length }, () => (Math.random() > 0.5 ? 1 : 0));
+
+const payloadLength = (params: OfdmParams) =>
+  params.payloadSymbols * params.subcarriers * getBitsPerSymbol(params.modulation);
+
+const INITIAL_PARAMS: OfdmParams = {
+  subcarriers: 64,
+  modulation: 'qpsk',
+  cyclicPrefixRatio: 1 / 4,
+  pilotPattern: 'comb',
+  pilotSpacing: DEFAULT_PILOT_SPACING,
+  subcarrierSpacing: 15,
+  payloadSymbols: 4
+};
+
+const OfdmSimulator: React.FC = () => {
+  const [params, setParams] = useState<OfdmParams>(INITIAL_PARAMS);
+  const [bits, setBits] = useState(() => randomBits(payloadLength(INITIAL_PARAMS)));
+  const [selectedSymbol, setSelectedSymbol] = useState(0);
+
+  const updateParam = <K extends keyof OfdmParams>(key: K, value: OfdmParams[K]) => {
+    const next = { ...params, [key]: value };
+    setParams(next);
+    // Keep the payload sized to whole OFDM symbols of data
+    if (payloadLength(next) !== bits.length) {
+      setBits(randomBits(payloadLength(next)));
+    }
+    setSelectedSymbol(0);
+  };
+
+  const config: OfdmConfig = useMemo(
+    () => ({
+      subcarriers: params.subcarriers,
+      modulation: params.modulation,
+      cyclicPrefix: Math.round(params.subcarriers * params.cyclicPrefixRatio),
+      pilotPattern: params.pilotPattern,
+      pilotSpacing: params.pilotSpacing,
+      sampleRate: params.subcarriers * params.subcarrierSpacing * 1000
+    }),
+    [params]
+  );
+
+  const simulation = useMemo(() => {
+    try {
+      const transmitted = ofdmModulate(bits, config);
+      const reception = ofdmDemodulate(transmitted.inPhase, transmitted.quadrature, config);
+      const bitErrors = transmitted.bits.reduce((count, bit, i) => count + (bit !== reception.bits[i] ? 1 : 0), 0);
+      return { transmitted, reception, bitErrors, error: null };
+    } catch (error) {
+      return { transmitted: null, reception: null, bitErrors: 0, error: (error as Error).message };
+    }
+  }, [bits, config]);
+
+  const { transmitted, reception } = simulation;
+  const symbolIndex = Math.min(selectedSymbol, (transmitted?.symbolCount ?? 1) - 1);
+
+  const timeSeries = useMemo(
+    () =>
+      transmitted
+        ? [
+            { data: transmitted.inPhase.samples, color: '#76ff03', label: 'In-phase (I)' },
+            { data: transmitted.quadrature.samples, color: '#ff9800', label: 'Quadrature (Q)' }
+          ]
+        : [],
+    [transmitted]
+  );
+
+  const prefixRanges = useMemo(
+    () =>
+      transmitted && config.cyclicPrefix > 0
+        ? Array.from({ length: transmitted.symbolCount }, (_, s): [number, number] => [
+            s * transmitted.symbolLength,
+            s * transmitted.symbolLength + config.cyclicPrefix
+          ])
+        : [],
+    [transmitted, config.cyclicPrefix]
+  );
+
+  const referencePoints = useMemo(() => getConstellation(params.modulation)?.points ?? [], [params.modulation]);
+
+  const handleRandom = useCallback(() => setBits(randomBits(payloadLength(params))), [params]);
+
+  const symbolDuration = 1 / params.subcarrierSpacing;
+
+  return (
+    <div className="min-h-screen p-4 space-y-6 animate-fade-in">
+      {/* Header */}
+      <div className="text-center space-y-4 p-8 card-enhanced rounded-xl animate-scale-in">
+        <div className="flex items-center justify-center gap-3 mb-4">
+          <Grid3x3 className="w-12 h-12 text-primary animate-signal-pulse" />
+          <h1 className="text-5xl font-bold bg-gradient-to-r from-primary to-accent bg-clip-text text-transparent">
+            OFDM Simulator
+          </h1>
+        </div>
+        <p className="text-xl text-muted-foreground max-w-4xl mx-auto leading-relaxed">
+          Build an OFDM frame from subcarriers, pilots and a cyclic prefix, and recover it with an FFT receiver
+        </p>
+      </div>
+
+      {/* Controls */}
+      <Card className="card-enhanced animate-fade-in" style={{ animationDelay: '0.1s' }}>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-3 text-2xl">
+            <Sliders className="w-8 h-8 text-primary" />
+            OFDM Parameters
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+            <div className="space-y-4 p-6 rounded-xl bg-muted/50 border border-border">
+              <h3 className="text-xl font-semibold flex items-center gap-2 text-accent">
+                <Waves className="w-6 h-6" />
+                Subcarriers
+              </h3>
+              <div>
+                <Label>Number of Subcarriers (FFT size)</Label>
+                <Select
+                  value={String(params.subcarriers)}
+                  onValueChange={(value) => updateParam('subcarriers', parseInt(value, 10))}
+                >
+                  <SelectTrigger className="mt-2">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {[16, 32, 64, 128, 256].map((n) => (
+                      <SelectItem key={n} value={String(n)}>{n}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label>Subcarrier Modulation</Label>
+                <Select
+                  value={params.modulation}
+                  onValueChange={(value) => updateParam('modulation', value as OfdmSubcarrierModulation)}
+                >
+                  <SelectTrigger className="mt-2">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(MODULATION_NAMES).map(([value, name]) => (
+                      <SelectItem key={value} value={value}>{name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label>Subcarrier Spacing: {params.subcarrierSpacing} kHz</Label>
+                <Slider
+                  value={[params.subcarrierSpacing]}
+                  onValueChange={(value) => updateParam('subcarrierSpacing', value[0])}
+                  min={1}
+                  max={60}
+                  step={1}
+                  className="mt-2"
+                />
+              </div>
+              <div>
+                <Label>Payload: {params.payloadSymbols} OFDM symbols of data</Label>
+                <Slider
+                  value={[params.payloadSymbols]}
+                  onValueChange={(value) => updateParam('payloadSymbols', value[0])}
+                  min={1}
+                  max={12}
+                  step={1}
+                  className="mt-2"
+                />
+              </div>
+            </div>
+
+            <div className="space-y-4 p-6 rounded-xl bg-muted/50 border border-border">
+              <h3 className="text-xl font-semibold flex items-center gap-2 text-accent">
+                <Radio className="w-6 h-6" />
+                Framing
+              </h3>
+              <div>
+                <Label>Cyclic Prefix</Label>
+                <Select
+                  value={String(params.cyclicPrefixRatio)}
+                  onValueChange={(value) => updateParam('cyclicPrefixRatio', parseFloat(value))}
+                >
+                  <SelectTrigger className="mt-2">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {CYCLIC_PREFIX_RATIOS.map((ratio) => (
+                      <SelectItem key={ratio} value={String(ratio)}>
+                        {ratio === 0 ? 'None' : `1/${1 / ratio} (${Math.round(params.subcarriers * ratio)} samples)`}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label>Pilot Pattern</Label>
+                <Select
+                  value={params.pilotPattern}
+                  onValueChange={(value) => updateParam('pilotPattern', value as PilotPattern)}
+                >
+                  <SelectTrigger className="mt-2">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(PILOT_PATTERN_NAMES).map(([value, name]) => (
+                      <SelectItem key={value} value={value}>{name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {params.pilotPattern !== 'none' && (
+                <div>
+                  <Label>
+                    Pilot Spacing k: {params.pilotSpacing} {params.pilotPattern === 'comb' ? 'subcarriers' : 'symbols'}
+                  </Label>
+                  <Slider
+                    value={[params.pilotSpacing]}
+                    onValueChange={(value) => updateParam('pilotSpacing', value[0])}
+                    min={2}
+                    max={16}
+                    step={1}
+                    className="mt-2"
+                  />
+                </div>
+              )}
+              <Button
+                onClick={handleRandom}
+                variant="secondary"
+                className="w-full hover:scale-105 transition-all duration-300"
+              >
+                <Shuffle className="w-5 h-5 mr-2" />
+                New Random Data
+              </Button>
+            </div>
+          </div>
+
+          {simulation.error ? (
+            <p className="mt-6 text-sm text-destructive">{simulation.error}</p>
+          ) : (
+            transmitted && (
+              <div className="mt-6 grid grid-cols-2 md:grid-cols-5 gap-4 text-center">
+                <div className="p-3 rounded-lg bg-muted/50 border border-border">
+                  <div className="text-xs text-muted-foreground">OFDM Symbols</div>
+                  <div className="text-lg font-semibold">{transmitted.symbolCount}</div>
+                </div>
+                <div className="p-3 rounded-lg bg-muted/50 border border-border">
+                  <div className="text-xs text-muted-foreground">Symbol Duration (incl. CP)</div>
+                  <div className="text-lg font-semibold">
+                    {+(symbolDuration * (1 + params.cyclicPrefixRatio)).toFixed(4)} ms
+                  </div>
+                </div>
+                <div className="p-3 rounded-lg bg-muted/50 border border-border">
+                  <div className="text-xs text-muted-foreground">Occupied Bandwidth</div>
+                  <div className="text-lg font-semibold">
+                    {+((params.subcarriers * params.subcarrierSpacing) / 1000).toFixed(3)} MHz
+                  </div>
+                </div>
+                <div className="p-3 rounded-lg bg-muted/50 border border-border">
+                  <div className="text-xs text-muted-foreground">Peak-to-Average Power</div>
+                  <div className="text-lg font-semibold">{paprDb(transmitted).toFixed(2)} dB</div>
+                </div>
+                <div className="p-3 rounded-lg bg-muted/50 border border-border">
+                  <div className="text-xs text-muted-foreground">Bit Errors</div>
+                  <div className="text-lg font-semibold">
+                    {simulation.bitErrors} / {transmitted.bits.length}
+                  </div>
+                </div>
+              </div>
+            )
+          )}
+        </CardContent>
+      </Card>
+
+      {transmitted && reception && (
+        <>
+          {/* Resource Grid */}
+          <Card className="card-enhanced animate-fade-in" style={{ animationDelay: '0.2s' }}>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-3 text-2xl">
+                <Grid3x3 className="w-8 h-8 text-primary" />
+                Resource Grid
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="h-64 rounded-lg overflow-hidden border border-border bg-muted/20">
+                <ResourceGridPlot pilots={transmitted.pilots} />
+              </div>
+              <p className="mt-3 text-sm text-muted-foreground">
+                OFDM symbols run left to right and subcarriers bottom to top; pilot cells are orange.
+              </p>
+            </CardContent>
+          </Card>
+
+          {/* Time Domain */}
+          <Card className="card-enhanced animate-fade-in" style={{ animationDelay: '0.3s' }}>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-3 text-2xl">
+                <Waves className="w-8 h-8 text-primary" />
+                IFFT Output (Time Domain)
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="h-80 rounded-lg overflow-hidden border border-border bg-muted/20">
+                <SignalPlot series={timeSeries} shaded={prefixRanges} />
+              </div>
+              <p className="mt-3 text-sm text-muted-foreground">
+                Complex baseband after the IFFT. Shaded regions are cyclic prefixes, copies of the last samples of
+                each symbol that absorb multipath echoes. The noise-like envelope is why OFDM has a high
+                peak-to-average power ratio.
+              </p>
+            </CardContent>
+          </Card>
+
+          {/* Spectra */}
+          <Card className="card-enhanced animate-fade-in" style={{ animationDelay: '0.4s' }}>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-3 text-2xl">
+                <BarChart3 className="w-8 h-8 text-primary" />
+                Subcarrier Spectra
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div>
+                <Label>
+                  OFDM Symbol: {symbolIndex + 1} of {transmitted.symbolCount}
+                </Label>
+                <Slider
+                  value={[symbolIndex]}
+                  onValueChange={(value) => setSelectedSymbol(value[0])}
+                  min={0}
+                  max={transmitted.symbolCount - 1}
+                  step={1}
+                  className="mt-2"
+                />
+              </div>
+              <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                <div className="h-80 rounded-lg overflow-hidden border border-border bg-muted/20">
+                  <SubcarrierSpectrumPlot
+                    values={transmitted.grid[symbolIndex]}
+                    pilots={transmitted.pilots[symbolIndex]}
+                  />
+                </div>
+                <div className="h-80 rounded-lg overflow-hidden border border-border bg-muted/20">
+                  <SpectrumAnalyzer
+                    inPhase={transmitted.inPhase.samples}
+                    quadrature={transmitted.quadrature.samples}
+                    sampleRate={config.sampleRate}
+                    fftSize={Math.max(256, params.subcarriers * 4)}
+                    label="Transmitted Spectrum"
+                  />
+                </div>
+              </div>
+              <p className="text-sm text-muted-foreground">
+                Left: each subcarrier is a sinc whose peak falls on the nulls of all the others (axis in subcarrier
+                indices), which is what makes them orthogonal. Right: estimated power spectrum of the whole frame.
+              </p>
+            </CardContent>
+          </Card>
+
+          {/* Received Constellation */}
+          <Card className="card-enhanced animate-fade-in" style={{ animationDelay: '0.5s' }}>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-3 text-2xl">
+                <Crosshair className="w-8 h-8 text-primary" />
+                Received Constellation (after FFT)
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="h-80 max-w-xl mx-auto rounded-lg overflow-hidden border border-border bg-muted/20">
+                <ConstellationPlot
+                  reference={referencePoints}
+                  symbols={reception.dataPoints}
+                  label={`${MODULATION_NAMES[params.modulation]} data subcarriers`}
+                />
+              </div>
+            </CardContent>
+          </Card>
+        </>
+      )}
+
+      {/* Educational Content */}
+      <Card className="card-enhanced animate-fade-in" style={{ animationDelay: '0.6s' }}>
+        <CardContent className="pt-6">
+          <div className="p-6 rounded-xl bg-muted/50 border-l-4 border-l-primary">
+            <h3 className="text-lg font-semibold mb-3 flex items-center gap-2 text-accent">
+              <Info className="w-5 h-5" />
+              How the Receiver Works
+            </h3>
+            <p className="text-sm text-muted-foreground leading-relaxed">
+              The receiver drops each cyclic prefix, takes an FFT of the remaining samples and divides every
+              subcarrier by a channel estimate. Comb pilots give an estimate in every symbol, interpolated across
+              frequency; block pilots give a full estimate that is held until the next pilot symbol. Without pilots
+              the receiver has to assume an ideal channel.
+            </p>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default OfdmSimulator;
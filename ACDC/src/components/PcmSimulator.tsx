@@ -0,0 +1,641 @@
+import React, { useMemo, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Line } from 'react-chartjs-2';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Slider } from '@/components/ui/slider';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Binary, Sliders, SquareActivity, Gauge, Radio, Info, TrendingUp, ArrowRightLeft } from 'lucide-react';
+import { generateMessage } from '@/lib/analog';
+import { deltaModulate } from '@/lib/deltaModulation';
+import { modulate } from '@/lib/modulation';
+import { pcmEncode, pcmSqnr, uniformSqnr } from '@/lib/pcm';
+import { pulseModulate } from '@/lib/pulseModulation';
+import type { Companding, DeltaModulationType, ModulationType, PulseModulationType } from '@/lib/types';
+import SignalPlot, { type SignalSeries } from '@/components/SignalPlot';
+
+type PcmCarrierModulation = Extract<ModulationType, 'bask' | 'bfsk' | 'bpsk'>;
+
+interface PcmParams {
+  /** Message frequency in kHz. */
+  messageFrequency: number;
+  /** Message amplitude as a fraction of the quantizer's full scale. */
+  messageLevel: number;
+  pulseType: PulseModulationType;
+  /** Sampling (pulse) rate in kHz. */
+  sampleRate: number;
+  dutyCycle: number;
+  bitsPerSample: number;
+  companding: Companding;
+  modType: PcmCarrierModulation;
+  deltaType: DeltaModulationType;
+  /** Delta modulator sampling rate in kHz. */
+  deltaRate: number;
+  /** Delta modulator (minimum) step size, in message units. */
+  deltaStep: number;
+}
+
+const PULSE_TYPE_NAMES: Record<PulseModulationType, string> = {
+  'pam-natural': 'PAM, natural sampling',
+  'pam-flat': 'PAM, flat-top sampling',
+  pwm: 'Pulse Width Modulation (PWM)',
+  ppm: 'Pulse Position Modulation (PPM)'
+};
+
+const COMPANDING_NAMES: Record<Companding, string> = {
+  uniform: 'Uniform',
+  'mu-law': 'μ-law (μ = 255)',
+  'a-law': 'A-law (A = 87.6)'
+};
+
+const DELTA_TYPE_NAMES: Record<DeltaModulationType, string> = {
+  dm: 'Delta Modulation (fixed step)',
+  jayant: 'Adaptive DM, Jayant',
+  cvsd: 'Adaptive DM, CVSD'
+};
+
+const CARRIER_NAMES: Record<PcmCarrierModulation, string> = {
+  bask: 'Binary ASK',
+  bfsk: 'Binary FSK',
+  bpsk: 'Binary PSK'
+};
+
+// Two message periods, drawn with at least 100 samples per sampling period
+const MESSAGE_PERIODS = 2;
+const SAMPLES_PER_PULSE = 100;
+/** Code words listed in the encoding table. */
+const TABLE_SAMPLES = 8;
+/** Bits of the PCM stream shown on the carrier. */
+const KEYED_BITS = 48;
+const KEYED_SAMPLES_PER_BIT = 32;
+/** Message samples per delta modulator step, so the staircase is drawn sharply. */
+const SAMPLES_PER_DELTA_STEP = 20;
+/** Delta modulator bits handed to the main simulator. */
+const HANDOVER_BITS = 64;
+/** Input levels of the SQNR sweep, in dB relative to full scale. */
+const SWEEP_LEVELS = Array.from({ length: 26 }, (_, k) => -50 + 2 * k);
+
+const axisStyle = {
+  grid: { color: 'rgba(255, 255, 255, 0.1)' },
+  ticks: { color: '#FFFFFF', maxTicksLimit: 11 }
+};
+
+const PcmSimulator: React.FC = () => {
+  const [params, setParams] = useState<PcmParams>({
+    messageFrequency: 0.5,
+    messageLevel: 0.9,
+    pulseType: 'pam-flat',
+    sampleRate: 8,
+    dutyCycle: 0.25,
+    bitsPerSample: 4,
+    companding: 'uniform',
+    modType: 'bpsk',
+    deltaType: 'dm',
+    deltaRate: 32,
+    deltaStep: 0.05
+  });
+  const navigate = useNavigate();
+
+  const updateParam = <K extends keyof PcmParams>(key: K, value: PcmParams[K]) => {
+    setParams((prev) => ({ ...prev, [key]: value }));
+  };
+
+  const message = useMemo(() => {
+    const frequency = params.messageFrequency * 1000;
+    const sampleRate = Math.max(
+      SAMPLES_PER_PULSE * Math.max(params.sampleRate * 1000, 2 * frequency),
+      SAMPLES_PER_DELTA_STEP * params.deltaRate * 1000
+    );
+    return generateMessage({ kind: 'sine', frequency, amplitude: params.messageLevel }, MESSAGE_PERIODS / frequency, sampleRate);
+  }, [params.messageFrequency, params.messageLevel, params.sampleRate, params.deltaRate]);
+
+  const pulses = useMemo(
+    () =>
+      pulseModulate(message, {
+        type: params.pulseType,
+        pulseRate: params.sampleRate * 1000,
+        dutyCycle: params.dutyCycle
+      }),
+    [message, params.pulseType, params.sampleRate, params.dutyCycle]
+  );
+
+  const pcm = useMemo(
+    () =>
+      pcmEncode(message, {
+        sampleRate: params.sampleRate * 1000,
+        bitsPerSample: params.bitsPerSample,
+        companding: params.companding
+      }),
+    [message, params.sampleRate, params.bitsPerSample, params.companding]
+  );
+
+  // The PCM words go through the same modulator as the main simulator
+  const keyed = useMemo(() => {
+    const bitrate = params.sampleRate * 1000 * params.bitsPerSample;
+    return modulate(pcm.bits.slice(0, KEYED_BITS), {
+      modType: params.modType,
+      frequency: 2 * bitrate,
+      amplitude: 1,
+      bitrate,
+      freqDev: bitrate,
+      samplesPerBit: KEYED_SAMPLES_PER_BIT
+    });
+  }, [pcm, params.modType, params.sampleRate, params.bitsPerSample]);
+
+  const delta = useMemo(
+    () =>
+      deltaModulate(message, {
+        type: params.deltaType,
+        sampleRate: params.deltaRate * 1000,
+        stepSize: params.deltaStep
+      }),
+    [message, params.deltaType, params.deltaRate, params.deltaStep]
+  );
+
+  const sweep = useMemo(() => {
+    const test = generateMessage({ kind: 'sine', frequency: 1 }, 1, 1000).samples;
+    return (['uniform', 'mu-law', 'a-law'] as Companding[]).map((companding) =>
+      SWEEP_LEVELS.map((db) => {
+        const gain = 10 ** (db / 20);
+        return pcmSqnr(test.map((x) => x * gain), params.bitsPerSample, companding);
+      })
+    );
+  }, [params.bitsPerSample]);
+
+  const pulseSeries = useMemo(
+    (): SignalSeries[] => [
+      { data: message.samples, color: 'rgba(255, 255, 255, 0.5)', label: 'Message' },
+      { data: pulses.pulses.samples, color: '#4fc3f7', label: PULSE_TYPE_NAMES[params.pulseType] }
+    ],
+    [message, pulses, params.pulseType]
+  );
+
+  const pcmSeries = useMemo(
+    (): SignalSeries[] => [
+      { data: message.samples, color: 'rgba(255, 255, 255, 0.5)', label: 'Message' },
+      { data: pcm.reconstructed.samples, color: '#76ff03', label: 'Decoded PCM (held)' }
+    ],
+    [message, pcm]
+  );
+
+  const keyedRows = useMemo(
+    (): SignalSeries[][] => [
+      [{ data: keyed.baseband.samples.map((bit) => 2 * bit - 1), color: '#76ff03', label: 'PCM bitstream' }],
+      [{ data: keyed.modulated.samples, color: '#4fc3f7', label: `${CARRIER_NAMES[params.modType]} signal` }]
+    ],
+    [keyed, params.modType]
+  );
+
+  const deltaSeries = useMemo(
+    (): SignalSeries[] => [
+      { data: message.samples, color: 'rgba(255, 255, 255, 0.5)', label: 'Message' },
+      { data: delta.staircase.samples, color: '#76ff03', label: 'Staircase' }
+    ],
+    [message, delta]
+  );
+
+  // Merge runs of overload or granular intervals into shaded message-sample ranges
+  const deltaShading = useMemo(() => {
+    const perStep = delta.staircase.sampleRate / (params.deltaRate * 1000);
+    const ranges: [number, number, string][] = [];
+    delta.regions.forEach((region, k) => {
+      if (region === 'tracking') return;
+      const color = region === 'overload' ? 'rgba(244, 67, 54, 0.25)' : 'rgba(255, 193, 7, 0.2)';
+      const start = Math.round(k * perStep);
+      const end = Math.min(delta.staircase.samples.length, Math.round((k + 1) * perStep));
+      const last = ranges[ranges.length - 1];
+      if (last && last[2] === color && last[1] === start) {
+        last[1] = end;
+      } else {
+        ranges.push([start, end, color]);
+      }
+    });
+    return ranges;
+  }, [delta, params.deltaRate]);
+
+  const deltaBits = useMemo(() => Array.from(delta.bits).join(''), [delta]);
+  const regionShare = (region: 'overload' | 'granular') =>
+    (100 * delta.regions.filter((r) => r === region).length) / (delta.regions.length || 1);
+
+  const nyquist = 2 * params.messageFrequency;
+  const bitrate = params.sampleRate * params.bitsPerSample;
+
+  return (
+    <div className="min-h-screen p-4 space-y-6 animate-fade-in">
+      {/* Header */}
+      <div className="text-center space-y-4 p-8 card-enhanced rounded-xl animate-scale-in">
+        <div className="flex items-center justify-center gap-3 mb-4">
+          <Binary className="w-12 h-12 text-primary animate-signal-pulse" />
+          <h1 className="text-5xl font-bold bg-gradient-to-r from-primary to-accent bg-clip-text text-transparent">
+            Pulse Modulation &amp; PCM
+          </h1>
+        </div>
+        <p className="text-xl text-muted-foreground max-w-4xl mx-auto leading-relaxed">
+          Sample an analog message into PAM, PWM and PPM pulses, then quantize and encode it as PCM bits ready for
+          carrier keying, or track it one bit at a time with delta modulation
+        </p>
+      </div>
+
+      {/* Controls */}
+      <Card className="card-enhanced animate-fade-in" style={{ animationDelay: '0.1s' }}>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-3 text-2xl">
+            <Sliders className="w-8 h-8 text-primary" />
+            Parameters
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+            <div className="space-y-4 p-6 rounded-xl bg-muted/50 border border-border">
+              <h3 className="text-xl font-semibold text-accent">Message &amp; Sampling</h3>
+              <div>
+                <Label>Message Frequency: {params.messageFrequency} kHz</Label>
+                <Slider
+                  value={[params.messageFrequency]}
+                  onValueChange={(value) => updateParam('messageFrequency', value[0])}
+                  min={0.1}
+                  max={2}
+                  step={0.05}
+                  className="mt-2"
+                />
+              </div>
+              <div>
+                <Label>
+                  Message Level: {params.messageLevel} of full scale ({(20 * Math.log10(params.messageLevel)).toFixed(1)}{' '}
+                  dBFS)
+                </Label>
+                <Slider
+                  value={[params.messageLevel]}
+                  onValueChange={(value) => updateParam('messageLevel', value[0])}
+                  min={0.01}
+                  max={1.2}
+                  step={0.01}
+                  className="mt-2"
+                />
+              </div>
+              <div>
+                <Label>Sampling Rate: {params.sampleRate} kHz</Label>
+                <Slider
+                  value={[params.sampleRate]}
+                  onValueChange={(value) => updateParam('sampleRate', value[0])}
+                  min={1}
+                  max={32}
+                  step={0.5}
+                  className="mt-2"
+                />
+                {params.sampleRate < nyquist && (
+                  <p className="mt-2 text-sm text-warning">
+                    Below the Nyquist rate of {nyquist} kHz: the samples alias.
+                  </p>
+                )}
+              </div>
+            </div>
+
+            <div className="space-y-4 p-6 rounded-xl bg-muted/50 border border-border">
+              <h3 className="text-xl font-semibold text-accent">Pulse Modulation</h3>
+              <div>
+                <Label>Pulse Type</Label>
+                <Select
+                  value={params.pulseType}
+                  onValueChange={(value) => updateParam('pulseType', value as PulseModulationType)}
+                >
+                  <SelectTrigger className="mt-2">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(PULSE_TYPE_NAMES).map(([value, name]) => (
+                      <SelectItem key={value} value={value}>{name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {params.pulseType !== 'pwm' && (
+                <div>
+                  <Label>Pulse Width: {Math.round(params.dutyCycle * 100)}% of the period</Label>
+                  <Slider
+                    value={[params.dutyCycle]}
+                    onValueChange={(value) => updateParam('dutyCycle', value[0])}
+                    min={0.05}
+                    max={0.9}
+                    step={0.05}
+                    className="mt-2"
+                  />
+                </div>
+              )}
+            </div>
+
+            <div className="space-y-4 p-6 rounded-xl bg-muted/50 border border-border">
+              <h3 className="text-xl font-semibold text-accent">PCM</h3>
+              <div>
+                <Label>
+                  Bits per Sample: {params.bitsPerSample} ({2 ** params.bitsPerSample} levels)
+                </Label>
+                <Slider
+                  value={[params.bitsPerSample]}
+                  onValueChange={(value) => updateParam('bitsPerSample', value[0])}
+                  min={1}
+                  max={12}
+                  step={1}
+                  className="mt-2"
+                />
+              </div>
+              <div>
+                <Label>Quantizer</Label>
+                <Select value={params.companding} onValueChange={(value) => updateParam('companding', value as Companding)}>
+                  <SelectTrigger className="mt-2">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(COMPANDING_NAMES).map(([value, name]) => (
+                      <SelectItem key={value} value={value}>{name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label>Carrier Modulation</Label>
+                <Select
+                  value={params.modType}
+                  onValueChange={(value) => updateParam('modType', value as PcmCarrierModulation)}
+                >
+                  <SelectTrigger className="mt-2">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(CARRIER_NAMES).map(([value, name]) => (
+                      <SelectItem key={value} value={value}>{name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Pulse Modulation */}
+      <Card className="card-enhanced animate-fade-in" style={{ animationDelay: '0.2s' }}>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-3 text-2xl">
+            <SquareActivity className="w-8 h-8 text-primary" />
+            Pulse Modulation ({PULSE_TYPE_NAMES[params.pulseType]})
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="h-80 rounded-lg overflow-hidden border border-border bg-muted/20">
+            <SignalPlot series={pulseSeries} />
+          </div>
+          <p className="mt-3 text-sm text-muted-foreground">
+            PAM carries each sample in the pulse height: natural sampling keeps the message shape on the pulse top,
+            flat-top sampling holds the sampled value. PWM carries it in the pulse width and PPM in the pulse
+            position, so both keep a constant height that is robust to amplitude noise.
+          </p>
+        </CardContent>
+      </Card>
+
+      {/* PCM */}
+      <Card className="card-enhanced animate-fade-in" style={{ animationDelay: '0.3s' }}>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-3 text-2xl">
+            <Gauge className="w-8 h-8 text-primary" />
+            Quantization and Encoding
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 text-center">
+            <div className="p-3 rounded-lg bg-muted/50 border border-border">
+              <div className="text-xs text-muted-foreground">Measured SQNR</div>
+              <div className="text-lg font-semibold">{pcm.sqnr.toFixed(1)} dB</div>
+            </div>
+            <div className="p-3 rounded-lg bg-muted/50 border border-border">
+              <div className="text-xs text-muted-foreground">Full-scale Sine, Uniform (6.02N + 1.76)</div>
+              <div className="text-lg font-semibold">{uniformSqnr(params.bitsPerSample).toFixed(1)} dB</div>
+            </div>
+            <div className="p-3 rounded-lg bg-muted/50 border border-border">
+              <div className="text-xs text-muted-foreground">PCM Bit Rate</div>
+              <div className="text-lg font-semibold">{+bitrate.toFixed(1)} kbps</div>
+            </div>
+          </div>
+
+          <div className="h-80 rounded-lg overflow-hidden border border-border bg-muted/20">
+            <SignalPlot series={pcmSeries} />
+          </div>
+
+          <div className="overflow-auto rounded-lg border border-border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Sample</TableHead>
+                  <TableHead className="text-right">Time (ms)</TableHead>
+                  <TableHead className="text-right">Value</TableHead>
+                  <TableHead className="text-right">Level</TableHead>
+                  <TableHead>Code Word</TableHead>
+                  <TableHead className="text-right">Decoded</TableHead>
+                  <TableHead className="text-right">Error</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {pcm.levels.slice(0, TABLE_SAMPLES).map((level, k) => (
+                  <TableRow key={k}>
+                    <TableCell>{k}</TableCell>
+                    <TableCell className="text-right font-mono">{(pcm.sampleTimes[k] * 1000).toFixed(3)}</TableCell>
+                    <TableCell className="text-right font-mono">{pcm.samples[k].toFixed(4)}</TableCell>
+                    <TableCell className="text-right font-mono">{level}</TableCell>
+                    <TableCell className="font-mono text-accent">
+                      {level.toString(2).padStart(params.bitsPerSample, '0')}
+                    </TableCell>
+                    <TableCell className="text-right font-mono">{pcm.quantized[k].toFixed(4)}</TableCell>
+                    <TableCell className="text-right font-mono">
+                      {(pcm.samples[k] - pcm.quantized[k]).toFixed(4)}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* SQNR vs Level */}
+      <Card className="card-enhanced animate-fade-in" style={{ animationDelay: '0.4s' }}>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-3 text-2xl">
+            <Gauge className="w-8 h-8 text-primary" />
+            SQNR vs Input Level ({params.bitsPerSample} bits)
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="h-80 rounded-lg overflow-hidden border border-border bg-muted/20 p-2">
+            <Line
+              data={{
+                labels: SWEEP_LEVELS.map(String),
+                datasets: [
+                  { label: COMPANDING_NAMES.uniform, data: sweep[0], borderColor: '#4fc3f7' },
+                  { label: COMPANDING_NAMES['mu-law'], data: sweep[1], borderColor: '#76ff03' },
+                  { label: COMPANDING_NAMES['a-law'], data: sweep[2], borderColor: '#ff9800' }
+                ].map((dataset) => ({ ...dataset, borderWidth: 2.5, pointRadius: 0, fill: false, tension: 0 }))
+              }}
+              options={{
+                responsive: true,
+                maintainAspectRatio: false,
+                plugins: { legend: { labels: { color: '#FFFFFF' } }, tooltip: { enabled: false } },
+                scales: {
+                  x: { ...axisStyle, title: { display: true, text: 'Sine Level (dBFS)', color: '#FFFFFF' } },
+                  y: { ...axisStyle, title: { display: true, text: 'SQNR (dB)', color: '#FFFFFF' } }
+                },
+                animation: false
+              }}
+            />
+          </div>
+          <p className="mt-3 text-sm text-muted-foreground">
+            A uniform quantizer loses 1 dB of SQNR for every dB the signal drops below full scale. Companding
+            spends more levels near zero, trading a few dB at full scale for an almost flat SQNR over a wide range of
+            speech levels.
+          </p>
+        </CardContent>
+      </Card>
+
+      {/* Carrier Keying */}
+      <Card className="card-enhanced animate-fade-in" style={{ animationDelay: '0.5s' }}>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-3 text-2xl">
+            <Radio className="w-8 h-8 text-primary" />
+            PCM on a Carrier ({CARRIER_NAMES[params.modType]})
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="h-72 rounded-lg overflow-hidden border border-border bg-muted/20">
+            {keyedRows.map((row, index) => (
+              <div key={index} className={`h-1/2 relative ${index === 0 ? 'border-b border-border' : ''}`}>
+                <SignalPlot series={row} />
+              </div>
+            ))}
+          </div>
+          <p className="mt-3 text-sm text-muted-foreground">
+            The first {Math.min(KEYED_BITS, pcm.bits.length)} PCM bits keying a carrier at twice the bit rate.
+          </p>
+        </CardContent>
+      </Card>
+
+      {/* Delta Modulation */}
+      <Card className="card-enhanced animate-fade-in" style={{ animationDelay: '0.6s' }}>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-3 text-2xl">
+            <TrendingUp className="w-8 h-8 text-primary" />
+            Delta Modulation ({DELTA_TYPE_NAMES[params.deltaType]})
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+            <div>
+              <Label>Scheme</Label>
+              <Select
+                value={params.deltaType}
+                onValueChange={(value) => updateParam('deltaType', value as DeltaModulationType)}
+              >
+                <SelectTrigger className="mt-2">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(DELTA_TYPE_NAMES).map(([value, name]) => (
+                    <SelectItem key={value} value={value}>{name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label>Sampling Rate: {params.deltaRate} kHz</Label>
+              <Slider
+                value={[params.deltaRate]}
+                onValueChange={(value) => updateParam('deltaRate', value[0])}
+                min={4}
+                max={128}
+                step={1}
+                className="mt-2"
+              />
+            </div>
+            <div>
+              <Label>
+                {params.deltaType === 'dm' ? 'Step Size' : 'Minimum Step Size'}: {params.deltaStep}
+              </Label>
+              <Slider
+                value={[params.deltaStep]}
+                onValueChange={(value) => updateParam('deltaStep', value[0])}
+                min={0.005}
+                max={0.3}
+                step={0.005}
+                className="mt-2"
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-center">
+            <div className="p-3 rounded-lg bg-muted/50 border border-border">
+              <div className="text-xs text-muted-foreground">Measured SNR</div>
+              <div className="text-lg font-semibold">{delta.sqnr.toFixed(1)} dB</div>
+            </div>
+            <div className="p-3 rounded-lg bg-muted/50 border border-border">
+              <div className="text-xs text-muted-foreground">DM Bit Rate</div>
+              <div className="text-lg font-semibold">{params.deltaRate} kbps</div>
+            </div>
+            <div className="p-3 rounded-lg bg-muted/50 border border-border">
+              <div className="text-xs text-muted-foreground">Slope Overload</div>
+              <div className="text-lg font-semibold text-destructive">{regionShare('overload').toFixed(0)}%</div>
+            </div>
+            <div className="p-3 rounded-lg bg-muted/50 border border-border">
+              <div className="text-xs text-muted-foreground">Granular Noise</div>
+              <div className="text-lg font-semibold text-warning">{regionShare('granular').toFixed(0)}%</div>
+            </div>
+          </div>
+
+          <div className="h-80 rounded-lg overflow-hidden border border-border bg-muted/20">
+            <SignalPlot series={deltaSeries} shaded={deltaShading} />
+          </div>
+          <p className="text-sm text-muted-foreground">
+            Red intervals are slope overload: the message moves faster than one step per sample and the staircase
+            falls behind. Amber intervals are granular noise: the bits alternate and the staircase hunts around a
+            slowly changing message. A larger step cures overload but coarsens the granular noise; the adaptive
+            schemes grow the step on runs of equal bits and shrink it again when the bits alternate.
+          </p>
+
+          <div className="space-y-3">
+            <Label>Bitstream ({delta.bits.length} bits)</Label>
+            <div className="p-3 rounded-lg bg-muted/50 border border-border font-mono text-sm text-accent break-all">
+              {deltaBits}
+            </div>
+            <Button
+              onClick={() => navigate('/', { state: { binaryData: deltaBits.slice(0, HANDOVER_BITS) } })}
+              variant="secondary"
+              className="hover:scale-105 transition-all duration-300"
+            >
+              <ArrowRightLeft className="w-5 h-5 mr-2" />
+              Use the First {Math.min(HANDOVER_BITS, delta.bits.length)} Bits as Binary Data
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Educational Content */}
+      <Card className="card-enhanced animate-fade-in" style={{ animationDelay: '0.7s' }}>
+        <CardContent className="pt-6">
+          <div className="p-6 rounded-xl bg-muted/50 border-l-4 border-l-primary">
+            <h3 className="text-lg font-semibold mb-3 flex items-center gap-2 text-accent">
+              <Info className="w-5 h-5" />
+              From Samples to Bits
+            </h3>
+            <p className="text-sm text-muted-foreground leading-relaxed">
+              Sampling keeps the message intact as long as the rate exceeds twice its highest frequency. Quantizing
+              is where information is lost: every extra bit halves the step size and buys about 6 dB of SQNR, at the
+              cost of a proportionally higher bit rate. Delta modulation instead sends one bit per sample and
+              samples far above the Nyquist rate, trading bit rate for a very simple coder.
+            </p>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default PcmSimulator;
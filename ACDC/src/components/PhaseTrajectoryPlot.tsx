@@ -0,0 +1,139 @@
+import React, { useEffect, useRef } from 'react';
+
+export interface PhaseSeries {
+  /** Phase in radians, one value per sample. */
+  data: ArrayLike<number>;
+  color: string;
+  label: string;
+  dashed?: boolean;
+}
+
+interface PhaseTrajectoryPlotProps {
+  series: PhaseSeries[];
+  /** Number of bit periods covered, used to draw bit boundaries. */
+  bitCount: number;
+}
+
+/** Formats k·π/2 as an axis label. */
+const formatHalfPi = (k: number) => {
+  if (k === 0) return '0';
+  if (k % 2 !== 0) return `${k}π/2`;
+  const multiple = k / 2;
+  return multiple === 1 ? 'π' : multiple === -1 ? '-π' : `${multiple}π`;
+};
+
+/**
+ * Plots one or more phase trajectories on a shared axis graduated in
+ * multiples of π/2, with dotted markers at the bit boundaries.
+ */
+const PhaseTrajectoryPlot: React.FC<PhaseTrajectoryPlotProps> = ({ series, bitCount }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+
+    const rect = canvas.getBoundingClientRect();
+    const width = rect.width;
+    const height = rect.height;
+    const dpr = window.devicePixelRatio || 1;
+    canvas.width = width * dpr;
+    canvas.height = height * dpr;
+    ctx.scale(dpr, dpr);
+    ctx.clearRect(0, 0, width, height);
+
+    const visible = series.filter((s) => s.data.length > 0);
+    if (visible.length === 0) return;
+
+    // Shared range, snapped outwards to multiples of π/2
+    const halfPi = Math.PI / 2;
+    let minVal = Infinity;
+    let maxVal = -Infinity;
+    visible.forEach((s) => {
+      for (let i = 0; i < s.data.length; i++) {
+        minVal = Math.min(minVal, s.data[i]);
+        maxVal = Math.max(maxVal, s.data[i]);
+      }
+    });
+    const low = Math.floor(minVal / halfPi - 0.01) * halfPi;
+    const high = Math.ceil(maxVal / halfPi + 0.01) * halfPi;
+    const range = high - low || Math.PI;
+    const axisWidth = 44;
+    const plotWidth = width - axisWidth;
+    const margin = height * 0.05;
+    const toY = (value: number) => margin + (1 - (value - low) / range) * (height - 2 * margin);
+
+    // π/2 grid with labels
+    ctx.font = '11px system-ui';
+    const firstK = Math.round(low / halfPi);
+    const lastK = Math.round(high / halfPi);
+    // Thin out the grid on long, steep trajectories
+    const stride = Math.max(1, Math.ceil((lastK - firstK) / 12));
+    for (let k = firstK; k <= lastK; k++) {
+      if (k % stride !== 0) continue;
+      const y = toY(k * halfPi);
+      ctx.strokeStyle = k === 0 ? 'rgba(255, 255, 255, 0.25)' : 'rgba(255, 255, 255, 0.08)';
+      ctx.lineWidth = k === 0 ? 1 : 0.5;
+      ctx.beginPath();
+      ctx.moveTo(axisWidth, y);
+      ctx.lineTo(width, y);
+      ctx.stroke();
+      ctx.fillStyle = 'rgba(255, 255, 255, 0.6)';
+      ctx.fillText(formatHalfPi(k), 4, y + 4);
+    }
+
+    // Bit boundaries
+    ctx.strokeStyle = 'rgba(255, 255, 255, 0.15)';
+    ctx.setLineDash([2, 4]);
+    ctx.beginPath();
+    for (let b = 1; b < bitCount; b++) {
+      const x = axisWidth + (b / bitCount) * plotWidth;
+      ctx.moveTo(x, 0);
+      ctx.lineTo(x, height);
+    }
+    ctx.stroke();
+
+    visible.forEach((s) => {
+      ctx.strokeStyle = s.color;
+      ctx.lineWidth = 2.4;
+      ctx.setLineDash(s.dashed ? [6, 4] : []);
+      ctx.beginPath();
+      for (let i = 0; i < s.data.length; i++) {
+        const x = axisWidth + (i / (s.data.length - 1 || 1)) * plotWidth;
+        const y = toY(s.data[i]);
+        if (i === 0) {
+          ctx.moveTo(x, y);
+        } else {
+          ctx.lineTo(x, y);
+        }
+      }
+      ctx.stroke();
+    });
+    ctx.setLineDash([]);
+
+    // Legend
+    ctx.font = 'bold 12px system-ui';
+    visible.forEach((s, index) => {
+      const y = 14 + index * 18;
+      ctx.fillStyle = 'rgba(0, 0, 0, 0.8)';
+      ctx.fillRect(axisWidth + 8, y - 11, ctx.measureText(s.label).width + 30, 16);
+      ctx.fillStyle = s.color;
+      ctx.fillRect(axisWidth + 12, y - 4, 14, 3);
+      ctx.fillText(s.label, axisWidth + 32, y);
+    });
+  }, [series, bitCount]);
+
+  return (
+    <canvas
+      ref={canvasRef}
+      className="w-full h-full block"
+      style={{
+        background: 'rgba(10, 20, 40, 0.8)',
+        borderRadius: '8px'
+      }}
+    />
+  );
+};
+
+export default PhaseTrajectoryPlot;
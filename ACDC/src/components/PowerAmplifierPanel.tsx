@@ -0,0 +1,303 @@
+import React, { useMemo } from 'react';
+import { Line } from 'react-chartjs-2';
+import { Zap } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import ConstellationPlot from '@/components/ConstellationPlot';
+import SpectrumAnalyzer from '@/components/SpectrumAnalyzer';
+import { amplifierResponse, amplify, errorVectorMagnitude, paprDb } from '@/lib/amplifier';
+import { toPassband } from '@/lib/channel';
+import type { AmplifierConfig, AmplifierModel, Complex, Signal } from '@/lib/types';
+
+interface PowerAmplifierPanelProps {
+  config: AmplifierConfig;
+  /**
+   * Transmitted envelope of the last run and its carrier. Digital runs add
+   * the samples per symbol, the Q branch's delay in samples (OQPSK) and
+   * the ideal constellation.
+   */
+  run: {
+    inPhase: Signal;
+    quadrature: Signal;
+    carrier: { frequency: number; amplitude: number };
+    symbols: { samplesPerSymbol: number; qDelay: number; reference: Complex[] } | null;
+  } | null;
+}
+
+const AMPLIFIER_MODEL_NAMES: Record<AmplifierModel, string> = {
+  saleh: 'Saleh (TWTA)',
+  rapp: 'Rapp (SSPA)',
+  polynomial: 'Third-Order Polynomial'
+};
+
+// Input amplitudes from zero to twice saturation
+const CURVE_POINTS = 201;
+const CURVE_MAX_INPUT = 2;
+const SWEEP_BACKOFFS_DB = Array.from({ length: 21 }, (_, i) => i);
+
+const axisStyle = {
+  grid: { color: 'rgba(255, 255, 255, 0.1)' },
+  ticks: { color: '#FFFFFF' }
+};
+
+const chartOptions = (xTitle: string, yTitle: string) => ({
+  responsive: true,
+  maintainAspectRatio: false,
+  animation: false as const,
+  plugins: {
+    legend: { labels: { color: '#FFFFFF' } },
+    tooltip: { enabled: false }
+  },
+  scales: {
+    x: { ...axisStyle, type: 'linear' as const, title: { display: true, text: xTitle, color: '#FFFFFF' } },
+    y: { ...axisStyle, title: { display: true, text: yTitle, color: '#FFFFFF' } }
+  }
+});
+
+/** Envelope at the middle of every symbol, where the demodulator looks. */
+const symbolCentres = (
+  envelope: { inPhase: Signal; quadrature: Signal },
+  { samplesPerSymbol, qDelay }: { samplesPerSymbol: number; qDelay: number }
+): Complex[] => {
+  const length = envelope.inPhase.samples.length;
+  const symbols: Complex[] = [];
+  for (let k = 0; (k + 0.5) * samplesPerSymbol + qDelay < length; k++) {
+    const centre = Math.floor((k + 0.5) * samplesPerSymbol);
+    symbols.push({ re: envelope.inPhase.samples[centre], im: envelope.quadrature.samples[centre + qDelay] });
+  }
+  return symbols;
+};
+
+/**
+ * The transmitter's power amplifier: its AM/AM and AM/PM curves with the
+ * signal's mean and peak drive marked, the spectrum before and after it,
+ * the symbols it compresses and the EVM across back-offs.
+ */
+const PowerAmplifierPanel: React.FC<PowerAmplifierPanelProps> = ({ config, run }) => {
+  const { model, inputBackoffDb, smoothness } = config;
+
+  const papr = useMemo(() => (run ? paprDb(run) : null), [run]);
+
+  const curves = useMemo(() => {
+    const response = Array.from({ length: CURVE_POINTS }, (_, i) => {
+      const r = (i * CURVE_MAX_INPUT) / (CURVE_POINTS - 1);
+      return { r, ...amplifierResponse(r, { model, inputBackoffDb, smoothness }) };
+    });
+    return {
+      amAm: response.map(({ r, amplitude }) => ({ x: r, y: amplitude })),
+      amPm: response.map(({ r, phase }) => ({ x: r, y: (phase * 180) / Math.PI }))
+    };
+  }, [model, inputBackoffDb, smoothness]);
+
+  const amplified = useMemo(() => (run ? amplify(run, config) : null), [run, config]);
+
+  const spectra = useMemo(() => {
+    if (!run || !amplified) return null;
+    return { input: toPassband(run, run.carrier), output: toPassband(amplified, run.carrier) };
+  }, [run, amplified]);
+
+  const symbols = useMemo(() => {
+    if (!run?.symbols || !amplified || run.symbols.reference.length === 0) return null;
+    const measured = symbolCentres(amplified, run.symbols);
+    return { measured, evm: errorVectorMagnitude(measured, symbolCentres(run, run.symbols)) };
+  }, [run, amplified]);
+
+  // The sweep covers every back-off, so moving the back-off alone does not redo it
+  const sweep = useMemo(() => {
+    if (!run?.symbols || run.symbols.reference.length === 0) return null;
+    const ideal = symbolCentres(run, run.symbols);
+    return SWEEP_BACKOFFS_DB.map((backoff) => {
+      const output = amplify(run, { model, smoothness, inputBackoffDb: backoff });
+      return { x: backoff, y: 100 * errorVectorMagnitude(symbolCentres(output, run.symbols), ideal) };
+    });
+  }, [run, model, smoothness]);
+
+  // Mean and peak input amplitudes at this back-off, as vertical markers
+  const meanDrive = 10 ** (-inputBackoffDb / 20);
+  const peakDrive = papr === null ? null : meanDrive * 10 ** (papr / 20);
+  const marker = (x: number) => [
+    { x, y: 0 },
+    { x, y: 1 }
+  ];
+
+  const amAmData = {
+    datasets: [
+      {
+        label: 'AM/AM',
+        data: curves.amAm,
+        borderColor: '#4fc3f7',
+        backgroundColor: '#4fc3f7',
+        borderWidth: 2,
+        pointRadius: 0
+      },
+      {
+        label: 'Linear',
+        data: [
+          { x: 0, y: 0 },
+          { x: 1, y: 1 }
+        ],
+        borderColor: 'rgba(255, 255, 255, 0.5)',
+        backgroundColor: 'rgba(255, 255, 255, 0.5)',
+        borderWidth: 1,
+        borderDash: [6, 4],
+        pointRadius: 0
+      },
+      {
+        label: 'Mean Drive',
+        data: marker(meanDrive),
+        borderColor: '#76ff03',
+        backgroundColor: '#76ff03',
+        borderWidth: 2,
+        pointRadius: 0
+      },
+      ...(peakDrive === null
+        ? []
+        : [
+            {
+              label: 'Peak Drive',
+              data: marker(peakDrive),
+              borderColor: '#ff9800',
+              backgroundColor: '#ff9800',
+              borderWidth: 2,
+              pointRadius: 0
+            }
+          ])
+    ]
+  };
+
+  const amPmData = {
+    datasets: [
+      {
+        label: 'AM/PM',
+        data: curves.amPm,
+        borderColor: '#bb86fc',
+        backgroundColor: '#bb86fc',
+        borderWidth: 2,
+        pointRadius: 0
+      }
+    ]
+  };
+
+  const sweepData = {
+    datasets: [
+      {
+        label: 'EVM',
+        data: sweep ?? [],
+        borderColor: '#ff9800',
+        backgroundColor: '#ff9800',
+        borderWidth: 2,
+        pointRadius: 3
+      }
+    ]
+  };
+
+  return (
+    <Card className="card-enhanced animate-fade-in" style={{ animationDelay: '0.24s' }}>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-3 text-2xl">
+          <Zap className="w-8 h-8 text-primary" />
+          Power Amplifier
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-center">
+          <div className="p-3 rounded-lg bg-muted/50 border border-border">
+            <div className="text-xs text-muted-foreground">Model</div>
+            <div className="text-lg font-semibold">
+              {AMPLIFIER_MODEL_NAMES[model]}
+              {model === 'rapp' && smoothness !== undefined && `, p = ${smoothness}`}
+            </div>
+          </div>
+          <div className="p-3 rounded-lg bg-muted/50 border border-border">
+            <div className="text-xs text-muted-foreground">Envelope PAPR</div>
+            <div className="text-lg font-semibold">{papr === null ? '—' : `${papr.toFixed(2)} dB`}</div>
+          </div>
+          <div className="p-3 rounded-lg bg-muted/50 border border-border">
+            <div className="text-xs text-muted-foreground">Peaks against Saturation</div>
+            <div className="text-lg font-semibold">
+              {papr === null ? '—' : `${papr - inputBackoffDb > 0 ? '+' : ''}${(papr - inputBackoffDb).toFixed(1)} dB`}
+            </div>
+          </div>
+          <div className="p-3 rounded-lg bg-muted/50 border border-border">
+            <div className="text-xs text-muted-foreground">EVM at {inputBackoffDb} dB Back-off</div>
+            <div className="text-lg font-semibold">{symbols ? `${(symbols.evm * 100).toFixed(1)} %` : '—'}</div>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <div className="space-y-2">
+            <Label>AM/AM: Output against Input Amplitude</Label>
+            <div className="h-80 rounded-lg overflow-hidden border border-border bg-muted/20 p-2">
+              <Line data={amAmData} options={chartOptions('Input Amplitude (saturation = 1)', 'Output Amplitude')} />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label>AM/PM: Phase Shift against Input Amplitude</Label>
+            <div className="h-80 rounded-lg overflow-hidden border border-border bg-muted/20 p-2">
+              <Line data={amPmData} options={chartOptions('Input Amplitude (saturation = 1)', 'Phase Shift (°)')} />
+            </div>
+          </div>
+        </div>
+
+        {run?.symbols && symbols && (
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <div className="space-y-2">
+              <Label>Symbols after the Amplifier</Label>
+              <div className="h-80 rounded-lg overflow-hidden border border-border bg-muted/20">
+                <ConstellationPlot
+                  reference={run.symbols.reference}
+                  symbols={symbols.measured}
+                  color="#ff9800"
+                  label="Amplified"
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label>EVM against Input Back-off</Label>
+              <div className="h-80 rounded-lg overflow-hidden border border-border bg-muted/20 p-2">
+                <Line data={sweepData} options={chartOptions('Input Back-off (dB)', 'EVM (%)')} />
+              </div>
+            </div>
+          </div>
+        )}
+
+        {run && spectra && (
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <div className="h-72 rounded-lg overflow-hidden border border-border bg-muted/20">
+              <SpectrumAnalyzer
+                inPhase={spectra.input.samples}
+                sampleRate={spectra.input.sampleRate}
+                maxFrequency={2 * run.carrier.frequency}
+                floorDb={-80}
+                label="Amplifier Input"
+              />
+            </div>
+            <div className="h-72 rounded-lg overflow-hidden border border-border bg-muted/20">
+              <SpectrumAnalyzer
+                inPhase={spectra.output.samples}
+                sampleRate={spectra.output.sampleRate}
+                maxFrequency={2 * run.carrier.frequency}
+                floorDb={-80}
+                color="#ff9800"
+                label="Amplifier Output"
+              />
+            </div>
+          </div>
+        )}
+
+        <p className="text-sm text-muted-foreground">
+          An amplifier is most efficient near saturation, but there it compresses the envelope (AM/AM) and, for a
+          tube, also turns the phase with the drive level (AM/PM). Constant-envelope signals such as PSK and FSK
+          without pulse shaping pass through unharmed, since every sample sees the same gain. Signals whose
+          envelope varies lose their outer points first: the peak-to-average power ratio says how far the mean
+          must back off before the peaks stay linear. 16-QAM and 64-QAM need a few dB of it, and OFDM, whose sum
+          of many subcarriers has a PAPR near 10 dB, needs far more. Too little back-off raises the EVM and
+          regrows the spectrum into the neighbouring channels, as the intermodulation products of the compressed
+          envelope spread out from the carrier.
+        </p>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default PowerAmplifierPanel;
@@ -0,0 +1,92 @@
+import React, { useMemo } from 'react';
+import { Line } from 'react-chartjs-2';
+import { frequencyResponse, pulseShapeTaps } from '@/lib/filters';
+import type { PulseShaping } from '@/lib/types';
+
+interface PulseResponsePlotProps {
+  shaping: PulseShaping;
+}
+
+/** Display resolution; independent of the simulation's samples per symbol. */
+const SAMPLES_PER_SYMBOL = 16;
+const FFT_SIZE = 4096;
+/** Frequency axis in multiples of the symbol rate. */
+const MAX_FREQUENCY = 2;
+/** Floor for the dB scale. */
+const MIN_DB = -80;
+
+const axisStyle = {
+  grid: { color: 'rgba(255, 255, 255, 0.1)' },
+  ticks: { color: '#FFFFFF', maxTicksLimit: 11 }
+};
+
+/**
+ * Impulse response of the selected symbol pulse against time in symbol
+ * periods, next to its magnitude response in dB against frequency in
+ * multiples of the symbol rate.
+ */
+const PulseResponsePlot: React.FC<PulseResponsePlotProps> = ({ shaping }) => {
+  const { impulse, response } = useMemo(() => {
+    try {
+      const taps = pulseShapeTaps(shaping, SAMPLES_PER_SYMBOL);
+      // Pad the rectangle so its edges show
+      const padding = shaping.shape === 'rect' ? SAMPLES_PER_SYMBOL : 0;
+      const center = (taps.length - 1) / 2;
+      const impulse = {
+        labels: Array.from({ length: taps.length + 2 * padding }, (_, n) =>
+          ((n - padding - center) / SAMPLES_PER_SYMBOL).toFixed(2)
+        ),
+        values: [...new Array(padding).fill(0), ...taps, ...new Array(padding).fill(0)]
+      };
+
+      const magnitude = frequencyResponse(taps, FFT_SIZE);
+      const bins = Math.round((MAX_FREQUENCY * FFT_SIZE) / SAMPLES_PER_SYMBOL);
+      const response = {
+        labels: Array.from({ length: bins + 1 }, (_, k) => ((k * SAMPLES_PER_SYMBOL) / FFT_SIZE).toFixed(2)),
+        values: Array.from(magnitude.slice(0, bins + 1), (m) => Math.max(MIN_DB, 20 * Math.log10(m)))
+      };
+      return { impulse, response };
+    } catch {
+      return { impulse: { labels: [], values: [] }, response: { labels: [], values: [] } };
+    }
+  }, [shaping]);
+
+  const dataset = (values: number[], color: string) => ({
+    data: values,
+    borderColor: color,
+    borderWidth: 2.5,
+    pointRadius: 0,
+    fill: false,
+    tension: 0
+  });
+
+  const options = (xTitle: string, yTitle: string, yMin?: number) => ({
+    responsive: true,
+    maintainAspectRatio: false,
+    plugins: { legend: { display: false }, tooltip: { enabled: false } },
+    scales: {
+      x: { ...axisStyle, title: { display: true, text: xTitle, color: '#FFFFFF' } },
+      y: { ...axisStyle, title: { display: true, text: yTitle, color: '#FFFFFF' }, min: yMin }
+    },
+    animation: false as const
+  });
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+      <div className="h-72 rounded-lg overflow-hidden border border-border bg-muted/20 p-2">
+        <Line
+          data={{ labels: impulse.labels, datasets: [dataset(impulse.values, '#76ff03')] }}
+          options={options('Time (symbol periods)', 'Impulse Response')}
+        />
+      </div>
+      <div className="h-72 rounded-lg overflow-hidden border border-border bg-muted/20 p-2">
+        <Line
+          data={{ labels: response.labels, datasets: [dataset(response.values, '#4fc3f7')] }}
+          options={options('Frequency (× symbol rate)', 'Magnitude (dB)', MIN_DB)}
+        />
+      </div>
+    </div>
+  );
+};
+
+export default PulseResponsePlot;
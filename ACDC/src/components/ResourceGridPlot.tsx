@@ -0,0 +1,57 @@
+import React, { useEffect, useRef } from 'react';
+
+interface ResourceGridPlotProps {
+  /** Pilot flags, one row per OFDM symbol and one entry per subcarrier. */
+  pilots: boolean[][];
+}
+
+/**
+ * Time-frequency map of an OFDM frame: OFDM symbols run left to right and
+ * subcarriers bottom to top, with pilot cells highlighted.
+ */
+const ResourceGridPlot: React.FC<ResourceGridPlotProps> = ({ pilots }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+
+    const rect = canvas.getBoundingClientRect();
+    const width = rect.width;
+    const height = rect.height;
+    const dpr = window.devicePixelRatio || 1;
+    canvas.width = width * dpr;
+    canvas.height = height * dpr;
+    ctx.scale(dpr, dpr);
+    ctx.clearRect(0, 0, width, height);
+
+    const symbols = pilots.length;
+    const subcarriers = pilots[0]?.length ?? 0;
+    if (symbols === 0 || subcarriers === 0) return;
+
+    const cellWidth = width / symbols;
+    const cellHeight = height / subcarriers;
+    // Leave gaps between cells only while they are big enough to see
+    const gap = Math.min(cellWidth, cellHeight) > 4 ? 1 : 0;
+    pilots.forEach((row, symbol) => {
+      row.forEach((pilot, k) => {
+        ctx.fillStyle = pilot ? '#ff9800' : 'rgba(79, 195, 247, 0.55)';
+        ctx.fillRect(symbol * cellWidth, height - (k + 1) * cellHeight, cellWidth - gap, cellHeight - gap);
+      });
+    });
+  }, [pilots]);
+
+  return (
+    <canvas
+      ref={canvasRef}
+      className="w-full h-full block"
+      style={{
+        background: 'rgba(10, 20, 40, 0.8)',
+        borderRadius: '8px'
+      }}
+    />
+  );
+};
+
+export default ResourceGridPlot;
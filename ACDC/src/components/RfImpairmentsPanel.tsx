@@ -0,0 +1,255 @@
+import React, { useMemo } from 'react';
+import { Line } from 'react-chartjs-2';
+import { RadioReceiver } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import ConstellationPlot from '@/components/ConstellationPlot';
+import SignalPlot from '@/components/SignalPlot';
+import SpectrumAnalyzer from '@/components/SpectrumAnalyzer';
+import { toPassband } from '@/lib/channel';
+import { imageRejectionDb, impairEnvelope, phaseNoiseLevel, rmsPhaseNoise } from '@/lib/impairments';
+import type { Complex, ImpairmentConfig, Signal } from '@/lib/types';
+
+interface RfImpairmentsPanelProps {
+  config: ImpairmentConfig;
+  /**
+   * Transmitted envelope of the last run and its carrier. Digital runs add
+   * the samples per symbol, the Q branch's delay in samples (OQPSK) and
+   * the ideal constellation.
+   */
+  run: {
+    inPhase: Signal;
+    quadrature: Signal;
+    carrier: { frequency: number; amplitude: number };
+    symbols: { samplesPerSymbol: number; qDelay: number; reference: Complex[] } | null;
+  } | null;
+}
+
+const MASK_POINTS = 200;
+
+const axisStyle = {
+  grid: { color: 'rgba(255, 255, 255, 0.1)' },
+  ticks: { color: '#FFFFFF' }
+};
+
+const maskOptions = {
+  responsive: true,
+  maintainAspectRatio: false,
+  animation: false as const,
+  plugins: {
+    legend: { labels: { color: '#FFFFFF' } },
+    tooltip: { enabled: false }
+  },
+  scales: {
+    x: {
+      ...axisStyle,
+      type: 'logarithmic' as const,
+      title: { display: true, text: 'Offset from Carrier (kHz)', color: '#FFFFFF' }
+    },
+    y: { ...axisStyle, title: { display: true, text: 'L(f) (dBc/Hz)', color: '#FFFFFF' } }
+  }
+};
+
+/**
+ * The receiver's RF impairments on their own, without the channel or
+ * noise: the envelope before and after, the symbols they land on, the
+ * passband spectra and the phase noise mask.
+ */
+const RfImpairmentsPanel: React.FC<RfImpairmentsPanelProps> = ({ config, run }) => {
+  const { cfo, phaseNoise, iqImbalance, dcOffset } = config;
+
+  // A mask edited out of order throws; the error is shown in place of the plots
+  const view = useMemo(() => {
+    try {
+      const impaired = run ? impairEnvelope(run, config) : null;
+      const spectra =
+        run && impaired ? { ideal: toPassband(run, run.carrier), impaired: toPassband(impaired, run.carrier) } : null;
+
+      let constellation: Complex[] | null = null;
+      if (run?.symbols && impaired && run.symbols.reference.length > 0) {
+        const { samplesPerSymbol, qDelay } = run.symbols;
+        const length = impaired.inPhase.samples.length;
+        constellation = [];
+        // The middle of every symbol, where the demodulator looks
+        for (let k = 0; (k + 0.5) * samplesPerSymbol + qDelay < length; k++) {
+          const centre = Math.floor((k + 0.5) * samplesPerSymbol);
+          constellation.push({ re: impaired.inPhase.samples[centre], im: impaired.quadrature.samples[centre + qDelay] });
+        }
+      }
+
+      let mask: { x: number; y: number }[] | null = null;
+      let rmsPhase: number | null = null;
+      if (config.phaseNoise) {
+        const points = config.phaseNoise.mask;
+        const lowest = points[0].offset / 10;
+        const highest = Math.max(points[points.length - 1].offset * 10, run ? run.inPhase.sampleRate / 2 : 0);
+        mask = Array.from({ length: MASK_POINTS }, (_, i) => {
+          const f = lowest * (highest / lowest) ** (i / (MASK_POINTS - 1));
+          return { x: f / 1000, y: phaseNoiseLevel(points, f) };
+        });
+        rmsPhase = run ? rmsPhaseNoise(points, run.inPhase.sampleRate) : null;
+      }
+      return { impaired, spectra, constellation, mask, rmsPhase, error: null };
+    } catch (error) {
+      const message = (error as Error).message;
+      return { impaired: null, spectra: null, constellation: null, mask: null, rmsPhase: null, error: message };
+    }
+  }, [run, config]);
+  const { impaired, spectra, constellation, mask, rmsPhase } = view;
+
+  const maskData = {
+    datasets: [
+      {
+        label: 'Phase Noise Mask',
+        data: mask ?? [],
+        borderColor: '#ff9800',
+        backgroundColor: '#ff9800',
+        borderWidth: 2,
+        pointRadius: 0
+      },
+      {
+        label: 'Mask Points',
+        data: phaseNoise?.mask.map((point) => ({ x: point.offset / 1000, y: point.level })) ?? [],
+        borderColor: '#4fc3f7',
+        backgroundColor: '#4fc3f7',
+        showLine: false,
+        pointRadius: 4
+      }
+    ]
+  };
+
+  const cfoPerSymbol =
+    cfo !== undefined && run?.symbols ? (360 * cfo * run.symbols.samplesPerSymbol) / run.inPhase.sampleRate : null;
+
+  return (
+    <Card className="card-enhanced animate-fade-in" style={{ animationDelay: '0.3s' }}>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-3 text-2xl">
+          <RadioReceiver className="w-8 h-8 text-primary" />
+          RF Impairments
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-center">
+          <div className="p-3 rounded-lg bg-muted/50 border border-border">
+            <div className="text-xs text-muted-foreground">Frequency Offset</div>
+            <div className="text-lg font-semibold">
+              {cfo === undefined ? 'Off' : `${cfo} Hz`}
+              {cfoPerSymbol !== null && ` (${cfoPerSymbol.toFixed(1)}° per symbol)`}
+            </div>
+          </div>
+          <div className="p-3 rounded-lg bg-muted/50 border border-border">
+            <div className="text-xs text-muted-foreground">RMS Phase Noise</div>
+            <div className="text-lg font-semibold">
+              {!phaseNoise ? 'Off' : rmsPhase === null ? '—' : `${((rmsPhase * 180) / Math.PI).toFixed(2)}°`}
+            </div>
+          </div>
+          <div className="p-3 rounded-lg bg-muted/50 border border-border">
+            <div className="text-xs text-muted-foreground">Image Rejection</div>
+            <div className="text-lg font-semibold">
+              {!iqImbalance
+                ? 'Off'
+                : Number.isFinite(imageRejectionDb(iqImbalance))
+                  ? `${imageRejectionDb(iqImbalance).toFixed(1)} dB`
+                  : '∞'}
+            </div>
+          </div>
+          <div className="p-3 rounded-lg bg-muted/50 border border-border">
+            <div className="text-xs text-muted-foreground">DC Offset</div>
+            <div className="text-lg font-semibold">
+              {dcOffset ? `${Math.hypot(dcOffset.re, dcOffset.im).toFixed(2)} × carrier` : 'Off'}
+            </div>
+          </div>
+        </div>
+
+        {view.error && <p className="text-sm text-destructive">{view.error}</p>}
+
+        {run && impaired && (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>In-Phase Component, Ideal and Impaired (noiseless)</Label>
+              <div className="h-40 rounded-lg overflow-hidden border border-border bg-muted/20">
+                <SignalPlot
+                  series={[
+                    { data: run.inPhase.samples, color: '#FFFFFF', label: 'Ideal I' },
+                    { data: impaired.inPhase.samples, color: '#ff9800', label: 'Impaired I' }
+                  ]}
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label>Quadrature Component, Ideal and Impaired (noiseless)</Label>
+              <div className="h-40 rounded-lg overflow-hidden border border-border bg-muted/20">
+                <SignalPlot
+                  series={[
+                    { data: run.quadrature.samples, color: '#FFFFFF', label: 'Ideal Q' },
+                    { data: impaired.quadrature.samples, color: '#4fc3f7', label: 'Impaired Q' }
+                  ]}
+                />
+              </div>
+            </div>
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          {run?.symbols && constellation && (
+            <div className="space-y-2">
+              <Label>Symbols after the Impairments</Label>
+              <div className="h-80 rounded-lg overflow-hidden border border-border bg-muted/20">
+                <ConstellationPlot
+                  reference={run.symbols.reference}
+                  symbols={constellation}
+                  color="#ff9800"
+                  label="Impaired"
+                />
+              </div>
+            </div>
+          )}
+          {mask && (
+            <div className="space-y-2">
+              <Label>Phase Noise Mask</Label>
+              <div className="h-80 rounded-lg overflow-hidden border border-border bg-muted/20 p-2">
+                <Line data={maskData} options={maskOptions} />
+              </div>
+            </div>
+          )}
+        </div>
+
+        {run && spectra && (
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <div className="h-72 rounded-lg overflow-hidden border border-border bg-muted/20">
+              <SpectrumAnalyzer
+                inPhase={spectra.ideal.samples}
+                sampleRate={spectra.ideal.sampleRate}
+                maxFrequency={2 * run.carrier.frequency}
+                label="Ideal Spectrum"
+              />
+            </div>
+            <div className="h-72 rounded-lg overflow-hidden border border-border bg-muted/20">
+              <SpectrumAnalyzer
+                inPhase={spectra.impaired.samples}
+                sampleRate={spectra.impaired.sampleRate}
+                maxFrequency={2 * run.carrier.frequency}
+                color="#ff9800"
+                label="Impaired Spectrum"
+              />
+            </div>
+          </div>
+        )}
+
+        <p className="text-sm text-muted-foreground">
+          The receiver's local oscillator never quite matches the transmitter's. A frequency offset spins the
+          constellation at the offset frequency, so without carrier recovery even a few hertz carries the
+          symbols into their neighbours' decision regions, and it shifts the spectrum off the carrier. Phase noise
+          jitters the rotation at random, smearing every point into an arc; its mask gives the noise power per
+          hertz at each offset from the carrier. A gain or phase mismatch between the I and Q mixers squashes and
+          shears the constellation and leaks a mirror image of the signal to the other side of the carrier,
+          which shows up as an image tone for single-sideband and other asymmetric spectra. A DC offset moves the
+          whole constellation off centre and appears as a spike at the carrier.
+        </p>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default RfImpairmentsPanel;
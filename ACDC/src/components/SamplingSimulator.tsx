@@ -0,0 +1,466 @@
+import React, { useMemo, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Slider } from '@/components/ui/slider';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ScanLine, Sliders, Waves, BarChart3, RefreshCw, Info, Plus, Trash2, TriangleAlert } from 'lucide-react';
+import { generateMessage } from '@/lib/analog';
+import { nextPowerOfTwo } from '@/lib/fft';
+import { aliasFrequency, messageComponents, sampleSignal } from '@/lib/sampling';
+import type { MessageConfig, Reconstruction, Tone } from '@/lib/types';
+import SignalPlot, { type SignalSeries } from '@/components/SignalPlot';
+import SpectrumAnalyzer from '@/components/SpectrumAnalyzer';
+import WaveformDrawer from '@/components/WaveformDrawer';
+
+interface SamplingParams {
+  messageKind: MessageConfig['kind'];
+  /** Sine or drawn-waveform frequency in kHz. */
+  messageFrequency: number;
+  /** Tone frequencies in kHz. */
+  tones: Tone[];
+  drawnWaveform: number[];
+  /** Sampling rate in kHz. */
+  sampleRate: number;
+  reconstruction: Reconstruction;
+}
+
+const MESSAGE_KIND_NAMES: Record<MessageConfig['kind'], string> = {
+  sine: 'Sinusoid',
+  tones: 'Sum of Tones',
+  drawn: 'Hand-drawn'
+};
+
+const RECONSTRUCTION_NAMES: Record<Reconstruction, string> = {
+  sinc: 'Ideal low-pass (sinc interpolation)',
+  zoh: 'Zero-order hold'
+};
+
+const DRAWN_WAVEFORM_POINTS = 128;
+// Four periods of the slowest component, drawn with at least 32 points per
+// cycle of the sampling rate or the highest component
+const MESSAGE_PERIODS = 4;
+const SAMPLES_PER_CYCLE = 32;
+const MAX_MESSAGE_SAMPLES = 1 << 18;
+const MAX_FFT_SIZE = 16384;
+/** Sampling-rate multiples shown on the spectrum plots. */
+const SPECTRUM_REPLICAS = 3;
+
+/** Message signal described by the controls, in Hz. */
+const getMessageConfig = (params: SamplingParams): MessageConfig => {
+  switch (params.messageKind) {
+    case 'sine':
+      return { kind: 'sine', frequency: params.messageFrequency * 1000 };
+    case 'tones':
+      return {
+        kind: 'tones',
+        tones: params.tones.map((tone) => ({ ...tone, frequency: tone.frequency * 1000 }))
+      };
+    case 'drawn':
+      return { kind: 'drawn', frequency: params.messageFrequency * 1000, waveform: params.drawnWaveform };
+  }
+};
+
+const SamplingSimulator: React.FC = () => {
+  const [params, setParams] = useState<SamplingParams>({
+    messageKind: 'tones',
+    messageFrequency: 1,
+    tones: [
+      { frequency: 1, amplitude: 1 },
+      { frequency: 3, amplitude: 0.5 }
+    ],
+    drawnWaveform: Array.from({ length: DRAWN_WAVEFORM_POINTS }, (_, i) =>
+      Math.sin((2 * Math.PI * i) / DRAWN_WAVEFORM_POINTS)
+    ),
+    sampleRate: 8,
+    reconstruction: 'sinc'
+  });
+
+  const updateParam = <K extends keyof SamplingParams>(key: K, value: SamplingParams[K]) => {
+    setParams((prev) => ({ ...prev, [key]: value }));
+  };
+
+  const simulation = useMemo(() => {
+    try {
+      const config = getMessageConfig(params);
+      const components = messageComponents(config).filter((tone) => tone.frequency > 0);
+      if (components.length === 0) {
+        throw new RangeError('The message needs at least one component above 0 Hz');
+      }
+      const frequencies = components.map((tone) => tone.frequency);
+      const bandwidth = Math.max(...frequencies);
+      const fs = params.sampleRate * 1000;
+
+      // An integer multiple of the sampling rate puts every sample on the grid
+      const rate = fs * Math.ceil((SAMPLES_PER_CYCLE * Math.max(fs, bandwidth)) / fs);
+      const duration = Math.min(MESSAGE_PERIODS / Math.min(...frequencies), MAX_MESSAGE_SAMPLES / rate);
+      const message = generateMessage(config, duration, rate);
+      const sampled = sampleSignal(message, fs, params.reconstruction);
+
+      // Error over the middle half, away from the truncated interpolation at the edges
+      const length = message.samples.length;
+      let signal = 0;
+      let noise = 0;
+      for (let n = Math.floor(length / 4); n < Math.floor((3 * length) / 4); n++) {
+        signal += message.samples[n] ** 2;
+        noise += (message.samples[n] - sampled.reconstructed.samples[n]) ** 2;
+      }
+
+      return { components, bandwidth, message, sampled, snr: 10 * Math.log10(signal / noise), error: null };
+    } catch (error) {
+      return { components: [], bandwidth: 0, message: null, sampled: null, snr: 0, error: (error as Error).message };
+    }
+  }, [params]);
+
+  const { components, bandwidth, message, sampled } = simulation;
+  const fs = params.sampleRate * 1000;
+  const aliased = components.filter((tone) => tone.frequency >= fs / 2);
+  const spectrumSpan = Math.max(SPECTRUM_REPLICAS * fs, 1.25 * bandwidth);
+  const fftSize = Math.min(MAX_FFT_SIZE, nextPowerOfTwo(message?.samples.length ?? 1));
+
+  const sampledSeries = useMemo(
+    (): SignalSeries[] =>
+      message && sampled
+        ? [
+            { data: message.samples, color: 'rgba(255, 255, 255, 0.5)', label: 'Message' },
+            { data: sampled.impulses.samples, color: '#4fc3f7', label: `Samples (${sampled.samples.length})` }
+          ]
+        : [],
+    [message, sampled]
+  );
+
+  const reconstructedSeries = useMemo(
+    (): SignalSeries[] =>
+      message && sampled
+        ? [
+            { data: message.samples, color: 'rgba(255, 255, 255, 0.5)', label: 'Message' },
+            { data: sampled.reconstructed.samples, color: '#76ff03', label: RECONSTRUCTION_NAMES[params.reconstruction] }
+          ]
+        : [],
+    [message, sampled, params.reconstruction]
+  );
+
+  return (
+    <div className="min-h-screen p-4 space-y-6 animate-fade-in">
+      {/* Header */}
+      <div className="text-center space-y-4 p-8 card-enhanced rounded-xl animate-scale-in">
+        <div className="flex items-center justify-center gap-3 mb-4">
+          <ScanLine className="w-12 h-12 text-primary animate-signal-pulse" />
+          <h1 className="text-5xl font-bold bg-gradient-to-r from-primary to-accent bg-clip-text text-transparent">
+            Sampling &amp; Aliasing
+          </h1>
+        </div>
+        <p className="text-xl text-muted-foreground max-w-4xl mx-auto leading-relaxed">
+          Sample an analog signal, watch its spectrum repeat around every multiple of the sampling rate, and rebuild
+          it from the samples
+        </p>
+      </div>
+
+      {/* Controls */}
+      <Card className="card-enhanced animate-fade-in" style={{ animationDelay: '0.1s' }}>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-3 text-2xl">
+            <Sliders className="w-8 h-8 text-primary" />
+            Parameters
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+            <div className="space-y-4 p-6 rounded-xl bg-muted/50 border border-border">
+              <h3 className="text-xl font-semibold text-accent">Analog Signal</h3>
+              <div>
+                <Label>Message Signal</Label>
+                <Select
+                  value={params.messageKind}
+                  onValueChange={(value) => updateParam('messageKind', value as MessageConfig['kind'])}
+                >
+                  <SelectTrigger className="mt-2">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(MESSAGE_KIND_NAMES).map(([value, name]) => (
+                      <SelectItem key={value} value={value}>{name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              {params.messageKind !== 'tones' && (
+                <div>
+                  <Label>
+                    {params.messageKind === 'drawn' ? 'Repetition Frequency' : 'Frequency'}: {params.messageFrequency} kHz
+                  </Label>
+                  <Slider
+                    value={[params.messageFrequency]}
+                    onValueChange={(value) => updateParam('messageFrequency', value[0])}
+                    min={0.1}
+                    max={10}
+                    step={0.1}
+                    className="mt-2"
+                  />
+                </div>
+              )}
+
+              {params.messageKind === 'tones' && (
+                <div className="space-y-2">
+                  <Label>Tones (frequency in kHz, amplitude)</Label>
+                  {params.tones.map((tone, index) => (
+                    <div key={index} className="flex gap-2">
+                      <Input
+                        type="number"
+                        min={0.1}
+                        step={0.1}
+                        value={tone.frequency}
+                        onChange={(e) =>
+                          updateParam(
+                            'tones',
+                            params.tones.map((t, i) => (i === index ? { ...t, frequency: +e.target.value } : t))
+                          )
+                        }
+                        className="font-mono"
+                      />
+                      <Input
+                        type="number"
+                        step={0.1}
+                        value={tone.amplitude}
+                        onChange={(e) =>
+                          updateParam(
+                            'tones',
+                            params.tones.map((t, i) => (i === index ? { ...t, amplitude: +e.target.value } : t))
+                          )
+                        }
+                        className="font-mono"
+                      />
+                      <Button
+                        variant="secondary"
+                        size="icon"
+                        disabled={params.tones.length === 1}
+                        onClick={() => updateParam('tones', params.tones.filter((_, i) => i !== index))}
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  ))}
+                  <Button
+                    variant="secondary"
+                    size="sm"
+                    onClick={() => updateParam('tones', [...params.tones, { frequency: 2, amplitude: 0.5 }])}
+                  >
+                    <Plus className="w-4 h-4 mr-2" />
+                    Add Tone
+                  </Button>
+                </div>
+              )}
+
+              {params.messageKind === 'drawn' && (
+                <div className="h-40 rounded-lg overflow-hidden border border-border">
+                  <WaveformDrawer
+                    value={params.drawnWaveform}
+                    onChange={(waveform) => updateParam('drawnWaveform', waveform)}
+                  />
+                </div>
+              )}
+            </div>
+
+            <div className="space-y-4 p-6 rounded-xl bg-muted/50 border border-border">
+              <h3 className="text-xl font-semibold text-accent">Sampling &amp; Reconstruction</h3>
+              <div>
+                <Label>Sampling Rate: {params.sampleRate} kHz</Label>
+                <Slider
+                  value={[params.sampleRate]}
+                  onValueChange={(value) => updateParam('sampleRate', value[0])}
+                  min={0.5}
+                  max={50}
+                  step={0.1}
+                  className="mt-2"
+                />
+              </div>
+              <div>
+                <Label>Reconstruction</Label>
+                <Select
+                  value={params.reconstruction}
+                  onValueChange={(value) => updateParam('reconstruction', value as Reconstruction)}
+                >
+                  <SelectTrigger className="mt-2">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(RECONSTRUCTION_NAMES).map(([value, name]) => (
+                      <SelectItem key={value} value={value}>{name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {!simulation.error && (
+                <div className="grid grid-cols-2 gap-4 text-center">
+                  <div className="p-3 rounded-lg bg-muted/50 border border-border">
+                    <div className="text-xs text-muted-foreground">Highest Component</div>
+                    <div className="text-lg font-semibold">{+(bandwidth / 1000).toFixed(2)} kHz</div>
+                  </div>
+                  <div className="p-3 rounded-lg bg-muted/50 border border-border">
+                    <div className="text-xs text-muted-foreground">Nyquist Rate</div>
+                    <div className="text-lg font-semibold">{+((2 * bandwidth) / 1000).toFixed(2)} kHz</div>
+                  </div>
+                </div>
+              )}
+            </div>
+          </div>
+
+          {simulation.error ? (
+            <p className="mt-6 text-sm text-destructive">{simulation.error}</p>
+          ) : aliased.length > 0 ? (
+            <div className="mt-6 flex items-start gap-3 p-4 rounded-lg bg-muted/50 border border-border">
+              <TriangleAlert className="w-5 h-5 mt-0.5 text-warning shrink-0" />
+              <p className="text-sm text-warning">
+                Aliasing: the sampling rate is below the Nyquist rate of {+((2 * bandwidth) / 1000).toFixed(2)} kHz.{' '}
+                {aliased.length === 1 ? 'One component folds' : `${aliased.length} components fold`} back into the
+                0–{+(fs / 2000).toFixed(2)} kHz band and cannot be told apart from genuine low-frequency content.
+              </p>
+            </div>
+          ) : (
+            <p className="mt-6 text-sm text-muted-foreground">
+              Every component lies below half the sampling rate, so the samples determine the signal uniquely.
+            </p>
+          )}
+        </CardContent>
+      </Card>
+
+      {message && sampled && (
+        <>
+          {/* Sampled Sequence */}
+          <Card className="card-enhanced animate-fade-in" style={{ animationDelay: '0.2s' }}>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-3 text-2xl">
+                <Waves className="w-8 h-8 text-primary" />
+                Sampled Sequence
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="h-80 rounded-lg overflow-hidden border border-border bg-muted/20">
+                <SignalPlot series={sampledSeries} />
+              </div>
+            </CardContent>
+          </Card>
+
+          {/* Spectra */}
+          <Card className="card-enhanced animate-fade-in" style={{ animationDelay: '0.3s' }}>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-3 text-2xl">
+                <BarChart3 className="w-8 h-8 text-primary" />
+                Spectrum and Replicas
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              <div className="h-96 rounded-lg overflow-hidden border border-border bg-muted/20">
+                <div className="h-1/2 relative border-b border-border">
+                  <SpectrumAnalyzer
+                    inPhase={message.samples}
+                    sampleRate={message.sampleRate}
+                    fftSize={fftSize}
+                    maxFrequency={spectrumSpan}
+                    color="#bb86fc"
+                    label="Analog Signal"
+                  />
+                </div>
+                <div className="h-1/2 relative">
+                  <SpectrumAnalyzer
+                    inPhase={sampled.impulses.samples}
+                    sampleRate={message.sampleRate}
+                    fftSize={fftSize}
+                    maxFrequency={spectrumSpan}
+                    label="Sampled Signal"
+                  />
+                </div>
+              </div>
+              <p className="text-sm text-muted-foreground">
+                Sampling at {params.sampleRate} kHz copies the spectrum to every multiple of the sampling rate. Each
+                component at f reappears at k·fs ± f; once f passes fs/2 = {+(fs / 2000).toFixed(2)} kHz a copy lands
+                inside the baseband and the replicas overlap.
+              </p>
+
+              <div className="overflow-auto rounded-lg border border-border">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="text-right">Frequency (kHz)</TableHead>
+                      <TableHead className="text-right">Amplitude</TableHead>
+                      <TableHead className="text-right">Appears At (kHz)</TableHead>
+                      <TableHead>Status</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {components.map((tone, index) => (
+                      <TableRow key={index}>
+                        <TableCell className="text-right font-mono">{+(tone.frequency / 1000).toFixed(3)}</TableCell>
+                        <TableCell className="text-right font-mono">{tone.amplitude.toFixed(3)}</TableCell>
+                        <TableCell className="text-right font-mono">
+                          {+(aliasFrequency(tone.frequency, fs) / 1000).toFixed(3)}
+                        </TableCell>
+                        <TableCell className={tone.frequency >= fs / 2 ? 'text-warning' : 'text-muted-foreground'}>
+                          {tone.frequency >= fs / 2 ? 'Aliased' : 'Preserved'}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            </CardContent>
+          </Card>
+
+          {/* Reconstruction */}
+          <Card className="card-enhanced animate-fade-in" style={{ animationDelay: '0.4s' }}>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-3 text-2xl">
+                <RefreshCw className="w-8 h-8 text-primary" />
+                Reconstruction ({RECONSTRUCTION_NAMES[params.reconstruction]})
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-center">
+                <div className="p-3 rounded-lg bg-muted/50 border border-border">
+                  <div className="text-xs text-muted-foreground">Reconstruction SNR</div>
+                  <div className="text-lg font-semibold">{simulation.snr.toFixed(1)} dB</div>
+                </div>
+                <div className="p-3 rounded-lg bg-muted/50 border border-border">
+                  <div className="text-xs text-muted-foreground">Oversampling Factor</div>
+                  <div className="text-lg font-semibold">{(fs / (2 * bandwidth)).toFixed(2)}×</div>
+                </div>
+              </div>
+              <div className="h-80 rounded-lg overflow-hidden border border-border bg-muted/20">
+                <SignalPlot series={reconstructedSeries} />
+              </div>
+              <p className="text-sm text-muted-foreground">
+                The ideal low-pass filter places a sinc pulse on every sample and recovers a band-limited signal
+                exactly when it was sampled above the Nyquist rate. The zero-order hold keeps each sample until the
+                next one, as a simple DAC does, leaving a staircase and a half-sample delay.
+              </p>
+            </CardContent>
+          </Card>
+        </>
+      )}
+
+      {/* Educational Content */}
+      <Card className="card-enhanced animate-fade-in" style={{ animationDelay: '0.5s' }}>
+        <CardContent className="pt-6">
+          <div className="p-6 rounded-xl bg-muted/50 border-l-4 border-l-primary">
+            <h3 className="text-lg font-semibold mb-3 flex items-center gap-2 text-accent">
+              <Info className="w-5 h-5" />
+              The Sampling Theorem
+            </h3>
+            <p className="text-sm text-muted-foreground leading-relaxed">
+              A signal with no content at or above B hertz is fully described by samples taken faster than 2B per
+              second. Below that rate, frequencies above fs/2 fold back and become indistinguishable from lower ones,
+              which is why converters place an anti-aliasing filter before the sampler. A hand-drawn waveform with
+              sharp corners has harmonics far above its repetition frequency, so it aliases at rates that look
+              generous.
+            </p>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default SamplingSimulator;
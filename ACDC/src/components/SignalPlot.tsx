@@ -0,0 +1,116 @@
+import React, { useEffect, useRef } from 'react';
+
+export interface SignalSeries {
+  data: ArrayLike<number>;
+  color: string;
+  label: string;
+}
+
+interface SignalPlotProps {
+  /** Traces drawn on a shared amplitude axis, all with the same sample count. */
+  series: SignalSeries[];
+  /** Sample ranges [start, end) to shade, e.g. cyclic prefixes, optionally in their own colour. */
+  shaded?: ([number, number] | [number, number, string])[];
+  shadeColor?: string;
+}
+
+/**
+ * Time-domain plot of one or more sampled signals over a grid, in the style
+ * of the simulator's signal canvases.
+ */
+const SignalPlot: React.FC<SignalPlotProps> = ({ series, shaded = [], shadeColor = 'rgba(255, 152, 0, 0.12)' }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+
+    const rect = canvas.getBoundingClientRect();
+    const width = rect.width;
+    const height = rect.height;
+    const dpr = window.devicePixelRatio || 1;
+    canvas.width = width * dpr;
+    canvas.height = height * dpr;
+    ctx.scale(dpr, dpr);
+    ctx.clearRect(0, 0, width, height);
+
+    const visible = series.filter((s) => s.data.length > 0);
+    if (visible.length === 0) return;
+    const length = visible[0].data.length;
+    const toX = (n: number) => (n / (length - 1 || 1)) * width;
+
+    shaded.forEach(([start, end, color]) => {
+      ctx.fillStyle = color ?? shadeColor;
+      ctx.fillRect(toX(start), 0, toX(end) - toX(start), height);
+    });
+
+    ctx.strokeStyle = 'rgba(255, 255, 255, 0.08)';
+    ctx.lineWidth = 0.5;
+    ctx.beginPath();
+    for (let i = 0; i <= 5; i++) {
+      ctx.moveTo(0, (i * height) / 5);
+      ctx.lineTo(width, (i * height) / 5);
+    }
+    for (let i = 0; i <= 12; i++) {
+      ctx.moveTo((i * width) / 12, 0);
+      ctx.lineTo((i * width) / 12, height);
+    }
+    ctx.stroke();
+
+    // Symmetric range so zero sits on the centre line
+    let peak = 0;
+    visible.forEach((s) => {
+      for (let i = 0; i < s.data.length; i++) {
+        peak = Math.max(peak, Math.abs(s.data[i]));
+      }
+    });
+    const margin = height * 0.05;
+    const toY = (value: number) => height / 2 - (value / (peak || 1)) * (height / 2 - margin);
+
+    ctx.strokeStyle = 'rgba(255, 255, 255, 0.25)';
+    ctx.lineWidth = 1;
+    ctx.beginPath();
+    ctx.moveTo(0, height / 2);
+    ctx.lineTo(width, height / 2);
+    ctx.stroke();
+
+    visible.forEach((s) => {
+      ctx.strokeStyle = s.color;
+      ctx.lineWidth = 2;
+      ctx.lineJoin = 'round';
+      ctx.beginPath();
+      for (let i = 0; i < s.data.length; i++) {
+        if (i === 0) {
+          ctx.moveTo(toX(i), toY(s.data[i]));
+        } else {
+          ctx.lineTo(toX(i), toY(s.data[i]));
+        }
+      }
+      ctx.stroke();
+    });
+
+    ctx.font = 'bold 12px system-ui';
+    visible.forEach((s, index) => {
+      const y = 18 + index * 20;
+      ctx.fillStyle = 'rgba(0, 0, 0, 0.8)';
+      ctx.fillRect(8, y - 13, ctx.measureText(s.label).width + 30, 18);
+      ctx.fillStyle = s.color;
+      ctx.fillRect(12, y - 5, 14, 3);
+      ctx.fillText(s.label, 32, y);
+    });
+  }, [series, shaded, shadeColor]);
+
+  return (
+    <canvas
+      ref={canvasRef}
+      className="w-full h-full block"
+      style={{
+        background: 'rgba(10, 20, 40, 0.8)',
+        borderRadius: '8px'
+      }}
+    />
+  );
+};
+
+export default SignalPlot;
@@ -0,0 +1,141 @@
+import React, { useEffect, useMemo, useRef } from 'react';
+import { powerSpectrum } from '@/lib/fft';
+
+interface SpectrumAnalyzerProps {
+  /** Real signal, or the in-phase part of a complex baseband signal. */
+  inPhase: ArrayLike<number>;
+  /** Quadrature part; when given, the two-sided spectrum is shown. */
+  quadrature?: ArrayLike<number>;
+  /** Samples per second. */
+  sampleRate: number;
+  fftSize?: number;
+  /** Lowest level shown, in dB below the peak. */
+  floorDb?: number;
+  /** Divides frequencies for the axis labels, e.g. 1000 for kHz. */
+  frequencyScale?: number;
+  frequencyUnit?: string;
+  /** Highest frequency shown in Hz; defaults to the whole spectrum. */
+  maxFrequency?: number;
+  color?: string;
+  label?: string;
+}
+
+/**
+ * Power spectral density of a signal in dB relative to its peak, estimated
+ * with Welch's method.
+ */
+const SpectrumAnalyzer: React.FC<SpectrumAnalyzerProps> = ({
+  inPhase,
+  quadrature,
+  sampleRate,
+  fftSize = 1024,
+  floorDb = -60,
+  frequencyScale = 1000,
+  frequencyUnit = 'kHz',
+  maxFrequency,
+  color = '#4fc3f7',
+  label = 'Power Spectrum'
+}) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  const spectrum = useMemo(() => {
+    if (inPhase.length === 0) return null;
+    const full = powerSpectrum(inPhase, quadrature ?? null, sampleRate, fftSize);
+    const bins = maxFrequency === undefined ? full.frequencies.length : full.frequencies.findIndex((f) => f > maxFrequency);
+    const frequencies = bins < 0 ? full.frequencies : full.frequencies.slice(0, bins);
+    const power = bins < 0 ? full.power : full.power.slice(0, bins);
+    const peak = power.reduce((max, p) => Math.max(max, p), 0) || 1;
+    const levels = power.map((p) => Math.max(floorDb, 10 * Math.log10(p / peak || 1e-30)));
+    return { frequencies, levels };
+  }, [inPhase, quadrature, sampleRate, fftSize, floorDb, maxFrequency]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+
+    const rect = canvas.getBoundingClientRect();
+    const width = rect.width;
+    const height = rect.height;
+    const dpr = window.devicePixelRatio || 1;
+    canvas.width = width * dpr;
+    canvas.height = height * dpr;
+    ctx.scale(dpr, dpr);
+    ctx.clearRect(0, 0, width, height);
+    if (!spectrum) return;
+
+    const axisWidth = 44;
+    const axisHeight = 22;
+    const plotWidth = width - axisWidth;
+    const plotHeight = height - axisHeight;
+    const { frequencies, levels } = spectrum;
+    const minFrequency = frequencies[0];
+    const maxFrequency = frequencies[frequencies.length - 1];
+    const toX = (f: number) => axisWidth + ((f - minFrequency) / (maxFrequency - minFrequency || 1)) * plotWidth;
+    const toY = (db: number) => (db / floorDb) * plotHeight;
+
+    // dB grid every 10 dB
+    ctx.font = '11px system-ui';
+    for (let db = 0; db >= floorDb; db -= 10) {
+      const y = toY(db);
+      ctx.strokeStyle = 'rgba(255, 255, 255, 0.08)';
+      ctx.lineWidth = 0.5;
+      ctx.beginPath();
+      ctx.moveTo(axisWidth, y);
+      ctx.lineTo(width, y);
+      ctx.stroke();
+      ctx.fillStyle = 'rgba(255, 255, 255, 0.6)';
+      ctx.fillText(`${db} dB`, 2, Math.max(10, y + 4));
+    }
+
+    // Frequency ticks
+    const ticks = 8;
+    for (let i = 0; i <= ticks; i++) {
+      const f = minFrequency + ((maxFrequency - minFrequency) * i) / ticks;
+      const x = toX(f);
+      ctx.strokeStyle = 'rgba(255, 255, 255, 0.08)';
+      ctx.beginPath();
+      ctx.moveTo(x, 0);
+      ctx.lineTo(x, plotHeight);
+      ctx.stroke();
+      ctx.fillStyle = 'rgba(255, 255, 255, 0.6)';
+      const text = `${+(f / frequencyScale).toFixed(2)}`;
+      const textWidth = ctx.measureText(text).width;
+      ctx.fillText(text, Math.min(width - textWidth, Math.max(axisWidth, x - textWidth / 2)), height - 6);
+    }
+
+    ctx.strokeStyle = color;
+    ctx.lineWidth = 2;
+    ctx.beginPath();
+    for (let k = 0; k < levels.length; k++) {
+      const x = toX(frequencies[k]);
+      const y = toY(levels[k]);
+      if (k === 0) {
+        ctx.moveTo(x, y);
+      } else {
+        ctx.lineTo(x, y);
+      }
+    }
+    ctx.stroke();
+
+    const title = `${label} (${frequencyUnit})`;
+    ctx.font = 'bold 12px system-ui';
+    ctx.fillStyle = 'rgba(0, 0, 0, 0.8)';
+    ctx.fillRect(axisWidth + 8, 6, ctx.measureText(title).width + 16, 20);
+    ctx.fillStyle = color;
+    ctx.fillText(title, axisWidth + 16, 20);
+  }, [spectrum, floorDb, frequencyScale, frequencyUnit, color, label]);
+
+  return (
+    <canvas
+      ref={canvasRef}
+      className="w-full h-full block"
+      style={{
+        background: 'rgba(10, 20, 40, 0.8)',
+        borderRadius: '8px'
+      }}
+    />
+  );
+};
+
+export default SpectrumAnalyzer;
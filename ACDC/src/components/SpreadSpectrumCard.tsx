@@ -0,0 +1,124 @@
+import React, { useMemo } from 'react';
+import { Radar } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import type { SpreadSpectrumResult } from '@/lib/types';
+import SignalPlot, { type SignalSeries } from '@/components/SignalPlot';
+import SpectrumAnalyzer from '@/components/SpectrumAnalyzer';
+
+interface SpreadSpectrumCardProps {
+  spreadData: SpreadSpectrumResult;
+}
+
+// Bits shown in the chip sequence view
+const CHIP_VIEW_BITS = 3;
+
+/**
+ * Processing gain, chip stream or hop sequence, and the spectrum before and
+ * after despreading of the last DSSS or FHSS run.
+ */
+const SpreadSpectrumCard: React.FC<SpreadSpectrumCardProps> = ({ spreadData }) => {
+  // First few bits of the DSSS chip stream, one trace per row, or the
+  // frequency of every FHSS hop drawn as a flat step
+  const spreadView = useMemo((): { chipRows: SignalSeries[][]; hopSteps: SignalSeries[]; bitErrors: number } => {
+    const { baseband, inPhase, code, hops, hopOffsets, bits } = spreadData;
+    const samplesPerBit = baseband.samples.length / bits.length;
+    const bitErrors = bits.reduce((count, bit, k) => count + (bit !== baseband.samples[k * samplesPerBit] ? 1 : 0), 0);
+    if (code.length === 0) {
+      const steps = hops.flatMap((hop) => new Array<number>(16).fill(hopOffsets[hop] / 1000));
+      return {
+        chipRows: [],
+        hopSteps: [{ data: steps, color: '#4fc3f7', label: 'Hop frequency (kHz from carrier)' }],
+        bitErrors
+      };
+    }
+    const length = Math.min(CHIP_VIEW_BITS, bits.length) * samplesPerBit;
+    const data = baseband.samples.subarray(0, length).map((bit) => 2 * bit - 1);
+    const spread = inPhase.samples.subarray(0, length);
+    return {
+      chipRows: [
+        [{ data, color: '#76ff03', label: 'Data bits' }],
+        [{ data: spread.map((chip, n) => chip * data[n]), color: '#ff9800', label: 'Spreading code' }],
+        [{ data: spread, color: '#4fc3f7', label: 'Spread chips (data × code)' }]
+      ],
+      hopSteps: [],
+      bitErrors
+    };
+  }, [spreadData]);
+
+  return (
+    <Card className="card-enhanced animate-fade-in" style={{ animationDelay: '0.37s' }}>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-3 text-2xl">
+          <Radar className="w-8 h-8 text-primary" />
+          Spread Spectrum
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4 text-center">
+          <div className="p-3 rounded-lg bg-muted/50 border border-border">
+            <div className="text-xs text-muted-foreground">Processing Gain</div>
+            <div className="text-lg font-semibold">{spreadData.processingGain.toFixed(1)} dB</div>
+          </div>
+          <div className="p-3 rounded-lg bg-muted/50 border border-border">
+            <div className="text-xs text-muted-foreground">
+              {spreadData.code.length > 0 ? 'Spreading Code' : 'Hop Sequence'}
+            </div>
+            <div className="text-sm font-mono break-all">
+              {spreadData.code.length > 0 ? spreadData.code.join('') : spreadData.hops.join(' ')}
+            </div>
+          </div>
+          <div className="p-3 rounded-lg bg-muted/50 border border-border">
+            <div className="text-xs text-muted-foreground">Bit Errors at the Receiver</div>
+            <div className="text-lg font-semibold">
+              {spreadView.bitErrors} / {spreadData.bits.length}
+            </div>
+          </div>
+        </div>
+
+        {spreadView.chipRows.length > 0 ? (
+          <div className="h-72 rounded-lg overflow-hidden border border-border bg-muted/20">
+            {spreadView.chipRows.map((row, index) => (
+              <div key={index} className={`h-1/3 relative ${index < 2 ? 'border-b border-border' : ''}`}>
+                <SignalPlot series={row} />
+              </div>
+            ))}
+          </div>
+        ) : (
+          <div className="h-56 rounded-lg overflow-hidden border border-border bg-muted/20">
+            <SignalPlot series={spreadView.hopSteps} />
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <div className="h-72 rounded-lg overflow-hidden border border-border bg-muted/20">
+            <SpectrumAnalyzer
+              inPhase={spreadData.received.inPhase.samples}
+              quadrature={spreadData.received.quadrature.samples}
+              sampleRate={spreadData.received.inPhase.sampleRate}
+              label="Before Despreading"
+            />
+          </div>
+          <div className="h-72 rounded-lg overflow-hidden border border-border bg-muted/20">
+            <SpectrumAnalyzer
+              inPhase={spreadData.despread.inPhase.samples}
+              quadrature={spreadData.despread.quadrature.samples}
+              sampleRate={spreadData.despread.inPhase.sampleRate}
+              color="#76ff03"
+              label={spreadData.code.length > 0 ? 'After Despreading' : 'After Dehopping'}
+            />
+          </div>
+        </div>
+
+        <p className="text-sm text-muted-foreground">
+          Spectra of the complex envelope at the receiver, relative to the carrier. Despreading multiplies by
+          the same code (or follows the same hops), which collapses the signal back into the data bandwidth while
+          smearing a narrowband jammer across the whole spread band, so only a fraction of its power is left
+          where the data is. A DSSS receiver shrugs off a jammer up to roughly the processing gain; an FHSS
+          receiver only loses the bits sent on the jammed channel.
+        </p>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default SpreadSpectrumCard;
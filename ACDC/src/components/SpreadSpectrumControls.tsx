@@ -0,0 +1,196 @@
+import React from 'react';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Slider } from '@/components/ui/slider';
+import { Switch } from '@/components/ui/switch';
+import { codeLengths, isSpreadSpectrum } from '@/lib/spreadSpectrum';
+import type { HopPattern, SpreadingCode } from '@/lib/types';
+import type { ModulationParams, UpdateParam } from '@/components/modulationParams';
+
+interface SpreadSpectrumControlsProps {
+  params: ModulationParams;
+  updateParam: UpdateParam;
+}
+
+const SPREADING_CODE_NAMES: Record<SpreadingCode, string> = {
+  pn: 'PN (m-sequence)',
+  gold: 'Gold',
+  barker: 'Barker'
+};
+
+const HOP_PATTERN_NAMES: Record<HopPattern, string> = {
+  pn: 'Pseudo-random (PN)',
+  sequential: 'Sequential',
+  custom: 'Custom'
+};
+
+/** The DSSS code, the FHSS hops and the narrowband jammer both face. */
+const SpreadSpectrumControls: React.FC<SpreadSpectrumControlsProps> = ({ params, updateParam }) => {
+  // Jammer offsets cover the spread bandwidth: the chip rate for DSSS, the hop set for FHSS
+  const jammerRange = +(
+    params.modType === 'fhss' ? (params.hopChannels * params.hopSpacing) / 2 : params.bitrate * params.chipsPerBit
+  ).toFixed(1);
+
+  return (
+    <>
+      {params.modType === 'dsss' && (
+        <>
+          <div>
+            <Label>Spreading Code</Label>
+            <Select
+              value={params.spreadingCode}
+              onValueChange={(value) => {
+                const lengths = codeLengths(value as SpreadingCode);
+                updateParam('spreadingCode', value as SpreadingCode);
+                if (!lengths.includes(params.chipsPerBit)) {
+                  updateParam('chipsPerBit', lengths[0]);
+                }
+              }}
+            >
+              <SelectTrigger className="mt-2">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(SPREADING_CODE_NAMES).map(([value, name]) => (
+                  <SelectItem key={value} value={value}>{name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div>
+            <Label>
+              Code Length: {params.chipsPerBit} chips/bit · Chip Rate:{' '}
+              {+(params.bitrate * params.chipsPerBit).toFixed(1)} kchip/s
+            </Label>
+            <Select
+              value={String(params.chipsPerBit)}
+              onValueChange={(value) => updateParam('chipsPerBit', parseInt(value, 10))}
+            >
+              <SelectTrigger className="mt-2">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {codeLengths(params.spreadingCode)
+                  .filter((length) => length <= 127)
+                  .map((length) => (
+                    <SelectItem key={length} value={String(length)}>{length} chips</SelectItem>
+                  ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </>
+      )}
+
+      {params.modType === 'fhss' && (
+        <>
+          <div>
+            <Label>Hop Channels: {params.hopChannels}</Label>
+            <Slider
+              value={[params.hopChannels]}
+              onValueChange={(value) => updateParam('hopChannels', value[0])}
+              min={2}
+              max={16}
+              step={1}
+              className="mt-2"
+            />
+          </div>
+
+          <div>
+            <Label>Hop Spacing: {params.hopSpacing} kHz</Label>
+            <Slider
+              value={[params.hopSpacing]}
+              onValueChange={(value) => updateParam('hopSpacing', value[0])}
+              min={1}
+              max={10}
+              step={0.5}
+              className="mt-2"
+            />
+          </div>
+
+          <div>
+            <Label>Hop Pattern</Label>
+            <Select value={params.hopPattern} onValueChange={(value) => updateParam('hopPattern', value as HopPattern)}>
+              <SelectTrigger className="mt-2">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(HOP_PATTERN_NAMES).map(([value, name]) => (
+                  <SelectItem key={value} value={value}>{name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {params.hopPattern === 'custom' && (
+            <div>
+              <Label>Channel Sequence (0 to {params.hopChannels - 1})</Label>
+              <Input
+                value={params.customHops}
+                onChange={(e) => updateParam('customHops', e.target.value)}
+                placeholder="e.g. 0, 3, 5, 1"
+                className="mt-2 font-mono"
+              />
+            </div>
+          )}
+
+          <div>
+            <Label>Dwell Time: {params.bitsPerHop} bit{params.bitsPerHop > 1 ? 's' : ''} per hop</Label>
+            <Slider
+              value={[params.bitsPerHop]}
+              onValueChange={(value) => updateParam('bitsPerHop', value[0])}
+              min={1}
+              max={4}
+              step={1}
+              className="mt-2"
+            />
+          </div>
+        </>
+      )}
+
+      {isSpreadSpectrum(params.modType) && (
+        <>
+          <div className="flex items-center justify-between">
+            <Label htmlFor="jammer">Narrowband Jammer</Label>
+            <Switch
+              id="jammer"
+              checked={params.jammer}
+              onCheckedChange={(checked) => updateParam('jammer', checked)}
+            />
+          </div>
+
+          {params.jammer && (
+            <>
+              <div>
+                <Label>Jammer Offset from Carrier: {params.jammerOffset} kHz</Label>
+                <Slider
+                  value={[params.jammerOffset]}
+                  onValueChange={(value) => updateParam('jammerOffset', value[0])}
+                  min={-jammerRange}
+                  max={jammerRange}
+                  step={0.1}
+                  className="mt-2"
+                />
+              </div>
+
+              <div>
+                <Label>Jammer-to-Signal Ratio: {params.jammerPower} dB</Label>
+                <Slider
+                  value={[params.jammerPower]}
+                  onValueChange={(value) => updateParam('jammerPower', value[0])}
+                  min={-10}
+                  max={30}
+                  step={1}
+                  className="mt-2"
+                />
+              </div>
+            </>
+          )}
+        </>
+      )}
+    </>
+  );
+};
+
+export default SpreadSpectrumControls;
@@ -0,0 +1,129 @@
+import React, { useEffect, useRef } from 'react';
+import { sinc } from '@/lib/filters';
+import type { Complex } from '@/lib/types';
+
+interface SubcarrierSpectrumPlotProps {
+  /** Subcarrier values of one OFDM symbol in FFT order (DC first). */
+  values: Complex[];
+  /** Which subcarriers are pilots. */
+  pilots: boolean[];
+}
+
+/** Frequency resolution in subcarrier spacings. */
+const STEP = 0.05;
+/** Sidelobes drawn on each side of a subcarrier's main lobe. */
+const LOBES = 4;
+
+/**
+ * Spectrum of a single OFDM symbol drawn subcarrier by subcarrier: each one
+ * is a sinc centred on its own frequency, with its peak on the nulls of all
+ * the others. The white trace is the magnitude of their sum.
+ */
+const SubcarrierSpectrumPlot: React.FC<SubcarrierSpectrumPlotProps> = ({ values, pilots }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+
+    const rect = canvas.getBoundingClientRect();
+    const width = rect.width;
+    const height = rect.height;
+    const dpr = window.devicePixelRatio || 1;
+    canvas.width = width * dpr;
+    canvas.height = height * dpr;
+    ctx.scale(dpr, dpr);
+    ctx.clearRect(0, 0, width, height);
+
+    const size = values.length;
+    if (size === 0) return;
+
+    // Subcarrier k sits at k or k - N spacings from the centre
+    const centred = values.map((value, k) => ({ value, pilot: pilots[k], offset: k < size / 2 ? k : k - size }));
+    const low = -size / 2 - 2;
+    const high = size / 2 + 1;
+    const peak = centred.reduce((max, c) => Math.max(max, Math.hypot(c.value.re, c.value.im)), 0) || 1;
+    const margin = 24;
+    const toX = (f: number) => ((f - low) / (high - low)) * width;
+    const toY = (magnitude: number) => height - margin - (magnitude / (peak * 1.15)) * (height - 2 * margin);
+
+    ctx.strokeStyle = 'rgba(255, 255, 255, 0.25)';
+    ctx.lineWidth = 1;
+    ctx.beginPath();
+    ctx.moveTo(0, toY(0));
+    ctx.lineTo(width, toY(0));
+    ctx.stroke();
+
+    centred.forEach(({ value, pilot, offset }, index) => {
+      const magnitude = Math.hypot(value.re, value.im);
+      ctx.strokeStyle = pilot ? '#ff9800' : `hsla(${(index * 137) % 360}, 80%, 65%, 0.7)`;
+      ctx.lineWidth = pilot ? 1.6 : 1;
+      ctx.beginPath();
+      for (let f = offset - LOBES; f <= offset + LOBES + 1e-9; f += STEP) {
+        const y = toY(magnitude * Math.abs(sinc(f - offset)));
+        if (f === offset - LOBES) {
+          ctx.moveTo(toX(f), y);
+        } else {
+          ctx.lineTo(toX(f), y);
+        }
+      }
+      ctx.stroke();
+    });
+
+    // Magnitude of the combined spectrum
+    ctx.strokeStyle = 'rgba(255, 255, 255, 0.9)';
+    ctx.lineWidth = 1.6;
+    ctx.beginPath();
+    for (let f = low; f <= high + 1e-9; f += STEP) {
+      let re = 0;
+      let im = 0;
+      centred.forEach(({ value, offset }) => {
+        const s = sinc(f - offset);
+        re += value.re * s;
+        im += value.im * s;
+      });
+      const y = toY(Math.hypot(re, im));
+      if (f === low) {
+        ctx.moveTo(toX(f), y);
+      } else {
+        ctx.lineTo(toX(f), y);
+      }
+    }
+    ctx.stroke();
+
+    ctx.font = '11px system-ui';
+    ctx.fillStyle = 'rgba(255, 255, 255, 0.6)';
+    [-size / 2, -size / 4, 0, size / 4, size / 2 - 1].forEach((k) => {
+      ctx.fillText(`${k}`, toX(k) - 6, height - 6);
+    });
+
+    ctx.font = 'bold 12px system-ui';
+    const legend: [string, string][] = [
+      ['Data subcarriers', 'hsla(200, 80%, 65%, 1)'],
+      ['Pilots', '#ff9800'],
+      ['Sum', '#FFFFFF']
+    ];
+    legend.forEach(([text, color], index) => {
+      const y = 18 + index * 18;
+      ctx.fillStyle = 'rgba(0, 0, 0, 0.8)';
+      ctx.fillRect(8, y - 12, ctx.measureText(text).width + 30, 16);
+      ctx.fillStyle = color;
+      ctx.fillRect(12, y - 5, 14, 3);
+      ctx.fillText(text, 32, y);
+    });
+  }, [values, pilots]);
+
+  return (
+    <canvas
+      ref={canvasRef}
+      className="w-full h-full block"
+      style={{
+        background: 'rgba(10, 20, 40, 0.8)',
+        borderRadius: '8px'
+      }}
+    />
+  );
+};
+
+export default SubcarrierSpectrumPlot;
@@ -0,0 +1,56 @@
+import React from 'react';
+
+export type SymbolState = 'clean' | 'corrected' | 'residual' | 'padding';
+
+interface SymbolErrorMapProps {
+  /** One entry per symbol, laid out row by row. */
+  states: SymbolState[];
+  columns: number;
+}
+
+const STATE_CLASSES: Record<SymbolState, string> = {
+  clean: 'bg-muted',
+  corrected: 'bg-warning',
+  residual: 'bg-destructive',
+  padding: 'border border-border'
+};
+
+const STATE_NAMES: Record<SymbolState, string> = {
+  clean: 'Received correctly',
+  corrected: 'Error corrected',
+  residual: 'Error left',
+  padding: 'Interleaver padding'
+};
+
+/**
+ * Grid of symbols coloured by what the channel and the decoder did to
+ * them, with a key for the states that occur.
+ */
+const SymbolErrorMap: React.FC<SymbolErrorMapProps> = ({ states, columns }) => (
+  <div className="space-y-2">
+    <div
+      className="grid gap-0.5"
+      style={{ gridTemplateColumns: `repeat(${columns}, minmax(0, 1fr))`, maxWidth: `${columns * 1.5}rem` }}
+    >
+      {states.map((state, i) => (
+        <div
+          key={i}
+          className={`aspect-square rounded-sm ${STATE_CLASSES[state]}`}
+          title={`Row ${Math.floor(i / columns) + 1}, symbol ${(i % columns) + 1}: ${STATE_NAMES[state]}`}
+        />
+      ))}
+    </div>
+    <div className="flex flex-wrap gap-4 text-xs text-muted-foreground">
+      {(Object.keys(STATE_NAMES) as SymbolState[])
+        .filter((state) => states.includes(state))
+        .map((state) => (
+          <span key={state} className="flex items-center gap-1">
+            <span className={`inline-block w-3 h-3 rounded-sm ${STATE_CLASSES[state]}`} />
+            {STATE_NAMES[state]}
+          </span>
+        ))}
+    </div>
+  </div>
+);
+
+export default SymbolErrorMap;
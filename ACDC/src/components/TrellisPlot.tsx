@@ -0,0 +1,108 @@
+import React, { useEffect, useRef } from 'react';
+import type { ConvolutionalCode } from '@/lib/types';
+
+interface TrellisPlotProps {
+  code: ConvolutionalCode;
+  /** Encoder state before every step of the survivor path, and after the last one. */
+  path: number[];
+  /** Steps whose coded bits the decoder corrected. */
+  correctedSteps?: number[];
+}
+
+/**
+ * Trellis of a convolutional code with the Viterbi survivor path drawn over
+ * every possible branch. Branches taken on a 0 input are blue, on a 1
+ * orange, and steps where the decoder fixed a channel error are ringed.
+ */
+const TrellisPlot: React.FC<TrellisPlotProps> = ({ code, path, correctedSteps = [] }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+
+    const rect = canvas.getBoundingClientRect();
+    const width = rect.width;
+    const height = rect.height;
+    const dpr = window.devicePixelRatio || 1;
+    canvas.width = width * dpr;
+    canvas.height = height * dpr;
+    ctx.scale(dpr, dpr);
+    ctx.clearRect(0, 0, width, height);
+
+    const steps = path.length - 1;
+    if (steps < 1) return;
+    const memory = code.constraintLength - 1;
+    const states = 2 ** memory;
+    const labelWidth = 40;
+    const margin = 20;
+    const toX = (t: number) => labelWidth + (t / steps) * (width - labelWidth - margin);
+    const toY = (state: number) => margin + (state / (states - 1 || 1)) * (height - 2 * margin);
+    const nextState = (state: number, bit: number) => ((bit << memory) | state) >> 1;
+
+    // Every branch of the trellis
+    ctx.strokeStyle = 'rgba(255, 255, 255, 0.1)';
+    ctx.lineWidth = 1;
+    ctx.beginPath();
+    for (let t = 0; t < steps; t++) {
+      for (let state = 0; state < states; state++) {
+        for (let bit = 0; bit < 2; bit++) {
+          ctx.moveTo(toX(t), toY(state));
+          ctx.lineTo(toX(t + 1), toY(nextState(state, bit)));
+        }
+      }
+    }
+    ctx.stroke();
+
+    ctx.font = '11px system-ui';
+    ctx.fillStyle = 'rgba(255, 255, 255, 0.6)';
+    for (let state = 0; state < states; state++) {
+      ctx.fillText(state.toString(2).padStart(memory, '0'), 6, toY(state) + 4);
+    }
+
+    // Survivor path, coloured by the decoded input bit
+    ctx.lineWidth = 3;
+    ctx.lineCap = 'round';
+    for (let t = 0; t < steps; t++) {
+      const bit = path[t + 1] >> (memory - 1);
+      ctx.strokeStyle = bit ? '#ff9800' : '#4fc3f7';
+      ctx.beginPath();
+      ctx.moveTo(toX(t), toY(path[t]));
+      ctx.lineTo(toX(t + 1), toY(path[t + 1]));
+      ctx.stroke();
+    }
+
+    ctx.strokeStyle = '#ff5252';
+    ctx.lineWidth = 2;
+    correctedSteps
+      .filter((t) => t < steps)
+      .forEach((t) => {
+        const x = (toX(t) + toX(t + 1)) / 2;
+        const y = (toY(path[t]) + toY(path[t + 1])) / 2;
+        ctx.beginPath();
+        ctx.arc(x, y, 7, 0, 2 * Math.PI);
+        ctx.stroke();
+      });
+
+    ctx.fillStyle = '#FFFFFF';
+    path.forEach((state, t) => {
+      ctx.beginPath();
+      ctx.arc(toX(t), toY(state), 3, 0, 2 * Math.PI);
+      ctx.fill();
+    });
+  }, [code, path, correctedSteps]);
+
+  return (
+    <canvas
+      ref={canvasRef}
+      className="w-full h-full block"
+      style={{
+        background: 'rgba(10, 20, 40, 0.8)',
+        borderRadius: '8px'
+      }}
+    />
+  );
+};
+
+export default TrellisPlot;
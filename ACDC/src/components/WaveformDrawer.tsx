@@ -0,0 +1,116 @@
+import React, { useEffect, useRef } from 'react';
+
+interface WaveformDrawerProps {
+  /** One period of the waveform, values in [-1, 1]. */
+  value: number[];
+  onChange: (value: number[]) => void;
+  color?: string;
+}
+
+/**
+ * Canvas on which one period of a message waveform is sketched with the
+ * mouse, pen or a finger. Each stroke overwrites the samples under it and
+ * fills in the ones skipped between pointer events.
+ */
+const WaveformDrawer: React.FC<WaveformDrawerProps> = ({ value, onChange, color = '#76ff03' }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const lastIndex = useRef<number | null>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+
+    const rect = canvas.getBoundingClientRect();
+    const width = rect.width;
+    const height = rect.height;
+    const dpr = window.devicePixelRatio || 1;
+    canvas.width = width * dpr;
+    canvas.height = height * dpr;
+    ctx.scale(dpr, dpr);
+    ctx.clearRect(0, 0, width, height);
+
+    ctx.strokeStyle = 'rgba(255, 255, 255, 0.08)';
+    ctx.lineWidth = 0.5;
+    ctx.beginPath();
+    for (let i = 0; i <= 4; i++) {
+      ctx.moveTo(0, (i * height) / 4);
+      ctx.lineTo(width, (i * height) / 4);
+    }
+    for (let i = 0; i <= 8; i++) {
+      ctx.moveTo((i * width) / 8, 0);
+      ctx.lineTo((i * width) / 8, height);
+    }
+    ctx.stroke();
+
+    ctx.strokeStyle = 'rgba(255, 255, 255, 0.25)';
+    ctx.lineWidth = 1;
+    ctx.beginPath();
+    ctx.moveTo(0, height / 2);
+    ctx.lineTo(width, height / 2);
+    ctx.stroke();
+
+    ctx.strokeStyle = color;
+    ctx.lineWidth = 2.4;
+    ctx.lineJoin = 'round';
+    ctx.beginPath();
+    value.forEach((v, i) => {
+      const x = (i / (value.length - 1 || 1)) * width;
+      const y = ((1 - v) / 2) * height;
+      if (i === 0) {
+        ctx.moveTo(x, y);
+      } else {
+        ctx.lineTo(x, y);
+      }
+    });
+    ctx.stroke();
+
+    ctx.font = 'bold 12px system-ui';
+    ctx.fillStyle = 'rgba(255, 255, 255, 0.6)';
+    ctx.fillText('Draw one period', 8, 16);
+  }, [value, color]);
+
+  const handlePointer = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    if (event.buttons === 0) {
+      lastIndex.current = null;
+      return;
+    }
+    const rect = event.currentTarget.getBoundingClientRect();
+    const count = value.length;
+    const index = Math.min(count - 1, Math.max(0, Math.round(((event.clientX - rect.left) / rect.width) * (count - 1))));
+    const level = Math.min(1, Math.max(-1, 1 - (2 * (event.clientY - rect.top)) / rect.height));
+
+    const next = [...value];
+    const from = lastIndex.current ?? index;
+    next[index] = level;
+    // Interpolate across samples the pointer skipped since the last event
+    const step = index > from ? 1 : -1;
+    for (let i = from + step; from !== index && i !== index; i += step) {
+      next[i] = value[from] + ((level - value[from]) * (i - from)) / (index - from);
+    }
+    lastIndex.current = index;
+    onChange(next);
+  };
+
+  return (
+    <canvas
+      ref={canvasRef}
+      className="w-full h-full block touch-none cursor-crosshair"
+      style={{
+        background: 'rgba(10, 20, 40, 0.8)',
+        borderRadius: '8px'
+      }}
+      onPointerDown={(event) => {
+        event.currentTarget.setPointerCapture(event.pointerId);
+        lastIndex.current = null;
+        handlePointer(event);
+      }}
+      onPointerMove={handlePointer}
+      onPointerUp={() => {
+        lastIndex.current = null;
+      }}
+    />
+  );
+};
+
+export default WaveformDrawer;
@@ -0,0 +1,301 @@
+import { CRC_POLYNOMIALS } from '@/lib/channelCoding';
+import { CHANNEL_SEED_OFFSETS } from '@/lib/channel';
+import { isAnalogModulation } from '@/lib/analog';
+import { supportsLineCoding } from '@/lib/modulation';
+import { profileTaps } from '@/lib/multipath';
+import { isSpreadSpectrum } from '@/lib/spreadSpectrum';
+import type {
+  AmplifierConfig,
+  AmplifierModel,
+  AnalogModulationType,
+  AwgnConfig,
+  BitMapping,
+  ChannelCode,
+  ChannelConfig,
+  ConstellationOptions,
+  FadingConfig,
+  FadingModel,
+  HopPattern,
+  ImpairmentConfig,
+  InputFormat,
+  InterleaverConfig,
+  LineCode,
+  MessageConfig,
+  ModulationType,
+  MultipathProfile,
+  MultipathTap,
+  PatternType,
+  PhaseNoisePoint,
+  PulseShape,
+  QamLayout,
+  SpreadingCode,
+  SpreadSpectrumConfig,
+  SpreadSpectrumType,
+  Tone
+} from '@/lib/types';
+
+// Controls of the modulation lab, in the units the page shows them in
+// (kHz, kbps, µs, degrees), and the engine configurations they stand for.
+
+
+export type CrcType = 'none' | keyof typeof CRC_POLYNOMIALS | 'custom';
+export type InterleaverType = 'none' | InterleaverConfig['type'];
+export type ChannelErrorModel = 'random' | 'burst';
+export type NoiseMeasure = AwgnConfig['type'];
+
+export interface ModulationParams {
+  frequency: number;
+  amplitude: number;
+  bitrate: number;
+  freqDev: number;
+  modType: ModulationType | AnalogModulationType | SpreadSpectrumType;
+  qamLayout: QamLayout;
+  apskRatio1: number;
+  apskRatio2: number;
+  mapping: BitMapping;
+  customMapping: number[];
+  modulationIndex: number;
+  bt: number;
+  binaryData: string;
+  patternType: PatternType;
+  patternLength: number;
+  patternSeed: number;
+  /** Feedback polynomial of the custom LFSR pattern, e.g. "x^5 + x^3 + 1". */
+  patternPolynomial: string;
+  inputFormat: InputFormat;
+  /** Message for the text, hex and base64 input formats. */
+  messageText: string;
+  /** Frames every byte with a start bit and `stopBits` stop bits. */
+  startStopBits: boolean;
+  stopBits: number;
+  channelCode: ChannelCode;
+  crcType: CrcType;
+  /** Generator of the custom CRC, e.g. "x^8 + x^2 + x + 1". */
+  crcPolynomial: string;
+  rsSymbolBits: number;
+  rsN: number;
+  rsK: number;
+  interleaverType: InterleaverType;
+  /** Rows of the block interleaver, or branches of the convolutional one. */
+  interleaverDepth: number;
+  /** Columns of the block interleaver, or the per-branch delay of the convolutional one. */
+  interleaverSpan: number;
+  errorModel: ChannelErrorModel;
+  /** Bits flipped between the demodulator and the decoder: scattered, or as one burst. */
+  channelErrors: number;
+  lineCode: LineCode;
+  pulseShape: PulseShape;
+  rolloff: number;
+  pulseBt: number;
+  /** Pulse length in symbols. */
+  pulseSpan: number;
+  messageKind: MessageConfig['kind'];
+  /** Message frequency in kHz for the sine and drawn messages. */
+  messageFrequency: number;
+  /** Tone frequencies in kHz. */
+  tones: Tone[];
+  drawnWaveform: number[];
+  amIndex: number;
+  /** FM peak deviation in kHz. */
+  fmDeviation: number;
+  /** PM peak deviation in radians. */
+  pmDeviation: number;
+  /** VSB vestige width in kHz. */
+  vestigeWidth: number;
+  spreadingCode: SpreadingCode;
+  chipsPerBit: number;
+  hopChannels: number;
+  /** FHSS channel spacing in kHz. */
+  hopSpacing: number;
+  hopPattern: HopPattern;
+  /** Comma-separated channel indices for the custom hop pattern. */
+  customHops: string;
+  bitsPerHop: number;
+  jammer: boolean;
+  /** Jammer frequency in kHz, relative to the carrier. */
+  jammerOffset: number;
+  /** Jammer-to-signal ratio in dB. */
+  jammerPower: number;
+  awgn: boolean;
+  /** Whether the noise level is set as SNR or as Eb/N0; analog modulations always use SNR. */
+  noiseMeasure: NoiseMeasure;
+  snrDb: number;
+  ebN0Db: number;
+  amplifierModel: 'none' | AmplifierModel;
+  /** Mean input power below the amplifier's input saturation, in dB. */
+  inputBackoffDb: number;
+  rappSmoothness: number;
+  multipathProfile: 'none' | MultipathProfile | 'custom';
+  /** Taps of the custom profile, delays in µs (ms when stretched) and phases in degrees. */
+  multipathTaps: MultipathTap[];
+  /**
+   * Reads tap delays as ms instead of µs, so the kbps rates here see what
+   * Mbps rates see. The standard profiles then no longer match their
+   * definitions, so it is off until asked for.
+   */
+  stretchDelays: boolean;
+  fadingModel: 'none' | FadingModel;
+  /** Rician K-factor in dB. */
+  kFactorDb: number;
+  nakagamiM: number;
+  /** Maximum Doppler shift in Hz. */
+  dopplerFrequency: number;
+  /** The receiver knows the fading gain and divides it out. */
+  equalize: boolean;
+  cfoEnabled: boolean;
+  /** Carrier frequency offset in Hz. */
+  cfo: number;
+  phaseNoiseEnabled: boolean;
+  /** Phase noise mask with offsets in kHz. */
+  phaseNoiseMask: PhaseNoisePoint[];
+  iqImbalanceEnabled: boolean;
+  iqGainDb: number;
+  /** I/Q phase error in degrees. */
+  iqPhase: number;
+  dcOffsetEnabled: boolean;
+  /** DC offsets of I and Q, as fractions of the carrier amplitude. */
+  dcOffsetI: number;
+  dcOffsetQ: number;
+  /** Seed of the noise, fading and phase noise processes and of the standard profiles' tap phases. */
+  channelSeed: number;
+}
+
+/** Sets one control; the panels that edit the controls share it with the page. */
+export type UpdateParam = <K extends keyof ModulationParams>(key: K, value: ModulationParams[K]) => void;
+
+export const CHANNEL_CODE_NAMES: Record<ChannelCode, string> = {
+  none: 'None',
+  hamming74: 'Hamming (7,4)',
+  hamming1511: 'Hamming (15,11)',
+  conv12: 'Convolutional, rate 1/2',
+  conv13: 'Convolutional, rate 1/3',
+  'reed-solomon': 'Reed-Solomon'
+};
+
+/** Keyed digital modulations, as opposed to analog and spread-spectrum modes. */
+export const isDigitalModulation = (modType: ModulationParams['modType']): modType is ModulationType =>
+  !isAnalogModulation(modType) && !isSpreadSpectrum(modType);
+
+/** True when a line code replaces the bit mapping of the selected modulation. */
+export const isLineKeyed = (params: ModulationParams) =>
+  isDigitalModulation(params.modType) && supportsLineCoding(params.modType) && params.lineCode !== 'unipolar-nrz';
+
+/** Constellation shape options for the selected modulation, without the bit mapping. */
+export const getLayoutOptions = (params: ModulationParams): ConstellationOptions => ({
+  qamLayout: params.qamLayout,
+  apskRingRatios: params.modType === '32apsk' ? [params.apskRatio1, params.apskRatio2] : [params.apskRatio1]
+});
+
+/** Message signal described by the analog controls, in Hz. */
+export const getMessageConfig = (params: ModulationParams): MessageConfig => {
+  switch (params.messageKind) {
+    case 'sine':
+      return { kind: 'sine', frequency: params.messageFrequency * 1000 };
+    case 'tones':
+      return {
+        kind: 'tones',
+        tones: params.tones.map((tone) => ({ ...tone, frequency: tone.frequency * 1000 }))
+      };
+    case 'drawn':
+      return { kind: 'drawn', frequency: params.messageFrequency * 1000, waveform: params.drawnWaveform };
+  }
+};
+
+/** Spread-spectrum settings from the controls, in Hz. */
+export const getSpreadSpectrumConfig = (params: ModulationParams & { modType: SpreadSpectrumType }): SpreadSpectrumConfig => ({
+  modType: params.modType,
+  frequency: params.frequency * 1000,
+  amplitude: params.amplitude,
+  bitrate: params.bitrate * 1000,
+  code: params.spreadingCode,
+  chipsPerBit: params.chipsPerBit,
+  hopChannels: params.hopChannels,
+  hopSpacing: params.hopSpacing * 1000,
+  hopPattern: params.hopPattern,
+  customHops: params.customHops.split(/[\s,]+/).filter(Boolean).map(Number),
+  bitsPerHop: params.bitsPerHop,
+  jammer: params.jammer ? { offset: params.jammerOffset * 1000, power: params.jammerPower } : undefined
+});
+
+/** Power amplifier from the controls, or none for a linear transmitter. */
+export const getAmplifierConfig = (params: ModulationParams): AmplifierConfig | undefined =>
+  params.amplifierModel === 'none'
+    ? undefined
+    : { model: params.amplifierModel, inputBackoffDb: params.inputBackoffDb, smoothness: params.rappSmoothness };
+
+/**
+ * Taps shown in the tap editor, in its units: a standard profile with the
+ * channel seed's phases, or the custom taps.
+ */
+export const getEditorTaps = (params: ModulationParams): MultipathTap[] =>
+  params.multipathProfile === 'none' || params.multipathProfile === 'custom'
+    ? params.multipathTaps
+    : profileTaps(params.multipathProfile, params.channelSeed + CHANNEL_SEED_OFFSETS.multipath).map((tap) => ({
+        delay: Math.round(tap.delay * 1e9) / 1000,
+        gainDb: tap.gainDb,
+        phase: Math.round((tap.phase * 180) / Math.PI)
+      }));
+
+/** Multipath taps from the controls in seconds and radians, or none. */
+export const getMultipathTaps = (params: ModulationParams): MultipathTap[] | undefined =>
+  params.multipathProfile === 'none'
+    ? undefined
+    : getEditorTaps(params).map((tap) => ({
+        delay: tap.delay * (params.stretchDelays ? 1e-3 : 1e-6),
+        gainDb: tap.gainDb,
+        phase: (tap.phase * Math.PI) / 180
+      }));
+
+/** Fading from the controls, or none. */
+export const getFadingConfig = (params: ModulationParams): FadingConfig | undefined =>
+  params.fadingModel === 'none'
+    ? undefined
+    : {
+        model: params.fadingModel,
+        dopplerFrequency: params.dopplerFrequency,
+        kFactor: 10 ** (params.kFactorDb / 10),
+        m: params.nakagamiM,
+        seed: params.channelSeed + CHANNEL_SEED_OFFSETS.fading
+      };
+
+/** Receiver impairments from the controls, or none when every one is off. */
+export const getImpairmentConfig = (params: ModulationParams): ImpairmentConfig | undefined => {
+  const config: ImpairmentConfig = {
+    cfo: params.cfoEnabled ? params.cfo : undefined,
+    phaseNoise: params.phaseNoiseEnabled
+      ? {
+          mask: params.phaseNoiseMask.map((point) => ({ offset: point.offset * 1000, level: point.level })),
+          seed: params.channelSeed + CHANNEL_SEED_OFFSETS.phaseNoise
+        }
+      : undefined,
+    iqImbalance: params.iqImbalanceEnabled
+      ? { gainDb: params.iqGainDb, phase: (params.iqPhase * Math.PI) / 180 }
+      : undefined,
+    dcOffset: params.dcOffsetEnabled ? { re: params.dcOffsetI, im: params.dcOffsetQ } : undefined
+  };
+  return Object.values(config).some((value) => value !== undefined) ? config : undefined;
+};
+
+/**
+ * Channel from the controls. Eb/N0 needs the symbol length, so analog
+ * signals (no `symbol`) always set the noise by SNR.
+ */
+export const getChannelConfig = (
+  params: ModulationParams,
+  symbol: { samplesPerSymbol: number; bitsPerSymbol: number } | null
+): ChannelConfig => {
+  const seed = params.channelSeed + CHANNEL_SEED_OFFSETS.noise;
+  const awgn: AwgnConfig | undefined = !params.awgn
+    ? undefined
+    : symbol && params.noiseMeasure === 'ebn0'
+      ? { type: 'ebn0', ebN0Db: params.ebN0Db, ...symbol, seed }
+      : { type: 'snr', snrDb: params.snrDb, seed };
+  return {
+    amplifier: getAmplifierConfig(params),
+    multipath: getMultipathTaps(params),
+    fading: getFadingConfig(params),
+    awgn,
+    impairments: getImpairmentConfig(params),
+    equalize: params.equalize
+  };
+};
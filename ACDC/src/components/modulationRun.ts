@@ -0,0 +1,324 @@
+import type { ComponentProps } from 'react';
+import { formatBits, isContinuousPhase, isFrequencyKeyed, modulate, parseBits } from '@/lib/modulation';
+import { demodulate } from '@/lib/demodulation';
+import { channelDecode, channelEncode } from '@/lib/channelCoding';
+import { awgnSnrDb, passThroughChannel, snrToEbN0Db } from '@/lib/channel';
+import { getBitsPerSymbol, symbolToBits } from '@/lib/constellation';
+import { generateMessage, isAnalogModulation, modulateAnalog } from '@/lib/analog';
+import { isSpreadSpectrum, spreadSpectrum } from '@/lib/spreadSpectrum';
+import type {
+  AnalogModulationResult,
+  Bits,
+  ByteFraming,
+  ChannelCodingConfig,
+  ChannelConfig,
+  ChannelDecoding,
+  ChannelGain,
+  Complex,
+  InputFormat,
+  ModulationConfig,
+  ModulationResult,
+  PulseShaping,
+  SpreadSpectrumResult
+} from '@/lib/types';
+import type { PhaseSeries } from '@/components/PhaseTrajectoryPlot';
+import type MultipathChannelPanel from '@/components/MultipathChannelPanel';
+import type RfImpairmentsPanel from '@/components/RfImpairmentsPanel';
+import {
+  type ModulationParams,
+  getChannelConfig,
+  getLayoutOptions,
+  getMessageConfig,
+  getSpreadSpectrumConfig
+} from '@/components/modulationParams';
+
+// Analog runs cover two periods of the slowest message component, sampled
+// finely enough to draw the highest instantaneous carrier frequency
+const MESSAGE_PERIODS = 2;
+const SAMPLES_PER_CARRIER_CYCLE = 40;
+
+/** What the page has already worked out from the controls. */
+export interface RunInputs {
+  /** Bitstream to send, or why there is none. */
+  source: { bits: string; error: string | null };
+  /** Channel coding, or why the CRC generator does not parse. */
+  coding: { config: ChannelCodingConfig; error: string | null };
+  format: InputFormat;
+  framing: ByteFraming;
+  /** Point of every symbol value for a custom bit mapping. */
+  customMapping: number[] | undefined;
+  pulseShaping: PulseShaping;
+}
+
+/** Bits sent and recovered by a digital run, with the input format they are decoded back into. */
+export interface Reception {
+  sent: Bits;
+  received: Bits;
+  format: InputFormat;
+  framing: ByteFraming;
+}
+
+/**
+ * Channel coding of a digital run: the coded bits before and after
+ * interleaving, the transmitted stream after the injected errors, and what
+ * the decoder made of it.
+ */
+export interface CodingRun {
+  config: ChannelCodingConfig;
+  coded: Bits;
+  transmitted: Bits;
+  received: Bits;
+  flipped: number[];
+  decoding: ChannelDecoding;
+}
+
+export interface SymbolData {
+  reference: Complex[];
+  symbols: Complex[];
+  labels: string[];
+  trajectory: Complex[];
+}
+
+export interface ModulationRun {
+  t: Float64Array;
+  /** Signals the canvases and the main chart draw. */
+  traces: {
+    baseband: Float64Array;
+    carrier: Float64Array;
+    modulated: Float64Array;
+    inPhase: Float64Array;
+    quadrature: Float64Array;
+    received: Float64Array;
+  };
+  basebandLabel: string;
+  receivedLabel: string;
+  analog: boolean;
+  /** Noise level as SNR and, for digital modulations, Eb/N0. */
+  noise: { snrDb: number; ebN0Db: number | null } | null;
+  /** Fading gain, for the fading envelope plot. */
+  fading: { gain: ChannelGain; sampleRate: number } | null;
+  /** Transmitted envelope and taps, for the intersymbol interference view. */
+  multipath: ComponentProps<typeof MultipathChannelPanel>['run'];
+  /** Transmitted envelope, for the amplifier and impairment views. */
+  envelope: ComponentProps<typeof RfImpairmentsPanel>['run'];
+  coding: CodingRun | null;
+  spread: SpreadSpectrumResult | null;
+  reception: Reception | null;
+  symbols: SymbolData;
+  phase: { series: PhaseSeries[]; bitCount: number };
+}
+
+/** `count` distinct positions below `length`, in increasing order. */
+const randomPositions = (count: number, length: number) => {
+  const positions = Array.from({ length }, (_, i) => i);
+  const picked = Math.min(count, length);
+  for (let i = 0; i < picked; i++) {
+    const j = i + Math.floor(Math.random() * (length - i));
+    [positions[i], positions[j]] = [positions[j], positions[i]];
+  }
+  return positions.slice(0, picked).sort((a, b) => a - b);
+};
+
+/** `count` consecutive positions below `length`, starting at random. */
+const burstPositions = (count: number, length: number) => {
+  const burst = Math.min(count, length);
+  const start = Math.floor(Math.random() * (length - burst + 1));
+  return Array.from({ length: burst }, (_, i) => start + i);
+};
+
+/**
+ * One run of the modulation lab: encodes and modulates the source (or
+ * modulates the analog message), passes it through the channel, then
+ * demodulates and decodes it, with the channel errors from the controls
+ * injected ahead of the decoder. Throws with a message for the user when
+ * the controls do not describe a run.
+ */
+export function runModulation(params: ModulationParams, inputs: RunInputs): ModulationRun {
+  const { frequency, amplitude, bitrate, freqDev, modType, mapping, modulationIndex, bt } = params;
+  const { source, coding: codingInfo } = inputs;
+  const analog = isAnalogModulation(modType);
+  const spread = isSpreadSpectrum(modType);
+  const binaryData = source.bits;
+
+  if (!analog && source.error) {
+    throw new Error(source.error);
+  }
+  if (!analog && !/^[01]+$/.test(binaryData)) {
+    throw new Error('Please enter valid binary data (only 0s and 1s)');
+  }
+  if (!analog && codingInfo.error) {
+    throw new Error(codingInfo.error);
+  }
+
+  const messageConfig = getMessageConfig(params);
+  const messageFrequencies =
+    messageConfig.kind === 'tones' ? messageConfig.tones.map((tone) => tone.frequency) : [messageConfig.frequency];
+  if (analog && (messageFrequencies.length === 0 || messageFrequencies.some((f) => !(f > 0)))) {
+    throw new Error('Please give every message tone a positive frequency');
+  }
+
+  let result: ModulationResult | AnalogModulationResult | SpreadSpectrumResult;
+  let received: Bits | null = null;
+  let transmitted = '';
+  // What the channel did to the waveform, and how it was set up
+  let channelOutput: ReturnType<typeof passThroughChannel> | null = null;
+  let channel: ChannelConfig = {};
+  let samplesPerBit: number | null = null;
+  let samplesPerSymbol: number | null = null;
+  if (!analog) transmitted = formatBits(channelEncode(parseBits(binaryData), codingInfo.config));
+
+  if (analog) {
+    const highest = frequency * 1000 + (modType === 'fm' ? params.fmDeviation * 1000 : 0) + Math.max(...messageFrequencies);
+    const sampleRate = SAMPLES_PER_CARRIER_CYCLE * highest;
+    const message = generateMessage(messageConfig, MESSAGE_PERIODS / Math.min(...messageFrequencies), sampleRate);
+    result = modulateAnalog(message, {
+      modType,
+      frequency: frequency * 1000,
+      amplitude,
+      modulationIndex: params.amIndex,
+      frequencyDeviation: params.fmDeviation * 1000,
+      phaseDeviation: params.pmDeviation,
+      vestigeWidth: params.vestigeWidth * 1000
+    });
+    channel = getChannelConfig(params, null);
+    channelOutput = passThroughChannel(result, { frequency: frequency * 1000, amplitude }, channel);
+  } else if (spread) {
+    result = spreadSpectrum(transmitted, getSpreadSpectrumConfig({ ...params, modType }));
+    received = result.bits;
+  } else {
+    // UI works in kHz / kbps, the engine in Hz / bit/s
+    const config: ModulationConfig = {
+      modType,
+      frequency: frequency * 1000,
+      amplitude,
+      bitrate: bitrate * 1000,
+      freqDev: freqDev * 1000,
+      ...getLayoutOptions(params),
+      mapping,
+      customMapping: inputs.customMapping,
+      modulationIndex,
+      bt,
+      lineCode: params.lineCode,
+      pulseShaping: inputs.pulseShaping
+    };
+    result = modulate(transmitted, config);
+    samplesPerBit = result.baseband.sampleRate / config.bitrate;
+    const bitsPerSymbol = getBitsPerSymbol(modType);
+    samplesPerSymbol = samplesPerBit * bitsPerSymbol;
+    channel = getChannelConfig(params, { samplesPerSymbol, bitsPerSymbol });
+    channelOutput = passThroughChannel(result, config, channel);
+    received = demodulate(channelOutput.detected, config, transmitted.length);
+  }
+  const { t, carrier, inPhase, quadrature, phase, modulated } = result;
+  const baseband = 'baseband' in result ? result.baseband : result.message;
+
+  const snrDb = channel.awgn ? awgnSnrDb(channel.awgn) : null;
+
+  // Injected channel errors land on the demodulated coded bits, ahead of the
+  // deinterleaver and decoder
+  let coding: CodingRun | null = null;
+  if (received) {
+    const corrupted = received.slice();
+    const flipped = (params.errorModel === 'burst' ? burstPositions : randomPositions)(
+      params.channelErrors,
+      corrupted.length
+    );
+    for (const i of flipped) corrupted[i] ^= 1;
+    const decoding = channelDecode(corrupted, codingInfo.config, binaryData.length);
+    coding = {
+      config: codingInfo.config,
+      coded: channelEncode(parseBits(binaryData), { ...codingInfo.config, interleaver: undefined }),
+      transmitted: parseBits(transmitted),
+      received: corrupted,
+      flipped,
+      decoding
+    };
+    received = decoding.bits;
+  }
+
+  let symbols: SymbolData = { reference: [], symbols: [], labels: [], trajectory: [] };
+  let phaseData: ModulationRun['phase'] = {
+    series: [{ data: phase.samples, color: '#4fc3f7', label: modType.toUpperCase() }],
+    bitCount: 0
+  };
+  if (!analog && !spread && 'constellation' in result) {
+    const { constellation, referencePoints } = result;
+
+    // Envelope state in the middle of every bit period, which also catches
+    // the half-symbol steps of OQPSK
+    const samplesPerBit = Math.round(baseband.sampleRate / (bitrate * 1000));
+    const trajectory: Complex[] = [];
+    for (let n = Math.floor(samplesPerBit / 2); n < t.length; n += samplesPerBit) {
+      trajectory.push({ re: inPhase.samples[n], im: quadrature.samples[n] });
+    }
+
+    symbols = {
+      reference: referencePoints,
+      symbols: result.symbols,
+      labels: constellation?.points.map((_, value) => symbolToBits(value, constellation.bitsPerSymbol)) ?? [],
+      trajectory: isFrequencyKeyed(modType) ? [] : trajectory
+    };
+
+    if (isContinuousPhase(modType)) {
+      // Plain BFSK on the same two tones restarts its phase from absolute
+      // time at every bit, so its trajectory jumps where CPFSK stays continuous
+      const toneSpacing = (modType === 'cpfsk' ? modulationIndex : 0.5) * bitrate * 1000;
+      phaseData.series.push({
+        data: Array.from(t, (time, n) => (baseband.samples[n] ? 1 : -1) * Math.PI * toneSpacing * time),
+        color: '#ff9800',
+        label: 'BFSK (same tones)',
+        dashed: true
+      });
+    }
+    phaseData = { ...phaseData, bitCount: t.length / samplesPerBit };
+  }
+
+  return {
+    t,
+    traces: {
+      baseband: baseband.samples,
+      carrier: carrier.samples,
+      modulated: modulated.samples,
+      inPhase: inPhase.samples,
+      quadrature: quadrature.samples,
+      received: channelOutput ? channelOutput.received.samples : modulated.samples
+    },
+    basebandLabel: analog ? 'Message Signal' : 'Digital Signal',
+    receivedLabel:
+      channel.amplifier || channel.awgn || channel.fading || channel.multipath || channel.impairments
+        ? 'Received Signal'
+        : 'Received Signal (ideal channel)',
+    analog,
+    noise: snrDb === null ? null : { snrDb, ebN0Db: samplesPerBit === null ? null : snrToEbN0Db(snrDb, samplesPerBit) },
+    fading: channelOutput?.gain ? { gain: channelOutput.gain, sampleRate: modulated.sampleRate } : null,
+    multipath:
+      channel.multipath && samplesPerSymbol !== null
+        ? { inPhase, quadrature, taps: channel.multipath, samplesPerSymbol }
+        : null,
+    envelope: spread
+      ? null
+      : {
+          inPhase,
+          quadrature,
+          carrier: { frequency: frequency * 1000, amplitude },
+          symbols:
+            samplesPerSymbol === null || !('referencePoints' in result)
+              ? null
+              : {
+                  samplesPerSymbol,
+                  qDelay: modType === 'oqpsk' ? samplesPerSymbol / 2 : 0,
+                  reference: result.referencePoints
+                }
+        },
+    coding,
+    spread: 'processingGain' in result ? result : null,
+    reception: received && {
+      sent: parseBits(binaryData),
+      received,
+      format: inputs.format,
+      framing: inputs.framing
+    },
+    symbols,
+    phase: phaseData
+  };
+}
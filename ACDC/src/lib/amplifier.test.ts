@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+import { amplifierResponse, amplify, errorVectorMagnitude, paprDb } from './amplifier';
+import { createSignal } from './modulation';
+import type { AmplifierModel } from './types';
+
+/** Complex envelope of QPSK-like symbols whose amplitude steps between 0.2 and 1. */
+const steppedEnvelope = () => {
+  const inPhase = createSignal(400, 1000);
+  const quadrature = createSignal(400, 1000);
+  for (let n = 0; n < 400; n++) {
+    const amplitude = 0.2 + (0.8 * (n % 5)) / 4;
+    inPhase.samples[n] = amplitude * Math.cos((Math.PI / 2) * (n % 4) + Math.PI / 4);
+    quadrature.samples[n] = amplitude * Math.sin((Math.PI / 2) * (n % 4) + Math.PI / 4);
+  }
+  return { inPhase, quadrature };
+};
+
+describe('amplifierResponse', () => {
+  it.each(['saleh', 'rapp', 'polynomial'] as AmplifierModel[])('gives %s unit small-signal gain', (model) => {
+    const { amplitude, phase } = amplifierResponse(1e-4, { model, inputBackoffDb: 0 });
+    expect(amplitude).toBeCloseTo(1e-4, 10);
+    expect(phase).toBeCloseTo(0);
+  });
+
+  it('peaks the Saleh output at saturation, turned by π/6, then folds back', () => {
+    const config = { model: 'saleh' as const, inputBackoffDb: 0 };
+    expect(amplifierResponse(1, config)).toEqual({ amplitude: 0.5, phase: Math.PI / 6 });
+    expect(amplifierResponse(2, config).amplitude).toBeLessThan(0.5);
+    expect(amplifierResponse(100, config).phase).toBeCloseTo(Math.PI / 3, 3);
+  });
+
+  it('sharpens the Rapp knee towards a hard limiter', () => {
+    const config = { model: 'rapp' as const, inputBackoffDb: 0, smoothness: 20 };
+    expect(amplifierResponse(0.5, config).amplitude).toBeCloseTo(0.5);
+    expect(amplifierResponse(3, config).amplitude).toBeCloseTo(1);
+    expect(amplifierResponse(1, { ...config, smoothness: 1 }).amplitude).toBeCloseTo(Math.SQRT1_2);
+    expect(() => amplifierResponse(1, { ...config, smoothness: 0 })).toThrow(RangeError);
+  });
+
+  it('holds the polynomial model at its peak beyond saturation', () => {
+    const config = { model: 'polynomial' as const, inputBackoffDb: 0 };
+    expect(amplifierResponse(1, config).amplitude).toBeCloseTo(2 / 3);
+    expect(amplifierResponse(4, config).amplitude).toBeCloseTo(2 / 3);
+  });
+});
+
+describe('amplify', () => {
+  it('passes the envelope almost untouched far below saturation', () => {
+    const envelope = steppedEnvelope();
+    const out = amplify(envelope, { model: 'rapp', inputBackoffDb: 40 });
+    out.inPhase.samples.forEach((value, n) => expect(value).toBeCloseTo(envelope.inPhase.samples[n]));
+    out.quadrature.samples.forEach((value, n) => expect(value).toBeCloseTo(envelope.quadrature.samples[n]));
+  });
+
+  it('compresses the peaks and lowers the PAPR when driven hard', () => {
+    const envelope = steppedEnvelope();
+    const out = amplify(envelope, { model: 'rapp', inputBackoffDb: 0 });
+    expect(paprDb(out)).toBeLessThan(paprDb(envelope) - 1);
+  });
+
+  it('keeps a constant envelope constant while Saleh turns its phase', () => {
+    const inPhase = createSignal(8, 1000);
+    const quadrature = createSignal(8, 1000);
+    inPhase.samples.fill(1);
+    const out = amplify({ inPhase, quadrature }, { model: 'saleh', inputBackoffDb: 0 });
+    expect(paprDb(out)).toBeCloseTo(0);
+    expect(Math.atan2(out.quadrature.samples[0], out.inPhase.samples[0])).toBeCloseTo(Math.PI / 6);
+  });
+});
+
+describe('paprDb and errorVectorMagnitude', () => {
+  it('measures the PAPR of the stepped envelope', () => {
+    // Amplitudes 0.2, 0.4, 0.6, 0.8 and 1 in equal measure
+    expect(paprDb(steppedEnvelope())).toBeCloseTo(10 * Math.log10(1 / 0.44));
+  });
+
+  it('ignores a common gain and rotation in the EVM', () => {
+    const ideal = [
+      { re: 1, im: 1 },
+      { re: -1, im: 1 },
+      { re: -1, im: -1 },
+      { re: 1, im: -1 }
+    ];
+    const rotated = ideal.map(({ re, im }) => ({ re: 2 * (re * 0.6 - im * 0.8), im: 2 * (re * 0.8 + im * 0.6) }));
+    expect(errorVectorMagnitude(rotated, ideal)).toBeCloseTo(0);
+    const offset = ideal.map(({ re, im }) => ({ re: re + 0.1, im }));
+    expect(errorVectorMagnitude(offset, ideal)).toBeCloseTo(0.1 / Math.SQRT2);
+    expect(() => errorVectorMagnitude(offset, ideal.slice(1))).toThrow(RangeError);
+  });
+});
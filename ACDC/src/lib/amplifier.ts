@@ -0,0 +1,112 @@
+import { createSignal } from './modulation';
+import type { AmplifierConfig, Complex, Signal } from './types';
+
+export const DEFAULT_RAPP_SMOOTHNESS = 2;
+
+// Saleh's travelling-wave tube fit (αa = 2, βa = 1, αφ = π/3, βφ = 1),
+// divided by its small-signal gain of 2
+const SALEH_PHASE = Math.PI / 3;
+
+/**
+ * AM/AM and AM/PM of the amplifier: output amplitude and phase shift in
+ * radians at an input amplitude. Saleh's model peaks at the saturation
+ * input and then falls; Rapp's solid-state model approaches its limit with
+ * a knee as sharp as the smoothness makes it and adds no phase shift; the
+ * polynomial model x − x³/3 compresses from the start and is held at its
+ * peak beyond saturation.
+ */
+export function amplifierResponse(amplitude: number, config: AmplifierConfig): { amplitude: number; phase: number } {
+  const r = amplitude;
+  switch (config.model) {
+    case 'saleh':
+      return { amplitude: r / (1 + r * r), phase: (SALEH_PHASE * r * r) / (1 + r * r) };
+    case 'rapp': {
+      const p = config.smoothness ?? DEFAULT_RAPP_SMOOTHNESS;
+      if (!(p > 0)) {
+        throw new RangeError('The Rapp smoothness must be positive');
+      }
+      return { amplitude: r / (1 + r ** (2 * p)) ** (1 / (2 * p)), phase: 0 };
+    }
+    case 'polynomial':
+      return { amplitude: r < 1 ? r - (r * r * r) / 3 : 2 / 3, phase: 0 };
+  }
+}
+
+/**
+ * Drives the amplifier with a complex envelope I + jQ at the configured
+ * input back-off. The output is scaled back by the drive level, so a
+ * linear amplifier would return the envelope unchanged and the
+ * compression shows directly.
+ */
+export function amplify(
+  envelope: { inPhase: Signal; quadrature: Signal },
+  config: AmplifierConfig
+): { inPhase: Signal; quadrature: Signal } {
+  const { samples: i, sampleRate } = envelope.inPhase;
+  const q = envelope.quadrature.samples;
+  const length = i.length;
+  let meanPower = 0;
+  for (let n = 0; n < length; n++) meanPower += i[n] * i[n] + q[n] * q[n];
+  meanPower /= Math.max(1, length);
+  const drive = meanPower > 0 ? Math.sqrt(10 ** (-config.inputBackoffDb / 10) / meanPower) : 0;
+
+  const inPhase = createSignal(length, sampleRate);
+  const quadrature = createSignal(length, sampleRate);
+  for (let n = 0; n < length; n++) {
+    const r = Math.hypot(i[n], q[n]) * drive;
+    const response = amplifierResponse(r, config);
+    const gain = r > 0 ? response.amplitude / r : 1;
+    const cos = gain * Math.cos(response.phase);
+    const sin = gain * Math.sin(response.phase);
+    inPhase.samples[n] = i[n] * cos - q[n] * sin;
+    quadrature.samples[n] = i[n] * sin + q[n] * cos;
+  }
+  return { inPhase, quadrature };
+}
+
+/**
+ * Peak-to-average power ratio of a complex envelope in dB. The passband
+ * signal's ratio is 3 dB higher, from the carrier's own crest.
+ */
+export function paprDb(envelope: { inPhase: Signal; quadrature: Signal }): number {
+  const i = envelope.inPhase.samples;
+  const q = envelope.quadrature.samples;
+  let peak = 0;
+  let total = 0;
+  for (let n = 0; n < i.length; n++) {
+    const power = i[n] * i[n] + q[n] * q[n];
+    peak = Math.max(peak, power);
+    total += power;
+  }
+  return total > 0 ? 10 * Math.log10((peak * i.length) / total) : 0;
+}
+
+/**
+ * RMS error vector magnitude of measured symbols against the ideal ones,
+ * as a fraction of the ideal RMS amplitude. A common complex gain is
+ * removed first, as a receiver's gain control and carrier recovery would,
+ * so only the distortion counts.
+ */
+export function errorVectorMagnitude(measured: Complex[], ideal: Complex[]): number {
+  if (measured.length !== ideal.length || ideal.length === 0) {
+    throw new RangeError('EVM needs as many measured symbols as ideal ones');
+  }
+  let re = 0;
+  let im = 0;
+  let reference = 0;
+  ideal.forEach((s, k) => {
+    const y = measured[k];
+    re += y.re * s.re + y.im * s.im;
+    im += y.im * s.re - y.re * s.im;
+    reference += s.re * s.re + s.im * s.im;
+  });
+  if (!(reference > 0)) return 0;
+  const g = { re: re / reference, im: im / reference };
+  let error = 0;
+  ideal.forEach((s, k) => {
+    error +=
+      (measured[k].re - (g.re * s.re - g.im * s.im)) ** 2 + (measured[k].im - (g.re * s.im + g.im * s.re)) ** 2;
+  });
+  const scaled = (g.re * g.re + g.im * g.im) * reference;
+  return scaled > 0 ? Math.sqrt(error / scaled) : 1;
+}
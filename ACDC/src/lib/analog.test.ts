@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest';
+import { generateMessage, modulateAnalog } from './analog';
+import { fft } from './fft';
+import type { AnalogModulationConfig, Signal } from './types';
+
+// 1024 samples hold whole periods of the message and the carrier, so both
+// fall on FFT bins without leakage
+const SAMPLE_RATE = 64000;
+const DURATION = 1024 / SAMPLE_RATE;
+const MESSAGE_FREQUENCY = 1000;
+const CARRIER_FREQUENCY = 8000;
+
+const message = generateMessage({ kind: 'sine', frequency: MESSAGE_FREQUENCY }, DURATION, SAMPLE_RATE);
+const link = { frequency: CARRIER_FREQUENCY, amplitude: 1 };
+
+/** Magnitude of a signal's spectrum at a frequency that falls on a bin. */
+const magnitudeAt = (signal: Signal, frequency: number) => {
+  const re = Float64Array.from(signal.samples);
+  const im = new Float64Array(re.length);
+  fft(re, im);
+  const bin = Math.round((frequency * re.length) / signal.sampleRate);
+  return Math.hypot(re[bin], im[bin]);
+};
+
+const modulated = (config: Omit<AnalogModulationConfig, 'frequency' | 'amplitude'>) =>
+  modulateAnalog(message, { ...link, ...config });
+
+describe('generateMessage', () => {
+  it('samples a tone for the given duration', () => {
+    expect(message.samples).toHaveLength(1024);
+    expect(message.samples[0]).toBe(1);
+    expect(message.samples[16]).toBeCloseTo(Math.cos((2 * Math.PI * 16) / 64));
+  });
+
+  it('repeats a drawn waveform, interpolating between its points', () => {
+    const drawn = generateMessage({ kind: 'drawn', frequency: 1000, waveform: [0, 1] }, 0.002, 8000);
+    expect(Array.from(drawn.samples.slice(0, 8))).toEqual([0, 0.25, 0.5, 0.75, 1, 0.75, 0.5, 0.25]);
+  });
+
+  it('rejects an empty tone list and a zero duration', () => {
+    expect(() => generateMessage({ kind: 'tones', tones: [] }, 0.01, 8000)).toThrow(RangeError);
+    expect(() => generateMessage({ kind: 'sine', frequency: 100 }, 0, 8000)).toThrow(RangeError);
+  });
+});
+
+describe('modulateAnalog', () => {
+  it('rides AM on a carrier of 1 + μ·m', () => {
+    const { inPhase, modulated: signal } = modulated({ modType: 'am', modulationIndex: 0.8 });
+    expect(Math.max(...inPhase.samples)).toBeCloseTo(1.8);
+    expect(Math.min(...inPhase.samples)).toBeCloseTo(0.2);
+    const carrier = magnitudeAt(signal, CARRIER_FREQUENCY);
+    // Each sideband carries μ/2 of the carrier
+    expect(magnitudeAt(signal, CARRIER_FREQUENCY + MESSAGE_FREQUENCY) / carrier).toBeCloseTo(0.4);
+  });
+
+  it('suppresses the carrier in DSB-SC', () => {
+    const signal = modulated({ modType: 'dsbsc' }).modulated;
+    const sideband = magnitudeAt(signal, CARRIER_FREQUENCY + MESSAGE_FREQUENCY);
+    expect(magnitudeAt(signal, CARRIER_FREQUENCY - MESSAGE_FREQUENCY)).toBeCloseTo(sideband);
+    expect(magnitudeAt(signal, CARRIER_FREQUENCY) / sideband).toBeLessThan(1e-9);
+  });
+
+  it.each([
+    ['ssb-usb', CARRIER_FREQUENCY + MESSAGE_FREQUENCY, CARRIER_FREQUENCY - MESSAGE_FREQUENCY],
+    ['ssb-lsb', CARRIER_FREQUENCY - MESSAGE_FREQUENCY, CARRIER_FREQUENCY + MESSAGE_FREQUENCY]
+  ] as const)('keeps one sideband in %s', (modType, kept, suppressed) => {
+    const signal = modulated({ modType }).modulated;
+    const ratioDb = 20 * Math.log10(magnitudeAt(signal, suppressed) / magnitudeAt(signal, kept));
+    expect(ratioDb).toBeLessThan(-100);
+  });
+
+  it('passes the message on the VSB in-phase branch outside the vestige', () => {
+    const { inPhase, modulated: signal } = modulated({ modType: 'vsb', vestigeWidth: 500 });
+    inPhase.samples.forEach((value, n) => expect(value).toBeCloseTo(message.samples[n]));
+    expect(magnitudeAt(signal, CARRIER_FREQUENCY - MESSAGE_FREQUENCY)).toBeLessThan(1e-9);
+  });
+
+  it('swings the FM frequency by the deviation', () => {
+    const { phase } = modulated({ modType: 'fm', frequencyDeviation: 2000 });
+    let peak = 0;
+    for (let n = 1; n < phase.samples.length; n++) {
+      peak = Math.max(peak, Math.abs(phase.samples[n] - phase.samples[n - 1]));
+    }
+    expect((peak * SAMPLE_RATE) / (2 * Math.PI)).toBeCloseTo(2000);
+  });
+
+  it('sets the PM phase to β·m with a constant envelope', () => {
+    const { phase, inPhase, quadrature } = modulated({ modType: 'pm', phaseDeviation: 1 });
+    phase.samples.forEach((value, n) => expect(value).toBeCloseTo(message.samples[n]));
+    inPhase.samples.forEach((i, n) => expect(Math.hypot(i, quadrature.samples[n])).toBeCloseTo(1));
+  });
+});
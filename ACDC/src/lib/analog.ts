@@ -0,0 +1,195 @@
+import { fft, hilbert } from './fft';
+import { createSignal } from './modulation';
+import type {
+  AnalogModulationConfig,
+  AnalogModulationResult,
+  AnalogModulationType,
+  MessageConfig,
+  Signal
+} from './types';
+
+export const DEFAULT_AM_INDEX = 0.5;
+export const DEFAULT_PHASE_DEVIATION = Math.PI / 2;
+
+const ANALOG_TYPES: AnalogModulationType[] = ['am', 'dsbsc', 'ssb-usb', 'ssb-lsb', 'vsb', 'fm', 'pm'];
+
+export function isAnalogModulation(modType: string): modType is AnalogModulationType {
+  return (ANALOG_TYPES as string[]).includes(modType);
+}
+
+/** Reads a periodic waveform at `position` periods, interpolating linearly. */
+function samplePeriodic(waveform: number[], position: number): number {
+  const length = waveform.length;
+  const x = (position - Math.floor(position)) * length;
+  const index = Math.floor(x);
+  const fraction = x - index;
+  return waveform[index] * (1 - fraction) + waveform[(index + 1) % length] * fraction;
+}
+
+/**
+ * Generates `duration` seconds of a message signal at `sampleRate`.
+ */
+export function generateMessage(config: MessageConfig, duration: number, sampleRate: number): Signal {
+  if (!(duration > 0) || !(sampleRate > 0)) {
+    throw new RangeError('Duration and sample rate must be positive');
+  }
+  const message = createSignal(Math.round(duration * sampleRate), sampleRate);
+  const { samples } = message;
+
+  switch (config.kind) {
+    case 'sine':
+      for (let n = 0; n < samples.length; n++) {
+        samples[n] = (config.amplitude ?? 1) * Math.cos((2 * Math.PI * config.frequency * n) / sampleRate);
+      }
+      break;
+
+    case 'tones':
+      if (config.tones.length === 0) {
+        throw new RangeError('A multi-tone message needs at least one tone');
+      }
+      for (let n = 0; n < samples.length; n++) {
+        samples[n] = config.tones.reduce(
+          (sum, tone) =>
+            sum + tone.amplitude * Math.cos((2 * Math.PI * tone.frequency * n) / sampleRate + (tone.phase ?? 0)),
+          0
+        );
+      }
+      break;
+
+    case 'drawn':
+      if (config.waveform.length < 2) {
+        throw new RangeError('A drawn message needs at least two points');
+      }
+      for (let n = 0; n < samples.length; n++) {
+        samples[n] = samplePeriodic(config.waveform, (config.frequency * n) / sampleRate);
+      }
+      break;
+  }
+
+  return message;
+}
+
+/**
+ * Complex envelope of a vestigial-sideband signal. The DSB spectrum of the
+ * message is shaped by a filter that passes the upper sideband, removes the
+ * lower one and rolls off linearly across ±`vestigeWidth` around the
+ * carrier. The roll-off is odd-symmetric about the carrier, so the sidebands
+ * add back up to the message on coherent detection.
+ */
+function vsbEnvelope(message: Float64Array, sampleRate: number, vestigeWidth: number) {
+  const n = message.length;
+  const re = Float64Array.from(message);
+  const im = new Float64Array(n);
+  fft(re, im);
+  for (let k = 0; k < n; k++) {
+    const f = ((k < n / 2 ? k : k - n) * sampleRate) / n;
+    // Doubled so that a flat gain of ½ gives back DSB-SC and a step gives SSB
+    const gain = 2 * Math.min(1, Math.max(0, (f + vestigeWidth) / (2 * vestigeWidth)));
+    re[k] *= gain;
+    im[k] *= gain;
+  }
+  fft(re, im, true);
+  return { inPhase: re, quadrature: im };
+}
+
+/**
+ * Modulates a sinusoidal carrier with an analog message.
+ *
+ * The message is first normalized to a peak of 1, so the modulation index
+ * and deviations are independent of its level. Every mode is built from its
+ * complex envelope I + jQ and up-converted as `A·(I·sin ωt + Q·cos ωt)`,
+ * matching the digital modulators. SSB uses the Hilbert transform of the
+ * message for the quadrature branch; FM integrates the message into the
+ * carrier phase and PM feeds it into the phase directly.
+ */
+export function modulateAnalog(message: Signal, config: AnalogModulationConfig): AnalogModulationResult {
+  const { modType, frequency, amplitude } = config;
+  const { sampleRate } = message;
+  const length = message.samples.length;
+
+  if (length === 0) {
+    throw new RangeError('Message is empty');
+  }
+
+  const peak = message.samples.reduce((max, value) => Math.max(max, Math.abs(value)), 0);
+  const normalized = message.samples.map((value) => (peak > 0 ? value / peak : 0));
+
+  const t = Float64Array.from({ length }, (_, n) => n / sampleRate);
+  const inPhase = createSignal(length, sampleRate);
+  const quadrature = createSignal(length, sampleRate);
+  const phase = createSignal(length, sampleRate);
+
+  switch (modType) {
+    case 'am': {
+      const index = config.modulationIndex ?? DEFAULT_AM_INDEX;
+      if (!(index >= 0)) {
+        throw new RangeError('AM modulation index must not be negative');
+      }
+      normalized.forEach((m, n) => {
+        inPhase.samples[n] = 1 + index * m;
+      });
+      break;
+    }
+
+    case 'dsbsc':
+      inPhase.samples.set(normalized);
+      break;
+
+    case 'ssb-usb':
+    case 'ssb-lsb': {
+      const shifted = hilbert(normalized);
+      const sign = modType === 'ssb-usb' ? 1 : -1;
+      inPhase.samples.set(normalized);
+      shifted.forEach((value, n) => {
+        quadrature.samples[n] = sign * value;
+      });
+      break;
+    }
+
+    case 'vsb': {
+      const vestigeWidth = config.vestigeWidth ?? frequency / 10;
+      if (!(vestigeWidth > 0)) {
+        throw new RangeError('VSB vestige width must be positive');
+      }
+      const envelope = vsbEnvelope(normalized, sampleRate, vestigeWidth);
+      inPhase.samples.set(envelope.inPhase);
+      quadrature.samples.set(envelope.quadrature);
+      break;
+    }
+
+    case 'fm': {
+      const deviation = config.frequencyDeviation ?? frequency / 4;
+      let theta = 0;
+      for (let n = 0; n < length; n++) {
+        phase.samples[n] = theta;
+        theta += (2 * Math.PI * deviation * normalized[n]) / sampleRate;
+      }
+      break;
+    }
+
+    case 'pm': {
+      const deviation = config.phaseDeviation ?? DEFAULT_PHASE_DEVIATION;
+      normalized.forEach((m, n) => {
+        phase.samples[n] = deviation * m;
+      });
+      break;
+    }
+  }
+
+  const angleModulated = modType === 'fm' || modType === 'pm';
+  const carrier = createSignal(length, sampleRate);
+  const modulated = createSignal(length, sampleRate);
+  for (let n = 0; n < length; n++) {
+    if (angleModulated) {
+      inPhase.samples[n] = Math.cos(phase.samples[n]);
+      quadrature.samples[n] = Math.sin(phase.samples[n]);
+    } else {
+      phase.samples[n] = Math.atan2(quadrature.samples[n], inPhase.samples[n]);
+    }
+    const omegaT = 2 * Math.PI * frequency * t[n];
+    carrier.samples[n] = amplitude * Math.sin(omegaT);
+    modulated.samples[n] = amplitude * (inPhase.samples[n] * Math.sin(omegaT) + quadrature.samples[n] * Math.cos(omegaT));
+  }
+
+  return { t, message, carrier, inPhase, quadrature, phase, modulated };
+}
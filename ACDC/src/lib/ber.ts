@@ -0,0 +1,108 @@
+import { passThroughChannel } from './channel';
+import { channelDecode, channelEncode } from './channelCoding';
+import { demodulate } from './demodulation';
+import { modulate } from './modulation';
+import { createGaussian, createRandom, randomBits } from './random';
+import type { ChannelCodingConfig, ChannelConfig, IterativeCodec, ModulationConfig } from './types';
+
+/** Coefficients of Numerical Recipes' erfcc approximation. */
+const ERFC_COEFFICIENTS = [
+  -1.26551223, 1.00002368, 0.37409196, 0.09678418, -0.18628806, 0.27886807, -1.13520398, 1.48851587, -0.82215223,
+  0.17087277
+];
+
+/** Complementary error function, with a relative error below 1.2e-7. */
+export function erfc(x: number): number {
+  const z = Math.abs(x);
+  const t = 1 / (1 + z / 2);
+  const series = ERFC_COEFFICIENTS.reduceRight((sum, c) => c + t * sum, 0);
+  const y = t * Math.exp(-z * z + series);
+  return x >= 0 ? y : 2 - y;
+}
+
+/** Gaussian tail probability Q(x) = P(N(0, 1) > x). */
+export function qFunction(x: number): number {
+  return erfc(x / Math.SQRT2) / 2;
+}
+
+/** Bit error rate of uncoded BPSK on an AWGN channel. */
+export function bpskBer(ebN0Db: number): number {
+  return qFunction(Math.sqrt(2 * 10 ** (ebN0Db / 10)));
+}
+
+/**
+ * Monte Carlo bit error rate of a channel code over BPSK and AWGN, one
+ * value per Eb/N0 point. Each point sends `bits` random data bits as one
+ * block; Eb counts the code and termination overhead, so coding gains are
+ * net of the extra bandwidth. A point with no errors gives 0.
+ */
+export function simulateCodedBer(
+  config: ChannelCodingConfig,
+  ebN0Db: number[],
+  options: { bits: number; soft: boolean; seed?: number }
+): number[] {
+  const random = createRandom(options.seed ?? 1);
+  const gaussian = createGaussian(random);
+  return ebN0Db.map((db) => {
+    const data = randomBits(options.bits, random);
+    const coded = channelEncode(data, config);
+    const sigma = Math.sqrt(coded.length / (2 * data.length * 10 ** (db / 10)));
+    const received = Array.from(coded, (bit) => 2 * bit - 1 + sigma * gaussian());
+    const decoded = options.soft
+      ? channelDecode(received, config, data.length, true)
+      : channelDecode(
+          received.map((value) => (value > 0 ? 1 : 0)),
+          config,
+          data.length
+        );
+    const errors = data.reduce((count, bit, i) => count + (bit !== decoded.bits[i] ? 1 : 0), 0);
+    return errors / data.length;
+  });
+}
+
+/**
+ * Monte Carlo bit error rate of an iterative code over BPSK and AWGN
+ * after each of `iterations` decoder iterations, from enough whole frames
+ * to carry `bits` data bits. A decoder that stops early keeps its last
+ * decisions for the remaining iterations.
+ */
+export function simulateIterativeBer(
+  codec: IterativeCodec,
+  ebN0Db: number,
+  options: { bits: number; iterations: number; seed?: number }
+): number[] {
+  const random = createRandom(options.seed ?? 1);
+  const gaussian = createGaussian(random);
+  const noiseVariance = codec.frameLength / (2 * codec.dataLength * 10 ** (ebN0Db / 10));
+  const sigma = Math.sqrt(noiseVariance);
+  const frames = Math.ceil(options.bits / codec.dataLength);
+  const errors = new Array<number>(options.iterations).fill(0);
+  for (let frame = 0; frame < frames; frame++) {
+    const data = randomBits(codec.dataLength, random);
+    const received = Array.from(codec.encode(data), (bit) => 2 * bit - 1 + sigma * gaussian());
+    const { trace } = codec.decode(received, noiseVariance, options.iterations);
+    errors.forEach((_, i) => {
+      const decided = trace[Math.min(i, trace.length - 1)];
+      errors[i] += data.reduce((count, bit, j) => count + (bit !== decided[j] ? 1 : 0), 0);
+    });
+  }
+  return errors.map((count) => count / (frames * codec.dataLength));
+}
+
+/**
+ * Monte Carlo bit error rate of a whole waveform link: `bits` random bits
+ * modulated as one signal, passed through the channel and recovered by
+ * `demodulate`.
+ */
+export function simulateLinkBer(
+  config: ModulationConfig,
+  channel: ChannelConfig,
+  options: { bits: number; seed?: number }
+): number {
+  const data = randomBits(options.bits, createRandom(options.seed ?? 1));
+  const transmitted = modulate(data, config);
+  const { detected } = passThroughChannel(transmitted, config, channel);
+  const decided = demodulate(detected, config, data.length);
+  const errors = data.reduce((count, bit, i) => count + (bit !== decided[i] ? 1 : 0), 0);
+  return errors / data.length;
+}
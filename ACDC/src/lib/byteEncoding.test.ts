@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import {
+  bitsToBytes,
+  bytesToBits,
+  bytesToText,
+  characterBytes,
+  formatBase64,
+  formatHex,
+  parseBase64,
+  parseHex,
+  textToBytes
+} from './byteEncoding';
+
+const UART = { startBit: true, stopBits: 1 };
+
+describe('text and byte formats', () => {
+  it('encodes text as UTF-8', () => {
+    expect(Array.from(textToBytes('Hé'))).toEqual([0x48, 0xc3, 0xa9]);
+    expect(bytesToText(textToBytes('Hé €'))).toBe('Hé €');
+    expect(bytesToText(Uint8Array.of(0x48, 0xc3))).toBe('H�');
+  });
+
+  it('parses hex with prefixes, commas and spaces', () => {
+    expect(Array.from(parseHex('0x48, 0x69 ff'))).toEqual([0x48, 0x69, 0xff]);
+    expect(formatHex([0x48, 0x0a])).toBe('48 0a');
+    expect(() => parseHex('486')).toThrow();
+    expect(() => parseHex('4g')).toThrow();
+  });
+
+  it('round-trips Base64', () => {
+    expect(formatBase64(textToBytes('Hi!'))).toBe('SGkh');
+    expect(Array.from(parseBase64('SG k='))).toEqual([0x48, 0x69]);
+    expect(() => parseBase64('S*')).toThrow();
+  });
+
+  it('splits text into code points with their bytes', () => {
+    const characters = characterBytes('a😀');
+    expect(characters.map(({ character }) => character)).toEqual(['a', '😀']);
+    expect(characters[1].bytes).toHaveLength(4);
+  });
+});
+
+describe('byte framing', () => {
+  it('serializes bytes MSB first', () => {
+    expect(Array.from(bytesToBits([0x81, 0x40]))).toEqual([1, 0, 0, 0, 0, 0, 0, 1, 0, 1, 0, 0, 0, 0, 0, 0]);
+  });
+
+  it('wraps each byte in a start bit and stop bits', () => {
+    const bits = bytesToBits([0xff, 0x00], { startBit: true, stopBits: 2 });
+    expect(Array.from(bits)).toEqual([0, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 0, 0, 0, 0, 0, 0, 0, 0, 0, 1, 1]);
+  });
+
+  it('reassembles framed bytes and drops an incomplete frame', () => {
+    const bytes = textToBytes('frame');
+    const bits = bytesToBits(bytes, UART);
+    const { bytes: received, framingErrors } = bitsToBytes(bits.subarray(0, bits.length - 3), UART);
+    expect(bytesToText(received)).toBe('fram');
+    expect(framingErrors).toBe(0);
+  });
+
+  it('counts frames with a wrong start or stop bit', () => {
+    const bits = bytesToBits([1, 2, 3], UART);
+    bits[0] = 1;
+    bits[19] = 0;
+    const { bytes, framingErrors } = bitsToBytes(bits, UART);
+    expect(Array.from(bytes)).toEqual([1, 2, 3]);
+    expect(framingErrors).toBe(2);
+  });
+});
@@ -0,0 +1,95 @@
+import type { Bits, ByteFraming } from './types';
+
+export const NO_FRAMING: ByteFraming = { startBit: false, stopBits: 0 };
+
+const framedLength = (framing: ByteFraming) => (framing.startBit ? 1 : 0) + 8 + framing.stopBits;
+
+export function textToBytes(text: string): Uint8Array {
+  return new TextEncoder().encode(text);
+}
+
+/** Decodes UTF-8, replacing invalid sequences with U+FFFD. */
+export function bytesToText(bytes: Uint8Array): string {
+  return new TextDecoder().decode(bytes);
+}
+
+/**
+ * Parses hex bytes, ignoring whitespace, commas and `0x` prefixes.
+ * Throws if anything else is left or the digit count is odd.
+ */
+export function parseHex(text: string): Uint8Array {
+  const digits = text.replace(/0x/gi, '').replace(/[\s,]/g, '');
+  if (!/^[0-9a-f]*$/i.test(digits) || digits.length % 2 !== 0) {
+    throw new Error('Hex data must be pairs of hex digits (e.g. 48 69)');
+  }
+  return Uint8Array.from({ length: digits.length / 2 }, (_, k) => parseInt(digits.slice(2 * k, 2 * k + 2), 16));
+}
+
+export function formatHex(bytes: ArrayLike<number>): string {
+  return Array.from(bytes, (b) => b.toString(16).padStart(2, '0')).join(' ');
+}
+
+export function parseBase64(text: string): Uint8Array {
+  let binary: string;
+  try {
+    binary = atob(text.replace(/\s/g, ''));
+  } catch {
+    throw new Error('Base64 data contains invalid characters or padding');
+  }
+  return Uint8Array.from(binary, (c) => c.charCodeAt(0));
+}
+
+export function formatBase64(bytes: ArrayLike<number>): string {
+  return btoa(Array.from(bytes, (b) => String.fromCharCode(b)).join(''));
+}
+
+/**
+ * Serializes bytes MSB first, as the rest of the simulator orders bits,
+ * optionally framing each one with a start bit and stop bits.
+ */
+export function bytesToBits(bytes: ArrayLike<number>, framing: ByteFraming = NO_FRAMING): Bits {
+  const stride = framedLength(framing);
+  const offset = framing.startBit ? 1 : 0;
+  const bits = new Uint8Array(bytes.length * stride);
+  for (let k = 0; k < bytes.length; k++) {
+    for (let b = 0; b < 8; b++) {
+      bits[k * stride + offset + b] = (bytes[k] >> (7 - b)) & 1;
+    }
+    bits.fill(1, k * stride + offset + 8, (k + 1) * stride);
+  }
+  return bits;
+}
+
+/**
+ * Reassembles bytes from a bitstream built by `bytesToBits`, dropping an
+ * incomplete last frame. Frames whose start or stop bits are wrong are
+ * still decoded but counted as framing errors.
+ */
+export function bitsToBytes(
+  bits: ArrayLike<number>,
+  framing: ByteFraming = NO_FRAMING
+): { bytes: Uint8Array; framingErrors: number } {
+  const stride = framedLength(framing);
+  const offset = framing.startBit ? 1 : 0;
+  const bytes = new Uint8Array(Math.floor(bits.length / stride));
+  let framingErrors = 0;
+  for (let k = 0; k < bytes.length; k++) {
+    const start = k * stride;
+    let value = 0;
+    for (let b = 0; b < 8; b++) {
+      value = (value << 1) | (bits[start + offset + b] ? 1 : 0);
+    }
+    bytes[k] = value;
+    let framed = !framing.startBit || bits[start] === 0;
+    for (let s = 0; s < framing.stopBits; s++) {
+      framed = framed && bits[start + offset + 8 + s] === 1;
+    }
+    if (!framed) framingErrors++;
+  }
+  return { bytes, framingErrors };
+}
+
+/** Splits text into characters (code points) with their UTF-8 bytes. */
+export function characterBytes(text: string): { character: string; bytes: Uint8Array }[] {
+  return Array.from(text, (character) => ({ character, bytes: textToBytes(character) }));
+}
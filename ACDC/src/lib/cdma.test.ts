@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { cdmaSimulate, codeConflicts, codeCorrelation, ovsfCode, walshCode } from './cdma';
+import { createRandom, randomBits } from './random';
+import type { CdmaUser } from './types';
+
+const random = createRandom(5);
+const user = (code: number, spreadingFactor: number, delay = 0): CdmaUser => ({
+  bits: randomBits((16 * 8) / spreadingFactor, random),
+  code,
+  spreadingFactor,
+  delay
+});
+
+describe('channelization codes', () => {
+  it('makes the Walsh codes of one length orthogonal', () => {
+    const codes = Array.from({ length: 8 }, (_, index) => walshCode(8, index));
+    codes.forEach((a, j) => codes.forEach((b, k) => expect(codeCorrelation(a, b)).toBe(j === k ? 1 : 0)));
+  });
+
+  it('grows the OVSF tree as [C, C] and [C, -C]', () => {
+    expect(Array.from(ovsfCode(4, 1))).toEqual([1, 1, -1, -1]);
+    expect(Array.from(ovsfCode(8, 2))).toEqual([1, 1, -1, -1, 1, 1, -1, -1]);
+    expect(Array.from(ovsfCode(8, 3))).toEqual([1, 1, -1, -1, -1, -1, 1, 1]);
+  });
+
+  it('keeps OVSF codes of different lengths orthogonal unless one descends from the other', () => {
+    expect(codeCorrelation(ovsfCode(4, 1), ovsfCode(8, 4))).toBe(0);
+    expect(codeCorrelation(ovsfCode(4, 1), ovsfCode(8, 2))).toBe(1);
+    expect(codeConflicts('ovsf', [user(1, 4), user(4, 8), user(2, 8)])).toEqual([[0, 2]]);
+    expect(codeConflicts('walsh', [user(3, 8), user(3, 8)])).toEqual([[0, 1]]);
+  });
+});
+
+describe('cdmaSimulate', () => {
+  it('separates aligned Walsh users without any interference', () => {
+    const users = [0, 3, 5, 6].map((code) => user(code, 8));
+    const result = cdmaSimulate({ family: 'walsh', users, chipRate: 1e6 });
+    result.users.forEach((reception, u) => {
+      expect(reception.bitErrors).toBe(0);
+      reception.soft.forEach((value, bit) => expect(value).toBeCloseTo(2 * users[u].bits[bit] - 1));
+    });
+  });
+
+  it('separates aligned OVSF users of different spreading factors', () => {
+    const users = [user(1, 2), user(0, 4), user(3, 8)];
+    const result = cdmaSimulate({ family: 'ovsf', users, chipRate: 1e6 });
+    result.users.forEach((reception, u) => {
+      reception.soft.forEach((value, bit) => expect(value).toBeCloseTo(2 * users[u].bits[bit] - 1));
+    });
+  });
+
+  it('lets delayed users leak into each other', () => {
+    const users = [user(4, 8), user(5, 8, 1)];
+    const result = cdmaSimulate({ family: 'walsh', users, chipRate: 1e6 });
+    expect(result.correlation[0][1]).toBe(0);
+    expect(result.offsetCorrelation[0][1]).not.toBe(0);
+    const leaks = result.users[0].soft.map((value, bit) => value - (2 * users[0].bits[bit] - 1));
+    expect(leaks.some((leak) => Math.abs(leak) > 1e-9)).toBe(true);
+  });
+
+  it('rejects Walsh users with different spreading factors', () => {
+    expect(() => cdmaSimulate({ family: 'walsh', users: [user(0, 4), user(1, 8)], chipRate: 1e6 })).toThrow(RangeError);
+  });
+});
@@ -0,0 +1,169 @@
+import { createSignal } from './modulation';
+import type { CdmaConfig, CdmaResult, CdmaUser, ChannelizationCode } from './types';
+
+export const DEFAULT_SAMPLES_PER_CHIP = 8;
+
+const isPowerOfTwo = (n: number) => Number.isInteger(n) && n > 0 && (n & (n - 1)) === 0;
+
+/** Row `index` of the Sylvester-type Hadamard matrix of order `length`, as ±1 chips. */
+export function walshCode(length: number, index: number): Int8Array {
+  // Entry (k, n) is (-1)^popcount(k AND n)
+  return Int8Array.from({ length }, (_, n) => {
+    let bits = index & n;
+    let parity = 0;
+    while (bits) {
+      parity ^= bits & 1;
+      bits >>= 1;
+    }
+    return parity ? -1 : 1;
+  });
+}
+
+/**
+ * OVSF code C(sf, index) as ±1 chips. Each code C of the tree spawns the
+ * children [C, C] and [C, −C] one layer down, so codes in the same layer are
+ * Walsh codes in a different order, and codes in different layers are
+ * orthogonal unless one descends from the other.
+ */
+export function ovsfCode(spreadingFactor: number, index: number): Int8Array {
+  if (spreadingFactor === 1) {
+    return Int8Array.of(1);
+  }
+  const parent = ovsfCode(spreadingFactor / 2, index >> 1);
+  const sign = index & 1 ? -1 : 1;
+  return Int8Array.from({ length: spreadingFactor }, (_, n) =>
+    n < parent.length ? parent[n] : sign * parent[n - parent.length]
+  );
+}
+
+function validateUser(family: ChannelizationCode, user: CdmaUser, position: number): void {
+  const { spreadingFactor, code } = user;
+  if (!isPowerOfTwo(spreadingFactor)) {
+    throw new RangeError(`User ${position + 1}: the spreading factor must be a power of two`);
+  }
+  if (!Number.isInteger(code) || code < 0 || code >= spreadingFactor) {
+    throw new RangeError(`User ${position + 1}: ${family} codes of length ${spreadingFactor} are numbered 0 to ${spreadingFactor - 1}`);
+  }
+}
+
+export function channelizationCode(family: ChannelizationCode, spreadingFactor: number, index: number): Int8Array {
+  return family === 'walsh' ? walshCode(spreadingFactor, index) : ovsfCode(spreadingFactor, index);
+}
+
+/**
+ * Pairs of users (by position) whose codes are not orthogonal: the same
+ * Walsh code twice, or OVSF codes where one lies below the other in the
+ * tree, i.e. the longer code starts with repetitions of the shorter.
+ */
+export function codeConflicts(family: ChannelizationCode, users: CdmaUser[]): [number, number][] {
+  const conflicts: [number, number][] = [];
+  users.forEach((a, i) => {
+    users.slice(i + 1).forEach((b, offset) => {
+      const [short, long] = a.spreadingFactor <= b.spreadingFactor ? [a, b] : [b, a];
+      const depth = Math.log2(long.spreadingFactor / short.spreadingFactor);
+      const clash = family === 'walsh' ? a.code === b.code : long.code >> depth === short.code;
+      if (clash) {
+        conflicts.push([i, i + 1 + offset]);
+      }
+    });
+  });
+  return conflicts;
+}
+
+/**
+ * Cross-correlation of two codes over one period of the shorter one, with
+ * `b` running `lag` chips behind `a` and both repeating periodically. This
+ * is what the correlator of the user with the shorter code sees from a
+ * constant-data interferer. Fractional lags interpolate linearly, which is
+ * exact for rectangular chips.
+ */
+export function codeCorrelation(a: Int8Array, b: Int8Array, lag = 0): number {
+  const window = Math.min(a.length, b.length);
+  const at = (shift: number) => {
+    let sum = 0;
+    for (let n = 0; n < window; n++) {
+      const m = (((n - shift) % b.length) + b.length) % b.length;
+      sum += a[n % a.length] * b[m];
+    }
+    return sum / window;
+  };
+  const whole = Math.floor(lag);
+  const fraction = lag - whole;
+  return fraction === 0 ? at(whole) : (1 - fraction) * at(whole) + fraction * at(whole + 1);
+}
+
+/**
+ * Spreads every user's bits with their channelization code, adds the
+ * delayed signals on one channel and despreads each user with a correlator
+ * synchronized to that user's own delay.
+ *
+ * Aligned users with orthogonal codes do not disturb each other at all;
+ * once they arrive with different delays the codes are no longer
+ * orthogonal and the other users leak into each correlator.
+ */
+export function cdmaSimulate(config: CdmaConfig): CdmaResult {
+  const { family, users, chipRate } = config;
+  const samplesPerChip = config.samplesPerChip ?? DEFAULT_SAMPLES_PER_CHIP;
+  if (users.length === 0) {
+    throw new RangeError('CDMA needs at least one user');
+  }
+  if (!(chipRate > 0)) {
+    throw new RangeError('Chip rate must be positive');
+  }
+  users.forEach((user, position) => validateUser(family, user, position));
+  if (family === 'walsh' && users.some((user) => user.spreadingFactor !== users[0].spreadingFactor)) {
+    throw new RangeError('Walsh codes must all have the same length; use OVSF codes to mix spreading factors');
+  }
+
+  const sampleRate = chipRate * samplesPerChip;
+  const codes = users.map((user) => channelizationCode(family, user.spreadingFactor, user.code));
+  const delays = users.map((user) => Math.round((user.delay ?? 0) * samplesPerChip));
+  const length = Math.max(
+    ...users.map((user, u) => delays[u] + user.bits.length * user.spreadingFactor * samplesPerChip)
+  );
+
+  // Transmitters and channel
+  const channel = createSignal(length, sampleRate);
+  const spread = users.map((user, u) => {
+    const signal = createSignal(length, sampleRate);
+    const samplesPerBit = user.spreadingFactor * samplesPerChip;
+    for (let n = 0; n < user.bits.length * samplesPerBit; n++) {
+      const chip = Math.floor((n % samplesPerBit) / samplesPerChip);
+      signal.samples[delays[u] + n] = (2 * user.bits[Math.floor(n / samplesPerBit)] - 1) * codes[u][chip];
+    }
+    signal.samples.forEach((value, n) => {
+      channel.samples[n] += value;
+    });
+    return signal;
+  });
+
+  // Correlator receivers
+  const receptions = users.map((user, u) => {
+    const samplesPerBit = user.spreadingFactor * samplesPerChip;
+    const soft = Array.from(user.bits, (_, bit) => {
+      let sum = 0;
+      for (let n = 0; n < samplesPerBit; n++) {
+        sum += channel.samples[delays[u] + bit * samplesPerBit + n] * codes[u][Math.floor(n / samplesPerChip)];
+      }
+      return sum / samplesPerBit;
+    });
+    const bits = Uint8Array.from(soft, (value) => (value > 0 ? 1 : 0));
+    return {
+      code: codes[u],
+      spread: spread[u],
+      soft,
+      bits,
+      bitErrors: bits.reduce((count, bit, k) => count + (bit !== user.bits[k] ? 1 : 0), 0)
+    };
+  });
+
+  const delayInChips = delays.map((delay) => delay / samplesPerChip);
+  return {
+    users: receptions,
+    channel,
+    correlation: codes.map((a) => codes.map((b) => codeCorrelation(a, b))),
+    offsetCorrelation: codes.map((a, j) =>
+      codes.map((b, k) => codeCorrelation(a, b, delayInChips[k] - delayInChips[j]))
+    )
+  };
+}
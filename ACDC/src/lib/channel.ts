@@ -0,0 +1,127 @@
+import { amplify } from './amplifier';
+import { applyFading, equalizeFading, fadingGain } from './fading';
+import { hilbert } from './fft';
+import { impairEnvelope } from './impairments';
+import { applyMultipath } from './multipath';
+import { createSignal } from './modulation';
+import { createGaussian, createRandom } from './random';
+import type { AwgnConfig, ChannelConfig, ChannelGain, Signal } from './types';
+
+/**
+ * Offsets from the channel seed that give each random process in the
+ * channel, and the data sent through it, a stream of its own.
+ */
+export const CHANNEL_SEED_OFFSETS = { noise: 0, fading: 1, phaseNoise: 2, multipath: 3, data: 4 };
+
+/** Mean power of a signal: the mean of its squared samples. */
+export function signalPower(signal: Signal): number {
+  const { samples } = signal;
+  return samples.reduce((sum, value) => sum + value * value, 0) / Math.max(1, samples.length);
+}
+
+/**
+ * Eb/N0 in dB that goes with an SNR over the sampled band. Real noise of
+ * variance σ² sampled at fs has the one-sided density N0 = 2σ²/fs, and a
+ * bit lasts samplesPerBit/fs, so Eb/N0 = SNR · samplesPerBit / 2.
+ */
+export function snrToEbN0Db(snrDb: number, samplesPerBit: number): number {
+  return snrDb + 10 * Math.log10(samplesPerBit / 2);
+}
+
+export function ebN0ToSnrDb(ebN0Db: number, samplesPerBit: number): number {
+  return ebN0Db - 10 * Math.log10(samplesPerBit / 2);
+}
+
+/** SNR in dB over the sampled band for a noise level. */
+export function awgnSnrDb(config: AwgnConfig): number {
+  if (config.type === 'snr') return config.snrDb;
+  const { ebN0Db, samplesPerSymbol, bitsPerSymbol } = config;
+  if (!(samplesPerSymbol > 0) || !Number.isInteger(bitsPerSymbol) || bitsPerSymbol < 1) {
+    throw new RangeError('Eb/N0 needs a positive symbol length and a whole number of bits per symbol');
+  }
+  return ebN0ToSnrDb(ebN0Db, samplesPerSymbol / bitsPerSymbol);
+}
+
+/**
+ * Adds white Gaussian noise to a signal, scaled against the signal's mean
+ * power (or the given `power`) so the SNR or Eb/N0 comes out as
+ * configured. The noise is seeded, so the same configuration always gives
+ * the same received signal.
+ */
+export function addAwgn(
+  signal: Signal,
+  config: AwgnConfig,
+  power = signalPower(signal)
+): { received: Signal; noiseVariance: number } {
+  const noiseVariance = power / 10 ** (awgnSnrDb(config) / 10);
+  const sigma = Math.sqrt(noiseVariance);
+  const gaussian = createGaussian(createRandom(config.seed));
+  const received = createSignal(signal.samples.length, signal.sampleRate);
+  signal.samples.forEach((value, n) => (received.samples[n] = value + sigma * gaussian()));
+  return { received, noiseVariance };
+}
+
+/** Passband signal A·(I·sin ωt + Q·cos ωt) of a complex envelope I + jQ, as the modulators build it. */
+export function toPassband(
+  envelope: { inPhase: Signal; quadrature: Signal },
+  carrier: { frequency: number; amplitude: number }
+): Signal {
+  const { samples: i, sampleRate } = envelope.inPhase;
+  const q = envelope.quadrature.samples;
+  const passband = createSignal(i.length, sampleRate);
+  for (let n = 0; n < i.length; n++) {
+    const omegaT = (2 * Math.PI * carrier.frequency * n) / sampleRate;
+    passband.samples[n] = carrier.amplitude * (i[n] * Math.sin(omegaT) + q[n] * Math.cos(omegaT));
+  }
+  return passband;
+}
+
+/** Complex envelope I + jQ of a passband signal, recovered with the Hilbert transform. */
+export function toEnvelope(
+  passband: Signal,
+  carrier: { frequency: number; amplitude: number }
+): { inPhase: Signal; quadrature: Signal } {
+  const { samples, sampleRate } = passband;
+  const shifted = hilbert(samples);
+  const inPhase = createSignal(samples.length, sampleRate);
+  const quadrature = createSignal(samples.length, sampleRate);
+  for (let n = 0; n < samples.length; n++) {
+    const omegaT = (2 * Math.PI * carrier.frequency * n) / sampleRate;
+    // r = a·sin + b·cos has the Hilbert transform b·sin − a·cos
+    inPhase.samples[n] = (samples[n] * Math.sin(omegaT) - shifted[n] * Math.cos(omegaT)) / carrier.amplitude;
+    quadrature.samples[n] = (samples[n] * Math.cos(omegaT) + shifted[n] * Math.sin(omegaT)) / carrier.amplitude;
+  }
+  return { inPhase, quadrature };
+}
+
+/**
+ * Passes a modulated signal through the channel. The power amplifier,
+ * multipath and fading act on the complex envelope, which is then put back
+ * on the carrier. The noise is set against the power leaving the amplifier,
+ * which the unit-power multipath and fading keep on average, so SNR and
+ * Eb/N0 are averages over the fades. The receiver's RF impairments then act
+ * on the envelope of the noisy signal. Returns the received signal as the
+ * front end delivers it, the signal the demodulator works on (equalized when
+ * the receiver knows the fading) and the fading gain.
+ */
+export function passThroughChannel(
+  transmitted: { modulated: Signal; inPhase: Signal; quadrature: Signal },
+  carrier: { frequency: number; amplitude: number },
+  config: ChannelConfig
+): { received: Signal; detected: Signal; gain: ChannelGain | null } {
+  const { modulated } = transmitted;
+  const gain = config.fading && fadingGain(modulated.samples.length, modulated.sampleRate, config.fading);
+  let envelope = { inPhase: transmitted.inPhase, quadrature: transmitted.quadrature };
+  if (config.amplifier) envelope = amplify(envelope, config.amplifier);
+  const sent = config.amplifier ? toPassband(envelope, carrier) : modulated;
+  if (config.multipath) envelope = applyMultipath(envelope, config.multipath);
+  if (gain) envelope = applyFading(envelope, gain);
+  const propagated = config.multipath || gain ? toPassband(envelope, carrier) : sent;
+  const noisy = config.awgn ? addAwgn(propagated, config.awgn, signalPower(sent)).received : propagated;
+  const received = config.impairments
+    ? toPassband(impairEnvelope(toEnvelope(noisy, carrier), config.impairments), carrier)
+    : noisy;
+  const detected =
+    gain && config.equalize ? toPassband(equalizeFading(toEnvelope(received, carrier), gain), carrier) : received;
+  return { received, detected, gain: gain ?? null };
+}
@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { CRC_POLYNOMIALS, channelDecode, channelEncode, crcRemainder } from './channelCoding';
+import { createRandom, randomBits } from './random';
+import type { ChannelCode } from './types';
+
+/** Bits of an ASCII string, MSB first. */
+const asciiBits = (text: string) =>
+  Uint8Array.from(Array.from(text).flatMap((c) => Array.from({ length: 8 }, (_, i) => (c.charCodeAt(0) >> (7 - i)) & 1)));
+
+const toNumber = (bits: ArrayLike<number>) => Array.from(bits).reduce((value, bit) => value * 2 + bit, 0);
+
+describe('crcRemainder', () => {
+  // Check values of "123456789" for a zero register and no final XOR
+  it.each([
+    ['crc-8', 0xf4],
+    ['crc-16', 0x31c3],
+    ['crc-32', 0x89a1897f]
+  ] as const)('matches the %s check value', (name, check) => {
+    expect(toNumber(crcRemainder(asciiBits('123456789'), CRC_POLYNOMIALS[name]))).toBe(check);
+  });
+
+  it.each(Object.entries(CRC_POLYNOMIALS))('leaves no %s remainder once the CRC is appended', (_, polynomial) => {
+    const bits = randomBits(100, createRandom(3));
+    const sent = Uint8Array.from([...bits, ...crcRemainder(bits, polynomial)]);
+    expect(crcRemainder(sent, polynomial).every((bit) => bit === 0)).toBe(true);
+  });
+});
+
+describe('channelEncode and channelDecode', () => {
+  const bits = randomBits(60, createRandom(11));
+  const codes: ChannelCode[] = ['none', 'hamming74', 'hamming1511', 'conv12', 'conv13', 'reed-solomon'];
+
+  it.each(codes)('round-trips %s with a CRC', (code) => {
+    const config = { code, crc: CRC_POLYNOMIALS['crc-16'] };
+    const decoded = channelDecode(channelEncode(bits, config), config, bits.length);
+    expect(Array.from(decoded.bits)).toEqual(Array.from(bits));
+    expect(decoded.crcValid).toBe(true);
+  });
+
+  it.each(['hamming74', 'conv12', 'reed-solomon'] as ChannelCode[])('corrects a single bit error with %s', (code) => {
+    const config = { code, crc: CRC_POLYNOMIALS['crc-8'] };
+    const coded = channelEncode(bits, config);
+    coded[20] ^= 1;
+    const decoded = channelDecode(coded, config, bits.length);
+    expect(Array.from(decoded.bits)).toEqual(Array.from(bits));
+    expect(decoded.crcValid).toBe(true);
+  });
+
+  it('flags an uncorrected error through the CRC', () => {
+    const config = { code: 'none' as const, crc: CRC_POLYNOMIALS['crc-16'] };
+    const coded = channelEncode(bits, config);
+    coded[5] ^= 1;
+    expect(channelDecode(coded, config, bits.length).crcValid).toBe(false);
+  });
+});
@@ -0,0 +1,336 @@
+import { deinterleave, interleave } from './interleaving';
+import { rsDecode, rsEncode } from './reedSolomon';
+import type {
+  Bits,
+  ChannelCode,
+  ChannelCodingConfig,
+  ChannelDecoding,
+  ConvolutionalCode,
+  ReedSolomonCode
+} from './types';
+
+/** Common CRC generators, as their exponents without the constant term. */
+export const CRC_POLYNOMIALS = {
+  'crc-4': [4, 1],
+  'crc-8': [8, 2, 1],
+  'crc-16': [16, 12, 5],
+  'crc-32': [32, 26, 23, 22, 16, 12, 11, 10, 8, 7, 5, 4, 2, 1]
+};
+
+/** Parity bits of the two Hamming codes: (7,4) and (15,11). */
+const HAMMING_PARITY_BITS: Partial<Record<ChannelCode, number>> = {
+  hamming74: 3,
+  hamming1511: 4
+};
+
+/** Constraint-length-3 codes with the best free distance for their rate. */
+export const CONVOLUTIONAL_CODES: Partial<Record<ChannelCode, ConvolutionalCode>> = {
+  conv12: { constraintLength: 3, generators: [0o7, 0o5] },
+  conv13: { constraintLength: 3, generators: [0o7, 0o7, 0o5] }
+};
+
+/** RS(15, 9) over GF(16), correcting three symbol errors. */
+export const DEFAULT_REED_SOLOMON: ReedSolomonCode = { n: 15, k: 9, symbolBits: 4 };
+
+const parity = (value: number) => {
+  let p = 0;
+  for (let v = value; v; v >>= 1) p ^= v & 1;
+  return p;
+};
+
+const isPowerOfTwo = (n: number) => (n & (n - 1)) === 0;
+
+/**
+ * CRC of a bitstream: the remainder of bits·x^w divided by the generator
+ * over GF(2), MSB first, from a zero register and without a final XOR.
+ */
+export function crcRemainder(bits: ArrayLike<number>, polynomial: number[]): Bits {
+  const width = Math.max(...polynomial);
+  const register = new Uint8Array(width);
+  for (let n = 0; n < bits.length; n++) {
+    const feedback = register[0] ^ bits[n];
+    register.copyWithin(0, 1);
+    register[width - 1] = 0;
+    if (feedback) {
+      // x^w wraps to the constant term; every other exponent is a register stage
+      register[width - 1] ^= 1;
+      polynomial.forEach((exponent) => {
+        if (exponent < width) register[width - 1 - exponent] ^= 1;
+      });
+    }
+  }
+  return register;
+}
+
+/** Code rate k/n of a channel code, ignoring termination, padding and CRC overhead. */
+export function codeRate(config: ChannelCodingConfig): number {
+  if (config.code === 'reed-solomon') {
+    const { n, k } = config.reedSolomon ?? DEFAULT_REED_SOLOMON;
+    return k / n;
+  }
+  const r = HAMMING_PARITY_BITS[config.code];
+  if (r !== undefined) return (2 ** r - 1 - r) / (2 ** r - 1);
+  const conv = CONVOLUTIONAL_CODES[config.code];
+  return conv ? 1 / conv.generators.length : 1;
+}
+
+/**
+ * True where a coded bit is a parity bit: Hamming positions 1, 2, 4, 8 of
+ * each block, or the last n - k symbols of each Reed-Solomon codeword.
+ */
+export function isParityBit(config: ChannelCodingConfig, index: number): boolean {
+  if (config.code === 'reed-solomon') {
+    const { n, k, symbolBits } = config.reedSolomon ?? DEFAULT_REED_SOLOMON;
+    return Math.floor(index / symbolBits) % n >= k;
+  }
+  const r = HAMMING_PARITY_BITS[config.code];
+  return r !== undefined && isPowerOfTwo((index % (2 ** r - 1)) + 1);
+}
+
+/** Bits the interleaver moves as one: a Reed-Solomon symbol, otherwise a single bit. */
+export function interleaverUnit(config: ChannelCodingConfig): number {
+  return config.code === 'reed-solomon' ? (config.reedSolomon ?? DEFAULT_REED_SOLOMON).symbolBits : 1;
+}
+
+/** Length of the coded stream for `length` bits into the code, before interleaving. */
+function codedLength(length: number, config: ChannelCodingConfig): number {
+  if (config.code === 'reed-solomon') {
+    const { n, k, symbolBits } = config.reedSolomon ?? DEFAULT_REED_SOLOMON;
+    return Math.ceil(Math.ceil(length / symbolBits) / k) * n * symbolBits;
+  }
+  const r = HAMMING_PARITY_BITS[config.code];
+  if (r !== undefined) return Math.ceil(length / (2 ** r - 1 - r)) * (2 ** r - 1);
+  const conv = CONVOLUTIONAL_CODES[config.code];
+  return conv ? (length + conv.constraintLength - 1) * conv.generators.length : length;
+}
+
+/**
+ * Hamming encoding in the textbook positional layout: in each block of
+ * n = 2^r - 1 bits, the parity bits sit at positions 1, 2, 4, … and the
+ * data fills the rest, so the syndrome of a single error is its position.
+ * The data is zero-padded to whole blocks.
+ */
+function hammingEncode(bits: Bits, r: number): Bits {
+  const n = 2 ** r - 1;
+  const k = n - r;
+  const blocks = Math.ceil(bits.length / k);
+  const coded = new Uint8Array(blocks * n);
+  for (let b = 0; b < blocks; b++) {
+    let next = b * k;
+    let syndrome = 0;
+    for (let position = 1; position <= n; position++) {
+      if (isPowerOfTwo(position)) continue;
+      const bit = bits[next++] ?? 0;
+      coded[b * n + position - 1] = bit;
+      if (bit) syndrome ^= position;
+    }
+    for (let i = 0; i < r; i++) {
+      coded[b * n + 2 ** i - 1] = (syndrome >> i) & 1;
+    }
+  }
+  return coded;
+}
+
+function hammingDecode(coded: ArrayLike<number>, r: number, dataLength: number) {
+  const n = 2 ** r - 1;
+  const k = n - r;
+  const bits = new Uint8Array(dataLength);
+  const corrected: number[] = [];
+  for (let b = 0; b * n < coded.length; b++) {
+    const block = Array.from({ length: n }, (_, i) => coded[b * n + i] ?? 0);
+    const syndrome = block.reduce((s, bit, i) => (bit ? s ^ (i + 1) : s), 0);
+    if (syndrome > 0) {
+      block[syndrome - 1] ^= 1;
+      corrected.push(b * n + syndrome - 1);
+    }
+    let next = b * k;
+    for (let position = 1; position <= n; position++) {
+      if (!isPowerOfTwo(position) && next < dataLength) bits[next++] = block[position - 1];
+    }
+  }
+  return { bits, corrected };
+}
+
+/** Reads an MSB-first symbol of `width` bits, zero past the end. */
+const readSymbol = (bits: ArrayLike<number>, offset: number, width: number) => {
+  let symbol = 0;
+  for (let b = 0; b < width; b++) symbol = (symbol << 1) | (bits[offset + b] ?? 0);
+  return symbol;
+};
+
+const writeSymbol = (bits: Bits, offset: number, width: number, symbol: number) => {
+  for (let b = 0; b < width; b++) bits[offset + b] = (symbol >> (width - 1 - b)) & 1;
+};
+
+/**
+ * Reed-Solomon encoding of a bitstream: the bits are grouped into
+ * MSB-first symbols, zero-padded to whole k-symbol messages.
+ */
+function reedSolomonEncode(bits: Bits, code: ReedSolomonCode): Bits {
+  const { n, k, symbolBits: m } = code;
+  const blocks = Math.ceil(Math.ceil(bits.length / m) / k);
+  const coded = new Uint8Array(blocks * n * m);
+  for (let b = 0; b < blocks; b++) {
+    const message = Array.from({ length: k }, (_, s) => readSymbol(bits, (b * k + s) * m, m));
+    rsEncode(message, code).forEach((symbol, s) => writeSymbol(coded, (b * n + s) * m, m, symbol));
+  }
+  return coded;
+}
+
+function reedSolomonDecode(coded: ArrayLike<number>, code: ReedSolomonCode, dataLength: number) {
+  const { n, k, symbolBits: m } = code;
+  const blocks = Math.ceil(Math.ceil(dataLength / m) / k);
+  const bits = new Uint8Array(blocks * k * m);
+  const corrected: number[] = [];
+  for (let b = 0; b < blocks; b++) {
+    const received = Array.from({ length: n }, (_, s) => readSymbol(coded, (b * n + s) * m, m));
+    const decoded = rsDecode(received, code);
+    decoded.codeword.slice(0, k).forEach((symbol, s) => writeSymbol(bits, (b * k + s) * m, m, symbol));
+    decoded.corrected.forEach((s) => {
+      const changed = received[s] ^ decoded.codeword[s];
+      for (let bit = 0; bit < m; bit++) {
+        if ((changed >> (m - 1 - bit)) & 1) corrected.push((b * n + s) * m + bit);
+      }
+    });
+  }
+  return { bits: bits.slice(0, dataLength), corrected };
+}
+
+/** Splits a stream into groups of `size` values. */
+const group = <T>(values: ArrayLike<T>, size: number) =>
+  Array.from({ length: Math.ceil(values.length / size) }, (_, g) =>
+    Array.from({ length: size }, (_, i) => values[g * size + i])
+  );
+
+/** Feed-forward convolutional encoding, terminated with K - 1 zero tail bits. */
+function convolutionalEncode(bits: Bits, code: ConvolutionalCode): Bits {
+  const { constraintLength: K, generators } = code;
+  const steps = bits.length + K - 1;
+  const coded = new Uint8Array(steps * generators.length);
+  let state = 0;
+  for (let t = 0; t < steps; t++) {
+    const register = ((bits[t] ?? 0) << (K - 1)) | state;
+    generators.forEach((g, j) => {
+      coded[t * generators.length + j] = parity(register & g);
+    });
+    state = register >> 1;
+  }
+  return coded;
+}
+
+/**
+ * Viterbi decoding of a terminated convolutional code. Hard decisions
+ * take 0/1 bits and count disagreements; soft decisions take one real
+ * value per coded bit, nominally ±1 for 1/0, and use the squared
+ * Euclidean distance.
+ */
+function viterbiDecode(received: ArrayLike<number>, code: ConvolutionalCode, dataLength: number, soft: boolean) {
+  const { constraintLength: K, generators } = code;
+  const outputs = generators.length;
+  const states = 2 ** (K - 1);
+  const steps = dataLength + K - 1;
+  const branchOutputs = Array.from({ length: states * 2 }, (_, index) => {
+    const register = ((index & 1) << (K - 1)) | (index >> 1);
+    return generators.map((g) => parity(register & g));
+  });
+
+  let metrics = new Float64Array(states).fill(Infinity);
+  metrics[0] = 0;
+  const predecessors: Int32Array[] = [];
+  for (let t = 0; t < steps; t++) {
+    const next = new Float64Array(states).fill(Infinity);
+    const from = new Int32Array(states).fill(-1);
+    for (let state = 0; state < states; state++) {
+      if (metrics[state] === Infinity) continue;
+      for (let bit = 0; bit < 2; bit++) {
+        const expected = branchOutputs[state * 2 + bit];
+        let distance = 0;
+        for (let j = 0; j < outputs; j++) {
+          const value = received[t * outputs + j] ?? (soft ? 0 : expected[j]);
+          distance += soft ? (value - (2 * expected[j] - 1)) ** 2 : value !== expected[j] ? 1 : 0;
+        }
+        const target = ((bit << (K - 1)) | state) >> 1;
+        if (metrics[state] + distance < next[target]) {
+          next[target] = metrics[state] + distance;
+          from[target] = state;
+        }
+      }
+    }
+    metrics = next;
+    predecessors.push(from);
+  }
+
+  // Terminated in state 0; trace the survivor back
+  const path = new Array<number>(steps + 1);
+  path[steps] = 0;
+  for (let t = steps; t > 0; t--) {
+    path[t - 1] = predecessors[t - 1][path[t]];
+  }
+  const bits = Uint8Array.from({ length: dataLength }, (_, t) => path[t + 1] >> (K - 2));
+  const corrected: number[] = [];
+  const reencoded = convolutionalEncode(bits, code);
+  reencoded.forEach((bit, i) => {
+    const value = received[i];
+    if (value !== undefined && (soft ? value > 0 : value === 1) !== (bit === 1)) corrected.push(i);
+  });
+  return { bits, corrected, path };
+}
+
+/** Appends the CRC, if any, applies the channel code and interleaves the result. */
+export function channelEncode(bits: Bits, config: ChannelCodingConfig): Bits {
+  const data = config.crc ? Uint8Array.from([...bits, ...crcRemainder(bits, config.crc)]) : bits;
+  let coded: Bits;
+  const r = HAMMING_PARITY_BITS[config.code];
+  const conv = CONVOLUTIONAL_CODES[config.code];
+  if (config.code === 'reed-solomon') {
+    coded = reedSolomonEncode(data, config.reedSolomon ?? DEFAULT_REED_SOLOMON);
+  } else if (r !== undefined) {
+    coded = hammingEncode(data, r);
+  } else {
+    coded = conv ? convolutionalEncode(data, conv) : data;
+  }
+  if (!config.interleaver) return coded;
+  const unit = interleaverUnit(config);
+  return Uint8Array.from(interleave(group(coded, unit), config.interleaver, new Array<number>(unit).fill(0)).flat());
+}
+
+/**
+ * Undoes `channelEncode` for `dataLength` data bits. `received` holds 0/1
+ * bits, or soft values (positive for 1) when `soft` is set; block codes
+ * slice soft values at zero.
+ */
+export function channelDecode(
+  received: ArrayLike<number>,
+  config: ChannelCodingConfig,
+  dataLength: number,
+  soft = false
+): ChannelDecoding {
+  const crcLength = config.crc ? Math.max(...config.crc) : 0;
+  const length = dataLength + crcLength;
+  let values: ArrayLike<number> = received;
+  if (config.interleaver) {
+    const unit = interleaverUnit(config);
+    const units = deinterleave(group(received, unit), config.interleaver, codedLength(length, config) / unit);
+    values = Array.from({ length: units.length * unit }, (_, i) => units[Math.floor(i / unit)]?.[i % unit] ?? 0);
+  }
+  const hard = soft ? Array.from(values, (value) => (value > 0 ? 1 : 0)) : values;
+
+  let decoded: { bits: Bits; corrected: number[]; path: number[] };
+  const r = HAMMING_PARITY_BITS[config.code];
+  const conv = CONVOLUTIONAL_CODES[config.code];
+  if (config.code === 'reed-solomon') {
+    decoded = { ...reedSolomonDecode(hard, config.reedSolomon ?? DEFAULT_REED_SOLOMON, length), path: [] };
+  } else if (r !== undefined) {
+    decoded = { ...hammingDecode(hard, r, length), path: [] };
+  } else if (conv) {
+    decoded = viterbiDecode(soft ? values : hard, conv, length, soft);
+  } else {
+    decoded = { bits: Uint8Array.from({ length }, (_, i) => hard[i] ?? 0), corrected: [], path: [] };
+  }
+
+  const bits = decoded.bits.slice(0, dataLength);
+  const crcValid = config.crc
+    ? crcRemainder(bits, config.crc).every((bit, i) => bit === decoded.bits[dataLength + i])
+    : null;
+  return { bits, received: Uint8Array.from(hard), corrected: decoded.corrected, crcValid, path: decoded.path };
+}
@@ -0,0 +1,294 @@
+import type { Bits, Complex, Constellation, ConstellationOptions, ModulationType } from './types';
+
+/** DVB-S2 ring ratios for code rate 3/4. */
+export const DEFAULT_APSK_RING_RATIOS: Record<'16apsk' | '32apsk', number[]> = {
+  '16apsk': [2.85],
+  '32apsk': [2.84, 5.27]
+};
+
+const BITS_PER_SYMBOL: Record<ModulationType, number> = {
+  ask: 1,
+  fsk: 1,
+  psk: 1,
+  bask: 1,
+  bfsk: 1,
+  bpsk: 1,
+  qpsk: 2,
+  '8psk': 3,
+  '16qam': 4,
+  '64qam': 6,
+  '256qam': 8,
+  '16apsk': 4,
+  '32apsk': 5,
+  cpfsk: 1,
+  msk: 1,
+  gmsk: 1,
+  oqpsk: 2,
+  pi4dqpsk: 2,
+  dbpsk: 1
+};
+
+/**
+ * Constellation geometry before bit labelling: the points in the layout's
+ * natural order (by phase, by column or ring by ring) and the Gray label of
+ * each of them.
+ */
+interface Layout {
+  points: Complex[];
+  grayLabels: number[];
+}
+
+/** Binary-reflected Gray code of `n`. */
+export function grayEncode(n: number): number {
+  return n ^ (n >> 1);
+}
+
+export function grayDecode(g: number): number {
+  let n = g;
+  for (let shift = g >> 1; shift > 0; shift >>= 1) {
+    n ^= shift;
+  }
+  return n;
+}
+
+/** Scales points so the mean symbol energy is 1. */
+export function normalizeEnergy(points: Complex[]): Complex[] {
+  const energy = points.reduce((sum, p) => sum + p.re * p.re + p.im * p.im, 0) / points.length;
+  const scale = energy > 0 ? 1 / Math.sqrt(energy) : 1;
+  return points.map((p) => ({ re: p.re * scale, im: p.im * scale }));
+}
+
+/** Gray-labels points that are already in a one-dimensional neighbour order. */
+function sequentialLayout(points: Complex[]): Layout {
+  return { points, grayLabels: points.map((_, index) => grayEncode(index)) };
+}
+
+function pskLayout(order: number): Layout {
+  const points: Complex[] = [];
+  for (let index = 0; index < order; index++) {
+    const phase = (2 * Math.PI * index) / order;
+    points.push({ re: Math.cos(phase), im: Math.sin(phase) });
+  }
+  return sequentialLayout(points);
+}
+
+/**
+ * Square QAM in column-major order. The Gray label concatenates a Gray code
+ * of the column (I) with one of the row (Q), so every horizontal and vertical
+ * neighbour differs in exactly one bit.
+ */
+function squareQamLayout(order: number): Layout {
+  const bitsPerAxis = Math.log2(order) / 2;
+  const side = 1 << bitsPerAxis;
+  const points: Complex[] = [];
+  const grayLabels: number[] = [];
+  for (let col = 0; col < side; col++) {
+    for (let row = 0; row < side; row++) {
+      points.push({ re: 2 * col - side + 1, im: 2 * row - side + 1 });
+      grayLabels.push((grayEncode(col) << bitsPerAxis) | grayEncode(row));
+    }
+  }
+  return { points: normalizeEnergy(points), grayLabels };
+}
+
+/**
+ * Cross-shaped QAM: a square grid of odd coordinates with equal corner
+ * blocks removed, which lowers the peak power of the square layout. The grid
+ * side and corner size follow from `side² - 4·corner² = order`. Points are
+ * ordered along a snake scan of the columns, so the Gray labels only
+ * guarantee single-bit differences between neighbours within a column.
+ */
+function crossQamLayout(order: number): Layout {
+  const bits = Math.log2(order);
+  let side: number;
+  let corner: number;
+  if (bits % 2 === 1 && bits >= 5) {
+    side = 3 * 2 ** ((bits - 3) / 2);
+    corner = side / 6;
+  } else if (bits % 2 === 0 && bits >= 6) {
+    side = 5 * 2 ** (bits / 2 - 2);
+    corner = 3 * 2 ** (bits / 2 - 3);
+  } else {
+    throw new RangeError(`No cross layout exists for ${order}-QAM`);
+  }
+
+  const inCorner = (index: number) => index < corner || index >= side - corner;
+  const points: Complex[] = [];
+  for (let col = 0; col < side; col++) {
+    for (let step = 0; step < side; step++) {
+      const row = col % 2 === 0 ? step : side - 1 - step;
+      if (inCorner(col) && inCorner(row)) continue;
+      points.push({ re: 2 * col - side + 1, im: 2 * row - side + 1 });
+    }
+  }
+  return sequentialLayout(normalizeEnergy(points));
+}
+
+/**
+ * Amplitude and phase shift keying on concentric rings. `ringSizes` lists
+ * the point count per ring from the inside out and `ringRatios` the radius
+ * of each outer ring relative to the innermost one. Each ring is rotated by
+ * half its angular spacing, as in DVB-S2.
+ */
+function apskLayout(ringSizes: number[], ringRatios: number[]): Layout {
+  if (ringRatios.length !== ringSizes.length - 1) {
+    throw new RangeError(`APSK with ${ringSizes.length} rings needs ${ringSizes.length - 1} ring ratio(s)`);
+  }
+  const radii = [1, ...ringRatios];
+  if (radii.some((r, i) => i > 0 && !(r > radii[i - 1]))) {
+    throw new RangeError('APSK ring ratios must be increasing and greater than 1');
+  }
+
+  const points: Complex[] = [];
+  ringSizes.forEach((size, ring) => {
+    for (let k = 0; k < size; k++) {
+      const phase = (Math.PI / size) * (2 * k + 1);
+      points.push({ re: radii[ring] * Math.cos(phase), im: radii[ring] * Math.sin(phase) });
+    }
+  });
+  return sequentialLayout(normalizeEnergy(points));
+}
+
+function getLayout(modType: ModulationType, options: ConstellationOptions): Layout | null {
+  switch (modType) {
+    case 'ask':
+    case 'bask':
+      return sequentialLayout([{ re: 0, im: 0 }, { re: 1, im: 0 }]);
+    case 'psk':
+    case 'bpsk':
+      return sequentialLayout([{ re: -1, im: 0 }, { re: 1, im: 0 }]);
+    case 'qpsk':
+    case 'oqpsk':
+      // 4-QAM: first bit picks I, second bit picks Q
+      return squareQamLayout(4);
+    case '8psk':
+      return pskLayout(8);
+    case '16qam':
+      return squareQamLayout(16);
+    case '64qam':
+    case '256qam': {
+      const order = 2 ** BITS_PER_SYMBOL[modType];
+      return options.qamLayout === 'cross' ? crossQamLayout(order) : squareQamLayout(order);
+    }
+    case '16apsk':
+      return apskLayout([4, 12], options.apskRingRatios ?? DEFAULT_APSK_RING_RATIOS['16apsk']);
+    case '32apsk':
+      return apskLayout([4, 12, 16], options.apskRingRatios ?? DEFAULT_APSK_RING_RATIOS['32apsk']);
+    case 'fsk':
+    case 'bfsk':
+    case 'cpfsk':
+    case 'msk':
+    case 'gmsk':
+    case 'pi4dqpsk':
+    case 'dbpsk':
+      return null;
+  }
+}
+
+/**
+ * Works out which layout point each symbol value is sent on.
+ * A custom table must be a permutation of the point indices.
+ */
+function getPointIndex(layout: Layout, options: ConstellationOptions): number[] {
+  const order = layout.points.length;
+  switch (options.mapping ?? 'gray') {
+    case 'gray': {
+      const pointIndex: number[] = new Array(order);
+      layout.grayLabels.forEach((label, index) => {
+        pointIndex[label] = index;
+      });
+      return pointIndex;
+    }
+    case 'natural':
+      return layout.points.map((_, index) => index);
+    case 'custom': {
+      const table = options.customMapping ?? [];
+      if (
+        table.length !== order ||
+        new Set(table).size !== order ||
+        table.some((index) => !Number.isInteger(index) || index < 0 || index >= order)
+      ) {
+        throw new RangeError(`Custom mapping must assign each of the ${order} points exactly once`);
+      }
+      return [...table];
+    }
+  }
+}
+
+/**
+ * Returns the constellation for a keyed modulation, indexed by symbol value
+ * (the symbol's bits read MSB first). The FSK family and differential
+ * schemes have no fixed bit-to-point mapping and yield null.
+ */
+export function getConstellation(
+  modType: ModulationType,
+  options: ConstellationOptions = {}
+): Constellation | null {
+  const layout = getLayout(modType, options);
+  if (!layout) return null;
+
+  const pointIndex = getPointIndex(layout, options);
+  return {
+    bitsPerSymbol: BITS_PER_SYMBOL[modType],
+    points: pointIndex.map((index) => layout.points[index]),
+    pointIndex
+  };
+}
+
+export function getBitsPerSymbol(modType: ModulationType): number {
+  return BITS_PER_SYMBOL[modType];
+}
+
+/** Formats a symbol value as its bit pattern, MSB first. */
+export function symbolToBits(value: number, bitsPerSymbol: number): string {
+  return value.toString(2).padStart(bitsPerSymbol, '0');
+}
+
+/**
+ * Pads a bitstream with zeros up to a whole number of symbols.
+ */
+export function padToSymbols(bits: Bits, bitsPerSymbol: number): Bits {
+  const remainder = bits.length % bitsPerSymbol;
+  if (remainder === 0) return bits;
+  const padded = new Uint8Array(bits.length + bitsPerSymbol - remainder);
+  padded.set(bits);
+  return padded;
+}
+
+/** Groups bits into symbol values, MSB first. The input must be padded. */
+export function bitsToSymbols(bits: Bits, bitsPerSymbol: number): number[] {
+  const symbols: number[] = [];
+  for (let i = 0; i < bits.length; i += bitsPerSymbol) {
+    let value = 0;
+    for (let b = 0; b < bitsPerSymbol; b++) {
+      value = (value << 1) | bits[i + b];
+    }
+    symbols.push(value);
+  }
+  return symbols;
+}
+
+/** Value of the constellation point nearest to `point` (hard decision). */
+export function nearestSymbol(point: Complex, constellation: Constellation): number {
+  let best = 0;
+  let bestDistance = Infinity;
+  constellation.points.forEach((p, value) => {
+    const distance = (p.re - point.re) ** 2 + (p.im - point.im) ** 2;
+    if (distance < bestDistance) {
+      bestDistance = distance;
+      best = value;
+    }
+  });
+  return best;
+}
+
+/** Splits symbol values back into bits, MSB first. */
+export function symbolsToBits(values: number[], bitsPerSymbol: number): Bits {
+  const bits = new Uint8Array(values.length * bitsPerSymbol);
+  values.forEach((value, index) => {
+    for (let b = 0; b < bitsPerSymbol; b++) {
+      bits[index * bitsPerSymbol + b] = (value >> (bitsPerSymbol - 1 - b)) & 1;
+    }
+  });
+  return bits;
+}
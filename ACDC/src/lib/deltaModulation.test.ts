@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { deltaModulate } from './deltaModulation';
+import { createSignal } from './modulation';
+import type { DeltaModulationConfig } from './types';
+
+// Two periods of a 100 Hz sine, peak 1, sampled finely
+const message = createSignal(2000, 100000);
+message.samples.forEach((_, n) => (message.samples[n] = Math.sin((2 * Math.PI * 100 * n) / 100000)));
+
+// The sine climbs at up to 2π·100 per second, 0.063 per 10 kHz sample
+const config = (overrides: Partial<DeltaModulationConfig>): DeltaModulationConfig => ({
+  type: 'dm',
+  sampleRate: 10000,
+  stepSize: 0.02,
+  ...overrides
+});
+
+describe('deltaModulate', () => {
+  it('builds the staircase from the bits alone', () => {
+    const { bits, steps, staircase } = deltaModulate(message, config({ type: 'jayant' }));
+    let level = 0;
+    bits.forEach((bit, k) => {
+      level += bit ? steps[k] : -steps[k];
+      expect(staircase.samples[10 * k]).toBeCloseTo(level);
+    });
+  });
+
+  it('overloads on a steep slope with a small fixed step', () => {
+    const count = (regions: string[], region: string) => regions.filter((r) => r === region).length;
+    const narrow = deltaModulate(message, config({ stepSize: 0.02 })).regions;
+    expect(count(narrow, 'overload')).toBeGreaterThan(0.9 * narrow.length);
+    // A step wider than the slope per sample catches up and hunts instead
+    const wide = deltaModulate(message, config({ stepSize: 0.1 })).regions;
+    expect(count(wide, 'overload')).toBeLessThan(0.25 * wide.length);
+    expect(count(wide, 'granular')).toBeGreaterThan(count(narrow, 'granular'));
+  });
+
+  it('hunts around a constant message', () => {
+    const flat = createSignal(1000, 100000);
+    flat.samples.fill(0.3);
+    const { regions } = deltaModulate(flat, config({ stepSize: 0.05 }));
+    expect(regions.slice(-50).every((region) => region === 'granular')).toBe(true);
+  });
+
+  it.each(['jayant', 'cvsd'] as const)('lets %s adapt its step out of slope overload', (type) => {
+    const fixed = deltaModulate(message, config({ stepSize: 0.01 }));
+    const adaptive = deltaModulate(message, config({ type, stepSize: 0.01, maxStepRatio: 16 }));
+    expect(adaptive.sqnr).toBeGreaterThan(fixed.sqnr + 10);
+    adaptive.steps.forEach((step) => {
+      expect(step).toBeGreaterThanOrEqual(0.01 - 1e-12);
+      expect(step).toBeLessThanOrEqual(0.16 + 1e-12);
+    });
+  });
+
+  it('rejects a Jayant multiplier that cannot grow the step', () => {
+    expect(() => deltaModulate(message, config({ type: 'jayant', stepMultiplier: 1 }))).toThrow(RangeError);
+  });
+});
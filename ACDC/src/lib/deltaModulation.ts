@@ -0,0 +1,81 @@
+import { createSignal } from './modulation';
+import type { DeltaModulationConfig, DeltaModulationResult, DeltaRegion, Signal } from './types';
+
+export const DEFAULT_STEP_MULTIPLIER = 1.5;
+export const DEFAULT_MAX_STEP_RATIO = 16;
+
+/** CVSD step decay per sample when the bits stop repeating. */
+const CVSD_DECAY = 0.9;
+/** Run of equal bits that makes CVSD grow its step. */
+const CVSD_RUN = 3;
+
+/**
+ * Delta modulation of a message: each sample sends one bit saying whether
+ * the message lies above or below the staircase, which then steps up or
+ * down accordingly.
+ *
+ * Plain DM uses a fixed step. Jayant ADM multiplies the step by
+ * `stepMultiplier` when a bit repeats and divides it when the bit flips;
+ * CVSD grows the step by `stepSize` after a run of three equal bits and
+ * lets it decay towards `stepSize` otherwise.
+ *
+ * Each interval is classed as slope overload when the staircase trails the
+ * message by more than a step, as granular when the bits alternate
+ * around a slowly moving message, and as tracking otherwise.
+ */
+export function deltaModulate(message: Signal, config: DeltaModulationConfig): DeltaModulationResult {
+  const { type, sampleRate, stepSize } = config;
+  const multiplier = config.stepMultiplier ?? DEFAULT_STEP_MULTIPLIER;
+  const maxStep = stepSize * (config.maxStepRatio ?? DEFAULT_MAX_STEP_RATIO);
+  if (!(sampleRate > 0)) {
+    throw new RangeError('Sampling rate must be positive');
+  }
+  if (!(stepSize > 0)) {
+    throw new RangeError('Step size must be positive');
+  }
+  if (type === 'jayant' && !(multiplier > 1)) {
+    throw new RangeError('The Jayant step multiplier must be greater than 1');
+  }
+
+  const duration = message.samples.length / message.sampleRate;
+  const count = Math.ceil(duration * sampleRate);
+  const sampleTimes = Float64Array.from({ length: count }, (_, k) => k / sampleRate);
+  const bits = new Uint8Array(count);
+  const steps = new Float64Array(count);
+  const levels = new Float64Array(count);
+  const regions: DeltaRegion[] = [];
+
+  let approximation = 0;
+  let step = stepSize;
+  for (let k = 0; k < count; k++) {
+    const x = message.samples[Math.floor(sampleTimes[k] * message.sampleRate + 1e-9)];
+    const bit = x >= approximation ? 1 : 0;
+
+    if (k > 0 && type === 'jayant') {
+      step = Math.min(maxStep, Math.max(stepSize, bit === bits[k - 1] ? step * multiplier : step / multiplier));
+    } else if (k > 0 && type === 'cvsd') {
+      const run = k >= CVSD_RUN - 1 && bits.subarray(k - CVSD_RUN + 1, k).every((b) => b === bit);
+      step = run ? Math.min(maxStep, step + stepSize) : stepSize + (step - stepSize) * CVSD_DECAY;
+    }
+
+    const alternating = k >= 2 && bit !== bits[k - 1] && bits[k - 1] !== bits[k - 2];
+    regions.push(Math.abs(x - approximation) > step ? 'overload' : alternating ? 'granular' : 'tracking');
+
+    bits[k] = bit;
+    steps[k] = step;
+    approximation += bit ? step : -step;
+    levels[k] = approximation;
+  }
+
+  const staircase = createSignal(message.samples.length, message.sampleRate);
+  let signal = 0;
+  let noise = 0;
+  for (let n = 0; n < staircase.samples.length; n++) {
+    const k = Math.min(count - 1, Math.floor((n * sampleRate) / message.sampleRate));
+    staircase.samples[n] = levels[k];
+    signal += message.samples[n] ** 2;
+    noise += (message.samples[n] - levels[k]) ** 2;
+  }
+
+  return { sampleTimes, bits, steps, staircase, regions, sqnr: 10 * Math.log10(signal / noise) };
+}
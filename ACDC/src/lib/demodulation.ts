@@ -0,0 +1,318 @@
+import { getBitsPerSymbol, getConstellation, nearestSymbol, symbolsToBits } from './constellation';
+import { gaussianTaps, pulseShapeTaps, pulseStart } from './filters';
+import { changesMidBit, decodeLineHalfBits, isUnipolar, lineCodeLevels } from './lineCoding';
+import {
+  DEFAULT_BT,
+  DEFAULT_MODULATION_INDEX,
+  DEFAULT_SAMPLES_PER_BIT,
+  GAUSSIAN_SPAN,
+  PI4_DQPSK_STEPS,
+  isContinuousPhase,
+  isDifferential,
+  isFrequencyKeyed,
+  supportsLineCoding
+} from './modulation';
+import type { Bits, Complex, ModulationConfig, Signal } from './types';
+
+/** Most combinations of levels the FSK family tries for one decision. */
+const MAX_HYPOTHESES = 256;
+/** Phase in radians below which a pulse is taken not to have started yet. */
+const NEGLIGIBLE_PHASE = 1e-3;
+
+/**
+ * Phase in radians that one line-code pulse of unit drive adds to an
+ * FSK-family carrier: nothing before `start`, `phase[n - start]` while the
+ * pulse lasts and `settled` after it.
+ */
+interface PulsePhase {
+  start: number;
+  phase: Float64Array;
+  settled: number;
+}
+
+const phaseAt = (pulse: PulsePhase, n: number) =>
+  n < pulse.start ? 0 : n - pulse.start < pulse.phase.length ? pulse.phase[n - pulse.start] : pulse.settled;
+
+/** Drops the leading samples where a pulse's phase is still negligible. */
+function trimPhase({ start, phase, settled }: PulsePhase): PulsePhase {
+  let first = 0;
+  while (first < phase.length && Math.abs(phase[first]) < NEGLIGIBLE_PHASE) first++;
+  return { start: start + first, phase: phase.subarray(first), settled };
+}
+
+/**
+ * Least-squares amplitudes of the first `count` pulses of a train laid
+ * down like `pulseTrain`: the matched filter's output at every pulse,
+ * then the system of the pulses' overlaps solved for the amplitudes.
+ * Rectangular and root-raised-cosine pulses leave the matched filter free
+ * of intersymbol interference; for raised-cosine and Gaussian pulses the
+ * solve is a zero-forcing equalizer. Pulses are cut off at the ends of the
+ * envelope, as the transmitter cuts them.
+ */
+function pulseAmplitudes(
+  envelope: Float64Array,
+  count: number,
+  samplesPerPulse: number,
+  taps: Float64Array,
+  offset = 0
+): Float64Array {
+  const length = envelope.length;
+  const starts = Array.from({ length: count }, (_, k) => pulseStart(k, samplesPerPulse, taps.length, offset));
+  const inside = (k: number) => starts[k] >= 0 && starts[k] + taps.length <= length;
+
+  // Overlap of pulses k and l, shared by every pair the ends do not cut
+  const shared = new Map<number, number>();
+  const overlap = (k: number, l: number) => {
+    const shift = starts[l] - starts[k];
+    const cached = inside(k) && inside(l) ? shared.get(shift) : undefined;
+    if (cached !== undefined) return cached;
+    let sum = 0;
+    const to = Math.min(taps.length, length - starts[k], taps.length + shift);
+    for (let j = Math.max(0, -starts[k], shift); j < to; j++) sum += taps[j] * taps[j - shift];
+    if (inside(k) && inside(l)) shared.set(shift, sum);
+    return sum;
+  };
+
+  // Banded Cholesky factor of the overlaps: band[k][d] holds row k, column k - d
+  const width = Math.ceil(taps.length / samplesPerPulse);
+  const band = Array.from({ length: count }, () => new Float64Array(width + 1));
+  for (let k = 0; k < count; k++) {
+    for (let d = Math.min(width, k); d >= 0; d--) {
+      const j = k - d;
+      let value = overlap(j, k);
+      for (let m = d + 1; m <= Math.min(width, j + d); m++) value -= band[k][m] * band[j][m - d];
+      // A pulse the ends cut off entirely has no overlap and comes out as zero
+      band[k][d] = d > 0 ? value / band[j][0] : Math.sqrt(Math.max(value, 0)) || 1;
+    }
+  }
+
+  const amplitudes = Float64Array.from({ length: count }, (_, k) => {
+    let sum = 0;
+    const to = Math.min(taps.length, length - starts[k]);
+    for (let j = Math.max(0, -starts[k]); j < to; j++) sum += taps[j] * envelope[starts[k] + j];
+    return sum;
+  });
+  for (let k = 0; k < count; k++) {
+    for (let m = 1; m <= Math.min(width, k); m++) amplitudes[k] -= band[k][m] * amplitudes[k - m];
+    amplitudes[k] /= band[k][0];
+  }
+  for (let k = count - 1; k >= 0; k--) {
+    for (let m = 1; m <= Math.min(width, count - 1 - k); m++) amplitudes[k] -= band[k + m][m] * amplitudes[k + m];
+    amplitudes[k] /= band[k][0];
+  }
+  return amplitudes;
+}
+
+/**
+ * Line-code levels of an FSK-family signal, one per pulse of `taps`,
+ * decided from its mixed-down envelope.
+ */
+function decideFrequencyKeyed(
+  envelope: { re: Float64Array; im: Float64Array; sampleRate: number },
+  config: ModulationConfig,
+  bitCount: number,
+  pulses: { count: number; samplesPerPulse: number; taps: Float64Array; drives: { level: number; drive: number }[] }
+): number[] {
+  const { modType, freqDev } = config;
+  const { re, im, sampleRate } = envelope;
+  const { count: pulseCount, samplesPerPulse, taps, drives } = pulses;
+  const length = re.length;
+  const samplesPerBit = config.samplesPerBit ?? DEFAULT_SAMPLES_PER_BIT;
+  // The drive the transmitter shapes spans the data bits alone
+  const driveLength = bitCount * samplesPerBit;
+  const continuous = isContinuousPhase(modType);
+  const gaussian = modType === 'gmsk' ? gaussianTaps(config.bt ?? DEFAULT_BT, samplesPerBit, GAUSSIAN_SPAN) : null;
+  const gaussianDelay = gaussian ? Math.floor((gaussian.length - 1) / 2) : 0;
+  const h = modType === 'cpfsk' ? config.modulationIndex ?? DEFAULT_MODULATION_INDEX : 0.5;
+  const step = (Math.PI * h) / samplesPerBit;
+
+  // Pulses the ends cut alike share one smoothed frequency pulse
+  const smoothed = new Map<string, Float64Array>();
+
+  /** Phase of pulse k: its cut shaped pulse, smoothed for GMSK and integrated for continuous phase. */
+  const pulsePhase = (k: number): PulsePhase => {
+    const start = pulseStart(k, samplesPerPulse, taps.length);
+    const from = Math.max(0, -start);
+    const to = Math.min(taps.length, driveLength - start);
+    const pulse = taps.slice(from, Math.max(from, to));
+    if (!continuous) {
+      // FSK's phase follows absolute time: π·Δf·t·(1 - drive)
+      const phase = pulse.map((value, j) => (-Math.PI * freqDev * (start + from + j) * value) / sampleRate);
+      return trimPhase({ start: start + from, phase, settled: 0 });
+    }
+    let pulseFrequency = pulse;
+    if (gaussian) {
+      const key = `${from}:${to}`;
+      pulseFrequency = smoothed.get(key) ?? new Float64Array(pulse.length + gaussian.length - 1);
+      if (!smoothed.has(key)) {
+        pulse.forEach((value, j) => gaussian.forEach((g, m) => (pulseFrequency[j + m] += value * g)));
+        smoothed.set(key, pulseFrequency);
+      }
+    }
+    // The phase sums the frequency from sample 0, one sample behind
+    const first = start + from - gaussianDelay;
+    const phase = new Float64Array(pulseFrequency.length + 1);
+    for (let j = 0; j < pulseFrequency.length; j++) {
+      phase[j + 1] = phase[j] + (first + j >= 0 ? step * pulseFrequency[j] : 0);
+    }
+    return trimPhase({ start: first, phase, settled: phase[pulseFrequency.length] });
+  };
+
+  const phases = new Map<number, PulsePhase>();
+  const phaseOf = (k: number) => {
+    if (!phases.has(k)) phases.set(k, pulsePhase(k));
+    return phases.get(k);
+  };
+  const boundary = (k: number) => Math.min(length, Math.round(k * samplesPerPulse));
+  const maxAhead = Math.floor(Math.log(MAX_HYPOTHESES) / Math.log(drives.length)) - 1;
+
+  const decided: number[] = [];
+  let settledPhase = 0;
+  let active: { pulse: PulsePhase; drive: number }[] = [];
+  for (let k = 0; k < pulseCount; k++) {
+    const from = boundary(k);
+    // Later pulses whose phase already moves before this one ends are
+    // decided along with it, over a window that stops where the first
+    // pulse left out starts to move
+    let ahead = 0;
+    while (ahead < maxAhead && k + ahead + 1 < pulseCount && phaseOf(k + ahead + 1).start < boundary(k + 1)) ahead++;
+    const next = k + ahead + 1 < pulseCount ? phaseOf(k + ahead + 1).start : length;
+    const to = Math.max(from + 1, Math.min(boundary(k + ahead + 1), next));
+
+    active = active.filter(({ pulse, drive }) => {
+      const done = pulse.start + pulse.phase.length <= from;
+      if (done) settledPhase += drive * pulse.settled;
+      return !done;
+    });
+    const known = Float64Array.from({ length: to - from }, (_, j) => {
+      const n = from + j;
+      const carrier = continuous ? 0 : (Math.PI * freqDev * n) / sampleRate;
+      return active.reduce((sum, { pulse, drive }) => sum + drive * phaseAt(pulse, n), carrier + settledPhase);
+    });
+    const candidates = Array.from({ length: ahead + 1 }, (_, i) =>
+      Float64Array.from({ length: to - from }, (_, j) => phaseAt(phaseOf(k + i), from + j))
+    );
+
+    let best = drives[0];
+    let bestScore = -Infinity;
+    const theta = new Float64Array(to - from);
+    for (let combination = 0; combination < drives.length ** (ahead + 1); combination++) {
+      const choice = candidates.map((_, i) => drives[Math.floor(combination / drives.length ** i) % drives.length]);
+      theta.set(known);
+      candidates.forEach((candidate, i) => {
+        for (let j = 0; j < theta.length; j++) theta[j] += choice[i].drive * candidate[j];
+      });
+      let score = 0;
+      for (let j = 0; j < theta.length; j++) {
+        score += re[from + j] * Math.cos(theta[j]) + im[from + j] * Math.sin(theta[j]);
+      }
+      if (score > bestScore) {
+        bestScore = score;
+        best = choice[0];
+      }
+    }
+    decided.push(best.level);
+    active.push({ pulse: phaseOf(k), drive: best.drive });
+    phases.delete(k);
+  }
+  return decided;
+}
+
+/**
+ * Recovers `bitCount` bits from a passband signal produced by `modulate`
+ * with the same configuration.
+ *
+ * The signal is mixed back down with the known carrier. Constellation and
+ * line-coded keying pass the envelope through a filter matched to the
+ * configured pulse, read it at the middle of every symbol (a bit later for
+ * the OQPSK Q branch) and undo what the pulses leave of each other there,
+ * before deciding the nearest point, comparing consecutive symbols or
+ * undoing the line code. The FSK family correlates the envelope with the
+ * phase every combination of levels would give over the current pulse
+ * and the ones whose shaped frequency pulse already reaches it, starting
+ * from the phase of the pulses decided so far, and keeps the level of the
+ * current pulse from the best match.
+ */
+export function demodulate(received: Signal, config: ModulationConfig, bitCount: number): Bits {
+  const { modType, frequency, amplitude } = config;
+  const samplesPerBit = config.samplesPerBit ?? DEFAULT_SAMPLES_PER_BIT;
+  if (!(amplitude > 0)) {
+    throw new RangeError('Carrier amplitude must be positive');
+  }
+
+  const { samples, sampleRate } = received;
+  const length = samples.length;
+  // 2/A·r·(sin ωt + j·cos ωt) leaves I + jQ plus terms at twice the carrier
+  const re = new Float64Array(length);
+  const im = new Float64Array(length);
+  for (let n = 0; n < length; n++) {
+    const omegaT = (2 * Math.PI * frequency * n) / sampleRate;
+    re[n] = (2 / amplitude) * samples[n] * Math.sin(omegaT);
+    im[n] = (2 / amplitude) * samples[n] * Math.cos(omegaT);
+  }
+
+  const bitsPerSymbol = getBitsPerSymbol(modType);
+  const symbolCount = Math.ceil(bitCount / bitsPerSymbol);
+  const samplesPerSymbol = samplesPerBit * bitsPerSymbol;
+  const lineCode = supportsLineCoding(modType) ? config.lineCode ?? 'unipolar-nrz' : 'unipolar-nrz';
+  const shaping = config.pulseShaping ?? { shape: 'rect' };
+  const constellation = getConstellation(modType, config);
+
+  if ((constellation || isDifferential(modType)) && lineCode === 'unipolar-nrz') {
+    const taps = pulseShapeTaps(shaping, samplesPerSymbol);
+    const qDelay = modType === 'oqpsk' ? samplesPerBit : 0;
+    const inPhase = pulseAmplitudes(re, symbolCount, samplesPerSymbol, taps);
+    const quadrature = pulseAmplitudes(im, symbolCount, samplesPerSymbol, taps, qDelay);
+    const points = Array.from(inPhase, (i, k): Complex => ({ re: i, im: quadrature[k] }));
+    if (constellation) {
+      const values = points.map((point) => nearestSymbol(point, constellation));
+      return symbolsToBits(values, bitsPerSymbol).slice(0, bitCount);
+    }
+
+    let previous: Complex = { re: 1, im: 0 };
+    const values = points.map((point) => {
+      const change = Math.atan2(
+        point.im * previous.re - point.re * previous.im,
+        point.re * previous.re + point.im * previous.im
+      );
+      previous = point;
+      if (modType === 'dbpsk') {
+        return Math.abs(change) > Math.PI / 2 ? 1 : 0;
+      }
+      const distances = PI4_DQPSK_STEPS.map((step) => Math.abs(Math.atan2(Math.sin(change - step), Math.cos(change - step))));
+      return distances.indexOf(Math.min(...distances));
+    });
+    return symbolsToBits(values, bitsPerSymbol).slice(0, bitCount);
+  }
+
+  // One decision per line-code pulse, among the drive levels `modulate` uses
+  const antipodal = modType !== 'ask' && modType !== 'bask';
+  const drives = lineCodeLevels(lineCode).map((level) => ({
+    level,
+    drive: antipodal && isUnipolar(lineCode) ? 2 * level - 1 : level
+  }));
+  const pulsesPerBit = changesMidBit(lineCode) ? 2 : 1;
+  const pulseCount = pulsesPerBit * bitCount;
+  const samplesPerPulse = samplesPerBit / pulsesPerBit;
+  const taps = pulseShapeTaps(shaping, Math.round(samplesPerPulse));
+  const nearest = (value: number) =>
+    drives.reduce((best, d) => (Math.abs(d.drive - value) < Math.abs(best.drive - value) ? d : best));
+
+  const levels = isFrequencyKeyed(modType)
+    ? decideFrequencyKeyed({ re, im, sampleRate }, config, bitCount, {
+        count: pulseCount,
+        samplesPerPulse,
+        taps,
+        drives
+      })
+    : Array.from(pulseAmplitudes(re, pulseCount, samplesPerPulse, taps), (value) => nearest(value).level);
+
+  const halves = new Int8Array(2 * bitCount);
+  for (let k = 0; k < bitCount; k++) {
+    for (let p = 0; p < pulsesPerBit; p++) {
+      halves[2 * k + p] = levels[pulsesPerBit * k + p];
+      if (pulsesPerBit === 1) halves[2 * k + 1] = levels[k];
+    }
+  }
+  return decodeLineHalfBits(halves, lineCode);
+}
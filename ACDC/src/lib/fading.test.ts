@@ -0,0 +1,100 @@
+import { describe, expect, it } from 'vitest';
+import { applyFading, equalizeFading, fadingGain, fadingPdf } from './fading';
+import { createSignal } from './modulation';
+import type { FadingConfig } from './types';
+
+/** Moments E|h|, E|h|² and E|h|⁴ of the theoretical envelope density. */
+function pdfMoments(config: FadingConfig) {
+  const moments = [0, 0, 0];
+  for (let r = 0.0005; r < 6; r += 0.001) {
+    const weight = 0.001 * fadingPdf(r, config);
+    moments[0] += weight * r;
+    moments[1] += weight * r ** 2;
+    moments[2] += weight * r ** 4;
+  }
+  return moments;
+}
+
+/** The same moments averaged over many short realizations of the fading. */
+function envelopeMoments(config: Omit<FadingConfig, 'seed' | 'dopplerFrequency'>) {
+  const moments = [0, 0, 0];
+  let count = 0;
+  for (let seed = 1; seed <= 100; seed++) {
+    const gain = fadingGain(500, 1000, { ...config, dopplerFrequency: 100, seed });
+    gain.re.forEach((re, n) => {
+      const r = Math.hypot(re, gain.im[n]);
+      moments[0] += r;
+      moments[1] += r ** 2;
+      moments[2] += r ** 4;
+      count++;
+    });
+  }
+  return moments.map((sum) => sum / count);
+}
+
+const expectWithin = (actual: number, expected: number, tolerance: number) =>
+  expect(Math.abs(actual / expected - 1)).toBeLessThan(tolerance);
+
+describe('fadingGain', () => {
+  it.each([
+    { model: 'rayleigh' },
+    { model: 'rician', kFactor: 4 },
+    { model: 'nakagami', m: 2 },
+    { model: 'nakagami', m: 0.5 }
+  ] as const)('draws envelopes with the moments of the $model density', (model) => {
+    const sampled = envelopeMoments(model);
+    const expected = pdfMoments({ ...model, dopplerFrequency: 0, seed: 1 });
+    expectWithin(sampled[0], expected[0], 0.02);
+    expectWithin(sampled[1], 1, 0.02);
+    expectWithin(sampled[2], expected[2], 0.05);
+  });
+
+  it('holds the gain still without Doppler', () => {
+    const gain = fadingGain(100, 1000, { model: 'rayleigh', dopplerFrequency: 0, seed: 3 });
+    expect(new Set(gain.re).size).toBe(1);
+    expect(new Set(gain.im).size).toBe(1);
+  });
+
+  it('rejects negative Doppler, negative K and fractional m', () => {
+    expect(() => fadingGain(10, 1000, { model: 'rayleigh', dopplerFrequency: -1, seed: 1 })).toThrow(RangeError);
+    expect(() => fadingGain(10, 1000, { model: 'rician', kFactor: -1, dopplerFrequency: 1, seed: 1 })).toThrow(
+      RangeError
+    );
+    expect(() => fadingGain(10, 1000, { model: 'nakagami', m: 0.7, dopplerFrequency: 1, seed: 1 })).toThrow(
+      RangeError
+    );
+  });
+});
+
+describe('fadingPdf', () => {
+  it.each([
+    ['Rayleigh', { model: 'rayleigh' }, Math.sqrt(Math.PI) / 2, 2],
+    ['Rician K = 4', { model: 'rician', kFactor: 4 }, undefined, (2 + 4 * 4 + 4 ** 2) / 25],
+    ['Nakagami m = 3', { model: 'nakagami', m: 3 }, undefined, 4 / 3],
+    ['Nakagami m = 0.5', { model: 'nakagami', m: 0.5 }, Math.sqrt(2 / Math.PI), 3]
+  ] as const)('integrates to one with unit mean power for %s', (_, model, mean, fourth) => {
+    const config = { ...model, dopplerFrequency: 0, seed: 1 };
+    let area = 0;
+    for (let r = 0.0005; r < 6; r += 0.001) area += 0.001 * fadingPdf(r, config);
+    const [first, second, fourthMoment] = pdfMoments(config);
+    expect(area).toBeCloseTo(1, 3);
+    expect(second).toBeCloseTo(1, 3);
+    expect(fourthMoment).toBeCloseTo(fourth, 2);
+    if (mean !== undefined) expect(first).toBeCloseTo(mean, 3);
+  });
+});
+
+describe('equalizeFading', () => {
+  it('undoes applyFading', () => {
+    const inPhase = createSignal(200, 1000);
+    const quadrature = createSignal(200, 1000);
+    inPhase.samples.forEach((_, n) => {
+      inPhase.samples[n] = Math.cos(n / 7);
+      quadrature.samples[n] = Math.sin(n / 5);
+    });
+    const gain = fadingGain(200, 1000, { model: 'rician', kFactor: 2, dopplerFrequency: 20, seed: 5 });
+    const restored = equalizeFading(applyFading({ inPhase, quadrature }, gain), gain);
+    restored.inPhase.samples.forEach((value, n) => expect(value).toBeCloseTo(inPhase.samples[n]));
+    restored.quadrature.samples.forEach((value, n) => expect(value).toBeCloseTo(quadrature.samples[n]));
+  });
+});
@@ -0,0 +1,175 @@
+import { createSignal } from './modulation';
+import { createRandom } from './random';
+import type { ChannelGain, FadingConfig, Signal } from './types';
+
+/** Sinusoids per Gaussian component of the Clarke model. */
+const SINUSOIDS = 32;
+
+/**
+ * Unit-power complex Gaussian process with Clarke's U-shaped Doppler
+ * spectrum, by the sum-of-sinusoids model of Zheng and Xiao: each
+ * component sums waves whose Doppler shifts follow from evenly spread
+ * arrival angles with a random offset, each with a random phase.
+ */
+function clarkeProcess(length: number, sampleRate: number, doppler: number, random: () => number): ChannelGain {
+  const uniformPhase = () => 2 * Math.PI * random() - Math.PI;
+  const offset = uniformPhase();
+  const waves = Array.from({ length: SINUSOIDS }, (_, k) => {
+    const angle = (2 * Math.PI * (k + 1) - Math.PI + offset) / (4 * SINUSOIDS);
+    return {
+      re: { w: (2 * Math.PI * doppler * Math.cos(angle)) / sampleRate, phase: uniformPhase() },
+      im: { w: (2 * Math.PI * doppler * Math.sin(angle)) / sampleRate, phase: uniformPhase() }
+    };
+  });
+  const scale = Math.sqrt(1 / SINUSOIDS);
+  const gain = { re: new Float64Array(length), im: new Float64Array(length) };
+  for (let n = 0; n < length; n++) {
+    let re = 0;
+    let im = 0;
+    for (const wave of waves) {
+      re += Math.cos(wave.re.w * n + wave.re.phase);
+      im += Math.cos(wave.im.w * n + wave.im.phase);
+    }
+    gain.re[n] = scale * re;
+    gain.im[n] = scale * im;
+  }
+  return gain;
+}
+
+/**
+ * Complex fading gain for `length` samples at `sampleRate`. Rayleigh is a
+ * single Clarke process. Rician adds a fixed line-of-sight path carrying
+ * K/(K + 1) of the power. Nakagami-m takes its envelope from 2m Gaussian
+ * components, which makes the power chi-squared with 2m degrees of
+ * freedom, and its phase from the first pair.
+ */
+export function fadingGain(length: number, sampleRate: number, config: FadingConfig): ChannelGain {
+  const { model, dopplerFrequency, seed } = config;
+  if (!(dopplerFrequency >= 0)) {
+    throw new RangeError('The Doppler frequency cannot be negative');
+  }
+  const random = createRandom(seed);
+  const process = () => clarkeProcess(length, sampleRate, dopplerFrequency, random);
+
+  if (model === 'rayleigh') return process();
+
+  if (model === 'rician') {
+    const k = config.kFactor ?? 1;
+    if (!(k >= 0)) {
+      throw new RangeError('The Rician K-factor cannot be negative');
+    }
+    const scattered = process();
+    const losPhase = 2 * Math.PI * random();
+    const los = Math.sqrt(k / (k + 1));
+    const diffuse = Math.sqrt(1 / (k + 1));
+    return {
+      re: scattered.re.map((value) => los * Math.cos(losPhase) + diffuse * value),
+      im: scattered.im.map((value) => los * Math.sin(losPhase) + diffuse * value)
+    };
+  }
+
+  const m = config.m ?? 1;
+  const components = 2 * m;
+  if (!Number.isInteger(components) || components < 1) {
+    throw new RangeError('The Nakagami m must be a multiple of 0.5, at least 0.5');
+  }
+  const pairs = Array.from({ length: Math.ceil(m) }, process);
+  const gain = { re: new Float64Array(length), im: new Float64Array(length) };
+  for (let n = 0; n < length; n++) {
+    let power = 0;
+    for (let c = 0; c < components; c++) {
+      const pair = pairs[c >> 1];
+      power += (c & 1 ? pair.im[n] : pair.re[n]) ** 2;
+    }
+    const phase = Math.atan2(pairs[0].im[n], pairs[0].re[n]);
+    gain.re[n] = Math.sqrt(power / m) * Math.cos(phase);
+    gain.im[n] = Math.sqrt(power / m) * Math.sin(phase);
+  }
+  return gain;
+}
+
+/** Time over which the fading stays roughly constant: 0.423 / fD, Clarke's 50 % correlation point. */
+export function coherenceTime(dopplerFrequency: number): number {
+  return 0.423 / dopplerFrequency;
+}
+
+/** Modified Bessel function of the first kind, order zero, by its power series. */
+function besselI0(x: number): number {
+  const quarter = (x * x) / 4;
+  let term = 1;
+  let sum = 1;
+  for (let k = 1; term > sum * 1e-15; k++) {
+    term *= quarter / (k * k);
+    sum += term;
+  }
+  return sum;
+}
+
+/** Lanczos coefficients (g = 7) for the log-gamma function. */
+const LANCZOS = [
+  0.99999999999980993, 676.5203681218851, -1259.1392167224028, 771.32342877765313, -176.61502916214059,
+  12.507343278686905, -0.13857109526572012, 9.9843695780195716e-6, 1.5056327351493116e-7
+];
+
+function logGamma(x: number): number {
+  if (x < 0.5) return Math.log(Math.PI / Math.sin(Math.PI * x)) - logGamma(1 - x);
+  const z = x - 1;
+  let sum = LANCZOS[0];
+  for (let i = 1; i < LANCZOS.length; i++) sum += LANCZOS[i] / (z + i);
+  const t = z + 7.5;
+  return 0.5 * Math.log(2 * Math.PI) + (z + 0.5) * Math.log(t) - t + Math.log(sum);
+}
+
+/** Theoretical density of the fading envelope |h| at `r`, for unit mean power. */
+export function fadingPdf(r: number, config: FadingConfig): number {
+  if (r <= 0) return 0;
+  switch (config.model) {
+    case 'rayleigh':
+      return 2 * r * Math.exp(-r * r);
+    case 'rician': {
+      const k = config.kFactor ?? 1;
+      return 2 * (k + 1) * r * Math.exp(-k - (k + 1) * r * r) * besselI0(2 * r * Math.sqrt(k * (k + 1)));
+    }
+    case 'nakagami': {
+      const m = config.m ?? 1;
+      return Math.exp(Math.log(2) + m * Math.log(m) - logGamma(m) + (2 * m - 1) * Math.log(r) - m * r * r);
+    }
+  }
+}
+
+/** Multiplies the complex envelope I + jQ of a signal by the fading gain. */
+export function applyFading(
+  envelope: { inPhase: Signal; quadrature: Signal },
+  gain: ChannelGain
+): { inPhase: Signal; quadrature: Signal } {
+  const { samples: i, sampleRate } = envelope.inPhase;
+  const q = envelope.quadrature.samples;
+  const inPhase = createSignal(i.length, sampleRate);
+  const quadrature = createSignal(i.length, sampleRate);
+  for (let n = 0; n < i.length; n++) {
+    inPhase.samples[n] = gain.re[n] * i[n] - gain.im[n] * q[n];
+    quadrature.samples[n] = gain.re[n] * q[n] + gain.im[n] * i[n];
+  }
+  return { inPhase, quadrature };
+}
+
+/**
+ * Zero-forcing receiver with perfect channel knowledge: divides the
+ * complex envelope I + jQ of a received signal by the fading gain. Noise
+ * is divided along with the signal, so deep fades amplify it.
+ */
+export function equalizeFading(
+  envelope: { inPhase: Signal; quadrature: Signal },
+  gain: ChannelGain
+): { inPhase: Signal; quadrature: Signal } {
+  const { samples: i, sampleRate } = envelope.inPhase;
+  const q = envelope.quadrature.samples;
+  const inPhase = createSignal(i.length, sampleRate);
+  const quadrature = createSignal(i.length, sampleRate);
+  for (let n = 0; n < i.length; n++) {
+    const power = gain.re[n] ** 2 + gain.im[n] ** 2 || Number.MIN_VALUE;
+    inPhase.samples[n] = (i[n] * gain.re[n] + q[n] * gain.im[n]) / power;
+    quadrature.samples[n] = (q[n] * gain.re[n] - i[n] * gain.im[n]) / power;
+  }
+  return { inPhase, quadrature };
+}
@@ -0,0 +1,206 @@
+/**
+ * Discrete Fourier transform helpers.
+ *
+ * `fft` works on any length: powers of two use an iterative radix-2
+ * Cooley-Tukey transform, other lengths go through Bluestein's chirp-z
+ * algorithm on top of it.
+ */
+
+export function isPowerOfTwo(n: number): boolean {
+  return n > 0 && (n & (n - 1)) === 0;
+}
+
+export function nextPowerOfTwo(n: number): number {
+  let size = 1;
+  while (size < n) size <<= 1;
+  return size;
+}
+
+function radix2(re: Float64Array, im: Float64Array, inverse: boolean): void {
+  const n = re.length;
+
+  // Bit-reversal permutation
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) {
+      j ^= bit;
+    }
+    j ^= bit;
+    if (i < j) {
+      [re[i], re[j]] = [re[j], re[i]];
+      [im[i], im[j]] = [im[j], im[i]];
+    }
+  }
+
+  const sign = inverse ? 1 : -1;
+  for (let size = 2; size <= n; size <<= 1) {
+    const half = size >> 1;
+    const angle = (sign * 2 * Math.PI) / size;
+    const stepRe = Math.cos(angle);
+    const stepIm = Math.sin(angle);
+    for (let start = 0; start < n; start += size) {
+      let wRe = 1;
+      let wIm = 0;
+      for (let k = 0; k < half; k++) {
+        const a = start + k;
+        const b = a + half;
+        const tRe = re[b] * wRe - im[b] * wIm;
+        const tIm = re[b] * wIm + im[b] * wRe;
+        re[b] = re[a] - tRe;
+        im[b] = im[a] - tIm;
+        re[a] += tRe;
+        im[a] += tIm;
+        const nextRe = wRe * stepRe - wIm * stepIm;
+        wIm = wRe * stepIm + wIm * stepRe;
+        wRe = nextRe;
+      }
+    }
+  }
+}
+
+function bluestein(re: Float64Array, im: Float64Array, inverse: boolean): void {
+  const n = re.length;
+  const m = nextPowerOfTwo(2 * n - 1);
+  const sign = inverse ? 1 : -1;
+
+  // Chirp w[k] = exp(sign·jπk²/n); k² is reduced mod 2n to keep precision
+  const chirpRe = new Float64Array(n);
+  const chirpIm = new Float64Array(n);
+  for (let k = 0; k < n; k++) {
+    const angle = (sign * Math.PI * ((k * k) % (2 * n))) / n;
+    chirpRe[k] = Math.cos(angle);
+    chirpIm[k] = Math.sin(angle);
+  }
+
+  const aRe = new Float64Array(m);
+  const aIm = new Float64Array(m);
+  for (let k = 0; k < n; k++) {
+    aRe[k] = re[k] * chirpRe[k] - im[k] * chirpIm[k];
+    aIm[k] = re[k] * chirpIm[k] + im[k] * chirpRe[k];
+  }
+
+  const bRe = new Float64Array(m);
+  const bIm = new Float64Array(m);
+  bRe[0] = chirpRe[0];
+  bIm[0] = -chirpIm[0];
+  for (let k = 1; k < n; k++) {
+    bRe[k] = bRe[m - k] = chirpRe[k];
+    bIm[k] = bIm[m - k] = -chirpIm[k];
+  }
+
+  // Circular convolution of a and b
+  radix2(aRe, aIm, false);
+  radix2(bRe, bIm, false);
+  for (let k = 0; k < m; k++) {
+    const r = aRe[k] * bRe[k] - aIm[k] * bIm[k];
+    aIm[k] = aRe[k] * bIm[k] + aIm[k] * bRe[k];
+    aRe[k] = r;
+  }
+  radix2(aRe, aIm, true);
+
+  for (let k = 0; k < n; k++) {
+    const cRe = aRe[k] / m;
+    const cIm = aIm[k] / m;
+    re[k] = cRe * chirpRe[k] - cIm * chirpIm[k];
+    im[k] = cRe * chirpIm[k] + cIm * chirpRe[k];
+  }
+}
+
+/**
+ * In-place DFT of the complex sequence `re + j·im`. The inverse transform
+ * includes the 1/N scaling, so `fft` followed by an inverse `fft` is the
+ * identity.
+ */
+export function fft(re: Float64Array, im: Float64Array, inverse = false): void {
+  const n = re.length;
+  if (im.length !== n) {
+    throw new RangeError('Real and imaginary parts must have the same length');
+  }
+  if (n <= 1) return;
+
+  if (isPowerOfTwo(n)) {
+    radix2(re, im, inverse);
+  } else {
+    bluestein(re, im, inverse);
+  }
+
+  if (inverse) {
+    for (let k = 0; k < n; k++) {
+      re[k] /= n;
+      im[k] /= n;
+    }
+  }
+}
+
+/**
+ * Hilbert transform of a real sequence, computed in the frequency domain by
+ * shifting positive frequencies by -90° and negative ones by +90°. The
+ * sequence is treated as one period of a periodic signal.
+ */
+export function hilbert(signal: ArrayLike<number>): Float64Array {
+  const n = signal.length;
+  const re = Float64Array.from(signal);
+  const im = new Float64Array(n);
+  fft(re, im);
+
+  for (let k = 1; k < n; k++) {
+    // -j for positive bins, +j for negative bins, 0 at DC and Nyquist
+    const factor = k < n / 2 ? -1 : k > n / 2 ? 1 : 0;
+    const r = re[k];
+    re[k] = -factor * im[k];
+    im[k] = factor * r;
+  }
+  re[0] = 0;
+  im[0] = 0;
+
+  fft(re, im, true);
+  return re;
+}
+
+/**
+ * Power spectral density estimate by Welch's method: Hann-windowed
+ * segments of `fftSize` samples with 50% overlap, averaged. A complex input
+ * (`im` given) yields a two-sided spectrum from -fs/2 to fs/2; a real one
+ * yields the one-sided spectrum from 0 to fs/2. Signals shorter than a
+ * segment are zero-padded.
+ */
+export function powerSpectrum(
+  re: ArrayLike<number>,
+  im: ArrayLike<number> | null,
+  sampleRate: number,
+  fftSize = 1024
+): { frequencies: Float64Array; power: Float64Array } {
+  const size = nextPowerOfTwo(fftSize);
+  const window = Float64Array.from({ length: size }, (_, n) => 0.5 - 0.5 * Math.cos((2 * Math.PI * n) / size));
+  const windowPower = window.reduce((sum, w) => sum + w * w, 0);
+  const hop = size / 2;
+  const sum = new Float64Array(size);
+  let segments = 0;
+
+  for (let start = 0; segments === 0 || start + size <= re.length; start += hop) {
+    const segRe = new Float64Array(size);
+    const segIm = new Float64Array(size);
+    for (let n = 0; n < size && start + n < re.length; n++) {
+      segRe[n] = re[start + n] * window[n];
+      segIm[n] = im ? im[start + n] * window[n] : 0;
+    }
+    fft(segRe, segIm);
+    for (let k = 0; k < size; k++) {
+      sum[k] += segRe[k] * segRe[k] + segIm[k] * segIm[k];
+    }
+    segments++;
+  }
+
+  const scale = 1 / (segments * windowPower * sampleRate);
+  if (im) {
+    // Reorder so frequencies run from -fs/2 upwards
+    const frequencies = Float64Array.from({ length: size }, (_, k) => ((k - size / 2) * sampleRate) / size);
+    const power = Float64Array.from({ length: size }, (_, k) => sum[(k + size / 2) % size] * scale);
+    return { frequencies, power };
+  }
+  const bins = size / 2 + 1;
+  const frequencies = Float64Array.from({ length: bins }, (_, k) => (k * sampleRate) / size);
+  // Fold negative frequencies onto positive ones, except at DC and Nyquist
+  const power = Float64Array.from({ length: bins }, (_, k) => sum[k] * scale * (k === 0 || k === size / 2 ? 1 : 2));
+  return { frequencies, power };
+}
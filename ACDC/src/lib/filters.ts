@@ -0,0 +1,174 @@
+/**
+ * FIR filter design and filtering helpers shared by the modulators.
+ */
+
+import { fft, nextPowerOfTwo } from './fft';
+import type { PulseShaping } from './types';
+
+export const DEFAULT_ROLLOFF = 0.35;
+export const DEFAULT_PULSE_SPAN = 6;
+export const DEFAULT_PULSE_BT = 0.5;
+
+/**
+ * Gaussian low-pass impulse response as used by GMSK, sampled at
+ * `samplesPerSymbol` and truncated to `span` symbols. `bt` is the product of
+ * the 3 dB bandwidth and the symbol period. Taps are scaled to unit sum so
+ * filtering preserves the area of each pulse.
+ */
+export function gaussianTaps(bt: number, samplesPerSymbol: number, span = 4): Float64Array {
+  if (!(bt > 0)) {
+    throw new RangeError('BT product must be positive');
+  }
+  const length = span * samplesPerSymbol + 1;
+  const center = (length - 1) / 2;
+  const taps = new Float64Array(length);
+  // Standard deviation of the Gaussian in symbol periods
+  const sigma = Math.sqrt(Math.LN2) / (2 * Math.PI * bt);
+  let sum = 0;
+  for (let n = 0; n < length; n++) {
+    const t = (n - center) / samplesPerSymbol;
+    taps[n] = Math.exp(-(t * t) / (2 * sigma * sigma));
+    sum += taps[n];
+  }
+  for (let n = 0; n < length; n++) {
+    taps[n] /= sum;
+  }
+  return taps;
+}
+
+/**
+ * Convolves `input` with `taps`, keeping the output aligned with the input
+ * (the filter delay of `(taps.length - 1) / 2` samples is removed). Samples
+ * outside the input are treated as zero.
+ */
+export function convolve(input: ArrayLike<number>, taps: ArrayLike<number>): Float64Array {
+  const output = new Float64Array(input.length);
+  const delay = Math.floor((taps.length - 1) / 2);
+  for (let n = 0; n < input.length; n++) {
+    let acc = 0;
+    for (let k = 0; k < taps.length; k++) {
+      const index = n + delay - k;
+      if (index >= 0 && index < input.length) {
+        acc += taps[k] * input[index];
+      }
+    }
+    output[n] = acc;
+  }
+  return output;
+}
+
+/** sin(πx)/(πx) */
+export function sinc(x: number): number {
+  return x === 0 ? 1 : Math.sin(Math.PI * x) / (Math.PI * x);
+}
+
+/**
+ * Raised-cosine pulse at `t` symbol periods from its centre. It is 1 at
+ * t = 0 and crosses zero at every other symbol instant, so it causes no
+ * intersymbol interference.
+ */
+function raisedCosine(t: number, rolloff: number): number {
+  if (rolloff > 0 && Math.abs(Math.abs(t) - 1 / (2 * rolloff)) < 1e-9) {
+    return (Math.PI / 4) * sinc(1 / (2 * rolloff));
+  }
+  return (sinc(t) * Math.cos(Math.PI * rolloff * t)) / (1 - (2 * rolloff * t) ** 2);
+}
+
+/**
+ * Root-raised-cosine pulse at `t` symbol periods from its centre, scaled to
+ * a peak of 1. Two of them in cascade (transmitter and matched receiver
+ * filter) make a raised cosine.
+ */
+function rootRaisedCosine(t: number, rolloff: number): number {
+  const peak = 1 - rolloff + (4 * rolloff) / Math.PI;
+  if (t === 0) return 1;
+  if (rolloff > 0 && Math.abs(Math.abs(t) - 1 / (4 * rolloff)) < 1e-9) {
+    const angle = Math.PI / (4 * rolloff);
+    return (
+      ((rolloff / Math.SQRT2) * ((1 + 2 / Math.PI) * Math.sin(angle) + (1 - 2 / Math.PI) * Math.cos(angle))) / peak
+    );
+  }
+  const numerator = Math.sin(Math.PI * t * (1 - rolloff)) + 4 * rolloff * t * Math.cos(Math.PI * t * (1 + rolloff));
+  return numerator / (Math.PI * t * (1 - (4 * rolloff * t) ** 2)) / peak;
+}
+
+/**
+ * Samples one symbol pulse at `samplesPerSymbol` samples per symbol, scaled
+ * to a peak of 1. The rectangular pulse lasts exactly one symbol; the other
+ * shapes are truncated to `span` symbols centred on the peak. The Gaussian
+ * pulse is the impulse response of a Gaussian filter with the given
+ * bandwidth-time product.
+ */
+export function pulseShapeTaps(shaping: PulseShaping, samplesPerSymbol: number): Float64Array {
+  const rolloff = shaping.rolloff ?? DEFAULT_ROLLOFF;
+  const span = shaping.span ?? DEFAULT_PULSE_SPAN;
+  if (shaping.shape === 'rect') {
+    return new Float64Array(samplesPerSymbol).fill(1);
+  }
+  if (!Number.isInteger(span) || span < 1) {
+    throw new RangeError('Pulse span must be a whole number of symbols');
+  }
+  if (!(rolloff >= 0 && rolloff <= 1)) {
+    throw new RangeError('Roll-off factor must be between 0 and 1');
+  }
+
+  const length = span * samplesPerSymbol + 1;
+  const center = (length - 1) / 2;
+  if (shaping.shape === 'gaussian') {
+    const taps = gaussianTaps(shaping.bt ?? DEFAULT_PULSE_BT, samplesPerSymbol, span);
+    return taps.map((tap) => tap / taps[center]);
+  }
+  const pulse = shaping.shape === 'rc' ? raisedCosine : rootRaisedCosine;
+  return Float64Array.from({ length }, (_, n) => pulse((n - center) / samplesPerSymbol, rolloff));
+}
+
+/**
+ * First sample of the copy of `taps` that `pulseTrain` lays down for
+ * symbol `k`, so that the pulse is centred on the middle of its period.
+ */
+export function pulseStart(k: number, samplesPerSymbol: number, tapCount: number, offset = 0): number {
+  return offset + Math.round(k * samplesPerSymbol) + Math.floor((samplesPerSymbol - 1) / 2) - Math.floor((tapCount - 1) / 2);
+}
+
+/**
+ * Builds a waveform of `length` samples from one pulse per symbol: symbol
+ * `k` scales a copy of `taps` centred on sample `offset + k·samplesPerSymbol
+ * + (samplesPerSymbol - 1) / 2`, the middle of its symbol period. With a
+ * rectangular pulse this is the familiar held-level waveform.
+ */
+export function pulseTrain(
+  amplitudes: ArrayLike<number>,
+  samplesPerSymbol: number,
+  taps: ArrayLike<number>,
+  length: number,
+  offset = 0
+): Float64Array {
+  const output = new Float64Array(length);
+  for (let k = 0; k < amplitudes.length; k++) {
+    const amplitude = amplitudes[k];
+    if (amplitude === 0) continue;
+    const start = pulseStart(k, samplesPerSymbol, taps.length, offset);
+    for (let j = 0; j < taps.length; j++) {
+      const n = start + j;
+      if (n >= 0 && n < length) {
+        output[n] += amplitude * taps[j];
+      }
+    }
+  }
+  return output;
+}
+
+/**
+ * Magnitude response of an FIR filter at `fftSize / 2 + 1` evenly spaced
+ * frequencies from DC to half the sample rate, normalized to unit gain at
+ * DC. `fftSize` is rounded up to a power of two that fits the taps.
+ */
+export function frequencyResponse(taps: ArrayLike<number>, fftSize = 1024): Float64Array {
+  const size = nextPowerOfTwo(Math.max(fftSize, taps.length));
+  const re = new Float64Array(size);
+  const im = new Float64Array(size);
+  re.set(Array.from(taps));
+  fft(re, im);
+  const dc = Math.abs(re[0]) || 1;
+  return Float64Array.from({ length: size / 2 + 1 }, (_, k) => Math.hypot(re[k], im[k]) / dc);
+}
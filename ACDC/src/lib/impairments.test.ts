@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'vitest';
+import { imageRejectionDb, impairEnvelope, phaseNoise, phaseNoiseLevel, rmsPhaseNoise } from './impairments';
+import { createSignal } from './modulation';
+import type { ImpairmentConfig } from './types';
+
+const SAMPLE_RATE = 64000;
+const mask = [
+  { offset: 1e3, level: -80 },
+  { offset: 1e5, level: -120 }
+];
+
+/** Complex tone e^{j2πfn/fs} over 1024 samples, whole periods for multiples of 62.5 Hz. */
+const tone = (frequency: number) => {
+  const inPhase = createSignal(1024, SAMPLE_RATE);
+  const quadrature = createSignal(1024, SAMPLE_RATE);
+  for (let n = 0; n < 1024; n++) {
+    inPhase.samples[n] = Math.cos((2 * Math.PI * frequency * n) / SAMPLE_RATE);
+    quadrature.samples[n] = Math.sin((2 * Math.PI * frequency * n) / SAMPLE_RATE);
+  }
+  return { inPhase, quadrature };
+};
+
+/** Magnitude of the envelope's component at a frequency, by correlation. */
+const componentAt = (envelope: ReturnType<typeof tone>, frequency: number) => {
+  let re = 0;
+  let im = 0;
+  envelope.inPhase.samples.forEach((i, n) => {
+    const q = envelope.quadrature.samples[n];
+    const theta = (-2 * Math.PI * frequency * n) / SAMPLE_RATE;
+    re += i * Math.cos(theta) - q * Math.sin(theta);
+    im += i * Math.sin(theta) + q * Math.cos(theta);
+  });
+  return Math.hypot(re, im) / envelope.inPhase.samples.length;
+};
+
+describe('phase noise', () => {
+  it('interpolates the mask against log frequency and holds it flat outside', () => {
+    expect(phaseNoiseLevel(mask, 1e4)).toBeCloseTo(-100);
+    expect(phaseNoiseLevel(mask, -1e4)).toBeCloseTo(-100);
+    expect(phaseNoiseLevel(mask, 10)).toBe(-80);
+    expect(phaseNoiseLevel(mask, 1e6)).toBe(-120);
+  });
+
+  it('integrates a flat mask to L·fs', () => {
+    expect(rmsPhaseNoise([{ offset: 1e3, level: -100 }], 1e6)).toBeCloseTo(Math.sqrt(1e-10 * 1e6), 6);
+  });
+
+  it('draws seeded phase noise with the RMS its mask sets', () => {
+    const config = { mask, seed: 3 };
+    const jitter = phaseNoise(1 << 16, SAMPLE_RATE, config);
+    const rms = Math.sqrt(jitter.reduce((sum, x) => sum + x * x, 0) / jitter.length);
+    expect(Math.abs(rms / rmsPhaseNoise(mask, SAMPLE_RATE) - 1)).toBeLessThan(0.1);
+    expect(phaseNoise(1 << 16, SAMPLE_RATE, config)).toEqual(jitter);
+  });
+
+  it('rejects masks that are empty or not increasing', () => {
+    expect(() => phaseNoiseLevel([], 1)).toThrow(RangeError);
+    expect(() => phaseNoiseLevel([mask[1], mask[0]], 1)).toThrow(RangeError);
+  });
+});
+
+describe('impairEnvelope', () => {
+  it('leaves the envelope alone without impairments', () => {
+    const envelope = tone(1000);
+    const out = impairEnvelope(envelope, {});
+    expect(out.inPhase.samples).toEqual(envelope.inPhase.samples);
+    expect(out.quadrature.samples).toEqual(envelope.quadrature.samples);
+  });
+
+  it('shifts the envelope by the frequency offset and adds the DC offset', () => {
+    const config: ImpairmentConfig = { cfo: 500, dcOffset: { re: 0.1, im: -0.2 } };
+    const out = impairEnvelope(tone(1000), config);
+    expect(componentAt(out, 1500)).toBeCloseTo(1);
+    expect(componentAt(out, 1000)).toBeCloseTo(0);
+    expect(out.inPhase.samples.reduce((sum, x) => sum + x, 0) / 1024).toBeCloseTo(0.1);
+    expect(out.quadrature.samples.reduce((sum, x) => sum + x, 0) / 1024).toBeCloseTo(-0.2);
+  });
+
+  it.each([
+    { gainDb: 1, phase: 0 },
+    { gainDb: 0, phase: 0.1 },
+    { gainDb: -0.5, phase: -0.05 }
+  ])('leaks an image as strong as imageRejectionDb predicts for %o', (iqImbalance) => {
+    const out = impairEnvelope(tone(1000), { iqImbalance });
+    const rejection = 20 * Math.log10(componentAt(out, 1000) / componentAt(out, -1000));
+    expect(rejection).toBeCloseTo(imageRejectionDb(iqImbalance), 6);
+  });
+
+  it('keeps the envelope magnitude under phase noise', () => {
+    const out = impairEnvelope(tone(1000), { phaseNoise: { mask, seed: 1 } });
+    out.inPhase.samples.forEach((i, n) => expect(Math.hypot(i, out.quadrature.samples[n])).toBeCloseTo(1));
+  });
+});
+
+describe('imageRejectionDb', () => {
+  it('matches the small-error approximation 4 / (ε² + φ²)', () => {
+    expect(imageRejectionDb({ gainDb: 0, phase: 0 })).toBe(Infinity);
+    const epsilon = 10 ** (0.1 / 20) - 1;
+    const approximation = 10 * Math.log10(4 / (epsilon ** 2 + 0.01 ** 2));
+    expect(imageRejectionDb({ gainDb: 0.1, phase: 0.01 })).toBeCloseTo(approximation, 1);
+  });
+});
@@ -0,0 +1,115 @@
+import { fft, nextPowerOfTwo } from './fft';
+import { createSignal } from './modulation';
+import { createGaussian, createRandom } from './random';
+import type { ImpairmentConfig, IqImbalance, PhaseNoiseConfig, PhaseNoisePoint, Signal } from './types';
+
+/** Points of the log-spaced grid the mask is integrated over. */
+const INTEGRATION_POINTS = 1000;
+
+function checkMask(mask: PhaseNoisePoint[]) {
+  if (mask.length === 0) {
+    throw new RangeError('A phase noise mask needs at least one point');
+  }
+  if (mask.some((point, i) => !(point.offset > 0) || (i > 0 && point.offset <= mask[i - 1].offset))) {
+    throw new RangeError('Phase noise mask offsets must be positive and increasing');
+  }
+}
+
+/**
+ * Level of a phase noise mask at an offset from the carrier, in dBc/Hz:
+ * linear in dB against log frequency between the points, flat beyond them.
+ */
+export function phaseNoiseLevel(mask: PhaseNoisePoint[], offset: number): number {
+  checkMask(mask);
+  const f = Math.abs(offset);
+  const last = mask[mask.length - 1];
+  if (f <= mask[0].offset) return mask[0].level;
+  if (f >= last.offset) return last.level;
+  const upper = mask.findIndex((point) => point.offset > f);
+  const from = mask[upper - 1];
+  const to = mask[upper];
+  const t = Math.log(f / from.offset) / Math.log(to.offset / from.offset);
+  return from.level + t * (to.level - from.level);
+}
+
+/**
+ * RMS phase error in radians that a mask amounts to over ±fs/2. For small
+ * angles the two-sided density of the phase equals the single-sideband
+ * level L(f), so the variance is 2∫L(f)df over positive offsets.
+ */
+export function rmsPhaseNoise(mask: PhaseNoisePoint[], sampleRate: number): number {
+  checkMask(mask);
+  const density = (f: number) => 10 ** (phaseNoiseLevel(mask, f) / 10);
+  const lowest = Math.min(mask[0].offset, sampleRate / 2);
+  let variance = lowest * density(0);
+  const ratio = (sampleRate / 2 / lowest) ** (1 / INTEGRATION_POINTS);
+  for (let k = 0; k < INTEGRATION_POINTS; k++) {
+    const f = lowest * ratio ** k;
+    variance += ((density(f) + density(f * ratio)) / 2) * f * (ratio - 1);
+  }
+  return Math.sqrt(2 * variance);
+}
+
+/**
+ * Seeded phase noise in radians at every sample: white Gaussian noise
+ * shaped in the frequency domain to the two-sided density the mask sets.
+ */
+export function phaseNoise(length: number, sampleRate: number, config: PhaseNoiseConfig): Float64Array {
+  checkMask(config.mask);
+  const size = nextPowerOfTwo(length);
+  const gaussian = createGaussian(createRandom(config.seed));
+  const re = Float64Array.from({ length: size }, () => gaussian());
+  const im = new Float64Array(size);
+  fft(re, im);
+  for (let k = 0; k < size; k++) {
+    const offset = ((k < size / 2 ? k : k - size) * sampleRate) / size;
+    const scale = Math.sqrt(sampleRate * 10 ** (phaseNoiseLevel(config.mask, offset) / 10));
+    re[k] *= scale;
+    im[k] *= scale;
+  }
+  fft(re, im, true);
+  return re.slice(0, length);
+}
+
+/** Power of the wanted signal over its mirror image after an I/Q imbalance, in dB. */
+export function imageRejectionDb(imbalance: IqImbalance): number {
+  const g = 10 ** (-imbalance.gainDb / 20);
+  const cos = Math.cos(imbalance.phase);
+  return 10 * Math.log10((1 + g * g + 2 * g * cos) / (1 + g * g - 2 * g * cos));
+}
+
+/**
+ * Receiver front end applied to a complex envelope I + jQ, in units of the
+ * carrier amplitude. The local oscillator's frequency offset and phase
+ * noise rotate the envelope; the I and Q mixers then each sit half the
+ * phase error off quadrature with the gain error split between them, which
+ * leaks a mirror image of the signal into it; finally the DC offset is
+ * added.
+ */
+export function impairEnvelope(
+  envelope: { inPhase: Signal; quadrature: Signal },
+  config: ImpairmentConfig
+): { inPhase: Signal; quadrature: Signal } {
+  const { samples: i, sampleRate } = envelope.inPhase;
+  const q = envelope.quadrature.samples;
+  const length = i.length;
+  const jitter = config.phaseNoise ? phaseNoise(length, sampleRate, config.phaseNoise) : null;
+  const cfo = config.cfo ?? 0;
+  const { gainDb, phase } = config.iqImbalance ?? { gainDb: 0, phase: 0 };
+  const gainI = 10 ** (gainDb / 40);
+  const gainQ = 1 / gainI;
+  const skewCos = Math.cos(phase / 2);
+  const skewSin = Math.sin(phase / 2);
+  const dc = config.dcOffset ?? { re: 0, im: 0 };
+
+  const inPhase = createSignal(length, sampleRate);
+  const quadrature = createSignal(length, sampleRate);
+  for (let n = 0; n < length; n++) {
+    const theta = (2 * Math.PI * cfo * n) / sampleRate + (jitter ? jitter[n] : 0);
+    const re = i[n] * Math.cos(theta) - q[n] * Math.sin(theta);
+    const im = i[n] * Math.sin(theta) + q[n] * Math.cos(theta);
+    inPhase.samples[n] = gainI * (re * skewCos - im * skewSin) + dc.re;
+    quadrature.samples[n] = gainQ * (im * skewCos - re * skewSin) + dc.im;
+  }
+  return { inPhase, quadrature };
+}
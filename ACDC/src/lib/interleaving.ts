@@ -0,0 +1,55 @@
+import type { InterleaverConfig } from './types';
+
+/**
+ * An interleaver as a permutation: for every output position, the input
+ * position it carries, or -1 for padding.
+ *
+ * The block interleaver writes rows × columns blocks row by row and reads
+ * them out column by column, padding the last block. The convolutional
+ * interleaver deals the symbols round robin onto `branches` delay lines,
+ * branch b holding its symbols back for b·delay passes of the
+ * commutator, and keeps running until every line has been flushed.
+ */
+export function interleaverPermutation(length: number, config: InterleaverConfig): number[] {
+  if (config.type === 'block') {
+    const { rows, columns } = config;
+    if (!Number.isInteger(rows) || !Number.isInteger(columns) || rows < 1 || columns < 1) {
+      throw new RangeError('A block interleaver needs at least one row and one column');
+    }
+    const size = rows * columns;
+    const permutation: number[] = [];
+    for (let start = 0; start < length; start += size) {
+      for (let column = 0; column < columns; column++) {
+        for (let row = 0; row < rows; row++) {
+          const position = start + row * columns + column;
+          permutation.push(position < length ? position : -1);
+        }
+      }
+    }
+    return permutation;
+  }
+
+  const { branches, delay } = config;
+  if (!Number.isInteger(branches) || !Number.isInteger(delay) || branches < 1 || delay < 0) {
+    throw new RangeError('A convolutional interleaver needs at least one branch and a non-negative delay');
+  }
+  const permutation = new Array<number>(length + (branches - 1) * delay * branches).fill(-1);
+  for (let position = 0; position < length; position++) {
+    permutation[position + (position % branches) * delay * branches] = position;
+  }
+  return permutation;
+}
+
+/** Reorders symbols, padding with `fill` where the interleaver needs more than there are. */
+export function interleave<T>(symbols: ArrayLike<T>, config: InterleaverConfig, fill: T): T[] {
+  return interleaverPermutation(symbols.length, config).map((position) => (position < 0 ? fill : symbols[position]));
+}
+
+/** Undoes `interleave` for a stream of `length` symbols, dropping the padding. */
+export function deinterleave<T>(symbols: ArrayLike<T>, config: InterleaverConfig, length: number): T[] {
+  const output = new Array<T>(length);
+  interleaverPermutation(length, config).forEach((position, i) => {
+    if (position >= 0) output[position] = symbols[i];
+  });
+  return output;
+}
@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import {
+  expandBaseMatrix,
+  GALLAGER_MATRIX,
+  ldpcCode,
+  ldpcDecode,
+  ldpcEncode,
+  parseParityCheckMatrix,
+  WIFI_648_BASE,
+  WIFI_648_LIFTING
+} from './ldpc';
+import { createGaussian, createRandom, randomBits } from './random';
+import type { Bits, LdpcCode } from './types';
+
+const gallager = ldpcCode(parseParityCheckMatrix(GALLAGER_MATRIX));
+const wifi = ldpcCode(expandBaseMatrix(WIFI_648_BASE, WIFI_648_LIFTING));
+
+const satisfiesChecks = (codeword: Bits, code: LdpcCode) =>
+  code.matrix.checks.every((check) => check.reduce((sum, v) => sum ^ codeword[v], 0) === 0);
+
+describe('LDPC codes', () => {
+  it('reads the Gallager matrix as a regular (3, 4) code', () => {
+    const { matrix } = gallager;
+    expect(matrix.columns).toBe(20);
+    expect(matrix.checks.every((check) => check.length === 4)).toBe(true);
+    const degrees = new Array(20).fill(0);
+    matrix.checks.flat().forEach((v) => degrees[v]++);
+    expect(degrees.every((degree) => degree === 3)).toBe(true);
+    expect(gallager.k).toBe(7);
+  });
+
+  it('expands the 802.11n base matrix into a rate-1/2 code of 648 bits', () => {
+    expect(wifi.matrix.checks).toHaveLength(324);
+    expect(wifi.n).toBe(648);
+    expect(wifi.k).toBe(324);
+    expect(wifi.dataPositions.slice(0, 3)).toEqual([0, 1, 2]);
+  });
+
+  it.each([
+    ['Gallager', gallager],
+    ['802.11n', wifi]
+  ])('encodes %s codewords that satisfy every check', (_, code) => {
+    const random = createRandom(7);
+    for (let frame = 0; frame < 5; frame++) {
+      const data = randomBits(code.k, random);
+      const codeword = ldpcEncode(data, code);
+      expect(satisfiesChecks(codeword, code)).toBe(true);
+      expect(code.dataPositions.map((position) => codeword[position])).toEqual(Array.from(data));
+    }
+  });
+
+  it('decodes the 802.11n code without errors at 4 dB Eb/N0', () => {
+    const random = createRandom(3);
+    const gaussian = createGaussian(random);
+    const noiseVariance = wifi.n / (2 * wifi.k * 10 ** 0.4);
+    for (let frame = 0; frame < 10; frame++) {
+      const data = randomBits(wifi.k, random);
+      const received = Array.from(ldpcEncode(data, wifi), (bit) => 2 * bit - 1 + Math.sqrt(noiseVariance) * gaussian());
+      const { bits, trace } = ldpcDecode(received, wifi, noiseVariance, 50);
+      expect(Array.from(bits)).toEqual(Array.from(data));
+      expect(trace.length).toBeLessThan(50);
+    }
+  });
+
+  it('stops after one iteration on a clean codeword', () => {
+    const data = randomBits(gallager.k, createRandom(1));
+    const received = Array.from(ldpcEncode(data, gallager), (bit) => 2 * bit - 1);
+    const { bits, trace } = ldpcDecode(received, gallager, 0.5, 20);
+    expect(Array.from(bits)).toEqual(Array.from(data));
+    expect(trace).toHaveLength(1);
+  });
+
+  it('rejects malformed matrices, codes without data and wrong frame lengths', () => {
+    expect(() => parseParityCheckMatrix('')).toThrow();
+    expect(() => parseParityCheckMatrix('1102')).toThrow();
+    expect(() => parseParityCheckMatrix('110\n10')).toThrow();
+    expect(() => ldpcCode(parseParityCheckMatrix('10\n01'))).toThrow(RangeError);
+    expect(() => ldpcEncode([1, 0], gallager)).toThrow(RangeError);
+  });
+});
@@ -0,0 +1,196 @@
+import type { Bits, IterativeDecoding, LdpcCode, ParityCheckMatrix } from './types';
+
+/**
+ * Gallager's (20, 3, 4) example: fifteen checks of four bits each, every
+ * bit in three checks. Two of the checks are redundant, so k = 7.
+ */
+export const GALLAGER_MATRIX = [
+  '11110000000000000000',
+  '00001111000000000000',
+  '00000000111100000000',
+  '00000000000011110000',
+  '00000000000000001111',
+  '10001000100010000000',
+  '01000100010000001000',
+  '00100010000001000100',
+  '00010000001000100010',
+  '00000001000100010001',
+  '10000100000100000100',
+  '01000010001000010000',
+  '00100001000010000010',
+  '00010000100001001000',
+  '00001000010000100001'
+].join('\n');
+
+/**
+ * Base matrix of the IEEE 802.11n rate-1/2 code with 27 × 27 blocks
+ * (n = 648): each entry is the cyclic shift of an identity block, -1 an
+ * all-zero block.
+ */
+export const WIFI_648_BASE = [
+  [0, -1, -1, -1, 0, 0, -1, -1, 0, -1, -1, 0, 1, 0, -1, -1, -1, -1, -1, -1, -1, -1, -1, -1],
+  [22, 0, -1, -1, 17, -1, 0, 0, 12, -1, -1, -1, -1, 0, 0, -1, -1, -1, -1, -1, -1, -1, -1, -1],
+  [6, -1, 0, -1, 10, -1, -1, -1, 24, -1, 0, -1, -1, -1, 0, 0, -1, -1, -1, -1, -1, -1, -1, -1],
+  [2, -1, -1, 0, 20, -1, -1, -1, 25, 0, -1, -1, -1, -1, -1, 0, 0, -1, -1, -1, -1, -1, -1, -1],
+  [23, -1, -1, -1, 3, -1, -1, -1, 0, -1, 9, 11, -1, -1, -1, -1, 0, 0, -1, -1, -1, -1, -1, -1],
+  [24, -1, 23, 1, 17, -1, 3, -1, 10, -1, -1, -1, -1, -1, -1, -1, -1, 0, 0, -1, -1, -1, -1, -1],
+  [25, -1, -1, -1, 8, -1, -1, -1, 7, 18, -1, -1, 0, -1, -1, -1, -1, -1, 0, 0, -1, -1, -1, -1],
+  [13, 24, -1, -1, 0, -1, 8, -1, 6, -1, -1, -1, -1, -1, -1, -1, -1, -1, -1, 0, 0, -1, -1, -1],
+  [7, 20, -1, 16, 22, 10, -1, -1, 23, -1, -1, -1, -1, -1, -1, -1, -1, -1, -1, -1, 0, 0, -1, -1],
+  [11, -1, -1, -1, 19, -1, -1, -1, 13, -1, 3, 17, -1, -1, -1, -1, -1, -1, -1, -1, -1, 0, 0, -1],
+  [25, -1, 8, -1, 23, 18, -1, 14, 9, -1, -1, -1, -1, -1, -1, -1, -1, -1, -1, -1, -1, -1, 0, 0],
+  [3, -1, -1, -1, 16, -1, -1, 2, 25, 5, -1, -1, 1, -1, -1, -1, -1, -1, -1, -1, -1, -1, -1, 0]
+];
+export const WIFI_648_LIFTING = 27;
+
+/** Largest message magnitude, keeping tanh away from ±1. */
+const MAX_LLR = 30;
+
+/**
+ * Reads a dense parity-check matrix, one row of 0s and 1s per line;
+ * spaces and commas between the digits are ignored.
+ */
+export function parseParityCheckMatrix(text: string): ParityCheckMatrix {
+  const rows = text
+    .split('\n')
+    .map((line) => line.replace(/[\s,]/g, ''))
+    .filter(Boolean);
+  if (rows.length === 0) {
+    throw new Error('The parity-check matrix is empty');
+  }
+  if (rows.some((row) => !/^[01]+$/.test(row))) {
+    throw new Error('The parity-check matrix may only contain 0s and 1s');
+  }
+  const columns = rows[0].length;
+  if (rows.some((row) => row.length !== columns)) {
+    throw new Error('Every row of the parity-check matrix needs the same length');
+  }
+  return {
+    columns,
+    checks: rows.map((row) => [...row].flatMap((digit, column) => (digit === '1' ? [column] : [])))
+  };
+}
+
+/** Expands a quasi-cyclic base matrix into a parity-check matrix with `lifting` × `lifting` blocks. */
+export function expandBaseMatrix(base: number[][], lifting: number): ParityCheckMatrix {
+  const checks: number[][] = [];
+  base.forEach((shifts) => {
+    for (let row = 0; row < lifting; row++) {
+      checks.push(
+        shifts.flatMap((shift, block) => (shift < 0 ? [] : [block * lifting + ((row + shift) % lifting)]))
+      );
+    }
+  });
+  return { columns: base[0].length * lifting, checks };
+}
+
+/**
+ * Systematic encoder of the code a parity-check matrix defines, by
+ * Gaussian elimination over GF(2). Pivots are taken from the rightmost
+ * columns first, so for the usual [data | parity] layout the data bits
+ * come first in the codeword.
+ */
+export function ldpcCode(matrix: ParityCheckMatrix): LdpcCode {
+  const n = matrix.columns;
+  const rows = matrix.checks.map((check) => {
+    const row = new Uint8Array(n);
+    check.forEach((column) => (row[column] = 1));
+    return row;
+  });
+  const pivots: number[] = [];
+  for (let column = n - 1; column >= 0 && pivots.length < rows.length; column--) {
+    const rank = pivots.length;
+    const found = rows.findIndex((row, r) => r >= rank && row[column] === 1);
+    if (found < 0) continue;
+    [rows[rank], rows[found]] = [rows[found], rows[rank]];
+    const pivot = rows[rank];
+    rows.forEach((row, r) => {
+      if (r !== rank && row[column]) {
+        for (let c = 0; c < n; c++) row[c] ^= pivot[c];
+      }
+    });
+    pivots.push(column);
+  }
+  if (pivots.length === n) {
+    throw new RangeError('The parity-check matrix has full column rank, so the code carries no data');
+  }
+
+  const isPivot = new Uint8Array(n);
+  pivots.forEach((column) => (isPivot[column] = 1));
+  const dataPositions = Array.from({ length: n }, (_, c) => c).filter((c) => !isPivot[c]);
+  const parityEquations = pivots.map((position, r) => ({
+    position,
+    sources: dataPositions.filter((c) => rows[r][c])
+  }));
+  return { matrix, n, k: dataPositions.length, dataPositions, parityEquations };
+}
+
+/** Encodes k data bits into an n-bit codeword. */
+export function ldpcEncode(bits: ArrayLike<number>, code: LdpcCode): Bits {
+  if (bits.length !== code.k) {
+    throw new RangeError(`An LDPC frame carries exactly ${code.k} data bits`);
+  }
+  const codeword = new Uint8Array(code.n);
+  code.dataPositions.forEach((position, i) => (codeword[position] = bits[i]));
+  code.parityEquations.forEach(({ position, sources }) => {
+    codeword[position] = sources.reduce((sum, source) => sum ^ codeword[source], 0);
+  });
+  return codeword;
+}
+
+/**
+ * Sum-product (belief-propagation) decoding with flooding updates.
+ * `received` holds one BPSK sample per code bit, nominally ±1 for 1/0,
+ * with AWGN of the given variance. Decoding stops as soon as every
+ * parity check is satisfied.
+ */
+export function ldpcDecode(
+  received: ArrayLike<number>,
+  code: LdpcCode,
+  noiseVariance: number,
+  maxIterations: number
+): IterativeDecoding {
+  const { n, matrix } = code;
+  // Log-likelihood ratios log P(0) / P(1), one message per edge of the Tanner graph
+  const channel = Float64Array.from({ length: n }, (_, v) => (-2 * (received[v] ?? 0)) / noiseVariance);
+  const edgeStart: number[] = [];
+  let edges = 0;
+  matrix.checks.forEach((check) => {
+    edgeStart.push(edges);
+    edges += check.length;
+  });
+  const toCheck = new Float64Array(edges);
+  const toBit = new Float64Array(edges);
+  matrix.checks.forEach((check, c) => check.forEach((v, j) => (toCheck[edgeStart[c] + j] = channel[v])));
+
+  const total = new Float64Array(n);
+  const hard = new Uint8Array(n);
+  const trace: Bits[] = [];
+  for (let iteration = 0; iteration < maxIterations; iteration++) {
+    // Check nodes: tanh rule over every other incoming message
+    matrix.checks.forEach((check, c) => {
+      const start = edgeStart[c];
+      const t = check.map((_, j) => Math.tanh(toCheck[start + j] / 2));
+      const prefix = [1];
+      t.forEach((value, j) => prefix.push(prefix[j] * value));
+      let suffix = 1;
+      for (let j = check.length - 1; j >= 0; j--) {
+        const product = prefix[j] * suffix;
+        toBit[start + j] = Math.max(-MAX_LLR, Math.min(MAX_LLR, 2 * Math.atanh(product)));
+        suffix *= t[j];
+      }
+    });
+
+    // Bit nodes: channel plus every check, then the extrinsic part back out
+    total.set(channel);
+    matrix.checks.forEach((check, c) => check.forEach((v, j) => (total[v] += toBit[edgeStart[c] + j])));
+    matrix.checks.forEach((check, c) =>
+      check.forEach((v, j) => (toCheck[edgeStart[c] + j] = total[v] - toBit[edgeStart[c] + j]))
+    );
+
+    total.forEach((llr, v) => (hard[v] = llr < 0 ? 1 : 0));
+    trace.push(Uint8Array.from(code.dataPositions, (position) => hard[position]));
+    if (matrix.checks.every((check) => check.reduce((sum, v) => sum ^ hard[v], 0) === 0)) break;
+  }
+  return { bits: trace[trace.length - 1] ?? new Uint8Array(code.k), trace };
+}
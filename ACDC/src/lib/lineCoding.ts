@@ -0,0 +1,208 @@
+import { sinc } from './filters';
+import type { Bits, LineCode } from './types';
+
+export const LINE_CODES: LineCode[] = [
+  'unipolar-nrz',
+  'nrz-l',
+  'nrz-i',
+  'unipolar-rz',
+  'polar-rz',
+  'manchester',
+  'diff-manchester',
+  'ami',
+  'pseudoternary'
+];
+
+/** Codes whose levels are 0 and 1 rather than ±1. */
+export function isUnipolar(code: LineCode): boolean {
+  return code === 'unipolar-nrz' || code === 'unipolar-rz';
+}
+
+/** Levels a code can take, lowest first. */
+export function lineCodeLevels(code: LineCode): number[] {
+  if (isUnipolar(code)) return [0, 1];
+  if (code === 'polar-rz' || code === 'ami' || code === 'pseudoternary') return [-1, 0, 1];
+  return [-1, 1];
+}
+
+/** Codes whose level changes in the middle of a bit (RZ and Manchester). */
+export function changesMidBit(code: LineCode): boolean {
+  return code === 'unipolar-rz' || code === 'polar-rz' || code === 'manchester' || code === 'diff-manchester';
+}
+
+/**
+ * Line-codes a bitstream into one level per half bit period:
+ *
+ * - Unipolar NRZ: 1 → 1, 0 → 0.
+ * - NRZ-L: 1 → +1, 0 → -1.
+ * - NRZ-I: a 1 inverts the level, a 0 keeps it (starting from -1).
+ * - Unipolar RZ: 1 → 1 for the first half, then 0.
+ * - Polar RZ: ±1 for the first half, then 0.
+ * - Manchester (IEEE 802.3): 1 rises from -1 to +1 mid-bit, 0 falls.
+ * - Differential Manchester: always a mid-bit transition; a 0 adds one at
+ *   the start of the bit.
+ * - AMI: 0 → 0, 1s alternate between +1 and -1.
+ * - Pseudoternary: 1 → 0, 0s alternate between +1 and -1.
+ */
+export function encodeLineHalfBits(bits: Bits, code: LineCode): Int8Array {
+  const halves = new Int8Array(bits.length * 2);
+  let level = -1;
+  let mark = -1;
+  bits.forEach((bit, index) => {
+    let first: number;
+    let second: number;
+    switch (code) {
+      case 'unipolar-nrz':
+        first = second = bit;
+        break;
+      case 'nrz-l':
+        first = second = bit ? 1 : -1;
+        break;
+      case 'nrz-i':
+        if (bit) level = -level;
+        first = second = level;
+        break;
+      case 'unipolar-rz':
+        first = bit;
+        second = 0;
+        break;
+      case 'polar-rz':
+        first = bit ? 1 : -1;
+        second = 0;
+        break;
+      case 'manchester':
+        first = bit ? -1 : 1;
+        second = -first;
+        break;
+      case 'diff-manchester':
+        if (!bit) level = -level;
+        first = level;
+        level = -level;
+        second = level;
+        break;
+      case 'ami':
+      case 'pseudoternary':
+        if (bit === (code === 'ami' ? 1 : 0)) {
+          mark = -mark;
+          first = second = mark;
+        } else {
+          first = second = 0;
+        }
+        break;
+    }
+    halves[2 * index] = first;
+    halves[2 * index + 1] = second;
+  });
+  return halves;
+}
+
+/**
+ * Recovers the bits from one level per half bit period, undoing
+ * `encodeLineHalfBits`. Levels are rounded to the nearest level of the
+ * code, and the codes that carry a bit in a transition compare against the
+ * previous level, starting from the same -1 reference as the encoder.
+ */
+export function decodeLineHalfBits(halves: ArrayLike<number>, code: LineCode): Bits {
+  const bits = new Uint8Array(Math.floor(halves.length / 2));
+  let previous = -1;
+  for (let index = 0; index < bits.length; index++) {
+    const first = Math.round(halves[2 * index]);
+    const second = Math.round(halves[2 * index + 1]);
+    switch (code) {
+      case 'unipolar-nrz':
+      case 'unipolar-rz':
+      case 'nrz-l':
+      case 'polar-rz':
+        bits[index] = first > 0 ? 1 : 0;
+        break;
+      case 'nrz-i':
+        bits[index] = first !== previous ? 1 : 0;
+        break;
+      case 'manchester':
+        bits[index] = first < 0 ? 1 : 0;
+        break;
+      case 'diff-manchester':
+        bits[index] = first === previous ? 1 : 0;
+        break;
+      case 'ami':
+        bits[index] = first !== 0 ? 1 : 0;
+        break;
+      case 'pseudoternary':
+        bits[index] = first === 0 ? 1 : 0;
+        break;
+    }
+    previous = second;
+  }
+  return bits;
+}
+
+/**
+ * Line-coded waveform of a bitstream with `samplesPerBit` samples per bit
+ * (rounded up to an even count so both halves are the same length).
+ */
+export function encodeLine(bits: Bits, code: LineCode, samplesPerBit: number): Float64Array {
+  const halves = encodeLineHalfBits(bits, code);
+  const samplesPerHalf = Math.ceil(samplesPerBit / 2);
+  const levels = new Float64Array(bits.length * samplesPerBit);
+  for (let n = 0; n < levels.length; n++) {
+    const bitIndex = Math.floor(n / samplesPerBit);
+    const half = Math.min(1, Math.floor((n % samplesPerBit) / samplesPerHalf));
+    levels[n] = halves[2 * bitIndex + half];
+  }
+  return levels;
+}
+
+/**
+ * Continuous part of a line code's power spectral density for equiprobable,
+ * independent bits. `f` is in multiples of the bit rate and the result is
+ * normalized to unit bit period and unit level, so codes compare directly.
+ */
+export function lineCodePsd(code: LineCode, f: number): number {
+  switch (code) {
+    case 'unipolar-nrz':
+      return sinc(f) ** 2 / 4;
+    case 'nrz-l':
+    case 'nrz-i':
+      return sinc(f) ** 2;
+    case 'unipolar-rz':
+      return sinc(f / 2) ** 2 / 16;
+    case 'polar-rz':
+      return sinc(f / 2) ** 2 / 4;
+    case 'manchester':
+    case 'diff-manchester':
+      return sinc(f / 2) ** 2 * Math.sin((Math.PI * f) / 2) ** 2;
+    case 'ami':
+    case 'pseudoternary':
+      return sinc(f) ** 2 * Math.sin(Math.PI * f) ** 2;
+  }
+}
+
+/**
+ * Discrete spectral lines of a line code (only unipolar codes have them)
+ * at non-negative multiples of the bit rate up to `maxFrequency`, in the
+ * same units as `lineCodePsd`.
+ */
+export function lineCodeSpectralLines(code: LineCode, maxFrequency: number): { frequency: number; power: number }[] {
+  const lines: { frequency: number; power: number }[] = [];
+  for (let k = 0; k <= maxFrequency; k++) {
+    let power = 0;
+    if (code === 'unipolar-nrz') {
+      power = k === 0 ? 1 / 4 : 0;
+    } else if (code === 'unipolar-rz') {
+      power = sinc(k / 2) ** 2 / 16;
+    }
+    if (power > 1e-12) {
+      lines.push({ frequency: k, power });
+    }
+  }
+  return lines;
+}
+
+/** Frequency of the first spectral null above DC, in multiples of the bit rate. */
+export function lineCodeFirstNull(code: LineCode): number {
+  // All nulls sit on multiples of half the bit rate
+  for (let k = 1; k <= 8; k++) {
+    if (lineCodePsd(code, k / 2) < 1e-12) return k / 2;
+  }
+  return Infinity;
+}
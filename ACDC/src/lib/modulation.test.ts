@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { demodulate } from './demodulation';
+import { LINE_CODES } from './lineCoding';
+import { formatBits, modulate, parseBits, supportsLineCoding } from './modulation';
+import { createRandom, randomBits } from './random';
+import type { LineCode, ModulationConfig, ModulationType, PulseShape } from './types';
+
+const MODULATIONS: ModulationType[] = [
+  'ask',
+  'fsk',
+  'psk',
+  'bask',
+  'bfsk',
+  'bpsk',
+  'qpsk',
+  '8psk',
+  '16qam',
+  '64qam',
+  '256qam',
+  '16apsk',
+  '32apsk',
+  'cpfsk',
+  'msk',
+  'gmsk',
+  'oqpsk',
+  'pi4dqpsk',
+  'dbpsk'
+];
+
+const PULSE_SHAPES: PulseShape[] = ['rect', 'rc', 'rrc', 'gaussian'];
+
+const baseConfig: Omit<ModulationConfig, 'modType'> = {
+  frequency: 4000,
+  amplitude: 1,
+  bitrate: 1000,
+  freqDev: 2000,
+  samplesPerBit: 64
+};
+
+describe('modulate and demodulate', () => {
+  const bits = randomBits(48, createRandom(7));
+
+  const combinations = MODULATIONS.flatMap((modType) =>
+    (supportsLineCoding(modType) ? LINE_CODES : (['unipolar-nrz'] as LineCode[])).flatMap((lineCode) =>
+      PULSE_SHAPES.map((shape) => [modType, lineCode, shape] as const)
+    )
+  );
+
+  it.each(combinations)('round-trips %s with %s and %s pulses without noise', (modType, lineCode, shape) => {
+    const config = { ...baseConfig, modType, lineCode, pulseShaping: { shape } };
+    const { modulated } = modulate(bits, config);
+    expect(formatBits(demodulate(modulated, config, bits.length))).toBe(formatBits(bits));
+  });
+
+  it('runs one sample period per sample and one bit period per bit', () => {
+    const { modulated, t, symbolRate } = modulate('1011', { ...baseConfig, modType: 'qpsk' });
+    expect(modulated.sampleRate).toBe(64000);
+    expect(modulated.samples.length).toBe(4 * 64);
+    expect(t[1]).toBeCloseTo(1 / 64000);
+    expect(symbolRate).toBe(500);
+  });
+
+  it('rejects anything but 0s and 1s', () => {
+    expect(() => parseBits('10x1')).toThrow();
+    expect(() => parseBits('')).toThrow();
+  });
+});
@@ -0,0 +1,255 @@
+import { bitsToSymbols, getBitsPerSymbol, getConstellation, padToSymbols } from './constellation';
+import { convolve, gaussianTaps, pulseShapeTaps, pulseTrain } from './filters';
+import { changesMidBit, encodeLine, encodeLineHalfBits, isUnipolar, lineCodeLevels } from './lineCoding';
+import type { Bits, Complex, ModulationConfig, ModulationResult, ModulationType, Signal } from './types';
+
+export const DEFAULT_SAMPLES_PER_BIT = 300;
+export const DEFAULT_MODULATION_INDEX = 0.5;
+export const DEFAULT_BT = 0.3;
+
+/** Number of bit periods the GMSK Gaussian filter is truncated to. */
+export const GAUSSIAN_SPAN = 4;
+
+/** Modulations that key the carrier frequency rather than a constellation point. */
+export function isFrequencyKeyed(modType: ModulationType): boolean {
+  return ['fsk', 'bfsk', 'cpfsk', 'msk', 'gmsk'].includes(modType);
+}
+
+/** Modulations that carry data in the phase change between symbols. */
+export function isDifferential(modType: ModulationType): modType is 'dbpsk' | 'pi4dqpsk' {
+  return modType === 'dbpsk' || modType === 'pi4dqpsk';
+}
+
+/** Continuous-phase modulations, whose phase is integrated from a frequency pulse. */
+export function isContinuousPhase(modType: ModulationType): boolean {
+  return modType === 'cpfsk' || modType === 'msk' || modType === 'gmsk';
+}
+
+/** Binary, non-differential modulations, which key the carrier from a line-coded baseband. */
+export function supportsLineCoding(modType: ModulationType): boolean {
+  return getBitsPerSymbol(modType) === 1 && !isDifferential(modType);
+}
+
+/**
+ * Parses a string of '0'/'1' characters into a bitstream.
+ * Throws if the string is empty or contains anything else.
+ */
+export function parseBits(text: string): Bits {
+  if (!/^[01]+$/.test(text)) {
+    throw new Error('Binary data must contain only 0s and 1s');
+  }
+  return Uint8Array.from(text, (c) => (c === '1' ? 1 : 0));
+}
+
+export function formatBits(bits: ArrayLike<number>): string {
+  return Array.from(bits, (b) => (b ? '1' : '0')).join('');
+}
+
+export function createSignal(length: number, sampleRate: number): Signal {
+  return { samples: new Float64Array(length), sampleRate };
+}
+
+/**
+ * Excess phase of a binary continuous-phase modulation at every sample.
+ * The polar baseband `drive` sets the instantaneous frequency to
+ * `drive·h·bitrate/2` ('1' up, '0' down), so the phase moves by ±πh over
+ * one bit without ever jumping. GMSK smooths the frequency pulse with a
+ * Gaussian filter first.
+ */
+function continuousPhase(drive: Float64Array, samplesPerBit: number, h: number, bt: number | null): Float64Array {
+  let frequency = drive;
+  if (bt !== null) {
+    frequency = convolve(frequency, gaussianTaps(bt, samplesPerBit, GAUSSIAN_SPAN));
+  }
+
+  const phase = new Float64Array(frequency.length);
+  const step = (Math.PI * h) / samplesPerBit;
+  for (let n = 1; n < phase.length; n++) {
+    phase[n] = phase[n - 1] + step * frequency[n - 1];
+  }
+  return phase;
+}
+
+/** π/4-DQPSK phase change per dibit value (Gray coded, as in IS-54). */
+export const PI4_DQPSK_STEPS = [Math.PI / 4, (3 * Math.PI) / 4, -Math.PI / 4, (-3 * Math.PI) / 4];
+
+/**
+ * Differentially encodes padded bits into unit-amplitude symbols, starting
+ * from a reference phase of 0. DBPSK advances the phase by π for a '1' and
+ * keeps it for a '0'; π/4-DQPSK advances it by an odd multiple of π/4 per
+ * dibit, so consecutive symbols alternate between two QPSK grids and the
+ * envelope never passes through the origin.
+ */
+export function encodeDifferential(bits: Bits, modType: 'dbpsk' | 'pi4dqpsk'): Complex[] {
+  const symbols: Complex[] = [];
+  let phase = 0;
+  if (modType === 'dbpsk') {
+    bits.forEach((bit) => {
+      phase += bit ? Math.PI : 0;
+      symbols.push({ re: Math.round(Math.cos(phase)), im: 0 });
+    });
+  } else {
+    bitsToSymbols(bits, 2).forEach((value) => {
+      phase += PI4_DQPSK_STEPS[value];
+      symbols.push({ re: Math.cos(phase), im: Math.sin(phase) });
+    });
+  }
+  return symbols;
+}
+
+/** All phase states a differential modulation can occupy. */
+function differentialStates(modType: 'dbpsk' | 'pi4dqpsk'): Complex[] {
+  const count = modType === 'dbpsk' ? 2 : 8;
+  return Array.from({ length: count }, (_, k) => {
+    const phase = (2 * Math.PI * k) / count;
+    return { re: Math.cos(phase), im: Math.sin(phase) };
+  });
+}
+
+/**
+ * Keys a sinusoidal carrier with a bitstream.
+ *
+ * Bits are grouped into symbols of `bitsPerSymbol` bits (the last symbol is
+ * zero-padded) and each symbol is mapped to a complex envelope I + jQ, which
+ * is up-converted as `A·(I·sin ωt + Q·cos ωt)`. The FSK family instead
+ * rotates the envelope at the tone offset. Each bit occupies
+ * `samplesPerBit` samples, so the sample rate of every returned signal is
+ * `bitrate * samplesPerBit` and a symbol lasts `bitsPerSymbol` bit periods.
+ * OQPSK output runs one bit period longer to fit its delayed Q branch.
+ */
+export function modulate(bits: Bits | string, config: ModulationConfig): ModulationResult {
+  const data = typeof bits === 'string' ? parseBits(bits) : bits;
+  const { modType, frequency, amplitude, bitrate, freqDev } = config;
+  const modulationIndex = config.modulationIndex ?? DEFAULT_MODULATION_INDEX;
+  const samplesPerBit = config.samplesPerBit ?? DEFAULT_SAMPLES_PER_BIT;
+
+  if (!(bitrate > 0)) {
+    throw new RangeError('Bit rate must be positive');
+  }
+  if (modType === 'cpfsk' && !(modulationIndex > 0)) {
+    throw new RangeError('Modulation index must be positive');
+  }
+
+  const constellation = getConstellation(modType, config);
+  const bitsPerSymbol = getBitsPerSymbol(modType);
+  const padded = padToSymbols(data, bitsPerSymbol);
+  let symbols: Complex[] = [];
+  let referencePoints: Complex[] = [];
+  if (constellation) {
+    symbols = bitsToSymbols(padded, bitsPerSymbol).map((value) => constellation.points[value]);
+    referencePoints = constellation.points;
+  } else if (isDifferential(modType)) {
+    symbols = encodeDifferential(padded, modType);
+    referencePoints = differentialStates(modType);
+  }
+
+  const sampleRate = bitrate * samplesPerBit;
+  const samplesPerSymbol = samplesPerBit * bitsPerSymbol;
+  // The OQPSK Q branch is delayed by half a symbol, so its last symbol ends
+  // one bit period after the I branch
+  const qDelay = modType === 'oqpsk' ? samplesPerBit : 0;
+  const length = padded.length * samplesPerBit + qDelay;
+  const t = new Float64Array(length);
+  const baseband = createSignal(length, sampleRate);
+  const carrier = createSignal(length, sampleRate);
+  const inPhase = createSignal(length, sampleRate);
+  const quadrature = createSignal(length, sampleRate);
+  const phase = createSignal(length, sampleRate);
+  const modulated = createSignal(length, sampleRate);
+
+  // Line-coded drive levels. Antipodal keying (PSK and the FSK family)
+  // turns the 0/1 levels of unipolar codes into ±1; ASK keys the amplitude
+  // with the levels as they are.
+  const lineCode = supportsLineCoding(modType) ? config.lineCode ?? 'unipolar-nrz' : 'unipolar-nrz';
+  const levels = encodeLine(padded, lineCode, samplesPerBit);
+  const antipodal = modType !== 'ask' && modType !== 'bask';
+  const toDrive = (level: number) => (antipodal && isUnipolar(lineCode) ? 2 * level - 1 : level);
+  // Codes that change mid-bit send one pulse per half bit
+  const halves = encodeLineHalfBits(padded, lineCode);
+  const chips = changesMidBit(lineCode)
+    ? Array.from(halves, toDrive)
+    : Array.from({ length: padded.length }, (_, k) => toDrive(halves[2 * k]));
+  const samplesPerChip = (samplesPerBit * padded.length) / chips.length;
+  const shaping = config.pulseShaping ?? { shape: 'rect' };
+  const drive = pulseTrain(
+    chips,
+    samplesPerChip,
+    pulseShapeTaps(shaping, Math.round(samplesPerChip)),
+    padded.length * samplesPerBit
+  );
+
+  // Shaped complex envelope of the keyed modulations. Unipolar NRZ keeps the
+  // bit mapping; other line codes set the envelope directly.
+  const lineKeyed = lineCode !== 'unipolar-nrz';
+  let activeConstellation = constellation;
+  let inPhaseWave: Float64Array;
+  let quadratureWave: Float64Array;
+  if (lineKeyed && !isFrequencyKeyed(modType)) {
+    activeConstellation = null;
+    referencePoints = lineCodeLevels(lineCode).map((level) => ({ re: toDrive(level), im: 0 }));
+    symbols = chips.map((chip) => ({ re: chip, im: 0 }));
+    inPhaseWave = drive;
+    quadratureWave = new Float64Array(length);
+  } else {
+    const taps = pulseShapeTaps(shaping, samplesPerSymbol);
+    inPhaseWave = pulseTrain(symbols.map((s) => s.re), samplesPerSymbol, taps, length);
+    quadratureWave = pulseTrain(symbols.map((s) => s.im), samplesPerSymbol, taps, length, qDelay);
+  }
+
+  const cpmPhase = isContinuousPhase(modType)
+    ? continuousPhase(
+        drive,
+        samplesPerBit,
+        modType === 'cpfsk' ? modulationIndex : 0.5,
+        modType === 'gmsk' ? config.bt ?? DEFAULT_BT : null
+      )
+    : null;
+
+  for (let n = 0; n < length; n++) {
+    const time = n / sampleRate;
+    const omegaT = 2 * Math.PI * frequency * time;
+
+    let i: number;
+    let q: number;
+    let theta: number;
+    if (!isFrequencyKeyed(modType)) {
+      i = inPhaseWave[n] ?? 0;
+      q = quadratureWave[n];
+      theta = Math.atan2(q, i);
+    } else {
+      if (cpmPhase) {
+        theta = cpmPhase[n];
+      } else {
+        // FSK: a high level ('1' in NRZ) sits on the carrier and a low one
+        // is offset by freqDev, with shaped levels in between. The phase
+        // follows absolute time, so it jumps at level changes.
+        theta = Math.PI * freqDev * time * (1 - (drive[n] ?? 1));
+      }
+      i = Math.cos(theta);
+      q = Math.sin(theta);
+    }
+
+    t[n] = time;
+    baseband.samples[n] = levels[n] ?? 0;
+    carrier.samples[n] = amplitude * Math.sin(omegaT);
+    inPhase.samples[n] = i;
+    quadrature.samples[n] = q;
+    phase.samples[n] = theta;
+    modulated.samples[n] = amplitude * (i * Math.sin(omegaT) + q * Math.cos(omegaT));
+  }
+
+  return {
+    t,
+    baseband,
+    carrier,
+    inPhase,
+    quadrature,
+    phase,
+    modulated,
+    bitsPerSymbol,
+    symbolRate: bitrate / bitsPerSymbol,
+    constellation: activeConstellation,
+    referencePoints,
+    symbols
+  };
+}
@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+import { createSignal } from './modulation';
+import {
+  applyMultipath,
+  coherenceBandwidth,
+  delaySpread,
+  MULTIPATH_PROFILES,
+  multipathResponse,
+  profileTaps
+} from './multipath';
+import type { MultipathProfile, MultipathTap } from './types';
+
+/** Two equal paths 1 µs apart, in phase. */
+const twoPath: MultipathTap[] = [
+  { delay: 0, gainDb: 0, phase: 0 },
+  { delay: 1e-6, gainDb: 0, phase: 0 }
+];
+
+describe('multipath profiles', () => {
+  it.each(Object.keys(MULTIPATH_PROFILES) as MultipathProfile[])('turns the %s profile into seeded taps', (profile) => {
+    const taps = profileTaps(profile, 4);
+    expect(taps.map((tap) => tap.delay * 1e9)).toEqual(
+      MULTIPATH_PROFILES[profile].delays.map((delay) => expect.closeTo(delay, 6))
+    );
+    expect(profileTaps(profile, 4)).toEqual(taps);
+    expect(profileTaps(profile, 5)).not.toEqual(taps);
+  });
+
+  // Published RMS delay spreads: 43 ns for EPA, 357 ns for EVA and 991 ns for ETU
+  it.each([
+    ['epa', 43e-9],
+    ['eva', 357e-9],
+    ['etu', 991e-9]
+  ] as const)('gives %s its published delay spread', (profile, rms) => {
+    expect(Math.abs(delaySpread(profileTaps(profile, 1)).rmsDelay / rms - 1)).toBeLessThan(0.01);
+  });
+});
+
+describe('delay spread', () => {
+  it('weighs the delays by path power', () => {
+    expect(delaySpread(twoPath).meanDelay).toBeCloseTo(0.5e-6, 12);
+    expect(delaySpread(twoPath).rmsDelay).toBeCloseTo(0.5e-6, 12);
+    expect(delaySpread([twoPath[0]]).rmsDelay).toBe(0);
+  });
+
+  it('turns the delay spread into a coherence bandwidth', () => {
+    expect(coherenceBandwidth(1e-6)).toBeCloseTo(200e3);
+    expect(coherenceBandwidth(0)).toBe(Infinity);
+  });
+
+  it('rejects an empty or negatively delayed channel', () => {
+    expect(() => delaySpread([])).toThrow(RangeError);
+    expect(() => delaySpread([{ delay: -1e-6, gainDb: 0, phase: 0 }])).toThrow(RangeError);
+  });
+});
+
+describe('multipathResponse', () => {
+  it('notches where two equal paths cancel', () => {
+    const [dc, notch, peak] = multipathResponse(twoPath, [0, 0.5e6, 1e6]);
+    expect(Math.hypot(dc.re, dc.im)).toBeCloseTo(Math.SQRT2);
+    expect(Math.hypot(notch.re, notch.im)).toBeCloseTo(0);
+    expect(Math.hypot(peak.re, peak.im)).toBeCloseTo(Math.SQRT2);
+  });
+
+  // The EVA delays are whole multiples of 10 ns, so 100 MHz spans one period of the response
+  it('passes unit power on average across the band', () => {
+    const frequencies = Array.from({ length: 1000 }, (_, k) => k * 1e5);
+    const response = multipathResponse(profileTaps('eva', 2), frequencies);
+    const power = response.reduce((sum, h) => sum + h.re ** 2 + h.im ** 2, 0) / response.length;
+    expect(power).toBeCloseTo(1);
+  });
+});
+
+describe('applyMultipath', () => {
+  it('adds delayed, scaled copies of the envelope', () => {
+    const sampleRate = 1e6;
+    const inPhase = createSignal(64, sampleRate);
+    const quadrature = createSignal(64, sampleRate);
+    inPhase.samples.set([1, 0.5, -1], 10);
+    quadrature.samples.set([0.25], 10);
+    const taps: MultipathTap[] = [
+      { delay: 0, gainDb: 0, phase: 0 },
+      { delay: 3e-6, gainDb: 0, phase: Math.PI / 2 }
+    ];
+    const out = applyMultipath({ inPhase, quadrature }, taps);
+    // Each path carries half the power; the second turns I into Q
+    const g = Math.SQRT1_2;
+    const expectedI = [g, g / 2, -g, -g / 4, 0, 0];
+    const expectedQ = [g / 4, 0, 0, g, g / 2, -g];
+    expectedI.forEach((value, n) => expect(out.inPhase.samples[10 + n]).toBeCloseTo(value));
+    expectedQ.forEach((value, n) => expect(out.quadrature.samples[10 + n]).toBeCloseTo(value));
+    expect(out.inPhase.samples[40]).toBeCloseTo(0);
+  });
+});
@@ -0,0 +1,114 @@
+import { fft, nextPowerOfTwo } from './fft';
+import { createSignal } from './modulation';
+import { createRandom } from './random';
+import type { Complex, MultipathProfile, MultipathTap, Signal } from './types';
+
+/**
+ * Power delay profiles of the ITU-R M.1225 Pedestrian A and Vehicular A
+ * channels and the 3GPP TS 36.101 EPA, EVA and ETU channels: excess delay
+ * in ns and relative power in dB.
+ */
+export const MULTIPATH_PROFILES: Record<MultipathProfile, { delays: number[]; powers: number[] }> = {
+  'itu-ped-a': { delays: [0, 110, 190, 410], powers: [0, -9.7, -19.2, -22.8] },
+  'itu-veh-a': { delays: [0, 310, 710, 1090, 1730, 2510], powers: [0, -1, -9, -10, -15, -20] },
+  epa: { delays: [0, 30, 70, 90, 110, 190, 410], powers: [0, -1, -2, -3, -8, -17.2, -20.8] },
+  eva: {
+    delays: [0, 30, 150, 310, 370, 710, 1090, 1730, 2510],
+    powers: [0, -1.5, -1.4, -3.6, -0.6, -9.1, -7, -12, -16.9]
+  },
+  etu: {
+    delays: [0, 50, 120, 200, 230, 500, 1600, 2300, 5000],
+    powers: [-1, -1, -1, 0, 0, 0, -3, -5, -7]
+  }
+};
+
+/** Taps of a standard profile, each given a random phase from the seed. */
+export function profileTaps(profile: MultipathProfile, seed: number): MultipathTap[] {
+  const random = createRandom(seed);
+  const { delays, powers } = MULTIPATH_PROFILES[profile];
+  return delays.map((delay, i) => ({ delay: delay * 1e-9, gainDb: powers[i], phase: 2 * Math.PI * random() - Math.PI }));
+}
+
+/** Complex gain of every tap, scaled so the channel passes unit total power. */
+function tapGains(taps: MultipathTap[]): Complex[] {
+  const total = taps.reduce((sum, tap) => sum + 10 ** (tap.gainDb / 10), 0);
+  if (taps.length === 0 || !(total > 0)) {
+    throw new RangeError('A multipath channel needs at least one tap');
+  }
+  if (taps.some((tap) => !(tap.delay >= 0))) {
+    throw new RangeError('Tap delays cannot be negative');
+  }
+  return taps.map((tap) => {
+    const magnitude = Math.sqrt(10 ** (tap.gainDb / 10) / total);
+    return { re: magnitude * Math.cos(tap.phase), im: magnitude * Math.sin(tap.phase) };
+  });
+}
+
+/** Power-weighted mean excess delay and RMS delay spread, in seconds. */
+export function delaySpread(taps: MultipathTap[]): { meanDelay: number; rmsDelay: number } {
+  const powers = tapGains(taps).map((gain) => gain.re ** 2 + gain.im ** 2);
+  const meanDelay = taps.reduce((sum, tap, i) => sum + powers[i] * tap.delay, 0);
+  const meanSquare = taps.reduce((sum, tap, i) => sum + powers[i] * tap.delay ** 2, 0);
+  return { meanDelay, rmsDelay: Math.sqrt(Math.max(0, meanSquare - meanDelay ** 2)) };
+}
+
+/**
+ * Bandwidth over which the frequency response stays correlated above 0.5,
+ * about 1 / (5 στ) for an RMS delay spread στ. Infinite for a single path.
+ */
+export function coherenceBandwidth(rmsDelay: number): number {
+  return rmsDelay > 0 ? 1 / (5 * rmsDelay) : Infinity;
+}
+
+/** Frequency response at the given offsets from the carrier, in Hz. */
+export function multipathResponse(taps: MultipathTap[], frequencies: number[]): Complex[] {
+  const gains = tapGains(taps);
+  return frequencies.map((f) =>
+    taps.reduce(
+      (sum, tap, i) => {
+        const theta = -2 * Math.PI * f * tap.delay;
+        return {
+          re: sum.re + gains[i].re * Math.cos(theta) - gains[i].im * Math.sin(theta),
+          im: sum.im + gains[i].re * Math.sin(theta) + gains[i].im * Math.cos(theta)
+        };
+      },
+      { re: 0, im: 0 }
+    )
+  );
+}
+
+/**
+ * Passes the complex envelope I + jQ of a signal through the tapped delay
+ * line. Delays need not be whole samples: the envelope is filtered in the
+ * frequency domain, zero-padded past the longest delay so the echoes do
+ * not wrap around, and cut back to its own length, so echoes arriving
+ * after the end of the signal are lost.
+ */
+export function applyMultipath(
+  envelope: { inPhase: Signal; quadrature: Signal },
+  taps: MultipathTap[]
+): { inPhase: Signal; quadrature: Signal } {
+  const { samples, sampleRate } = envelope.inPhase;
+  const length = samples.length;
+  const longest = Math.max(...taps.map((tap) => tap.delay));
+  const size = nextPowerOfTwo(length + Math.ceil(longest * sampleRate) + 1);
+  const re = new Float64Array(size);
+  const im = new Float64Array(size);
+  re.set(samples);
+  im.set(envelope.quadrature.samples);
+  fft(re, im);
+
+  const frequencies = Array.from({ length: size }, (_, k) => ((k < size / 2 ? k : k - size) * sampleRate) / size);
+  multipathResponse(taps, frequencies).forEach((h, k) => {
+    const r = re[k];
+    re[k] = r * h.re - im[k] * h.im;
+    im[k] = r * h.im + im[k] * h.re;
+  });
+  fft(re, im, true);
+
+  const inPhase = createSignal(length, sampleRate);
+  const quadrature = createSignal(length, sampleRate);
+  inPhase.samples.set(re.subarray(0, length));
+  quadrature.samples.set(im.subarray(0, length));
+  return { inPhase, quadrature };
+}
@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import { createSignal } from './modulation';
+import { isPilot, ofdmDemodulate, ofdmModulate } from './ofdm';
+import { createRandom, randomBits } from './random';
+import type { OfdmConfig, OfdmSubcarrierModulation, PilotPattern, Signal } from './types';
+
+const baseConfig: Omit<OfdmConfig, 'modulation' | 'pilotPattern'> = {
+  subcarriers: 64,
+  cyclicPrefix: 16,
+  sampleRate: 1e6
+};
+
+const bits = randomBits(1200, createRandom(11));
+
+/** Passes a complex baseband signal through a tapped delay line with complex gains. */
+const multipath = (inPhase: Signal, quadrature: Signal, taps: { delay: number; re: number; im: number }[]) => {
+  const length = inPhase.samples.length;
+  const { sampleRate } = inPhase;
+  const out = { inPhase: createSignal(length, sampleRate), quadrature: createSignal(length, sampleRate) };
+  for (let n = 0; n < length; n++) {
+    for (const { delay, re, im } of taps) {
+      if (n < delay) continue;
+      const i = inPhase.samples[n - delay];
+      const q = quadrature.samples[n - delay];
+      out.inPhase.samples[n] += re * i - im * q;
+      out.quadrature.samples[n] += re * q + im * i;
+    }
+  }
+  return out;
+};
+
+describe('OFDM', () => {
+  const cases = (['bpsk', 'qpsk', '16qam', '64qam'] as OfdmSubcarrierModulation[]).flatMap((modulation) =>
+    (['none', 'comb', 'block'] as PilotPattern[]).map((pilotPattern) => [modulation, pilotPattern] as const)
+  );
+
+  it.each(cases)('round-trips %s with %s pilots over an ideal channel', (modulation, pilotPattern) => {
+    const config = { ...baseConfig, modulation, pilotPattern };
+    const sent = ofdmModulate(bits, config);
+    expect(sent.inPhase.samples).toHaveLength(sent.symbolCount * 80);
+    const { bits: received } = ofdmDemodulate(sent.inPhase, sent.quadrature, config);
+    expect(Array.from(received)).toEqual(Array.from(sent.bits));
+    expect(Array.from(sent.bits.slice(0, bits.length))).toEqual(Array.from(bits));
+  });
+
+  it('keeps unit average power', () => {
+    const { inPhase, quadrature } = ofdmModulate(bits, { ...baseConfig, modulation: 'qpsk', pilotPattern: 'none' });
+    const power = inPhase.samples.reduce((sum, i, n) => sum + i * i + quadrature.samples[n] ** 2, 0);
+    expect(power / inPhase.samples.length).toBeCloseTo(1, 1);
+  });
+
+  // Echoes inside the cyclic prefix leave every subcarrier with a flat gain
+  // that the pilots measure
+  it.each(['comb', 'block'] as const)('equalizes a static multipath channel with %s pilots', (pilotPattern) => {
+    const config: OfdmConfig = { ...baseConfig, modulation: 'qpsk', pilotPattern };
+    const sent = ofdmModulate(bits, config);
+    const faded = multipath(sent.inPhase, sent.quadrature, [
+      { delay: 0, re: 0.8, im: 0.4 },
+      { delay: 3, re: -0.2, im: 0.25 }
+    ]);
+    const { bits: received } = ofdmDemodulate(faded.inPhase, faded.quadrature, config);
+    expect(Array.from(received)).toEqual(Array.from(sent.bits));
+  });
+
+  it('cannot undo a channel without pilots', () => {
+    const config: OfdmConfig = { ...baseConfig, modulation: 'qpsk', pilotPattern: 'none' };
+    const sent = ofdmModulate(bits, config);
+    const rotated = multipath(sent.inPhase, sent.quadrature, [{ delay: 0, re: 0, im: 1 }]);
+    const { bits: received } = ofdmDemodulate(rotated.inPhase, rotated.quadrature, config);
+    expect(Array.from(received)).not.toEqual(Array.from(sent.bits));
+  });
+
+  it('places comb pilots across the band and block pilots on whole symbols', () => {
+    const comb: OfdmConfig = { ...baseConfig, modulation: 'qpsk', pilotPattern: 'comb', pilotSpacing: 4 };
+    expect([0, 4, 60, 63].map((k) => isPilot(comb, 1, k))).toEqual([true, true, true, true]);
+    expect(isPilot(comb, 1, 5)).toBe(false);
+    const block: OfdmConfig = { ...comb, pilotPattern: 'block' };
+    expect(isPilot(block, 0, 5)).toBe(true);
+    expect(isPilot(block, 1, 0)).toBe(false);
+    expect(isPilot(block, 4, 17)).toBe(true);
+  });
+
+  it('rejects a subcarrier count that is not a power of two', () => {
+    const config: OfdmConfig = { ...baseConfig, subcarriers: 48, modulation: 'qpsk', pilotPattern: 'none' };
+    expect(() => ofdmModulate(bits, config)).toThrow(RangeError);
+  });
+});
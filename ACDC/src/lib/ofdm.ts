@@ -0,0 +1,174 @@
+import { bitsToSymbols, getConstellation, nearestSymbol, padToSymbols, symbolsToBits } from './constellation';
+import { fft, isPowerOfTwo } from './fft';
+import { createSignal, parseBits } from './modulation';
+import type { Bits, Complex, OfdmConfig, OfdmReception, OfdmResult, Signal } from './types';
+
+export const DEFAULT_PILOT_SPACING = 4;
+
+/** Pilots are sent as +1 on the real axis. */
+const PILOT: Complex = { re: 1, im: 0 };
+
+function validate(config: OfdmConfig): void {
+  if (!isPowerOfTwo(config.subcarriers) || config.subcarriers < 4) {
+    throw new RangeError('Subcarrier count must be a power of two of at least 4');
+  }
+  if (!Number.isInteger(config.cyclicPrefix) || config.cyclicPrefix < 0 || config.cyclicPrefix > config.subcarriers) {
+    throw new RangeError('Cyclic prefix must be between 0 and the subcarrier count');
+  }
+  const spacing = config.pilotSpacing ?? DEFAULT_PILOT_SPACING;
+  if (config.pilotPattern !== 'none' && (!Number.isInteger(spacing) || spacing < 2)) {
+    throw new RangeError('Pilot spacing must be a whole number of at least 2');
+  }
+}
+
+/** Whether subcarrier `k` of OFDM symbol `symbol` carries a pilot. */
+export function isPilot(config: OfdmConfig, symbol: number, k: number): boolean {
+  const spacing = config.pilotSpacing ?? DEFAULT_PILOT_SPACING;
+  switch (config.pilotPattern) {
+    case 'none':
+      return false;
+    case 'comb':
+      // Always include the last subcarrier so interpolation never has to extrapolate upwards
+      return k % spacing === 0 || k === config.subcarriers - 1;
+    case 'block':
+      return symbol % spacing === 0;
+  }
+}
+
+/** Data subcarriers per OFDM symbol, which block pilots reduce to zero on pilot symbols. */
+function dataCarriers(config: OfdmConfig, symbol: number): number[] {
+  const carriers: number[] = [];
+  for (let k = 0; k < config.subcarriers; k++) {
+    if (!isPilot(config, symbol, k)) carriers.push(k);
+  }
+  return carriers;
+}
+
+/**
+ * OFDM transmitter. Bits are mapped onto the Gray-coded subcarrier
+ * constellation and written into the data cells of successive OFDM symbols,
+ * skipping pilot cells; the last symbol is zero-padded. Each symbol is
+ * turned into time samples with an IFFT (scaled for unit average power) and
+ * prefixed with a copy of its last `cyclicPrefix` samples.
+ */
+export function ofdmModulate(input: Bits | string, config: OfdmConfig): OfdmResult {
+  validate(config);
+  const data = typeof input === 'string' ? parseBits(input) : input;
+  const constellation = getConstellation(config.modulation)!;
+  const { subcarriers: size, cyclicPrefix } = config;
+
+  const points = bitsToSymbols(padToSymbols(data, constellation.bitsPerSymbol), constellation.bitsPerSymbol).map(
+    (value) => constellation.points[value]
+  );
+
+  const grid: Complex[][] = [];
+  const pilots: boolean[][] = [];
+  let next = 0;
+  // Block pilots may leave a symbol without data, so keep going until every point is placed
+  while (next < points.length || grid.length === 0) {
+    const symbol = grid.length;
+    const row: Complex[] = [];
+    const pilotRow: boolean[] = [];
+    for (let k = 0; k < size; k++) {
+      const pilot = isPilot(config, symbol, k);
+      pilotRow.push(pilot);
+      row.push(pilot ? PILOT : points[next++] ?? constellation.points[0]);
+    }
+    grid.push(row);
+    pilots.push(pilotRow);
+  }
+
+  const symbolLength = size + cyclicPrefix;
+  const inPhase = createSignal(grid.length * symbolLength, config.sampleRate);
+  const quadrature = createSignal(grid.length * symbolLength, config.sampleRate);
+  const scale = Math.sqrt(size);
+  grid.forEach((row, symbol) => {
+    const re = Float64Array.from(row, (p) => p.re);
+    const im = Float64Array.from(row, (p) => p.im);
+    fft(re, im, true);
+    const start = symbol * symbolLength;
+    for (let n = 0; n < symbolLength; n++) {
+      const source = (n - cyclicPrefix + size) % size;
+      inPhase.samples[start + n] = re[source] * scale;
+      quadrature.samples[start + n] = im[source] * scale;
+    }
+  });
+
+  const dataCells = grid.reduce((sum, _, symbol) => sum + dataCarriers(config, symbol).length, 0);
+  const sentBits = new Uint8Array(dataCells * constellation.bitsPerSymbol);
+  sentBits.set(data);
+
+  return { symbolCount: grid.length, symbolLength, grid, pilots, inPhase, quadrature, bits: sentBits };
+}
+
+/**
+ * Least-squares channel estimate for one OFDM symbol: Y/P on its pilot
+ * subcarriers, linearly interpolated across the others. Returns null when
+ * the symbol has no pilots.
+ */
+function estimateFromPilots(received: Complex[], pilotCarriers: number[]): Complex[] | null {
+  if (pilotCarriers.length === 0) return null;
+  // Pilots are +1, so Y/P is just Y
+  const estimates = pilotCarriers.map((k) => received[k]);
+  return received.map((_, k) => {
+    const upper = pilotCarriers.findIndex((p) => p >= k);
+    if (upper === -1) return estimates[estimates.length - 1];
+    if (upper === 0 || pilotCarriers[upper] === k) return estimates[upper];
+    const k0 = pilotCarriers[upper - 1];
+    const k1 = pilotCarriers[upper];
+    const w = (k - k0) / (k1 - k0);
+    return {
+      re: estimates[upper - 1].re * (1 - w) + estimates[upper].re * w,
+      im: estimates[upper - 1].im * (1 - w) + estimates[upper].im * w
+    };
+  });
+}
+
+/**
+ * OFDM receiver, assuming perfect symbol timing. Strips the cyclic prefix,
+ * FFTs each symbol, estimates the channel from the pilots (interpolating
+ * across comb pilots, holding block-pilot estimates until the next pilot
+ * symbol, or assuming a flat unit channel without pilots), equalizes with a
+ * one-tap zero-forcing equalizer and makes hard decisions.
+ */
+export function ofdmDemodulate(inPhase: Signal, quadrature: Signal, config: OfdmConfig): OfdmReception {
+  validate(config);
+  const constellation = getConstellation(config.modulation)!;
+  const { subcarriers: size, cyclicPrefix } = config;
+  const symbolLength = size + cyclicPrefix;
+  const symbolCount = Math.floor(inPhase.samples.length / symbolLength);
+  const scale = Math.sqrt(size);
+
+  const received: Complex[][] = [];
+  const channel: Complex[][] = [];
+  const dataPoints: Complex[] = [];
+  let estimate: Complex[] = new Array(size).fill({ re: 1, im: 0 });
+
+  for (let symbol = 0; symbol < symbolCount; symbol++) {
+    const start = symbol * symbolLength + cyclicPrefix;
+    const re = inPhase.samples.slice(start, start + size);
+    const im = quadrature.samples.slice(start, start + size);
+    fft(re, im);
+    const row = Array.from(re, (value, k) => ({ re: value / scale, im: im[k] / scale }));
+    received.push(row);
+
+    const pilotCarriers = row.map((_, k) => k).filter((k) => isPilot(config, symbol, k));
+    estimate = estimateFromPilots(row, pilotCarriers) ?? estimate;
+    channel.push(estimate);
+
+    dataCarriers(config, symbol).forEach((k) => {
+      const h = estimate[k];
+      const power = h.re * h.re + h.im * h.im || 1;
+      dataPoints.push({
+        re: (row[k].re * h.re + row[k].im * h.im) / power,
+        im: (row[k].im * h.re - row[k].re * h.im) / power
+      });
+    });
+  }
+
+  const bits = symbolsToBits(
+    dataPoints.map((p) => nearestSymbol(p, constellation)),
+    constellation.bitsPerSymbol
+  );
+  return { received, channel, dataPoints, bits };
+}
@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest';
+import { PRBS_POLYNOMIALS, lfsrPeriod, lfsrSequence, parsePolynomial } from './patterns';
+
+describe('LFSR', () => {
+  it.each(['prbs7', 'prbs9', 'prbs15'] as const)('%s has a maximal period', (name) => {
+    const taps = PRBS_POLYNOMIALS[name];
+    expect(lfsrPeriod(taps)).toBe(2 ** Math.max(...taps) - 1);
+  });
+
+  it('is balanced and repeats over one period', () => {
+    const bits = lfsrSequence(PRBS_POLYNOMIALS.prbs7, 2 * 127);
+    const ones = bits.slice(0, 127).reduce((sum, bit) => sum + bit, 0);
+    expect(ones).toBe(64);
+    expect(Array.from(bits.slice(127))).toEqual(Array.from(bits.slice(0, 127)));
+  });
+
+  it('finds a short period for a reducible polynomial', () => {
+    // x^4 + x^2 + 1 = (x^2 + x + 1)^2
+    expect(lfsrPeriod([4, 2])).toBeLessThan(15);
+    expect(lfsrPeriod(PRBS_POLYNOMIALS.prbs31, 1000)).toBeNull();
+  });
+
+  it('parses polynomials in either form', () => {
+    expect(parsePolynomial('x^7 + x^6 + 1')).toEqual([7, 6]);
+    expect(parsePolynomial('7, 6')).toEqual([7, 6]);
+    expect(() => parsePolynomial('x + 1')).toThrow();
+  });
+});
@@ -0,0 +1,110 @@
+import { createRandom, randomBits } from './random';
+import type { Bits, PatternConfig, PatternType } from './types';
+
+export const MAX_LFSR_DEGREE = 32;
+
+/** ITU-T O.150 / O.151 PRBS generator polynomials, as their exponents. */
+export const PRBS_POLYNOMIALS: Record<Extract<PatternType, `prbs${number}`>, number[]> = {
+  prbs7: [7, 6],
+  prbs9: [9, 5],
+  prbs15: [15, 14],
+  prbs23: [23, 18],
+  prbs31: [31, 28]
+};
+
+export function isPrbs(type: PatternType): type is keyof typeof PRBS_POLYNOMIALS {
+  return type in PRBS_POLYNOMIALS;
+}
+
+/**
+ * Parses a feedback polynomial such as "x^7 + x^6 + 1" (or "7, 6") into
+ * its exponents, highest first. Throws unless the polynomial has a degree
+ * between 2 and `MAX_LFSR_DEGREE`.
+ */
+export function parsePolynomial(text: string): number[] {
+  const terms = text
+    .replace(/\s/g, '')
+    .split(/[+,]/)
+    .filter((term) => term !== '');
+  // In polynomial form a bare number is the constant term; in a list it is an exponent
+  const listForm = !/x/i.test(text);
+  const exponents = new Set<number>();
+  for (const term of terms) {
+    const match = /^(?:x(?:\^?(\d+))?|(\d+))$/i.exec(term);
+    if (!match || (!listForm && match[2] !== undefined && match[2] !== '1')) {
+      throw new Error(`Cannot read the polynomial term "${term}"; write it like x^7 + x^6 + 1`);
+    }
+    const exponent = listForm ? +match[2] : match[2] === undefined ? +(match[1] ?? 1) : 0;
+    if (exponent > 0) exponents.add(exponent);
+  }
+  const taps = [...exponents].sort((a, b) => b - a);
+  if (taps.length === 0 || taps[0] < 2 || taps[0] > MAX_LFSR_DEGREE) {
+    throw new RangeError(`The polynomial degree must be between 2 and ${MAX_LFSR_DEGREE}`);
+  }
+  return taps;
+}
+
+export function formatPolynomial(taps: number[]): string {
+  return [...taps.map((tap) => (tap === 1 ? 'x' : `x^${tap}`)), '1'].join(' + ');
+}
+
+/**
+ * Output of a Fibonacci LFSR with the given feedback exponents, started
+ * from the all-ones state. Each step outputs the last stage and shifts in
+ * the XOR of the tapped stages, as `mSequence` does.
+ */
+export function lfsrSequence(taps: number[], length: number): Bits {
+  const degree = Math.max(...taps);
+  const mask = 2 ** degree - 1;
+  let state = mask;
+  const bits = new Uint8Array(length);
+  for (let n = 0; n < length; n++) {
+    bits[n] = Math.floor(state / 2 ** (degree - 1)) & 1;
+    const feedback = taps.reduce((sum, tap) => sum ^ (Math.floor(state / 2 ** (tap - 1)) & 1), 0);
+    state = (state * 2 + feedback) % (mask + 1);
+  }
+  return bits;
+}
+
+/**
+ * Period of an LFSR from the all-ones state, or null if it is not found
+ * within `maxSteps`. A period of 2^degree - 1 means the polynomial is
+ * primitive and the output is a maximal-length sequence.
+ */
+export function lfsrPeriod(taps: number[], maxSteps = 2 ** 20): number | null {
+  const degree = Math.max(...taps);
+  const mask = 2 ** degree - 1;
+  let state = mask;
+  for (let step = 1; step <= maxSteps; step++) {
+    const feedback = taps.reduce((sum, tap) => sum ^ (Math.floor(state / 2 ** (tap - 1)) & 1), 0);
+    state = (state * 2 + feedback) % (mask + 1);
+    if (state === mask) return step;
+  }
+  return null;
+}
+
+/** Generates `length` bits of a test pattern. */
+export function generatePattern(config: PatternConfig): Bits {
+  const { type, length } = config;
+  if (!Number.isInteger(length) || length < 1) {
+    throw new RangeError('Pattern length must be a positive whole number');
+  }
+  if (isPrbs(type)) {
+    return lfsrSequence(PRBS_POLYNOMIALS[type], length);
+  }
+  switch (type) {
+    case 'alternating':
+      return Uint8Array.from({ length }, (_, n) => (n % 2 === 0 ? 1 : 0));
+    case 'zeros':
+      return new Uint8Array(length);
+    case 'ones':
+      return new Uint8Array(length).fill(1);
+    case 'random':
+      return randomBits(length, createRandom(config.seed ?? 1));
+    case 'lfsr':
+      if (!config.polynomial || config.polynomial.length === 0) {
+        throw new Error('An LFSR pattern needs a feedback polynomial');
+      }
+      return lfsrSequence(config.polynomial, length);
+  }
+}
@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { compress, expand, levelValue, pcmEncode, pcmSqnr, quantizeLevel, uniformSqnr } from './pcm';
+import { createSignal } from './modulation';
+import type { Companding } from './types';
+
+const COMPANDINGS: Companding[] = ['uniform', 'mu-law', 'a-law'];
+
+/**
+ * A sine of peak `amplitude`, whose period is no whole number of samples,
+ * so the quantization error spreads over the levels as the 6.02·N + 1.76
+ * dB rule assumes.
+ */
+const sine = (amplitude: number, length = 8192) =>
+  Float64Array.from({ length }, (_, n) => amplitude * Math.sin(2 * Math.PI * n * (Math.SQRT2 / 100)));
+
+describe('companding', () => {
+  it.each(COMPANDINGS)('expands what %s compresses', (companding) => {
+    for (const x of [-1, -0.5, -0.01, 0, 0.002, 0.3, 1]) {
+      expect(expand(compress(x, companding), companding)).toBeCloseTo(x, 12);
+    }
+    expect(compress(1, companding)).toBeCloseTo(1);
+    expect(compress(2, companding)).toBeCloseTo(1);
+  });
+
+  it('lifts quiet samples under μ-law and A-law', () => {
+    expect(compress(0.01, 'mu-law')).toBeCloseTo(Math.log1p(2.55) / Math.log1p(255));
+    expect(compress(0.01, 'a-law')).toBeCloseTo(0.876 / (1 + Math.log(87.6)));
+  });
+});
+
+describe('quantizer', () => {
+  it('splits full scale into 2^N midrise levels and clips beyond it', () => {
+    expect([-1, -0.76, -0.74, 0, 0.99, 1.5].map((x) => quantizeLevel(x, 3))).toEqual([0, 0, 1, 4, 7, 7]);
+    expect(levelValue(0, 3)).toBe(-0.875);
+    expect(levelValue(7, 3)).toBe(0.875);
+  });
+
+  it('reaches 6.02 N + 1.76 dB on a full-scale sine', () => {
+    for (const bits of [6, 8, 12]) {
+      expect(Math.abs(pcmSqnr(sine(1), bits, 'uniform') - uniformSqnr(bits))).toBeLessThan(0.5);
+    }
+  });
+
+  it('keeps a quiet signal clear only with companding', () => {
+    const quiet = sine(0.01);
+    const uniform = pcmSqnr(quiet, 8, 'uniform');
+    expect(pcmSqnr(quiet, 8, 'mu-law') - uniform).toBeGreaterThan(15);
+    expect(pcmSqnr(quiet, 8, 'a-law') - uniform).toBeGreaterThan(15);
+  });
+
+  it('rejects more than 16 bits per sample', () => {
+    expect(() => pcmSqnr(sine(1), 17, 'uniform')).toThrow(RangeError);
+  });
+});
+
+describe('pcmEncode', () => {
+  const message = createSignal(1000, 10000);
+  message.samples.set(sine(0.9, 1000));
+
+  it('sends one N-bit word per sample, most significant bit first', () => {
+    const result = pcmEncode(message, { sampleRate: 1000, bitsPerSample: 4, companding: 'uniform' });
+    expect(result.levels).toHaveLength(100);
+    expect(result.bits).toHaveLength(400);
+    result.levels.forEach((level, k) => {
+      const word = Array.from(result.bits.slice(4 * k, 4 * k + 4)).join('');
+      expect(parseInt(word, 2)).toBe(level);
+    });
+  });
+
+  it('holds each decoded sample until the next one', () => {
+    const result = pcmEncode(message, { sampleRate: 1000, bitsPerSample: 8, companding: 'mu-law' });
+    expect(result.reconstructed.samples).toHaveLength(1000);
+    for (let n = 0; n < 1000; n++) {
+      expect(result.reconstructed.samples[n]).toBe(result.quantized[Math.floor(n / 10)]);
+    }
+    result.quantized.forEach((value, k) => expect(Math.abs(value - result.samples[k])).toBeLessThan(0.02));
+  });
+});
@@ -0,0 +1,124 @@
+import { createSignal } from './modulation';
+import type { Companding, PcmConfig, PcmResult, Signal } from './types';
+
+/** μ-law constant of North American and Japanese telephony. */
+export const MU = 255;
+/** A-law constant of European telephony. */
+export const A = 87.6;
+
+/** Compressor characteristic, mapping [-1, 1] onto itself. */
+export function compress(x: number, companding: Companding): number {
+  const magnitude = Math.min(Math.abs(x), 1);
+  switch (companding) {
+    case 'uniform':
+      return Math.sign(x) * magnitude;
+    case 'mu-law':
+      return (Math.sign(x) * Math.log1p(MU * magnitude)) / Math.log1p(MU);
+    case 'a-law':
+      return (
+        (Math.sign(x) * (magnitude < 1 / A ? A * magnitude : 1 + Math.log(A * magnitude))) / (1 + Math.log(A))
+      );
+  }
+}
+
+/** Expander characteristic, the inverse of `compress`. */
+export function expand(y: number, companding: Companding): number {
+  const magnitude = Math.min(Math.abs(y), 1);
+  switch (companding) {
+    case 'uniform':
+      return Math.sign(y) * magnitude;
+    case 'mu-law':
+      return (Math.sign(y) * Math.expm1(magnitude * Math.log1p(MU))) / MU;
+    case 'a-law': {
+      const scaled = magnitude * (1 + Math.log(A));
+      return (Math.sign(y) * (scaled < 1 ? scaled / A : Math.exp(scaled - 1) / A));
+    }
+  }
+}
+
+/**
+ * Midrise uniform quantizer over [-1, 1] with 2^bits levels; returns the
+ * level index, 0 being the most negative. Values beyond full scale clip
+ * to the outermost levels.
+ */
+export function quantizeLevel(x: number, bitsPerSample: number): number {
+  const levels = 2 ** bitsPerSample;
+  return Math.min(levels - 1, Math.max(0, Math.floor(((x + 1) * levels) / 2)));
+}
+
+/** Centre of a quantization level in [-1, 1]. */
+export function levelValue(level: number, bitsPerSample: number): number {
+  return -1 + (2 * level + 1) / 2 ** bitsPerSample;
+}
+
+function validate(bitsPerSample: number): void {
+  if (!Number.isInteger(bitsPerSample) || bitsPerSample < 1 || bitsPerSample > 16) {
+    throw new RangeError('Bits per sample must be a whole number from 1 to 16');
+  }
+}
+
+/** Signal-to-quantization-noise ratio in dB of quantizing `samples` (full scale ±1). */
+export function pcmSqnr(samples: ArrayLike<number>, bitsPerSample: number, companding: Companding): number {
+  validate(bitsPerSample);
+  let signal = 0;
+  let noise = 0;
+  for (let n = 0; n < samples.length; n++) {
+    const x = samples[n];
+    const decoded = expand(levelValue(quantizeLevel(compress(x, companding), bitsPerSample), bitsPerSample), companding);
+    signal += x * x;
+    noise += (x - decoded) ** 2;
+  }
+  return 10 * Math.log10(signal / noise);
+}
+
+/**
+ * SQNR of a full-scale sinusoid through a uniform quantizer, 6.02·N + 1.76
+ * dB, the textbook reference for N-bit PCM.
+ */
+export function uniformSqnr(bitsPerSample: number): number {
+  return 6.02 * bitsPerSample + 1.76;
+}
+
+/**
+ * Runs a message through the PCM chain: sample at `sampleRate`, compress,
+ * quantize to 2^N levels and encode each level as an N-bit word. The
+ * decoder side expands the levels back and holds each value until the next
+ * sample.
+ */
+export function pcmEncode(message: Signal, config: PcmConfig): PcmResult {
+  const { sampleRate, bitsPerSample, companding } = config;
+  validate(bitsPerSample);
+  if (!(sampleRate > 0)) {
+    throw new RangeError('Sampling rate must be positive');
+  }
+
+  const duration = message.samples.length / message.sampleRate;
+  const count = Math.ceil(duration * sampleRate);
+  const sampleTimes = Float64Array.from({ length: count }, (_, k) => k / sampleRate);
+  // Sample-and-hold: take the message sample at or just before each instant
+  const samples = sampleTimes.map((time) => message.samples[Math.floor(time * message.sampleRate + 1e-9)]);
+  const levels = Array.from(samples, (x) => quantizeLevel(compress(x, companding), bitsPerSample));
+  const quantized = Float64Array.from(levels, (level) => expand(levelValue(level, bitsPerSample), companding));
+
+  const bits = new Uint8Array(count * bitsPerSample);
+  levels.forEach((level, k) => {
+    for (let b = 0; b < bitsPerSample; b++) {
+      bits[k * bitsPerSample + b] = (level >> (bitsPerSample - 1 - b)) & 1;
+    }
+  });
+
+  const reconstructed = createSignal(message.samples.length, message.sampleRate);
+  for (let n = 0; n < reconstructed.samples.length; n++) {
+    reconstructed.samples[n] = quantized[Math.min(count - 1, Math.floor((n * sampleRate) / message.sampleRate))];
+  }
+
+  return {
+    sampleTimes,
+    samples,
+    levels,
+    quantized,
+    bits,
+    reconstructed,
+    sqnr: pcmSqnr(samples, bitsPerSample, companding)
+  };
+}
@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { createSignal } from './modulation';
+import { pulseModulate } from './pulseModulation';
+
+// A ramp from -1 to 1 over 10 pulse periods of 100 samples each
+const message = createSignal(1000, 100000);
+message.samples.forEach((_, n) => (message.samples[n] = -1 + (2 * n) / 999));
+
+/** Lengths of the runs of non-zero samples in each pulse period. */
+const widths = (samples: Float64Array) =>
+  Array.from({ length: 10 }, (_, k) => samples.slice(100 * k, 100 * (k + 1)).filter((value) => value !== 0).length);
+
+describe('pulseModulate', () => {
+  it('samples the message once per pulse period', () => {
+    const { sampleTimes, sampleValues } = pulseModulate(message, { type: 'pam-flat', pulseRate: 1000 });
+    expect(sampleTimes).toHaveLength(10);
+    expect(sampleTimes[3]).toBeCloseTo(0.003);
+    expect(sampleValues[3]).toBeCloseTo(message.samples[300]);
+  });
+
+  it('holds flat-top PAM and lets natural PAM follow the message', () => {
+    const flat = pulseModulate(message, { type: 'pam-flat', pulseRate: 1000, dutyCycle: 0.25 });
+    const natural = pulseModulate(message, { type: 'pam-natural', pulseRate: 1000, dutyCycle: 0.25 });
+    expect(Array.from(flat.pulses.samples.slice(300, 325))).toEqual(new Array(25).fill(flat.sampleValues[3]));
+    expect(Array.from(natural.pulses.samples.slice(300, 325))).toEqual(Array.from(message.samples.slice(300, 325)));
+    expect(flat.pulses.samples.slice(325, 400).every((value) => value === 0)).toBe(true);
+  });
+
+  it('widens PWM pulses with the sample value', () => {
+    const { pulses, sampleValues } = pulseModulate(message, { type: 'pwm', pulseRate: 1000 });
+    widths(pulses.samples).forEach((width, k) => expect(width).toBeCloseTo(100 * (0.5 + 0.45 * sampleValues[k]), -0.5));
+  });
+
+  it('moves PPM pulses of a fixed width later with the sample value', () => {
+    const { pulses } = pulseModulate(message, { type: 'ppm', pulseRate: 1000, dutyCycle: 0.2 });
+    expect(widths(pulses.samples).every((width) => width === 20)).toBe(true);
+    const starts = Array.from({ length: 10 }, (_, k) => pulses.samples.slice(100 * k).findIndex((value) => value !== 0));
+    starts.slice(1).forEach((start, k) => expect(start).toBeGreaterThan(starts[k]));
+  });
+
+  it('rejects a duty cycle of a whole period', () => {
+    expect(() => pulseModulate(message, { type: 'ppm', pulseRate: 1000, dutyCycle: 1 })).toThrow(RangeError);
+  });
+});
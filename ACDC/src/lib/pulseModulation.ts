@@ -0,0 +1,71 @@
+import { createSignal } from './modulation';
+import type { PulseModulationConfig, PulseModulationResult, Signal } from './types';
+
+export const DEFAULT_DUTY_CYCLE = 0.25;
+
+/** PWM widths and PPM positions swing over this fraction of their range, so no pulse vanishes or overlaps. */
+const SWING = 0.9;
+
+/** Reads a signal at time `time`, interpolating linearly between samples. */
+function sampleAt(signal: Signal, time: number): number {
+  const { samples, sampleRate } = signal;
+  const x = Math.min(Math.max(time * sampleRate, 0), samples.length - 1);
+  const index = Math.floor(x);
+  const fraction = x - index;
+  return index + 1 < samples.length ? samples[index] * (1 - fraction) + samples[index + 1] * fraction : samples[index];
+}
+
+/**
+ * Samples a message at `pulseRate` and turns the samples into a pulse train.
+ *
+ * Natural PAM gates the message itself, so pulse tops follow its shape;
+ * flat-top PAM holds each sample for the pulse width. PWM starts a
+ * unit-height pulse at every sampling instant and sets its width from the
+ * peak-normalized sample, and PPM shifts a fixed-width pulse within the
+ * period instead.
+ */
+export function pulseModulate(message: Signal, config: PulseModulationConfig): PulseModulationResult {
+  const { type, pulseRate } = config;
+  const dutyCycle = config.dutyCycle ?? DEFAULT_DUTY_CYCLE;
+  if (!(pulseRate > 0)) {
+    throw new RangeError('Pulse rate must be positive');
+  }
+  if (!(dutyCycle > 0 && dutyCycle < 1)) {
+    throw new RangeError('Duty cycle must be between 0 and 1');
+  }
+
+  const { samples, sampleRate } = message;
+  const duration = samples.length / sampleRate;
+  const period = 1 / pulseRate;
+  const count = Math.ceil(duration * pulseRate);
+  const sampleTimes = Float64Array.from({ length: count }, (_, k) => k * period);
+  const sampleValues = sampleTimes.map((time) => sampleAt(message, time));
+  const peak = samples.reduce((max, x) => Math.max(max, Math.abs(x)), 0) || 1;
+
+  const pulses = createSignal(samples.length, sampleRate);
+  for (let n = 0; n < samples.length; n++) {
+    const time = n / sampleRate;
+    const k = Math.min(Math.floor(time * pulseRate), count - 1);
+    // Position within the pulse period, as a fraction of it
+    const position = time * pulseRate - k;
+    const m = sampleValues[k] / peak;
+    switch (type) {
+      case 'pam-natural':
+        pulses.samples[n] = position < dutyCycle ? samples[n] : 0;
+        break;
+      case 'pam-flat':
+        pulses.samples[n] = position < dutyCycle ? sampleValues[k] : 0;
+        break;
+      case 'pwm':
+        pulses.samples[n] = position < 0.5 + (SWING / 2) * m ? 1 : 0;
+        break;
+      case 'ppm': {
+        const start = (0.5 + (SWING / 2) * m) * (1 - dutyCycle);
+        pulses.samples[n] = position >= start && position < start + dutyCycle ? 1 : 0;
+        break;
+      }
+    }
+  }
+
+  return { pulses, sampleTimes, sampleValues };
+}
@@ -0,0 +1,25 @@
+import type { Bits } from './types';
+
+/**
+ * Seeded generator of uniform numbers in [0, 1) (mulberry32), for
+ * simulations that must be reproducible.
+ */
+export function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+export function randomBits(length: number, random: () => number = Math.random): Bits {
+  return Uint8Array.from({ length }, () => (random() < 0.5 ? 1 : 0));
+}
+
+/** Standard normal samples by the Box–Muller transform. */
+export function createGaussian(random: () => number = Math.random): () => number {
+  return () => Math.sqrt(-2 * Math.log(1 - random())) * Math.cos(2 * Math.PI * random());
+}
@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { correctableErrors, rsDecode, rsEncode } from './reedSolomon';
+import type { ReedSolomonCode } from './types';
+
+const code: ReedSolomonCode = { n: 15, k: 9, symbolBits: 4 };
+const message = [1, 2, 3, 4, 5, 6, 7, 8, 9];
+
+describe('Reed-Solomon', () => {
+  it('encodes systematically', () => {
+    const codeword = rsEncode(message, code);
+    expect(codeword).toHaveLength(15);
+    expect(codeword.slice(0, 9)).toEqual(message);
+  });
+
+  it('leaves a clean codeword alone', () => {
+    const codeword = rsEncode(message, code);
+    expect(rsDecode(codeword, code)).toEqual({ codeword, corrected: [], failed: false });
+  });
+
+  it('corrects up to (n - k) / 2 symbol errors', () => {
+    expect(correctableErrors(code)).toBe(3);
+    const codeword = rsEncode(message, code);
+    const received = [...codeword];
+    received[0] ^= 0x5;
+    received[7] ^= 0xf;
+    received[13] ^= 0x1;
+    const decoded = rsDecode(received, code);
+    expect(decoded.failed).toBe(false);
+    expect(decoded.codeword).toEqual(codeword);
+    expect([...decoded.corrected].sort((a, b) => a - b)).toEqual([0, 7, 13]);
+  });
+
+  it('corrects a shortened code over GF(256)', () => {
+    const shortened: ReedSolomonCode = { n: 40, k: 30, symbolBits: 8 };
+    const data = Array.from({ length: 30 }, (_, i) => (i * 37) % 256);
+    const codeword = rsEncode(data, shortened);
+    const received = [...codeword];
+    [2, 11, 25, 31, 39].forEach((i) => (received[i] ^= 0xa5));
+    expect(rsDecode(received, shortened).codeword).toEqual(codeword);
+  });
+
+  it('rejects codes that do not fit the field', () => {
+    expect(() => rsEncode(message, { n: 16, k: 9, symbolBits: 4 })).toThrow(RangeError);
+    expect(() => rsEncode([1, 2], code)).toThrow(RangeError);
+  });
+});
@@ -0,0 +1,175 @@
+import type { ReedSolomonCode } from './types';
+
+export const MIN_SYMBOL_BITS = 3;
+export const MAX_SYMBOL_BITS = 8;
+
+/** Primitive polynomials generating GF(2^m), in octal. */
+const PRIMITIVE_POLYNOMIALS: Record<number, number> = {
+  3: 0o13,
+  4: 0o23,
+  5: 0o45,
+  6: 0o103,
+  7: 0o211,
+  8: 0o435
+};
+
+interface GaloisField {
+  /** Multiplicative order 2^m - 1. */
+  order: number;
+  /** Powers of α, stored twice over so sums of logs need no reduction. */
+  exp: Uint16Array;
+  log: Uint16Array;
+}
+
+const fields = new Map<number, GaloisField>();
+
+function galoisField(m: number): GaloisField {
+  let field = fields.get(m);
+  if (!field) {
+    const order = 2 ** m - 1;
+    const exp = new Uint16Array(2 * order);
+    const log = new Uint16Array(order + 1);
+    let value = 1;
+    for (let i = 0; i < order; i++) {
+      exp[i] = exp[i + order] = value;
+      log[value] = i;
+      value <<= 1;
+      if (value > order) value ^= PRIMITIVE_POLYNOMIALS[m];
+    }
+    field = { order, exp, log };
+    fields.set(m, field);
+  }
+  return field;
+}
+
+const multiply = (field: GaloisField, a: number, b: number) =>
+  a && b ? field.exp[field.log[a] + field.log[b]] : 0;
+
+const divide = (field: GaloisField, a: number, b: number) =>
+  a ? field.exp[field.log[a] + field.order - field.log[b]] : 0;
+
+/** Value at x of a polynomial with ascending coefficients. */
+const evaluate = (field: GaloisField, coefficients: number[], x: number) =>
+  coefficients.reduceRight((sum, c) => multiply(field, sum, x) ^ c, 0);
+
+/** Largest number of symbol errors the code corrects. */
+export function correctableErrors(code: ReedSolomonCode): number {
+  return Math.floor((code.n - code.k) / 2);
+}
+
+function checkCode({ n, k, symbolBits }: ReedSolomonCode) {
+  if (!Number.isInteger(symbolBits) || symbolBits < MIN_SYMBOL_BITS || symbolBits > MAX_SYMBOL_BITS) {
+    throw new RangeError(`Reed-Solomon symbols must have ${MIN_SYMBOL_BITS} to ${MAX_SYMBOL_BITS} bits`);
+  }
+  if (!Number.isInteger(n) || n < 2 || n > 2 ** symbolBits - 1) {
+    throw new RangeError(`Reed-Solomon codewords over GF(${2 ** symbolBits}) hold 2 to ${2 ** symbolBits - 1} symbols`);
+  }
+  if (!Number.isInteger(k) || k < 1 || k >= n) {
+    throw new RangeError('A Reed-Solomon code needs between 1 and n - 1 message symbols');
+  }
+}
+
+/** Generator (x - α)(x - α^2)…(x - α^paritySymbols), descending coefficients. */
+function generatorPolynomial(field: GaloisField, paritySymbols: number): number[] {
+  let generator = [1];
+  for (let j = 1; j <= paritySymbols; j++) {
+    const root = field.exp[j];
+    generator = [...generator, 0].map((c, i) => c ^ (i > 0 ? multiply(field, generator[i - 1], root) : 0));
+  }
+  return generator;
+}
+
+/**
+ * Systematic Reed-Solomon encoding of k message symbols: the codeword is
+ * the message followed by the remainder of message·x^(n-k) divided by the
+ * generator polynomial.
+ */
+export function rsEncode(message: ArrayLike<number>, code: ReedSolomonCode): number[] {
+  checkCode(code);
+  if (message.length !== code.k) {
+    throw new RangeError(`A Reed-Solomon message holds exactly ${code.k} symbols`);
+  }
+  const field = galoisField(code.symbolBits);
+  const generator = generatorPolynomial(field, code.n - code.k);
+  const parity = new Array<number>(code.n - code.k).fill(0);
+  for (let i = 0; i < message.length; i++) {
+    const feedback = message[i] ^ parity[0];
+    parity.shift();
+    parity.push(0);
+    parity.forEach((_, j) => (parity[j] ^= multiply(field, generator[j + 1], feedback)));
+  }
+  return [...Array.from(message), ...parity];
+}
+
+/**
+ * Corrects up to floor((n - k) / 2) symbol errors in a codeword with the
+ * Berlekamp–Massey algorithm, a Chien search and Forney's formula. When
+ * there are more errors than that, and the decoder notices, the codeword
+ * is returned untouched with `failed` set. `corrected` lists the symbol
+ * positions that were changed.
+ */
+export function rsDecode(
+  codeword: ArrayLike<number>,
+  code: ReedSolomonCode
+): { codeword: number[]; corrected: number[]; failed: boolean } {
+  checkCode(code);
+  const { n, k } = code;
+  const field = galoisField(code.symbolBits);
+  const received = Array.from({ length: n }, (_, i) => codeword[i] ?? 0);
+  const untouched = { codeword: received, corrected: [], failed: false };
+
+  // Syndromes S_j = r(α^j), with the first symbol as the highest power
+  const paritySymbols = n - k;
+  const syndromes = Array.from({ length: paritySymbols }, (_, j) =>
+    received.reduce((sum, symbol) => multiply(field, sum, field.exp[j + 1]) ^ symbol, 0)
+  );
+  if (syndromes.every((s) => s === 0)) return untouched;
+
+  // Berlekamp–Massey: shortest LFSR, as the error locator Λ(x), that generates the syndromes
+  let locator = [1];
+  let previous = [1];
+  let length = 0;
+  let shift = 1;
+  let previousDiscrepancy = 1;
+  for (let i = 0; i < paritySymbols; i++) {
+    let discrepancy = syndromes[i];
+    for (let j = 1; j <= length; j++) discrepancy ^= multiply(field, locator[j] ?? 0, syndromes[i - j]);
+    if (discrepancy === 0) {
+      shift++;
+      continue;
+    }
+    const scale = divide(field, discrepancy, previousDiscrepancy);
+    const next = [...locator, ...new Array<number>(Math.max(0, previous.length + shift - locator.length)).fill(0)];
+    previous.forEach((c, j) => (next[j + shift] ^= multiply(field, scale, c)));
+    if (2 * length <= i) {
+      previous = locator;
+      length = i + 1 - length;
+      previousDiscrepancy = discrepancy;
+      shift = 1;
+    } else {
+      shift++;
+    }
+    locator = next;
+  }
+  const failed = { ...untouched, failed: true };
+  if (2 * length > paritySymbols) return failed;
+
+  // Chien search: symbol i is in error if Λ vanishes at the inverse of its locator α^(n-1-i)
+  const positions: number[] = [];
+  for (let i = 0; i < n; i++) {
+    if (evaluate(field, locator, field.exp[field.order - (n - 1 - i)]) === 0) positions.push(i);
+  }
+  if (positions.length !== length) return failed;
+
+  // Forney: error value Ω(X⁻¹) / Λ'(X⁻¹), with Ω(x) = S(x)Λ(x) mod x^(n-k)
+  const evaluator = syndromes.map((_, d) =>
+    locator.slice(0, d + 1).reduce((sum, c, j) => sum ^ multiply(field, c, syndromes[d - j]), 0)
+  );
+  const derivative = locator.slice(1).map((c, j) => (j % 2 === 0 ? c : 0));
+  const corrected = received.slice();
+  for (const i of positions) {
+    const inverse = field.exp[field.order - (n - 1 - i)];
+    corrected[i] ^= divide(field, evaluate(field, evaluator, inverse), evaluate(field, derivative, inverse));
+  }
+  return { codeword: corrected, corrected: positions, failed: false };
+}
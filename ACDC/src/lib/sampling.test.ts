@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import { generateMessage } from './analog';
+import { aliasFrequency, messageComponents, sampleSignal, SINC_HALF_SPAN } from './sampling';
+import type { Signal } from './types';
+
+const SAMPLE_RATE = 100000;
+const tone = (frequency: number) => generateMessage({ kind: 'sine', frequency }, 0.02, SAMPLE_RATE);
+
+/** Largest difference between two signals away from the edges the truncated sinc cannot reach. */
+const interiorError = (a: Signal, b: Signal, margin: number) => {
+  let error = 0;
+  for (let n = margin; n < a.samples.length - margin; n++) {
+    error = Math.max(error, Math.abs(a.samples[n] - b.samples[n]));
+  }
+  return error;
+};
+
+describe('messageComponents', () => {
+  it('lists a sine and the nonzero tones of a tone set', () => {
+    expect(messageComponents({ kind: 'sine', frequency: 500 })).toEqual([{ frequency: 500, amplitude: 1 }]);
+    const tones = [
+      { frequency: 100, amplitude: 1 },
+      { frequency: 300, amplitude: 0 }
+    ];
+    expect(messageComponents({ kind: 'tones', tones })).toEqual([tones[0]]);
+  });
+
+  it('expands a drawn waveform into harmonics of its period', () => {
+    const waveform = Array.from({ length: 16 }, (_, n) => Math.cos((2 * Math.PI * n) / 16) + 0.5);
+    const [fundamental, ...rest] = messageComponents({ kind: 'drawn', frequency: 200, waveform });
+    expect(fundamental.frequency).toBe(200);
+    expect(fundamental.amplitude).toBeCloseTo(1);
+    expect(fundamental.phase).toBeCloseTo(0);
+    expect(rest).toEqual([]);
+  });
+});
+
+describe('aliasFrequency', () => {
+  it.each([
+    [3000, 3000],
+    [7000, 3000],
+    [10000, 0],
+    [12000, 2000],
+    [15000, 5000]
+  ])('folds %i Hz to %i Hz at 10 kHz', (frequency, alias) => {
+    expect(aliasFrequency(frequency, 10000)).toBeCloseTo(alias);
+  });
+});
+
+describe('sampleSignal', () => {
+  // Ten message samples per sampling interval, past the sinc's reach
+  const margin = 10 * SINC_HALF_SPAN;
+
+  it('rebuilds a tone below the Nyquist frequency', () => {
+    const message = tone(1000);
+    const { samples, sampleTimes, reconstructed } = sampleSignal(message, 10000, 'sinc');
+    expect(samples).toHaveLength(200);
+    expect(sampleTimes[3]).toBeCloseTo(3e-4);
+    expect(interiorError(reconstructed, message, margin)).toBeLessThan(0.05);
+  });
+
+  it('rebuilds a tone above the Nyquist frequency as its alias', () => {
+    const { reconstructed } = sampleSignal(tone(7000), 10000, 'sinc');
+    expect(interiorError(reconstructed, tone(3000), margin)).toBeLessThan(0.05);
+  });
+
+  it('holds each sample until the next with a zero-order hold', () => {
+    const message = tone(1000);
+    const { samples, impulses, reconstructed } = sampleSignal(message, 10000, 'zoh');
+    for (let n = 0; n < message.samples.length; n++) {
+      expect(reconstructed.samples[n]).toBe(samples[Math.floor(n / 10)]);
+      expect(impulses.samples[n]).toBe(n % 10 === 0 ? message.samples[n] : 0);
+    }
+  });
+
+  it('rejects rates that are not positive or exceed the message rate', () => {
+    expect(() => sampleSignal(tone(1000), 0, 'sinc')).toThrow(RangeError);
+    expect(() => sampleSignal(tone(1000), 2 * SAMPLE_RATE, 'sinc')).toThrow(RangeError);
+  });
+});
@@ -0,0 +1,92 @@
+import { sinc } from './filters';
+import { createSignal } from './modulation';
+import type { MessageConfig, Reconstruction, SamplingResult, Signal, Tone } from './types';
+
+/** Sinc interpolation sums this many samples either side of each output point. */
+export const SINC_HALF_SPAN = 32;
+/** Harmonics of a drawn waveform below this fraction of the strongest are ignored. */
+const HARMONIC_FLOOR = 0.01;
+
+/**
+ * Sinusoidal components of a message, in Hz. A drawn waveform is expanded
+ * into the harmonics of its period that reach `HARMONIC_FLOOR` of the
+ * strongest one; its DC level is left out.
+ */
+export function messageComponents(config: MessageConfig): Tone[] {
+  switch (config.kind) {
+    case 'sine':
+      return [{ frequency: config.frequency, amplitude: config.amplitude ?? 1 }];
+
+    case 'tones':
+      return config.tones.filter((tone) => tone.amplitude !== 0);
+
+    case 'drawn': {
+      const { waveform } = config;
+      const length = waveform.length;
+      const harmonics: Tone[] = [];
+      for (let h = 1; h <= Math.floor(length / 2); h++) {
+        let re = 0;
+        let im = 0;
+        waveform.forEach((x, n) => {
+          re += x * Math.cos((2 * Math.PI * h * n) / length);
+          im -= x * Math.sin((2 * Math.PI * h * n) / length);
+        });
+        const scale = h === length / 2 ? 1 / length : 2 / length;
+        harmonics.push({ frequency: h * config.frequency, amplitude: scale * Math.hypot(re, im), phase: Math.atan2(im, re) });
+      }
+      const strongest = harmonics.reduce((max, tone) => Math.max(max, tone.amplitude), 0);
+      return harmonics.filter((tone) => tone.amplitude >= HARMONIC_FLOOR * strongest && tone.amplitude > 0);
+    }
+  }
+}
+
+/** Frequency in [0, fs/2] at which a sinusoid at `frequency` appears after sampling at `sampleRate`. */
+export function aliasFrequency(frequency: number, sampleRate: number): number {
+  return Math.abs(frequency - sampleRate * Math.round(frequency / sampleRate));
+}
+
+/**
+ * Samples a message at `sampleRate` and rebuilds it, either with ideal
+ * band-limited (sinc) interpolation, truncated to ±`SINC_HALF_SPAN`
+ * samples, or with a zero-order hold. The sampling instants are rounded to
+ * the message's own sample grid.
+ */
+export function sampleSignal(message: Signal, sampleRate: number, reconstruction: Reconstruction): SamplingResult {
+  if (!(sampleRate > 0)) {
+    throw new RangeError('Sampling rate must be positive');
+  }
+  if (sampleRate > message.sampleRate) {
+    throw new RangeError('Sampling rate cannot exceed the rate the message is generated at');
+  }
+
+  const length = message.samples.length;
+  const ratio = message.sampleRate / sampleRate;
+  const count = Math.ceil(length / ratio);
+  const sampleTimes = new Float64Array(count);
+  const samples = new Float64Array(count);
+  const impulses = createSignal(length, message.sampleRate);
+  for (let k = 0; k < count; k++) {
+    const index = Math.min(length - 1, Math.round(k * ratio));
+    sampleTimes[k] = k / sampleRate;
+    samples[k] = message.samples[index];
+    impulses.samples[index] = samples[k];
+  }
+
+  const reconstructed = createSignal(length, message.sampleRate);
+  for (let n = 0; n < length; n++) {
+    const position = n / ratio;
+    if (reconstruction === 'zoh') {
+      reconstructed.samples[n] = samples[Math.min(count - 1, Math.floor(position + 1e-9))];
+    } else {
+      const first = Math.max(0, Math.ceil(position) - SINC_HALF_SPAN);
+      const last = Math.min(count - 1, Math.floor(position) + SINC_HALF_SPAN);
+      let sum = 0;
+      for (let k = first; k <= last; k++) {
+        sum += samples[k] * sinc(position - k);
+      }
+      reconstructed.samples[n] = sum;
+    }
+  }
+
+  return { sampleTimes, samples, impulses, reconstructed };
+}
@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import { createRandom, randomBits } from './random';
+import { codeLengths, hopSequence, mSequence, spreadSpectrum, spreadingCode } from './spreadSpectrum';
+import type { SpreadingCode, SpreadSpectrumConfig } from './types';
+
+const link: Omit<SpreadSpectrumConfig, 'modType'> = { frequency: 1000, amplitude: 1, bitrate: 1000 };
+const bits = randomBits(8, createRandom(3));
+
+/** Periodic correlation of ±1 versions of two codes at a shift. */
+const correlation = (a: Uint8Array, b: Uint8Array, shift: number) =>
+  a.reduce((sum, chip, n) => sum + (2 * chip - 1) * (2 * b[(n + shift) % b.length] - 1), 0);
+
+describe('spreading codes', () => {
+  it('gives m-sequences a two-valued autocorrelation', () => {
+    const code = mSequence(5);
+    expect(code).toHaveLength(31);
+    expect(correlation(code, code, 0)).toBe(31);
+    for (let shift = 1; shift < 31; shift++) expect(correlation(code, code, shift)).toBe(-1);
+  });
+
+  it('gives Gold codes a three-valued cross-correlation', () => {
+    const gold = spreadingCode('gold', 31);
+    const pn = mSequence(5, [5, 2]);
+    const values = new Set(Array.from({ length: 31 }, (_, shift) => correlation(gold, pn, shift)));
+    expect([...values].every((value) => [-1, -9, 7].includes(value))).toBe(true);
+  });
+
+  it.each(codeLengths('barker'))('keeps the Barker code of length %i to sidelobes of one chip', (length) => {
+    const code = Array.from(spreadingCode('barker', length), (chip) => 2 * chip - 1);
+    for (let shift = 1; shift < length; shift++) {
+      const sidelobe = code.slice(shift).reduce((sum, chip, n) => sum + chip * code[n], 0);
+      expect(Math.abs(sidelobe)).toBeLessThanOrEqual(1);
+    }
+  });
+
+  it('rejects lengths a family does not have', () => {
+    expect(() => spreadingCode('gold', 15)).toThrow(RangeError);
+  });
+});
+
+describe('DSSS', () => {
+  const lengths = (['pn', 'gold', 'barker'] as SpreadingCode[]).flatMap((code) =>
+    codeLengths(code).map((length) => [code, length] as const)
+  );
+
+  it.each(lengths)('despreads %s codes of length %i', (code, chipsPerBit) => {
+    const result = spreadSpectrum(bits, { ...link, modType: 'dsss', code, chipsPerBit });
+    expect(Array.from(result.bits)).toEqual(Array.from(bits));
+    expect(result.processingGain).toBeCloseTo(10 * Math.log10(chipsPerBit));
+  });
+
+  it('keeps the longest PN code short enough to plot', () => {
+    const chipsPerBit = Math.max(...codeLengths('pn'));
+    const { modulated } = spreadSpectrum(bits, { ...link, modType: 'dsss', code: 'pn', chipsPerBit });
+    // Whole samples per chip, at least four per cycle of the highest frequency
+    const samplesPerBit = modulated.samples.length / bits.length;
+    expect(samplesPerBit % chipsPerBit).toBe(0);
+    expect(samplesPerBit).toBeGreaterThanOrEqual(4 * (chipsPerBit + 1));
+    expect(samplesPerBit).toBeLessThanOrEqual(4096 + chipsPerBit);
+  });
+
+  it('rides out a jammer its processing gain covers', () => {
+    const jammer = { offset: 0, power: 20 };
+    const spread = spreadSpectrum(bits, { ...link, modType: 'dsss', chipsPerBit: 127, jammer });
+    const narrow = spreadSpectrum(bits, { ...link, modType: 'dsss', chipsPerBit: 7, jammer });
+    expect(Array.from(spread.bits)).toEqual(Array.from(bits));
+    expect(Array.from(narrow.bits)).not.toEqual(Array.from(bits));
+  });
+});
+
+describe('FHSS', () => {
+  it.each(['sequential', 'pn', 'custom'] as const)('dehops a %s hop pattern', (hopPattern) => {
+    const result = spreadSpectrum(bits, { ...link, modType: 'fhss', hopPattern, customHops: [0, 5, 2, 7] });
+    expect(Array.from(result.bits)).toEqual(Array.from(bits));
+    expect(result.hops).toHaveLength(bits.length);
+  });
+
+  it('visits every channel with a PN pattern', () => {
+    expect(new Set(hopSequence(200, 8, 'pn')).size).toBe(8);
+  });
+
+  it('rejects custom hops outside the hop set', () => {
+    expect(() => hopSequence(4, 8, 'custom', [0, 8])).toThrow(RangeError);
+  });
+});
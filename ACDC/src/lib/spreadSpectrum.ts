@@ -0,0 +1,323 @@
+import { DEFAULT_SAMPLES_PER_BIT, createSignal, parseBits } from './modulation';
+import type {
+  Bits,
+  HopPattern,
+  SpreadingCode,
+  SpreadSpectrumConfig,
+  SpreadSpectrumResult,
+  SpreadSpectrumType
+} from './types';
+
+export const DEFAULT_CHIPS_PER_BIT = 7;
+export const DEFAULT_HOP_CHANNELS = 8;
+
+/** Samples per cycle of the highest passband frequency. */
+const PASSBAND_SAMPLES_PER_CYCLE = 16;
+/**
+ * Long codes get fewer samples per cycle, down to the floor, so a bit of
+ * the passband signal stays near this many samples.
+ */
+const MAX_PASSBAND_SAMPLES_PER_BIT = 4096;
+const MIN_PASSBAND_SAMPLES_PER_CYCLE = 4;
+/** Receiver envelope samples per DSSS chip. */
+const ENVELOPE_SAMPLES_PER_CHIP = 8;
+
+const SPREAD_SPECTRUM_TYPES: SpreadSpectrumType[] = ['dsss', 'fhss'];
+
+export function isSpreadSpectrum(modType: string): modType is SpreadSpectrumType {
+  return (SPREAD_SPECTRUM_TYPES as string[]).includes(modType);
+}
+
+/** Feedback taps of a primitive polynomial for each register length (stages numbered from 1). */
+const PRIMITIVE_TAPS: Record<number, number[]> = {
+  3: [3, 2],
+  4: [4, 3],
+  5: [5, 3],
+  6: [6, 5],
+  7: [7, 6],
+  8: [8, 6, 5, 4],
+  9: [9, 5],
+  10: [10, 7]
+};
+
+/** Preferred pairs of m-sequences, whose sums form Gold code families. */
+const GOLD_PAIRS: Record<number, [number[], number[]]> = {
+  5: [[5, 2], [5, 4, 3, 2]],
+  6: [[6, 1], [6, 5, 2, 1]],
+  7: [[7, 3], [7, 3, 2, 1]]
+};
+
+/** Barker codes with '1' for a +1 chip. */
+const BARKER_CODES: Record<number, string> = {
+  2: '10',
+  3: '110',
+  4: '1101',
+  5: '11101',
+  7: '1110010',
+  11: '11100010010',
+  13: '1111100110101'
+};
+
+/**
+ * One period (2^degree − 1 chips) of the maximal-length sequence produced
+ * by a Fibonacci LFSR with the given feedback taps, started from all ones.
+ */
+export function mSequence(degree: number, taps: number[] = PRIMITIVE_TAPS[degree]): Bits {
+  if (!taps) {
+    throw new RangeError(`No primitive polynomial for a ${degree}-stage register`);
+  }
+  const state = new Array<number>(degree).fill(1);
+  const sequence = new Uint8Array(2 ** degree - 1);
+  for (let n = 0; n < sequence.length; n++) {
+    sequence[n] = state[degree - 1];
+    const feedback = taps.reduce((sum, tap) => sum ^ state[tap - 1], 0);
+    state.pop();
+    state.unshift(feedback);
+  }
+  return sequence;
+}
+
+/** Code lengths available in each spreading code family. */
+export function codeLengths(code: SpreadingCode): number[] {
+  switch (code) {
+    case 'pn':
+      return Object.keys(PRIMITIVE_TAPS).map((degree) => 2 ** +degree - 1);
+    case 'gold':
+      return Object.keys(GOLD_PAIRS).map((degree) => 2 ** +degree - 1);
+    case 'barker':
+      return Object.keys(BARKER_CODES).map(Number);
+  }
+}
+
+/**
+ * One period of a spreading code. Gold codes are the chip-wise XOR of a
+ * preferred pair of m-sequences, so their cross-correlation only takes
+ * three values; Barker codes have sidelobes of at most one chip.
+ */
+export function spreadingCode(code: SpreadingCode, length: number): Bits {
+  if (!codeLengths(code).includes(length)) {
+    throw new RangeError(`${code.toUpperCase()} codes come in lengths ${codeLengths(code).join(', ')}`);
+  }
+  const degree = Math.log2(length + 1);
+  switch (code) {
+    case 'pn':
+      return mSequence(degree);
+    case 'gold': {
+      const [first, second] = GOLD_PAIRS[degree];
+      const u = mSequence(degree, first);
+      const v = mSequence(degree, second);
+      return u.map((chip, n) => chip ^ v[n]);
+    }
+    case 'barker':
+      return Uint8Array.from(BARKER_CODES[length], (c) => (c === '1' ? 1 : 0));
+  }
+}
+
+/**
+ * Channel index of each of `count` hops. The PN pattern reads successive
+ * groups of register-length chips from an m-sequence as numbers, reduced
+ * modulo the number of channels; the register is a few stages longer than
+ * the channel index so every channel gets visited.
+ */
+export function hopSequence(
+  count: number,
+  channels: number,
+  pattern: HopPattern,
+  customHops: number[] = []
+): number[] {
+  switch (pattern) {
+    case 'sequential':
+      return Array.from({ length: count }, (_, k) => k % channels);
+    case 'pn': {
+      let degree = Math.min(10, Math.ceil(Math.log2(channels)) + 3);
+      // Groups of `degree` chips only start at every chip of the sequence when
+      // the group size shares no factor with the period (6 and 63 share 3)
+      const gcd = (a: number, b: number): number => (b === 0 ? a : gcd(b, a % b));
+      while (gcd(degree, 2 ** degree - 1) > 1) degree++;
+      const sequence = mSequence(degree);
+      return Array.from({ length: count }, (_, k) => {
+        let value = 0;
+        for (let b = 0; b < degree; b++) {
+          value = 2 * value + sequence[(k * degree + b) % sequence.length];
+        }
+        return value % channels;
+      });
+    }
+    case 'custom':
+      if (customHops.length === 0) {
+        throw new RangeError('A custom hop pattern needs at least one channel');
+      }
+      if (customHops.some((hop) => !Number.isInteger(hop) || hop < 0 || hop >= channels)) {
+        throw new RangeError(`Hop channels must be whole numbers from 0 to ${channels - 1}`);
+      }
+      return Array.from({ length: count }, (_, k) => customHops[k % customHops.length]);
+  }
+}
+
+/**
+ * Spreads a bitstream over a wide band and receives it again.
+ *
+ * DSSS multiplies every polar bit by one period of the spreading code and
+ * sends the chips with BPSK. FHSS sends each bit with BFSK (tones at
+ * ±bitrate/2) on a carrier that hops between channels centred on
+ * `frequency`. The transmitted signals are sampled finely enough to draw
+ * the passband waveform; the receiver works on the complex envelope at a
+ * lower rate, adds the optional jammer, despreads (multiplies by the code)
+ * or dehops (mixes each hop back to the centre) and decides each bit.
+ */
+export function spreadSpectrum(bits: Bits | string, config: SpreadSpectrumConfig): SpreadSpectrumResult {
+  const data = typeof bits === 'string' ? parseBits(bits) : bits;
+  const { modType, frequency, amplitude, bitrate, jammer } = config;
+  if (!(bitrate > 0)) {
+    throw new RangeError('Bit rate must be positive');
+  }
+  const dsss = modType === 'dsss';
+
+  // DSSS code
+  const chipsPerBit = dsss ? config.chipsPerBit ?? DEFAULT_CHIPS_PER_BIT : 1;
+  const code = dsss ? spreadingCode(config.code ?? 'pn', chipsPerBit) : new Uint8Array(0);
+
+  // FHSS hop set
+  const channels = dsss ? 0 : config.hopChannels ?? DEFAULT_HOP_CHANNELS;
+  const hopSpacing = config.hopSpacing ?? 4 * bitrate;
+  const bitsPerHop = config.bitsPerHop ?? 1;
+  if (!dsss) {
+    if (!Number.isInteger(channels) || channels < 2) {
+      throw new RangeError('FHSS needs at least two hop channels');
+    }
+    if (!(hopSpacing >= bitrate)) {
+      throw new RangeError('Hop spacing must be at least the bit rate so the channels do not overlap');
+    }
+    if (!Number.isInteger(bitsPerHop) || bitsPerHop < 1) {
+      throw new RangeError('Bits per hop must be a positive whole number');
+    }
+  }
+  const hopOffsets = Array.from({ length: channels }, (_, k) => (k - (channels - 1) / 2) * hopSpacing);
+  const hops = dsss
+    ? []
+    : hopSequence(Math.ceil(data.length / bitsPerHop), channels, config.hopPattern ?? 'pn', config.customHops);
+  const toneOffset = bitrate / 2;
+  const maxOffset = dsss ? bitrate * chipsPerBit : Math.max(...hopOffsets) + toneOffset;
+
+  // Passband sample rate, rounded so every chip spans whole samples
+  const cyclesPerBit = (Math.abs(frequency) + maxOffset) / bitrate;
+  const samplesPerCycle = Math.max(
+    MIN_PASSBAND_SAMPLES_PER_CYCLE,
+    Math.min(PASSBAND_SAMPLES_PER_CYCLE, MAX_PASSBAND_SAMPLES_PER_BIT / cyclesPerBit)
+  );
+  const needed = Math.max(config.samplesPerBit ?? DEFAULT_SAMPLES_PER_BIT, Math.ceil(samplesPerCycle * cyclesPerBit));
+  const samplesPerBit = Math.ceil(needed / chipsPerBit) * chipsPerBit;
+  const envelopeSamplesPerBit = dsss
+    ? ENVELOPE_SAMPLES_PER_CHIP * chipsPerBit
+    : Math.max(ENVELOPE_SAMPLES_PER_CHIP, Math.ceil((4 * maxOffset) / bitrate));
+
+  const polar = Array.from(data, (bit) => 2 * bit - 1);
+  // Complex envelope of sample n on a grid with `perBit` samples per bit
+  const envelope = (n: number, perBit: number): [number, number] => {
+    const bit = Math.floor(n / perBit);
+    if (dsss) {
+      const chip = Math.floor(((n % perBit) * chipsPerBit) / perBit);
+      return [polar[bit] * (2 * code[chip] - 1), 0];
+    }
+    const offset = hopOffsets[hops[Math.floor(bit / bitsPerHop)]] + polar[bit] * toneOffset;
+    const theta = (2 * Math.PI * offset * n) / (perBit * bitrate);
+    return [Math.cos(theta), Math.sin(theta)];
+  };
+
+  // Transmitter
+  const sampleRate = bitrate * samplesPerBit;
+  const length = data.length * samplesPerBit;
+  const t = new Float64Array(length);
+  const baseband = createSignal(length, sampleRate);
+  const carrier = createSignal(length, sampleRate);
+  const inPhase = createSignal(length, sampleRate);
+  const quadrature = createSignal(length, sampleRate);
+  const phase = createSignal(length, sampleRate);
+  const modulated = createSignal(length, sampleRate);
+  for (let n = 0; n < length; n++) {
+    const time = n / sampleRate;
+    const omegaT = 2 * Math.PI * frequency * time;
+    const [i, q] = envelope(n, samplesPerBit);
+    t[n] = time;
+    baseband.samples[n] = data[Math.floor(n / samplesPerBit)];
+    carrier.samples[n] = amplitude * Math.sin(omegaT);
+    inPhase.samples[n] = i;
+    quadrature.samples[n] = q;
+    phase.samples[n] = Math.atan2(q, i);
+    modulated.samples[n] = amplitude * (i * Math.sin(omegaT) + q * Math.cos(omegaT));
+  }
+
+  // Receiver
+  const envelopeRate = bitrate * envelopeSamplesPerBit;
+  const envelopeLength = data.length * envelopeSamplesPerBit;
+  const received = {
+    inPhase: createSignal(envelopeLength, envelopeRate),
+    quadrature: createSignal(envelopeLength, envelopeRate)
+  };
+  const despread = {
+    inPhase: createSignal(envelopeLength, envelopeRate),
+    quadrature: createSignal(envelopeLength, envelopeRate)
+  };
+  const jammerAmplitude = jammer ? 10 ** (jammer.power / 20) : 0;
+  for (let n = 0; n < envelopeLength; n++) {
+    const time = n / envelopeRate;
+    let [i, q] = envelope(n, envelopeSamplesPerBit);
+    if (jammer) {
+      i += jammerAmplitude * Math.cos(2 * Math.PI * jammer.offset * time);
+      q += jammerAmplitude * Math.sin(2 * Math.PI * jammer.offset * time);
+    }
+    received.inPhase.samples[n] = i;
+    received.quadrature.samples[n] = q;
+
+    const bit = Math.floor(n / envelopeSamplesPerBit);
+    if (dsss) {
+      const chip = 2 * code[Math.floor(((n % envelopeSamplesPerBit) * chipsPerBit) / envelopeSamplesPerBit)] - 1;
+      despread.inPhase.samples[n] = i * chip;
+      despread.quadrature.samples[n] = q * chip;
+    } else {
+      const theta = -2 * Math.PI * hopOffsets[hops[Math.floor(bit / bitsPerHop)]] * time;
+      despread.inPhase.samples[n] = i * Math.cos(theta) - q * Math.sin(theta);
+      despread.quadrature.samples[n] = i * Math.sin(theta) + q * Math.cos(theta);
+    }
+  }
+
+  // DSSS integrates the despread bit; FHSS compares the energy on its two tones
+  const decided = new Uint8Array(data.length);
+  for (let bit = 0; bit < data.length; bit++) {
+    let sum = 0;
+    const tones = [
+      { re: 0, im: 0 },
+      { re: 0, im: 0 }
+    ];
+    for (let n = bit * envelopeSamplesPerBit; n < (bit + 1) * envelopeSamplesPerBit; n++) {
+      const i = despread.inPhase.samples[n];
+      const q = despread.quadrature.samples[n];
+      sum += i;
+      tones.forEach((tone, value) => {
+        const theta = (-2 * Math.PI * (2 * value - 1) * toneOffset * n) / envelopeRate;
+        tone.re += i * Math.cos(theta) - q * Math.sin(theta);
+        tone.im += i * Math.sin(theta) + q * Math.cos(theta);
+      });
+    }
+    decided[bit] = dsss
+      ? +(sum > 0)
+      : +(Math.hypot(tones[1].re, tones[1].im) > Math.hypot(tones[0].re, tones[0].im));
+  }
+
+  return {
+    t,
+    baseband,
+    carrier,
+    inPhase,
+    quadrature,
+    phase,
+    modulated,
+    code,
+    hops,
+    hopOffsets,
+    processingGain: 10 * Math.log10(dsss ? chipsPerBit : channels),
+    received,
+    despread,
+    bits: decided
+  };
+}
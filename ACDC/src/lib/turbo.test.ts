@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { simulateIterativeBer } from './ber';
+import { createGaussian, createRandom, randomBits } from './random';
+import { turboCode, turboDecode, turboEncode, turboFrameLength } from './turbo';
+
+const code = turboCode(256);
+const codec = {
+  dataLength: code.length,
+  frameLength: turboFrameLength(code),
+  encode: (bits: ArrayLike<number>) => turboEncode(bits, code),
+  decode: (received: ArrayLike<number>, noiseVariance: number, iterations: number) =>
+    turboDecode(received, code, noiseVariance, iterations)
+};
+
+describe('turbo codes', () => {
+  it('shuffles with a seeded permutation', () => {
+    expect([...code.interleaver].sort((a, b) => a - b)).toEqual(Array.from({ length: 256 }, (_, i) => i));
+    expect(turboCode(256).interleaver).toEqual(code.interleaver);
+    expect(turboCode(256, 2).interleaver).not.toEqual(code.interleaver);
+  });
+
+  it('sends each data bit with two parity bits, then the tail', () => {
+    const data = randomBits(code.length, createRandom(4));
+    const coded = turboEncode(data, code);
+    expect(coded).toHaveLength(3 * 256 + 6);
+    data.forEach((bit, k) => expect(coded[3 * k]).toBe(bit));
+  });
+
+  it('decodes without errors at 3 dB Eb/N0', () => {
+    const random = createRandom(9);
+    const gaussian = createGaussian(random);
+    const noiseVariance = codec.frameLength / (2 * codec.dataLength * 10 ** 0.3);
+    for (let frame = 0; frame < 10; frame++) {
+      const data = randomBits(code.length, random);
+      const received = Array.from(codec.encode(data), (bit) => 2 * bit - 1 + Math.sqrt(noiseVariance) * gaussian());
+      expect(Array.from(codec.decode(received, noiseVariance, 8).bits)).toEqual(Array.from(data));
+    }
+  });
+
+  it('corrects more errors with every iteration near its threshold', () => {
+    const ber = simulateIterativeBer(codec, 1, { bits: 20000, iterations: 6 });
+    expect(ber[0]).toBeGreaterThan(0);
+    expect(ber[5]).toBeLessThan(ber[0] / 10);
+  });
+
+  it('rejects empty frames and wrong frame lengths', () => {
+    expect(() => turboCode(0)).toThrow(RangeError);
+    expect(() => turboEncode([1, 0], code)).toThrow(RangeError);
+  });
+});
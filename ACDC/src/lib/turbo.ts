@@ -0,0 +1,170 @@
+import { createRandom } from './random';
+import type { Bits, IterativeDecoding, TurboCode } from './types';
+
+/**
+ * Constituent encoder of LTE: recursive systematic with feedback
+ * 1 + D^2 + D^3 and parity 1 + D + D^3. The state holds the last three
+ * register inputs, the most recent in the top bit.
+ */
+const MEMORY = 3;
+const STATES = 2 ** MEMORY;
+
+const registerInput = (state: number, bit: number) => bit ^ ((state >> 1) & 1) ^ (state & 1);
+const parityOf = (state: number, input: number) => input ^ (state >> 2) ^ (state & 1);
+const nextStateOf = (state: number, input: number) => (input << 2) | (state >> 1);
+
+/** Parity bit and next state for every state and data bit, indexed state * 2 + bit. */
+const TRELLIS = Array.from({ length: STATES * 2 }, (_, index) => {
+  const state = index >> 1;
+  const input = registerInput(state, index & 1);
+  return { parity: parityOf(state, input), next: nextStateOf(state, input) };
+});
+
+/** Data bits per frame offered in the UI. */
+export const TURBO_LENGTHS = [64, 256, 1024];
+
+/** A turbo code with a seeded pseudo-random interleaver of `length` bits. */
+export function turboCode(length: number, seed = 1): TurboCode {
+  if (!Number.isInteger(length) || length < 1) {
+    throw new RangeError('A turbo frame needs at least one data bit');
+  }
+  const random = createRandom(seed);
+  const interleaver = Array.from({ length }, (_, i) => i);
+  for (let i = length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [interleaver[i], interleaver[j]] = [interleaver[j], interleaver[i]];
+  }
+  return { length, interleaver };
+}
+
+/** Code bits per frame: systematic and two parity bits per data bit, plus six tail bits. */
+export const turboFrameLength = (code: TurboCode) => 3 * code.length + 2 * MEMORY;
+
+/**
+ * Rate-1/3 turbo encoding of one frame. Each data bit is sent with the
+ * parity bits of both encoders; the first encoder is then driven back to
+ * the zero state, sending its tail as systematic and parity pairs. The
+ * second encoder is left unterminated.
+ */
+export function turboEncode(bits: ArrayLike<number>, code: TurboCode): Bits {
+  if (bits.length !== code.length) {
+    throw new RangeError(`A turbo frame carries exactly ${code.length} data bits`);
+  }
+  const coded = new Uint8Array(turboFrameLength(code));
+  let first = 0;
+  let second = 0;
+  for (let k = 0; k < code.length; k++) {
+    const upper = TRELLIS[first * 2 + bits[k]];
+    const lower = TRELLIS[second * 2 + bits[code.interleaver[k]]];
+    coded.set([bits[k], upper.parity, lower.parity], 3 * k);
+    first = upper.next;
+    second = lower.next;
+  }
+  for (let t = 0; t < MEMORY; t++) {
+    // The tail bit that cancels the feedback shifts a zero into the register
+    const bit = ((first >> 1) & 1) ^ (first & 1);
+    const step = TRELLIS[first * 2 + bit];
+    coded.set([bit, step.parity], 3 * code.length + 2 * t);
+    first = step.next;
+  }
+  return coded;
+}
+
+/** Jacobian logarithm log(e^a + e^b). */
+const maxStar = (a: number, b: number) => {
+  if (a === -Infinity) return b;
+  if (b === -Infinity) return a;
+  return Math.max(a, b) + Math.log1p(Math.exp(-Math.abs(a - b)));
+};
+
+/**
+ * Log-MAP (BCJR) decoding of one constituent code. All inputs are LLRs
+ * log P(1) / P(0): the channel values of the systematic and parity bits
+ * and the a-priori information on the data bits. Returns the a-posteriori
+ * LLR of the bit at every step.
+ */
+function bcjr(systematic: Float64Array, parity: Float64Array, apriori: Float64Array, terminated: boolean) {
+  const steps = systematic.length;
+  const gamma = (k: number, state: number, bit: number) =>
+    (bit ? systematic[k] + (apriori[k] ?? 0) : 0) + (TRELLIS[state * 2 + bit].parity ? parity[k] : 0);
+
+  const alpha = new Float64Array((steps + 1) * STATES).fill(-Infinity);
+  alpha[0] = 0;
+  for (let k = 0; k < steps; k++) {
+    let max = -Infinity;
+    for (let state = 0; state < STATES; state++) {
+      const from = alpha[k * STATES + state];
+      if (from === -Infinity) continue;
+      for (let bit = 0; bit < 2; bit++) {
+        const to = (k + 1) * STATES + TRELLIS[state * 2 + bit].next;
+        alpha[to] = maxStar(alpha[to], from + gamma(k, state, bit));
+      }
+    }
+    for (let state = 0; state < STATES; state++) max = Math.max(max, alpha[(k + 1) * STATES + state]);
+    for (let state = 0; state < STATES; state++) alpha[(k + 1) * STATES + state] -= max;
+  }
+
+  const beta = new Float64Array((steps + 1) * STATES).fill(terminated ? -Infinity : 0);
+  beta[steps * STATES] = 0;
+  const llr = new Float64Array(steps);
+  for (let k = steps - 1; k >= 0; k--) {
+    const likelihood = [-Infinity, -Infinity];
+    let max = -Infinity;
+    for (let state = 0; state < STATES; state++) {
+      let value = -Infinity;
+      for (let bit = 0; bit < 2; bit++) {
+        const branch = gamma(k, state, bit) + beta[(k + 1) * STATES + TRELLIS[state * 2 + bit].next];
+        value = maxStar(value, branch);
+        likelihood[bit] = maxStar(likelihood[bit], alpha[k * STATES + state] + branch);
+      }
+      beta[k * STATES + state] = value;
+      max = Math.max(max, value);
+    }
+    for (let state = 0; state < STATES; state++) beta[k * STATES + state] -= max;
+    llr[k] = likelihood[1] - likelihood[0];
+  }
+  return llr;
+}
+
+/**
+ * Iterative turbo decoding: the two log-MAP decoders trade extrinsic
+ * information through the interleaver for `iterations` rounds.
+ * `received` holds one BPSK sample per code bit, nominally ±1 for 1/0,
+ * with AWGN of the given variance.
+ */
+export function turboDecode(
+  received: ArrayLike<number>,
+  code: TurboCode,
+  noiseVariance: number,
+  iterations: number
+): IterativeDecoding {
+  const { length, interleaver } = code;
+  const scale = 2 / noiseVariance;
+  const sample = (i: number) => scale * (received[i] ?? 0);
+
+  // The first decoder also sees the tail; the second gets the data bits in interleaved order
+  const systematic1 = Float64Array.from({ length: length + MEMORY }, (_, k) =>
+    sample(k < length ? 3 * k : 3 * length + 2 * (k - length))
+  );
+  const parity1 = Float64Array.from({ length: length + MEMORY }, (_, k) =>
+    sample(k < length ? 3 * k + 1 : 3 * length + 2 * (k - length) + 1)
+  );
+  const systematic2 = Float64Array.from(interleaver, (k) => systematic1[k]);
+  const parity2 = Float64Array.from({ length }, (_, k) => sample(3 * k + 2));
+
+  const apriori1 = new Float64Array(length + MEMORY);
+  const apriori2 = new Float64Array(length);
+  const extrinsic1 = new Float64Array(length);
+  const trace: Bits[] = [];
+  for (let iteration = 0; iteration < iterations; iteration++) {
+    const llr1 = bcjr(systematic1, parity1, apriori1, true);
+    for (let k = 0; k < length; k++) extrinsic1[k] = llr1[k] - apriori1[k] - systematic1[k];
+    interleaver.forEach((k, j) => (apriori2[j] = extrinsic1[k]));
+
+    const llr2 = bcjr(systematic2, parity2, apriori2, false);
+    interleaver.forEach((k, j) => (apriori1[k] = llr2[j] - apriori2[j] - systematic2[j]));
+
+    trace.push(Uint8Array.from({ length }, (_, k) => (systematic1[k] + extrinsic1[k] + apriori1[k] > 0 ? 1 : 0)));
+  }
+  return { bits: trace[trace.length - 1] ?? new Uint8Array(length), trace };
+}
@@ -0,0 +1,722 @@
+/**
+ * Shared types for the signal-processing engine.
+ *
+ * Everything in here is framework-free so the engine can be driven from the
+ * React UI, web workers or command-line tools alike. All engine quantities use
+ * SI units: time in seconds, frequencies in Hz and rates in bit/s.
+ */
+
+/** A bitstream, one bit (0 or 1) per element. */
+export type Bits = Uint8Array;
+
+/** A block of real-valued samples together with the rate they were taken at. */
+export interface Signal {
+  samples: Float64Array;
+  /** Samples per second. */
+  sampleRate: number;
+}
+
+export interface Complex {
+  re: number;
+  im: number;
+}
+
+export type ModulationType =
+  | 'ask'
+  | 'fsk'
+  | 'psk'
+  | 'bask'
+  | 'bfsk'
+  | 'bpsk'
+  | 'qpsk'
+  | '8psk'
+  | '16qam'
+  | '64qam'
+  | '256qam'
+  | '16apsk'
+  | '32apsk'
+  | 'cpfsk'
+  | 'msk'
+  | 'gmsk'
+  | 'oqpsk'
+  | 'pi4dqpsk'
+  | 'dbpsk';
+
+export type QamLayout = 'square' | 'cross';
+
+/** Baseband line code applied to the bits of binary modulations. */
+export type LineCode =
+  | 'unipolar-nrz'
+  | 'nrz-l'
+  | 'nrz-i'
+  | 'unipolar-rz'
+  | 'polar-rz'
+  | 'manchester'
+  | 'diff-manchester'
+  | 'ami'
+  | 'pseudoternary';
+
+/** Symbol pulse: rectangular, raised cosine, root raised cosine or Gaussian. */
+export type PulseShape = 'rect' | 'rc' | 'rrc' | 'gaussian';
+
+export interface PulseShaping {
+  shape: PulseShape;
+  /** Raised-cosine roll-off factor β in [0, 1]; defaults to 0.35. */
+  rolloff?: number;
+  /** Gaussian bandwidth-time product; defaults to 0.5. */
+  bt?: number;
+  /** Length of the RC, RRC and Gaussian pulses in symbols; defaults to 6. */
+  span?: number;
+}
+
+/** How bit patterns are assigned to constellation points. */
+export type BitMapping = 'gray' | 'natural' | 'custom';
+
+/** Constellation points indexed by symbol value (bits read MSB first). */
+export interface Constellation {
+  bitsPerSymbol: number;
+  points: Complex[];
+  /** Index of each symbol value's point in the layout's natural order. */
+  pointIndex: number[];
+}
+
+export interface ConstellationOptions {
+  /** Point layout for 64-QAM and 256-QAM; defaults to 'square'. */
+  qamLayout?: QamLayout;
+  /**
+   * APSK ring radii relative to the inner ring: [R2/R1] for 16-APSK and
+   * [R2/R1, R3/R1] for 32-APSK. Defaults to the DVB-S2 rate-3/4 values.
+   */
+  apskRingRatios?: number[];
+  /** Bit-to-symbol mapping; defaults to 'gray'. */
+  mapping?: BitMapping;
+  /**
+   * Lookup table for the 'custom' mapping: entry `v` is the natural-order
+   * index of the point that symbol value `v` is sent on.
+   */
+  customMapping?: number[];
+}
+
+export interface ModulationConfig extends ConstellationOptions {
+  modType: ModulationType;
+  /** Carrier frequency in Hz. */
+  frequency: number;
+  /** Peak carrier amplitude. */
+  amplitude: number;
+  /** Bit rate in bit/s. */
+  bitrate: number;
+  /** FSK tone spacing in Hz; the '0' tone sits at `frequency + freqDev`. */
+  freqDev: number;
+  /**
+   * CPFSK modulation index h: the tones sit at `frequency ± h·bitrate/2`
+   * and the phase moves by ±πh per bit. Defaults to 0.5; MSK and GMSK
+   * always use 0.5.
+   */
+  modulationIndex?: number;
+  /** GMSK Gaussian filter bandwidth-time product; defaults to 0.3. */
+  bt?: number;
+  /**
+   * Line code for binary, non-differential modulations; defaults to
+   * unipolar NRZ, which keys the bits straight through the constellation.
+   * Any other code keys the carrier with its levels instead, so the bit
+   * mapping no longer applies.
+   */
+  lineCode?: LineCode;
+  /**
+   * Pulse that every symbol (or line-code level) is sent with; defaults to
+   * rectangular. Continuous-phase modulations shape their frequency pulse.
+   */
+  pulseShaping?: PulseShaping;
+  /** Samples generated per bit; defaults to `DEFAULT_SAMPLES_PER_BIT`. */
+  samplesPerBit?: number;
+}
+
+export interface ModulationResult {
+  /** Sample instants in seconds, shared by every signal below. */
+  t: Float64Array;
+  /**
+   * Line-coded baseband of the transmitted bits; unipolar NRZ (0/1) unless
+   * a line code applies to the modulation.
+   */
+  baseband: Signal;
+  /** Unmodulated reference carrier. */
+  carrier: Signal;
+  /** In-phase part of the complex envelope, normalized to unit amplitude. */
+  inPhase: Signal;
+  /** Quadrature part of the complex envelope, normalized to unit amplitude. */
+  quadrature: Signal;
+  /** Phase of the complex envelope relative to the carrier, in radians. */
+  phase: Signal;
+  modulated: Signal;
+  bitsPerSymbol: number;
+  /** Symbol rate in baud. */
+  symbolRate: number;
+  /**
+   * Fixed bit-to-point constellation in use; null for the FSK family, for
+   * differential schemes, whose points depend on the previous symbol, and
+   * when a line code other than unipolar NRZ sets the envelope.
+   */
+  constellation: Constellation | null;
+  /** Every point a symbol can land on; empty for the FSK family. */
+  referencePoints: Complex[];
+  /** Transmitted envelope of every symbol; empty for the FSK family. */
+  symbols: Complex[];
+}
+
+export type AnalogModulationType = 'am' | 'dsbsc' | 'ssb-usb' | 'ssb-lsb' | 'vsb' | 'fm' | 'pm';
+
+export interface Tone {
+  /** Frequency in Hz. */
+  frequency: number;
+  amplitude: number;
+  /** Phase offset in radians. */
+  phase?: number;
+}
+
+/** Message signal for the analog modulators. */
+export type MessageConfig =
+  | { kind: 'sine'; frequency: number; amplitude?: number }
+  | { kind: 'tones'; tones: Tone[] }
+  /** One period of a hand-drawn waveform, repeated at `frequency` Hz. */
+  | { kind: 'drawn'; frequency: number; waveform: number[] };
+
+export interface AnalogModulationConfig {
+  modType: AnalogModulationType;
+  /** Carrier frequency in Hz. */
+  frequency: number;
+  /** Peak carrier amplitude. */
+  amplitude: number;
+  /** AM (DSB-FC) modulation index μ; defaults to 0.5. */
+  modulationIndex?: number;
+  /** FM peak frequency deviation in Hz; defaults to a quarter of the carrier frequency. */
+  frequencyDeviation?: number;
+  /** PM peak phase deviation in radians; defaults to π/2. */
+  phaseDeviation?: number;
+  /** Width in Hz of the VSB vestige on each side of the carrier; defaults to a tenth of the carrier frequency. */
+  vestigeWidth?: number;
+}
+
+export interface AnalogModulationResult {
+  /** Sample instants in seconds, shared by every signal below. */
+  t: Float64Array;
+  /** Message as supplied, before peak normalization. */
+  message: Signal;
+  /** Unmodulated reference carrier. */
+  carrier: Signal;
+  /** In-phase part of the complex envelope, normalized to unit carrier amplitude. */
+  inPhase: Signal;
+  /** Quadrature part of the complex envelope, normalized to unit carrier amplitude. */
+  quadrature: Signal;
+  /** Phase of the complex envelope relative to the carrier, in radians. */
+  phase: Signal;
+  modulated: Signal;
+}
+
+/** Modulations available on OFDM subcarriers. */
+export type OfdmSubcarrierModulation = 'bpsk' | 'qpsk' | '16qam' | '64qam';
+
+/**
+ * Where OFDM pilots go: on every `pilotSpacing`-th subcarrier of every
+ * symbol ('comb'), on every subcarrier of every `pilotSpacing`-th symbol
+ * ('block'), or nowhere.
+ */
+export type PilotPattern = 'none' | 'comb' | 'block';
+
+export interface OfdmConfig {
+  /** Number of subcarriers, which is also the FFT size; a power of two. */
+  subcarriers: number;
+  modulation: OfdmSubcarrierModulation;
+  /** Cyclic prefix length in samples. */
+  cyclicPrefix: number;
+  pilotPattern: PilotPattern;
+  /** Pilot spacing in subcarriers (comb) or OFDM symbols (block); defaults to 4. */
+  pilotSpacing?: number;
+  /** Baseband sample rate in Hz; the subcarrier spacing is `sampleRate / subcarriers`. */
+  sampleRate: number;
+}
+
+export interface OfdmResult {
+  /** Number of OFDM symbols sent. */
+  symbolCount: number;
+  /** Samples per OFDM symbol including the cyclic prefix. */
+  symbolLength: number;
+  /** Transmitted subcarrier values, one row per OFDM symbol. */
+  grid: Complex[][];
+  /** Pilot positions matching `grid`. */
+  pilots: boolean[][];
+  /** Complex baseband after the IFFT and cyclic prefix insertion. */
+  inPhase: Signal;
+  quadrature: Signal;
+  /** Data bits actually sent, zero-padded to fill the last OFDM symbol. */
+  bits: Bits;
+}
+
+export interface OfdmReception {
+  /** Subcarrier values after the FFT, before equalization. */
+  received: Complex[][];
+  /** Channel estimate per subcarrier and OFDM symbol. */
+  channel: Complex[][];
+  /** Equalized data-subcarrier values in transmission order. */
+  dataPoints: Complex[];
+  /** Hard-decision bits. */
+  bits: Bits;
+}
+
+export type SpreadSpectrumType = 'dsss' | 'fhss';
+
+/** DSSS spreading code family: maximal-length PN, Gold or Barker. */
+export type SpreadingCode = 'pn' | 'gold' | 'barker';
+
+/** FHSS channel order: PN-driven, stepping through the hop set, or user-supplied. */
+export type HopPattern = 'pn' | 'sequential' | 'custom';
+
+/** Narrowband tone added at the receiver input. */
+export interface Jammer {
+  /** Tone frequency in Hz, relative to the carrier. */
+  offset: number;
+  /** Jammer-to-signal power ratio in dB. */
+  power: number;
+}
+
+export interface SpreadSpectrumConfig {
+  modType: SpreadSpectrumType;
+  /** Carrier frequency in Hz. */
+  frequency: number;
+  /** Peak carrier amplitude. */
+  amplitude: number;
+  /** Bit rate in bit/s. */
+  bitrate: number;
+  /** DSSS code family; defaults to 'pn'. */
+  code?: SpreadingCode;
+  /**
+   * DSSS chips per bit, which is also the code length, so the chip rate is
+   * `bitrate·chipsPerBit`. PN codes come in lengths 2^n − 1 (7 to 1023),
+   * Gold codes in 31, 63 and 127 and Barker codes in 2, 3, 4, 5, 7, 11 and
+   * 13. Defaults to 7.
+   */
+  chipsPerBit?: number;
+  /** FHSS hop set size; defaults to 8. */
+  hopChannels?: number;
+  /** FHSS channel spacing in Hz; defaults to four times the bit rate. */
+  hopSpacing?: number;
+  /** FHSS channel order; defaults to 'pn'. */
+  hopPattern?: HopPattern;
+  /** Channel indices for the 'custom' hop pattern, repeated as needed. */
+  customHops?: number[];
+  /** FHSS bits sent per hop; defaults to 1. */
+  bitsPerHop?: number;
+  jammer?: Jammer;
+  /** Samples generated per bit; chosen from the carrier and chip rate by default. */
+  samplesPerBit?: number;
+}
+
+/** Complex envelope sampled at the spread-spectrum receiver. */
+export interface ComplexEnvelope {
+  inPhase: Signal;
+  quadrature: Signal;
+}
+
+export interface SpreadSpectrumResult {
+  /** Sample instants in seconds, shared by the passband signals below. */
+  t: Float64Array;
+  /** Transmitted bits as unipolar NRZ (0/1). */
+  baseband: Signal;
+  /** Unmodulated reference carrier. */
+  carrier: Signal;
+  /** In-phase part of the complex envelope, normalized to unit amplitude. */
+  inPhase: Signal;
+  /** Quadrature part of the complex envelope, normalized to unit amplitude. */
+  quadrature: Signal;
+  /** Phase of the complex envelope relative to the carrier, in radians. */
+  phase: Signal;
+  modulated: Signal;
+  /** One period of the DSSS spreading code; empty for FHSS. */
+  code: Bits;
+  /** Channel of every FHSS hop; empty for DSSS. */
+  hops: number[];
+  /** Frequency of every FHSS channel in Hz, relative to the carrier. */
+  hopOffsets: number[];
+  /** Spreading bandwidth over data rate in dB. */
+  processingGain: number;
+  /**
+   * Envelope at the receiver input, jammer included. It is sampled just
+   * fast enough to hold the spread spectrum rather than the carrier.
+   */
+  received: ComplexEnvelope;
+  /** Received envelope after despreading (DSSS) or dehopping (FHSS). */
+  despread: ComplexEnvelope;
+  /** Bits decided from the despread envelope. */
+  bits: Bits;
+}
+
+/** CDMA channelization codes: rows of a Walsh-Hadamard matrix or nodes of the OVSF code tree. */
+export type ChannelizationCode = 'walsh' | 'ovsf';
+
+export interface CdmaUser {
+  bits: Bits;
+  /** Code index: the Hadamard row for Walsh codes, the position in its tree layer for OVSF. */
+  code: number;
+  /** Chips per bit, a power of two. Walsh users all share one; OVSF users may differ. */
+  spreadingFactor: number;
+  /** Arrival delay in chips, which may be fractional; defaults to 0. */
+  delay?: number;
+}
+
+export interface CdmaConfig {
+  family: ChannelizationCode;
+  users: CdmaUser[];
+  /** Chip rate in chip/s. */
+  chipRate: number;
+  /** Samples generated per chip; defaults to 8. */
+  samplesPerChip?: number;
+}
+
+export interface CdmaUserReception {
+  /** Channelization code as ±1 chips. */
+  code: Int8Array;
+  /** This user's delayed, spread contribution to the channel. */
+  spread: Signal;
+  /** Correlator output for each bit, normalized so an undisturbed bit gives ±1. */
+  soft: number[];
+  /** Hard decisions on `soft`. */
+  bits: Bits;
+  bitErrors: number;
+}
+
+export interface CdmaResult {
+  users: CdmaUserReception[];
+  /** Sum of every user's spread signal. */
+  channel: Signal;
+  /** Normalized cross-correlation of every pair of codes with the users aligned. */
+  correlation: number[][];
+  /** The same cross-correlations at the users' relative delays. */
+  offsetCorrelation: number[][];
+}
+
+/** Pulse modulation by an analog message: PAM with natural or flat-top sampling, PWM or PPM. */
+export type PulseModulationType = 'pam-natural' | 'pam-flat' | 'pwm' | 'ppm';
+
+export interface PulseModulationConfig {
+  type: PulseModulationType;
+  /** Pulse (sampling) rate in Hz. */
+  pulseRate: number;
+  /** PAM and PPM pulse width as a fraction of the pulse period; defaults to 0.25. */
+  dutyCycle?: number;
+}
+
+export interface PulseModulationResult {
+  /** Pulse train at the message's sample rate. */
+  pulses: Signal;
+  /** Sampling instants in seconds. */
+  sampleTimes: Float64Array;
+  /** Message value at each sampling instant. */
+  sampleValues: Float64Array;
+}
+
+/** Quantizer characteristic: uniform, or companded by the μ-law or A-law. */
+export type Companding = 'uniform' | 'mu-law' | 'a-law';
+
+export interface PcmConfig {
+  /** Sampling rate in Hz. */
+  sampleRate: number;
+  /** Bits per code word. */
+  bitsPerSample: number;
+  companding: Companding;
+}
+
+export interface PcmResult {
+  /** Sampling instants in seconds. */
+  sampleTimes: Float64Array;
+  /** Message samples; the quantizer's full scale is ±1 and anything beyond clips. */
+  samples: Float64Array;
+  /** Quantization level of each sample, 0 for the most negative. */
+  levels: number[];
+  /** Decoded value of each sample, after expansion. */
+  quantized: Float64Array;
+  /** Code words (the level in natural binary, MSB first), one after another. */
+  bits: Bits;
+  /** Decoder output held between sampling instants, at the message's sample rate. */
+  reconstructed: Signal;
+  /** Measured signal-to-quantization-noise ratio in dB. */
+  sqnr: number;
+}
+
+/** Delta modulation: fixed step, or adaptive with Jayant or CVSD step control. */
+export type DeltaModulationType = 'dm' | 'jayant' | 'cvsd';
+
+export interface DeltaModulationConfig {
+  type: DeltaModulationType;
+  /** Sampling rate in Hz. */
+  sampleRate: number;
+  /** Step size; the smallest step for the adaptive schemes. */
+  stepSize: number;
+  /** Jayant step multiplier; defaults to 1.5. */
+  stepMultiplier?: number;
+  /** Largest adaptive step as a multiple of `stepSize`; defaults to 16. */
+  maxStepRatio?: number;
+}
+
+/** How the staircase follows the message over one sampling interval. */
+export type DeltaRegion = 'tracking' | 'overload' | 'granular';
+
+export interface DeltaModulationResult {
+  /** Sampling instants in seconds. */
+  sampleTimes: Float64Array;
+  /** One bit per sample: 1 steps the staircase up, 0 steps it down. */
+  bits: Bits;
+  /** Step size used at each sample. */
+  steps: Float64Array;
+  /** Decoder staircase held between samples, at the message's sample rate. */
+  staircase: Signal;
+  /** Behaviour of the staircase over each sampling interval. */
+  regions: DeltaRegion[];
+  /** Signal-to-noise ratio of the staircase against the message, in dB. */
+  sqnr: number;
+}
+
+/** Interpolation used to rebuild a signal from its samples. */
+export type Reconstruction = 'sinc' | 'zoh';
+
+export interface SamplingResult {
+  /** Sampling instants in seconds. */
+  sampleTimes: Float64Array;
+  samples: Float64Array;
+  /** The samples as an impulse train at the message's sample rate, zero in between. */
+  impulses: Signal;
+  /** Signal rebuilt from the samples, at the message's sample rate. */
+  reconstructed: Signal;
+}
+
+/** How the transmitted bitstream is entered. */
+export type InputFormat = 'binary' | 'text' | 'hex' | 'base64' | 'file';
+
+/** Asynchronous (UART-style) framing around every byte. */
+export interface ByteFraming {
+  /** Sends a 0 start bit before each byte. */
+  startBit: boolean;
+  /** Number of 1 stop bits after each byte. */
+  stopBits: number;
+}
+
+/** Test patterns for the transmitted bitstream. */
+export type PatternType =
+  | 'prbs7'
+  | 'prbs9'
+  | 'prbs15'
+  | 'prbs23'
+  | 'prbs31'
+  | 'alternating'
+  | 'zeros'
+  | 'ones'
+  | 'random'
+  | 'lfsr';
+
+export interface PatternConfig {
+  type: PatternType;
+  /** Number of bits to generate. */
+  length: number;
+  /** Seed of the 'random' pattern; the same seed always gives the same bits. */
+  seed?: number;
+  /** Feedback polynomial of the 'lfsr' pattern as its exponents, e.g. [5, 3] for x^5 + x^3 + 1. */
+  polynomial?: number[];
+}
+
+/** Forward-error-correction code applied between the bit source and the modulator. */
+export type ChannelCode = 'none' | 'hamming74' | 'hamming1511' | 'conv12' | 'conv13' | 'reed-solomon';
+
+export interface ConvolutionalCode {
+  /** Register length K, including the current input bit. */
+  constraintLength: number;
+  /** Generator polynomials in octal notation, one per output bit; the MSB taps the current input. */
+  generators: number[];
+}
+
+/** Reed-Solomon code over GF(2^symbolBits); shortened when n < 2^symbolBits - 1. */
+export interface ReedSolomonCode {
+  /** Codeword length in symbols. */
+  n: number;
+  /** Message length in symbols; the code corrects floor((n - k) / 2) symbol errors. */
+  k: number;
+  symbolBits: number;
+}
+
+export type InterleaverConfig =
+  | { type: 'block'; rows: number; columns: number }
+  | {
+      type: 'convolutional';
+      branches: number;
+      /** Extra delay of each successive branch, in passes of the commutator. */
+      delay: number;
+    };
+
+export interface ChannelCodingConfig {
+  code: ChannelCode;
+  /** CRC generator as its exponents without the constant term, e.g. [8, 2, 1]; no CRC when omitted. */
+  crc?: number[];
+  /** Parameters of the 'reed-solomon' code. */
+  reedSolomon?: ReedSolomonCode;
+  /** Interleaver applied to the coded stream, in whole Reed-Solomon symbols or single bits. */
+  interleaver?: InterleaverConfig;
+}
+
+export interface ChannelDecoding {
+  /** Decoded data bits, without the CRC. */
+  bits: Bits;
+  /** Coded bits as they reached the decoder, after deinterleaving. */
+  received: Bits;
+  /** Positions in the (deinterleaved) coded stream whose bit the decoder changed. */
+  corrected: number[];
+  /** Whether the CRC checked out; null without a CRC. */
+  crcValid: boolean | null;
+  /** Encoder states along the Viterbi survivor path; empty for block codes. */
+  path: number[];
+}
+
+/** Sparse parity-check matrix: the code bits (columns) every check (row) involves. */
+export interface ParityCheckMatrix {
+  columns: number;
+  checks: number[][];
+}
+
+export interface LdpcCode {
+  matrix: ParityCheckMatrix;
+  /** Code bits per frame. */
+  n: number;
+  /** Data bits per frame: n less the rank of the parity-check matrix. */
+  k: number;
+  /** Code bits that carry the data, in order. */
+  dataPositions: number[];
+  /** Every other code bit, as the XOR of the data-carrying bits it depends on. */
+  parityEquations: { position: number; sources: number[] }[];
+}
+
+/** Parallel concatenation of two recursive systematic convolutional encoders. */
+export interface TurboCode {
+  /** Data bits per frame, which is also the interleaver length. */
+  length: number;
+  /** Data bit fed to the second encoder at each step. */
+  interleaver: number[];
+}
+
+export interface IterativeDecoding {
+  /** Decoded data bits. */
+  bits: Bits;
+  /** Hard decisions on the data bits after every iteration; shorter when the decoder stops early. */
+  trace: Bits[];
+}
+
+/** A frame-based code with an iterative soft-decision decoder, such as LDPC or turbo. */
+export interface IterativeCodec {
+  dataLength: number;
+  frameLength: number;
+  encode: (bits: Bits) => Bits;
+  /** Decodes BPSK samples, nominally ±1 for 1/0, carrying AWGN of the given variance. */
+  decode: (received: ArrayLike<number>, noiseVariance: number, iterations: number) => IterativeDecoding;
+}
+
+/**
+ * Level of additive white Gaussian noise, either as the SNR over the whole
+ * sampled band or as Eb/N0, both in dB. Eb/N0 depends on how many samples
+ * a symbol spans and how many bits it carries.
+ */
+export type AwgnConfig = { seed: number } & (
+  | { type: 'snr'; snrDb: number }
+  | { type: 'ebn0'; ebN0Db: number; samplesPerSymbol: number; bitsPerSymbol: number }
+);
+
+export type FadingModel = 'rayleigh' | 'rician' | 'nakagami';
+
+/**
+ * Flat fading: one complex gain on the whole signal, varying in time with
+ * Clarke's Doppler spectrum and normalized to unit mean power.
+ */
+export interface FadingConfig {
+  model: FadingModel;
+  /** Maximum Doppler shift in Hz; 0 holds the gain constant. */
+  dopplerFrequency: number;
+  /** Rician K-factor: line-of-sight power over scattered power, linear. */
+  kFactor?: number;
+  /** Nakagami shape parameter, a multiple of 0.5 from 0.5 up; 1 is Rayleigh. */
+  m?: number;
+  seed: number;
+}
+
+/** Complex gain of a channel at every sample. */
+export interface ChannelGain {
+  re: Float64Array;
+  im: Float64Array;
+}
+
+/**
+ * Everything between the modulator and the demodulator: the transmitter's
+ * power amplifier, multipath, then fading, then AWGN scaled to the mean
+ * received power, then the receiver's RF impairments.
+ */
+export interface ChannelConfig {
+  amplifier?: AmplifierConfig;
+  multipath?: MultipathTap[];
+  fading?: FadingConfig;
+  awgn?: AwgnConfig;
+  impairments?: ImpairmentConfig;
+  /** The receiver knows the fading gain and divides it out. */
+  equalize?: boolean;
+}
+
+export type MultipathProfile = 'itu-ped-a' | 'itu-veh-a' | 'epa' | 'eva' | 'etu';
+
+/** One path of a tapped-delay-line channel. */
+export interface MultipathTap {
+  /** Excess delay in seconds. */
+  delay: number;
+  /** Relative path gain in dB. */
+  gainDb: number;
+  /** Phase of the path's complex gain, in radians. */
+  phase: number;
+}
+
+/** One point of a phase noise mask. */
+export interface PhaseNoisePoint {
+  /** Offset from the carrier in Hz. */
+  offset: number;
+  /** Single-sideband phase noise in dBc/Hz. */
+  level: number;
+}
+
+export interface PhaseNoiseConfig {
+  /** Points in increasing offset; the level is interpolated on a log-frequency axis and held beyond the ends. */
+  mask: PhaseNoisePoint[];
+  seed: number;
+}
+
+/** Gain and phase mismatch between the receiver's I and Q branches. */
+export interface IqImbalance {
+  /** Gain of the I branch over the Q branch, in dB. */
+  gainDb: number;
+  /** Departure of the two mixers from quadrature, in radians. */
+  phase: number;
+}
+
+/** Receiver front-end impairments; each is left out when undefined. */
+export interface ImpairmentConfig {
+  /** Carrier frequency offset of the local oscillator, in Hz. */
+  cfo?: number;
+  phaseNoise?: PhaseNoiseConfig;
+  iqImbalance?: IqImbalance;
+  /** DC offset of I and Q, relative to the carrier amplitude. */
+  dcOffset?: Complex;
+}
+
+export type AmplifierModel = 'saleh' | 'rapp' | 'polynomial';
+
+/**
+ * Memoryless power amplifier acting on the complex envelope. Amplitudes
+ * are relative to the input saturation amplitude of 1, and every model has
+ * unit small-signal gain.
+ */
+export interface AmplifierConfig {
+  model: AmplifierModel;
+  /** Mean input power below input saturation, in dB. */
+  inputBackoffDb: number;
+  /** Smoothness p of the Rapp model's knee. */
+  smoothness?: number;
+}
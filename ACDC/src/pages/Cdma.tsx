@@ -0,0 +1,7 @@
+import CdmaSimulator from "@/components/CdmaSimulator";
+
+const Cdma = () => {
+  return <CdmaSimulator />;
+};
+
+export default Cdma;
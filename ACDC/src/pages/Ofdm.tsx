@@ -0,0 +1,7 @@
+import OfdmSimulator from "@/components/OfdmSimulator";
+
+const Ofdm = () => {
+  return <OfdmSimulator />;
+};
+
+export default Ofdm;
@@ -0,0 +1,7 @@
+import PcmSimulator from "@/components/PcmSimulator";
+
+const Pcm = () => {
+  return <PcmSimulator />;
+};
+
+export default Pcm;
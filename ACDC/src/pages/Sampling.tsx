@@ -0,0 +1,7 @@
+import SamplingSimulator from "@/components/SamplingSimulator";
+
+const Sampling = () => {
+  return <SamplingSimulator />;
+};
+
+export default Sampling;
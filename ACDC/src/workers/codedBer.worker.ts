@@ -0,0 +1,36 @@
+import { simulateCodedBer } from '@/lib/ber';
+import type { ChannelCodingConfig } from '@/lib/types';
+
+export interface CodedBerRequest {
+  config: ChannelCodingConfig;
+  ebN0Db: number[];
+  /** Also simulate soft decisions, which only the convolutional codes take. */
+  soft: boolean;
+  /** Data bits simulated per point. */
+  bits: number;
+}
+
+export type CodedBerUpdate =
+  | { type: 'curve'; decisions: 'hard' | 'soft'; ber: number[] }
+  | { type: 'done' }
+  | { type: 'error'; message: string };
+
+const post = (update: CodedBerUpdate) => self.postMessage(update);
+
+function run({ config, ebN0Db, soft, bits }: CodedBerRequest) {
+  post({ type: 'curve', decisions: 'hard', ber: simulateCodedBer(config, ebN0Db, { bits, soft: false }) });
+  if (soft) {
+    post({ type: 'curve', decisions: 'soft', ber: simulateCodedBer(config, ebN0Db, { bits, soft: true }) });
+  }
+  post({ type: 'done' });
+}
+
+// The coding card's BER curves are simulated here, off the main thread; the
+// page starts a worker whenever the code changes and terminates the last one.
+self.onmessage = (event: MessageEvent<CodedBerRequest>) => {
+  try {
+    run(event.data);
+  } catch (error) {
+    post({ type: 'error', message: (error as Error).message });
+  }
+};
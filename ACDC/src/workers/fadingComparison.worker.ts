@@ -0,0 +1,61 @@
+import { simulateLinkBer } from '@/lib/ber';
+import { CHANNEL_SEED_OFFSETS } from '@/lib/channel';
+import { getBitsPerSymbol } from '@/lib/constellation';
+import { DEFAULT_SAMPLES_PER_BIT } from '@/lib/modulation';
+import type { AwgnConfig, FadingConfig, ModulationConfig, ModulationType } from '@/lib/types';
+
+export interface FadingComparisonRequest {
+  modTypes: ModulationType[];
+  /** Settings shared by every modulation. */
+  config: Omit<ModulationConfig, 'modType'>;
+  fading: FadingConfig;
+  /** Channel seed the fading, the noise and the data are drawn from, as in the simulator. */
+  seed: number;
+  /** The receiver knows the fading gain and divides it out. */
+  equalize: boolean;
+  ebN0Db: number;
+  /** Bits sent per modulation and channel. */
+  bits: number;
+}
+
+export type FadingComparisonUpdate =
+  | { type: 'result'; modType: ModulationType; awgnBer: number; fadingBer: number }
+  | { type: 'done' }
+  | { type: 'error'; message: string };
+
+const post = (update: FadingComparisonUpdate) => self.postMessage(update);
+
+function run({ modTypes, config: shared, fading: model, seed, equalize, ebN0Db, bits }: FadingComparisonRequest) {
+  const samplesPerBit = shared.samplesPerBit ?? DEFAULT_SAMPLES_PER_BIT;
+  const fading = { ...model, seed: seed + CHANNEL_SEED_OFFSETS.fading };
+  const noiseSeed = seed + CHANNEL_SEED_OFFSETS.noise;
+  const dataSeed = seed + CHANNEL_SEED_OFFSETS.data;
+  for (const modType of modTypes) {
+    const config: ModulationConfig = { ...shared, modType };
+    const bitsPerSymbol = getBitsPerSymbol(modType);
+    const awgn: AwgnConfig = {
+      type: 'ebn0',
+      ebN0Db,
+      samplesPerSymbol: samplesPerBit * bitsPerSymbol,
+      bitsPerSymbol,
+      seed: noiseSeed
+    };
+    post({
+      type: 'result',
+      modType,
+      awgnBer: simulateLinkBer(config, { awgn }, { bits, seed: dataSeed }),
+      fadingBer: simulateLinkBer(config, { fading, awgn, equalize }, { bits, seed: dataSeed })
+    });
+  }
+  post({ type: 'done' });
+}
+
+// Every modulation is sent through the same channel here, off the main
+// thread; the page terminates the worker to cancel a comparison.
+self.onmessage = (event: MessageEvent<FadingComparisonRequest>) => {
+  try {
+    run(event.data);
+  } catch (error) {
+    post({ type: 'error', message: (error as Error).message });
+  }
+};
@@ -0,0 +1,88 @@
+import { simulateCodedBer, simulateIterativeBer } from '@/lib/ber';
+import { ldpcCode, ldpcDecode, ldpcEncode } from '@/lib/ldpc';
+import { turboCode, turboDecode, turboEncode, turboFrameLength } from '@/lib/turbo';
+import type { IterativeCodec, ParityCheckMatrix } from '@/lib/types';
+
+export type IterativeCurve = 'conv' | 'ldpc' | 'turbo';
+
+export interface IterativeCodingRequest {
+  ldpc: ParityCheckMatrix;
+  /** Data bits per turbo frame. */
+  turboLength: number;
+  iterations: number;
+  ebN0Db: number[];
+  /** Eb/N0 of the per-iteration convergence runs. */
+  convergenceEbN0Db: number;
+  /** Data bits simulated per point. */
+  bits: number;
+}
+
+export type IterativeCodingUpdate =
+  | { type: 'codes'; ldpc: { n: number; k: number }; turbo: { n: number; k: number } }
+  | { type: 'convergence'; curve: 'ldpc' | 'turbo'; ber: number[] }
+  | { type: 'point'; curve: IterativeCurve; index: number; ber: number }
+  | { type: 'done' }
+  | { type: 'error'; message: string };
+
+const post = (update: IterativeCodingUpdate) => self.postMessage(update);
+
+function run({ ldpc: matrix, turboLength, iterations, ebN0Db, convergenceEbN0Db, bits }: IterativeCodingRequest) {
+  const ldpc = ldpcCode(matrix);
+  const turbo = turboCode(turboLength);
+  const codecs: Record<'ldpc' | 'turbo', IterativeCodec> = {
+    ldpc: {
+      dataLength: ldpc.k,
+      frameLength: ldpc.n,
+      encode: (data) => ldpcEncode(data, ldpc),
+      decode: (received, noiseVariance, limit) => ldpcDecode(received, ldpc, noiseVariance, limit)
+    },
+    turbo: {
+      dataLength: turbo.length,
+      frameLength: turboFrameLength(turbo),
+      encode: (data) => turboEncode(data, turbo),
+      decode: (received, noiseVariance, limit) => turboDecode(received, turbo, noiseVariance, limit)
+    }
+  };
+  post({
+    type: 'codes',
+    ldpc: { n: ldpc.n, k: ldpc.k },
+    turbo: { n: turboFrameLength(turbo), k: turbo.length }
+  });
+
+  for (const curve of ['ldpc', 'turbo'] as const) {
+    post({
+      type: 'convergence',
+      curve,
+      ber: simulateIterativeBer(codecs[curve], convergenceEbN0Db, { bits, iterations })
+    });
+  }
+
+  // A curve that has reached zero errors only gets more expensive to extend
+  const finished = new Set<IterativeCurve>();
+  ebN0Db.forEach((db, index) => {
+    for (const curve of ['conv', 'ldpc', 'turbo'] as const) {
+      if (finished.has(curve)) continue;
+      let ber: number;
+      if (curve === 'conv') {
+        ber = simulateCodedBer({ code: 'conv12' }, [db], { bits, soft: true })[0];
+      } else {
+        const perIteration = simulateIterativeBer(codecs[curve], db, { bits, iterations });
+        ber = perIteration[perIteration.length - 1];
+      }
+      post({ type: 'point', curve, index, ber });
+      if (ber === 0) finished.add(curve);
+    }
+  });
+  post({ type: 'done' });
+}
+
+// LDPC and turbo simulations run here, off the main thread. The page posts
+// one request per run and terminates the worker to cancel it; results come
+// back point by point so the charts fill in as they go.
+self.onmessage = (event: MessageEvent<IterativeCodingRequest>) => {
+  try {
+    run(event.data);
+  } catch (error) {
+    post({ type: 'error', message: (error as Error).message });
+  }
+};